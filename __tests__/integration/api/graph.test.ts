@@ -0,0 +1,178 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest, NextResponse } from "next/server";
+import { User as PrismaUser } from "@prisma/client";
+import { GET } from "@/app/api/projects/[id]/graph/route";
+import { authorizeProject } from "@/lib/authorization";
+import { ProjectService, TaskService } from "@/lib/db";
+import { DependencyGraphTask } from "@/lib/dependency-graph";
+import { DependencyGraph } from "@/lib/types";
+import { DEFAULT_WORKFLOW } from "@/lib/workflow";
+
+jest.mock("@/lib/auth-utils", () => ({
+  getCurrentUser: jest.fn(),
+}));
+
+jest.mock("@/lib/authorization", () => ({
+  ...jest.requireActual("@/lib/authorization"),
+  authorizeProject: jest.fn(),
+}));
+
+jest.mock("@/lib/db", () => ({
+  ProjectService: { findWorkflow: jest.fn() },
+  TaskService: { findDependencyGraphTasks: jest.fn() },
+}));
+
+const user = { id: "user-1", email: "user@example.com" };
+
+const task = (
+  id: string,
+  dependencies: string[] = [],
+  overrides: Partial<DependencyGraphTask> = {}
+): DependencyGraphTask => ({
+  id,
+  title: `Task ${id}`,
+  status: "TODO",
+  dependencies,
+  configuration: { priority: "MEDIUM", tags: [], customFields: {} },
+  ...overrides,
+});
+
+describe("GET /api/projects/[id]/graph", () => {
+  // NextResponse is mocked in jest.setup.js, so read what the route passed it
+  const getGraph = async () => {
+    await GET(
+      new NextRequest("http://localhost:3000/api/projects/project-1/graph"),
+      { params: Promise.resolve({ id: "project-1" }) }
+    );
+    const [body, init] = jest.mocked(NextResponse.json).mock.calls[0];
+    return {
+      status: init?.status ?? 200,
+      body: body as { success: boolean; data: DependencyGraph; error?: string },
+    };
+  };
+
+  const withTasks = (tasks: DependencyGraphTask[]) =>
+    jest.mocked(TaskService.findDependencyGraphTasks).mockResolvedValue(tasks);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(authorizeProject).mockResolvedValue({
+      success: true,
+      data: {
+        user: user as PrismaUser,
+        projectId: "project-1",
+        role: "VIEWER",
+      },
+    });
+    jest
+      .mocked(ProjectService.findWorkflow)
+      .mockResolvedValue(DEFAULT_WORKFLOW);
+  });
+
+  it("should return the project's graph", async () => {
+    withTasks([
+      task("a", [], { estimate: 2 }),
+      task("b", ["a"], { estimate: 3 }),
+      task("c", ["a"]),
+    ]);
+
+    const { status, body } = await getGraph();
+
+    expect(status).toBe(200);
+    expect(TaskService.findDependencyGraphTasks).toHaveBeenCalledWith(
+      "project-1"
+    );
+    expect(body.success).toBe(true);
+    expect(body.data).toMatchObject({
+      order: ["a", "b", "c"],
+      edges: [
+        { from: "a", to: "b" },
+        { from: "a", to: "c" },
+      ],
+      criticalPath: ["a", "b"],
+      duration: 5,
+      ready: ["a"],
+      cyclic: [],
+    });
+  });
+
+  it("should drop edges to tasks outside the project", async () => {
+    withTasks([task("a", ["other-project-task"]), task("b", ["a", "gone"])]);
+
+    const { body } = await getGraph();
+
+    expect(body.data.edges).toEqual([{ from: "a", to: "b" }]);
+    expect(body.data.nodes[0]).toMatchObject({
+      id: "a",
+      dependencies: [],
+      depth: 0,
+    });
+    expect(body.data.ready).toEqual(["a"]);
+  });
+
+  it("should list tasks in a cycle without scheduling them", async () => {
+    withTasks([task("a"), task("b", ["a", "c"]), task("c", ["b"])]);
+
+    const { status, body } = await getGraph();
+
+    expect(status).toBe(200);
+    expect(body.data.order).toEqual(["a"]);
+    expect(body.data.cyclic).toEqual(["b", "c"]);
+    expect(body.data.criticalPath).not.toContain("b");
+    expect(body.data.nodes.find((node) => node.id === "c")).toMatchObject({
+      depth: null,
+      earliestStart: null,
+      slack: null,
+    });
+  });
+
+  it("should weigh tasks by the project's workflow", async () => {
+    jest.mocked(ProjectService.findWorkflow).mockResolvedValue({
+      statuses: [
+        { key: "OPEN", label: "Open", color: "#000", category: "NOT_STARTED" },
+        { key: "SHIPPED", label: "Shipped", color: "#000", category: "DONE" },
+      ],
+      transitions: {},
+    });
+    withTasks([
+      task("a", [], { status: "SHIPPED", estimate: 8 }),
+      task("b", ["a"], { status: "OPEN", estimate: 2 }),
+    ]);
+
+    const { body } = await getGraph();
+
+    expect(body.data.duration).toBe(2);
+    expect(body.data.ready).toEqual(["b"]);
+  });
+
+  it("should return the access error without reading the project", async () => {
+    jest.mocked(authorizeProject).mockResolvedValue({
+      success: false,
+      status: 404,
+      error: "Project not found",
+    });
+
+    const { status, body } = await getGraph();
+
+    expect(status).toBe(404);
+    expect(body).toEqual({ success: false, error: "Project not found" });
+    expect(TaskService.findDependencyGraphTasks).not.toHaveBeenCalled();
+  });
+
+  it("should return 500 when the tasks cannot be loaded", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest
+      .mocked(TaskService.findDependencyGraphTasks)
+      .mockRejectedValue(new Error("connection lost"));
+
+    const { status, body } = await getGraph();
+
+    expect(status).toBe(500);
+    expect(body).toEqual({
+      success: false,
+      error: "Failed to build dependency graph",
+    });
+  });
+});
@@ -1,8 +1,13 @@
 /**
  * @jest-environment node
  */
+import { readFileSync } from "fs";
+import { join } from "path";
+import { Client } from "pg";
+import { ActivityService, TaskDescriptionService } from "@/lib/db";
 import {
   TestDatabase,
+  TEST_DATABASE_URL,
   setupTestDatabase,
   teardownTestDatabase,
 } from "../../setup/test-db";
@@ -521,4 +526,70 @@ describe("Database Operations", () => {
       expect(user).toBeNull();
     });
   });
+
+  describe("Activity Log", () => {
+    // Install the append-only trigger exactly as setup.sql defines it
+    beforeAll(async () => {
+      const setup = readFileSync(join(process.cwd(), "setup.sql"), "utf8");
+      const start = setup.indexOf("-- The activity log is append-only");
+      const end = setup.indexOf("-- Create a function", start);
+      const client = new Client({ connectionString: TEST_DATABASE_URL });
+      await client.connect();
+      try {
+        await client.query(setup.slice(start, end));
+      } finally {
+        await client.end();
+      }
+    });
+
+    const context = { actorId: "test-user-1", operationId: "op-1" };
+
+    it("should reject updates to activities", async () => {
+      const activity = await testDb.getPrisma().activity.create({
+        data: {
+          id: "test-activity-1",
+          projectId: "test-project-1",
+          taskId: "test-task-1",
+          entityType: "TASK",
+          action: "UPDATED",
+          actorId: "test-user-1",
+          changes: { title: { before: "Old", after: "New" } },
+          operationId: "op-1",
+        },
+      });
+
+      await expect(
+        testDb.getPrisma().activity.update({
+          where: { id: activity.id },
+          data: { changes: {} },
+        })
+      ).rejects.toThrow("activities are append-only");
+    });
+
+    it("should log a description editing session as one entry", async () => {
+      await TaskDescriptionService.applyOperation(
+        "test-task-1",
+        { revision: 0, operation: ["Hello"], clientId: "editor-1" },
+        context
+      );
+      await TaskDescriptionService.applyOperation(
+        "test-task-1",
+        { revision: 1, operation: [5, " world"], clientId: "editor-1" },
+        context
+      );
+
+      const { activities } = await ActivityService.findByTask("test-task-1", {
+        limit: 50,
+      });
+      expect(activities).toHaveLength(1);
+      expect(activities[0].changes).toEqual({
+        description: { before: null, after: "Hello world" },
+      });
+      expect(
+        await testDb.getPrisma().activity.count({
+          where: { taskId: "test-task-1" },
+        })
+      ).toBe(2);
+    });
+  });
 });
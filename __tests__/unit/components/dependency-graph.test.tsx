@@ -0,0 +1,196 @@
+import "@testing-library/jest-dom";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { DependencyGraphView } from "@/components/dependency-graph";
+import { apiClient } from "@/lib/api-client";
+import {
+  buildDependencyGraph,
+  DependencyGraphTask,
+} from "@/lib/dependency-graph";
+import { useAppStore } from "@/lib/store";
+import { ParsedProject } from "@/lib/types";
+
+jest.mock("@/lib/store", () => ({
+  useAppStore: jest.fn(),
+}));
+
+jest.mock("@/lib/api-client", () => ({
+  apiClient: {
+    getDependencyGraph: jest.fn(),
+    updateTask: jest.fn(),
+  },
+}));
+
+// jsdom has no PointerEvent, and a plain Event would drop the button and
+// coordinates the view reads
+class PointerEvent extends MouseEvent {}
+window.PointerEvent = PointerEvent as typeof window.PointerEvent;
+
+const task = (
+  id: string,
+  dependencies: string[] = [],
+  overrides: Partial<DependencyGraphTask> = {}
+): DependencyGraphTask => ({
+  id,
+  title: `Task ${id}`,
+  status: "TODO",
+  dependencies,
+  configuration: { priority: "MEDIUM", tags: [], customFields: {} },
+  ...overrides,
+});
+
+describe("DependencyGraphView", () => {
+  let onSelectTask: jest.Mock;
+  let setTasks: jest.Mock;
+
+  const withGraph = (tasks: DependencyGraphTask[]) =>
+    jest.mocked(apiClient.getDependencyGraph).mockResolvedValue({
+      success: true,
+      data: buildDependencyGraph(tasks),
+    });
+
+  const withRole = (role: ParsedProject["role"]) =>
+    jest.mocked(useAppStore).mockReturnValue({
+      tasks: [],
+      setTasks,
+      currentProject: { id: "project-1", workflow: null, role },
+    });
+
+  const renderGraph = async () => {
+    const view = render(
+      <DependencyGraphView projectId="project-1" onSelectTask={onSelectTask} />
+    );
+    // The graph is fetched after a short debounce
+    await screen.findByText("Task a");
+    return view;
+  };
+
+  const nodeOf = (title: string) =>
+    screen.getByText(title).parentElement as HTMLElement;
+
+  // Press on one node and release on another, moving past the drag threshold
+  const drag = (from: string, to: string) => {
+    fireEvent.pointerDown(nodeOf(from), { button: 0, clientX: 0, clientY: 0 });
+    fireEvent.pointerMove(nodeOf(from), { clientX: 50, clientY: 50 });
+    fireEvent.pointerUp(nodeOf(to), { clientX: 300, clientY: 50 });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    onSelectTask = jest.fn();
+    setTasks = jest.fn();
+    withRole("MEMBER");
+  });
+
+  it("should show each task with its status and schedule", async () => {
+    withGraph([
+      task("a", [], { status: "DONE" }),
+      task("b", ["a"], { estimate: 3 }),
+      task("c", ["b"]),
+    ]);
+
+    await renderGraph();
+
+    expect(nodeOf("Task a")).toHaveTextContent("Done");
+    expect(nodeOf("Task b")).toHaveTextContent("To Do · ready · critical");
+    expect(nodeOf("Task c")).toHaveAttribute(
+      "title",
+      "Blocked by unfinished dependencies"
+    );
+  });
+
+  it("should mark tasks caught in a cycle", async () => {
+    withGraph([task("a"), task("b", ["c"]), task("c", ["b"])]);
+
+    await renderGraph();
+
+    expect(nodeOf("Task b")).toHaveAttribute(
+      "title",
+      "Part of a dependency cycle"
+    );
+    expect(nodeOf("Task a")).not.toHaveAttribute("title");
+  });
+
+  it("should draw blocked chains dashed and the critical path thick", async () => {
+    withGraph([
+      task("a", [], { status: "DONE" }),
+      task("b", ["a"]),
+      task("c", ["b"]),
+    ]);
+
+    const { container } = await renderGraph();
+
+    const edges = container.querySelectorAll("path[marker-end]");
+    expect(edges).toHaveLength(2);
+    // a is done, so only the chain from b to c is blocked and left to do
+    expect(edges[0]).not.toHaveAttribute("stroke-dasharray");
+    expect(edges[0]).toHaveAttribute("stroke-width", "1.5");
+    expect(edges[1]).toHaveAttribute("stroke-dasharray", "6 4");
+    expect(edges[1]).toHaveAttribute("stroke-width", "3");
+  });
+
+  it("should open a task that is clicked", async () => {
+    withGraph([task("a")]);
+    await renderGraph();
+
+    fireEvent.pointerDown(nodeOf("Task a"), { button: 0 });
+    fireEvent.pointerUp(nodeOf("Task a"));
+
+    expect(onSelectTask).toHaveBeenCalledWith("a");
+  });
+
+  it("should add a dependency when a task is dragged onto another", async () => {
+    withGraph([task("a"), task("b")]);
+    jest.mocked(apiClient.updateTask).mockResolvedValue({
+      success: true,
+      data: { id: "b" } as never,
+    });
+    await renderGraph();
+
+    drag("Task a", "Task b");
+
+    expect(apiClient.updateTask).toHaveBeenCalledWith("b", {
+      dependencies: ["a"],
+    });
+    expect(onSelectTask).not.toHaveBeenCalled();
+    // The graph is loaded again to show the new edge
+    await waitFor(() =>
+      expect(apiClient.getDependencyGraph).toHaveBeenCalledTimes(2)
+    );
+  });
+
+  it("should refuse a dependency that would close a cycle", async () => {
+    withGraph([task("a"), task("b", ["a"])]);
+    await renderGraph();
+
+    drag("Task b", "Task a");
+
+    expect(
+      screen.getByText("That would create a cycle: Task a → Task b → Task a")
+    ).toBeInTheDocument();
+    expect(apiClient.updateTask).not.toHaveBeenCalled();
+  });
+
+  it("should not let viewers add dependencies", async () => {
+    withRole("VIEWER");
+    withGraph([task("a"), task("b")]);
+    await renderGraph();
+
+    expect(screen.getByText("Click a task to open it")).toBeInTheDocument();
+    drag("Task a", "Task b");
+
+    expect(apiClient.updateTask).not.toHaveBeenCalled();
+  });
+
+  it("should show why the graph could not be loaded", async () => {
+    jest.mocked(apiClient.getDependencyGraph).mockResolvedValue({
+      success: false,
+      error: "Project not found",
+    });
+
+    render(
+      <DependencyGraphView projectId="project-1" onSelectTask={onSelectTask} />
+    );
+
+    expect(await screen.findByText("Project not found")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * @jest-environment node
+ */
+import {
+  authorizeAttachment,
+  authorizeAttachmentModification,
+  authorizeComment,
+  authorizeCommentModification,
+  authorizeProject,
+  authorizeTask,
+} from "@/lib/authorization";
+import { getCurrentUser } from "@/lib/auth-utils";
+import {
+  AttachmentService,
+  CommentService,
+  ProjectMemberService,
+  TaskService,
+} from "@/lib/db";
+
+jest.mock("@/lib/auth-utils", () => ({
+  getCurrentUser: jest.fn(),
+}));
+
+jest.mock("@/lib/db", () => ({
+  ProjectMemberService: { getAccess: jest.fn() },
+  TaskService: { findById: jest.fn() },
+  CommentService: { findById: jest.fn() },
+  AttachmentService: { findById: jest.fn() },
+}));
+
+const user = { id: "user-1", email: "user@example.com" };
+const task = { id: "task-1", projectId: "project-1" };
+const comment = { id: "comment-1", taskId: "task-1", authorId: "user-2" };
+const attachment = {
+  id: "attachment-1",
+  taskId: "task-1",
+  uploadedBy: "user-2",
+};
+
+const mockAccess = (role: string | null) =>
+  (ProjectMemberService.getAccess as jest.Mock).mockResolvedValue({
+    projectId: "project-1",
+    role,
+  });
+
+describe("Authorization", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getCurrentUser as jest.Mock).mockResolvedValue({
+      success: true,
+      data: user,
+    });
+    (TaskService.findById as jest.Mock).mockResolvedValue(task);
+    (CommentService.findById as jest.Mock).mockResolvedValue(comment);
+    (AttachmentService.findById as jest.Mock).mockResolvedValue(attachment);
+  });
+
+  describe("authorizeProject", () => {
+    it("should return 401 when the user is not signed in", async () => {
+      (getCurrentUser as jest.Mock).mockResolvedValue({
+        success: false,
+        error: "Unauthorized",
+      });
+
+      const result = await authorizeProject("project-1");
+
+      expect(result).toEqual({
+        success: false,
+        error: "Unauthorized",
+        status: 401,
+      });
+    });
+
+    it("should return 404 for users outside the project", async () => {
+      mockAccess(null);
+
+      const result = await authorizeProject("project-1");
+
+      expect(result).toMatchObject({ success: false, status: 404 });
+    });
+
+    it("should return 403 when the role is too low", async () => {
+      mockAccess("VIEWER");
+
+      const result = await authorizeProject("project-1", "MEMBER");
+
+      expect(result).toMatchObject({ success: false, status: 403 });
+    });
+
+    it("should resolve the user and role for members", async () => {
+      mockAccess("ADMIN");
+
+      const result = await authorizeProject("project-1", "MEMBER");
+
+      expect(result).toEqual({
+        success: true,
+        data: { user, projectId: "project-1", role: "ADMIN" },
+      });
+    });
+  });
+
+  describe("authorizeTask", () => {
+    it("should return 404 when the task does not exist", async () => {
+      (TaskService.findById as jest.Mock).mockResolvedValue(null);
+
+      const result = await authorizeTask("task-missing");
+
+      expect(result).toEqual({
+        success: false,
+        error: "Task not found",
+        status: 404,
+      });
+      expect(ProjectMemberService.getAccess).not.toHaveBeenCalled();
+    });
+
+    it("should hide tasks in projects the user cannot access", async () => {
+      mockAccess(null);
+
+      const result = await authorizeTask("task-1");
+
+      expect(result).toEqual({
+        success: false,
+        error: "Task not found",
+        status: 404,
+      });
+    });
+
+    it("should check access against the task's project", async () => {
+      mockAccess("MEMBER");
+
+      const result = await authorizeTask("task-1", "MEMBER");
+
+      expect(ProjectMemberService.getAccess).toHaveBeenCalledWith(
+        "project-1",
+        "user-1"
+      );
+      expect(result).toMatchObject({
+        success: true,
+        data: { task, role: "MEMBER" },
+      });
+    });
+  });
+
+  describe("authorizeComment", () => {
+    it("should resolve comment -> task -> project", async () => {
+      mockAccess("VIEWER");
+
+      const result = await authorizeComment("comment-1");
+
+      expect(TaskService.findById).toHaveBeenCalledWith("task-1");
+      expect(result).toMatchObject({
+        success: true,
+        data: { comment, task, role: "VIEWER" },
+      });
+    });
+
+    it("should return 404 when the comment does not exist", async () => {
+      (CommentService.findById as jest.Mock).mockResolvedValue(null);
+
+      const result = await authorizeComment("comment-missing");
+
+      expect(result).toMatchObject({ success: false, status: 404 });
+    });
+  });
+
+  describe("authorizeCommentModification", () => {
+    const access = {
+      user,
+      projectId: "project-1",
+      role: "MEMBER" as const,
+      task,
+      comment,
+    } as unknown as Parameters<typeof authorizeCommentModification>[0];
+
+    it("should reject members who did not write the comment", () => {
+      const result = authorizeCommentModification(access);
+
+      expect(result).toMatchObject({ success: false, status: 403 });
+    });
+
+    it("should allow the comment author", () => {
+      const result = authorizeCommentModification({
+        ...access,
+        comment: { ...access.comment, authorId: "user-1" },
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should allow project admins", () => {
+      const result = authorizeCommentModification({ ...access, role: "ADMIN" });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("authorizeAttachment", () => {
+    it("should resolve attachment -> task -> project", async () => {
+      mockAccess("VIEWER");
+
+      const result = await authorizeAttachment("attachment-1");
+
+      expect(TaskService.findById).toHaveBeenCalledWith("task-1");
+      expect(result).toMatchObject({
+        success: true,
+        data: { attachment, task, role: "VIEWER" },
+      });
+    });
+
+    it("should hide attachments from users outside the project", async () => {
+      mockAccess(null);
+
+      const result = await authorizeAttachment("attachment-1");
+
+      expect(result).toEqual({
+        success: false,
+        error: "Attachment not found",
+        status: 404,
+      });
+    });
+  });
+
+  describe("authorizeAttachmentModification", () => {
+    const access = {
+      user,
+      projectId: "project-1",
+      role: "MEMBER" as const,
+      task,
+      attachment,
+    } as unknown as Parameters<typeof authorizeAttachmentModification>[0];
+
+    it("should reject members who did not upload the attachment", () => {
+      const result = authorizeAttachmentModification(access);
+
+      expect(result).toMatchObject({ success: false, status: 403 });
+    });
+
+    it("should allow the uploader and project admins", () => {
+      expect(
+        authorizeAttachmentModification({
+          ...access,
+          attachment: { ...access.attachment, uploadedBy: "user-1" },
+        }).success
+      ).toBe(true);
+      expect(
+        authorizeAttachmentModification({ ...access, role: "ADMIN" }).success
+      ).toBe(true);
+    });
+
+    it("should leave attachments of deleted users to project admins", () => {
+      const orphaned = {
+        ...access,
+        attachment: { ...access.attachment, uploadedBy: null },
+      };
+
+      expect(authorizeAttachmentModification(orphaned).success).toBe(false);
+      expect(
+        authorizeAttachmentModification({ ...orphaned, role: "ADMIN" }).success
+      ).toBe(true);
+    });
+  });
+});
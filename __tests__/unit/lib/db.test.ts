@@ -0,0 +1,711 @@
+/**
+ * @jest-environment node
+ */
+import { getAttachmentStorage } from "@/lib/attachments";
+import {
+  OUTBOX_CHANNEL,
+  ProjectService,
+  TaskDescriptionService,
+  TaskService,
+  TransactionService,
+  UserService,
+  prisma,
+} from "@/lib/db";
+import { Workflow } from "@/lib/types";
+import { DEFAULT_WORKFLOW } from "@/lib/workflow";
+
+// Services run against a stand-in transaction client; each test gives it the
+// tables the code under test touches
+jest.mock("@prisma/client", () => ({
+  ...jest.requireActual("@prisma/client"),
+  PrismaClient: jest.fn(),
+}));
+
+jest.mock("@/lib/attachments", () => {
+  const storage = { delete: jest.fn(() => Promise.resolve()) };
+  return { getAttachmentStorage: () => storage };
+});
+
+const context = { actorId: "user-1", operationId: "op-1" };
+
+const createTransaction = () => ({
+  activity: { create: jest.fn() },
+  outboxEvent: { create: jest.fn() },
+  $executeRaw: jest.fn(),
+  $queryRaw: jest.fn(),
+});
+
+type TaskRow = {
+  id: string;
+  projectId: string;
+  title: string;
+  status: string;
+  dependencies: string[];
+  version: number;
+  configuration?: Record<string, unknown>;
+  descriptionRevision?: number;
+};
+
+const createTaskRow = (overrides: Partial<TaskRow>): TaskRow => ({
+  id: "task-1",
+  projectId: "project-1",
+  title: "Task",
+  status: "TODO",
+  dependencies: [],
+  version: 1,
+  ...overrides,
+});
+
+type TaskQuery = {
+  where: {
+    id?: string | { in: string[] };
+    projectId?: string;
+    dependencies?: { has: string };
+  };
+};
+
+// A project's tasks as the task table, for the reads dependency checks make
+const withTasks = (
+  tx: ReturnType<typeof createTransaction>,
+  rows: TaskRow[],
+  {
+    autoBlock,
+    workflow = null,
+  }: { autoBlock: boolean; workflow?: Workflow | null }
+) => {
+  const find = ({ where }: TaskQuery) =>
+    rows.filter((row) =>
+      typeof where.id === "object"
+        ? where.id.in.includes(row.id)
+        : (where.id ?? row.id) === row.id &&
+          (where.projectId ?? row.projectId) === row.projectId &&
+          (!where.dependencies ||
+            row.dependencies.includes(where.dependencies.has))
+    );
+  const write = ({
+    where,
+    data,
+  }: {
+    where?: { id: string };
+    data: object;
+  }) => {
+    const row = rows.find((r) => r.id === where?.id);
+    const { version, ...changes } = data as Partial<TaskRow> & {
+      version?: { increment: number };
+    };
+    return {
+      ...row,
+      ...changes,
+      version: row ? row.version + (version?.increment ?? 0) : 1,
+    };
+  };
+
+  const task = {
+    findMany: jest.fn(find),
+    findUnique: jest.fn((query: TaskQuery) => find(query)[0] ?? null),
+    create: jest.fn(write),
+    // Updates are kept, so cascades read the statuses the write left
+    update: jest.fn((query: Parameters<typeof write>[0]) => {
+      const updated = write(query);
+      const index = rows.findIndex((row) => row.id === query.where?.id);
+      if (index !== -1) rows[index] = updated as TaskRow;
+      return updated;
+    }),
+    delete: jest.fn(),
+  };
+  Object.assign(tx, {
+    project: {
+      findUnique: jest.fn(() => ({ workflow, autoBlock })),
+    },
+    task,
+    attachment: { findMany: jest.fn(() => []) },
+  });
+  return task;
+};
+
+// Outbox events of one type, in the order they were recorded
+const recordedEvents = (
+  tx: ReturnType<typeof createTransaction>,
+  type: string
+) =>
+  tx.outboxEvent.create.mock.calls
+    .map(([{ data }]) => data)
+    .filter((data) => data.type === type);
+
+const eventPayloads = (
+  tx: ReturnType<typeof createTransaction>,
+  type: string
+) => recordedEvents(tx, type).map((data) => data.payload);
+
+describe("Database Services", () => {
+  let tx: ReturnType<typeof createTransaction>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tx = createTransaction();
+    Object.assign(prisma, {
+      $transaction: jest.fn((write: (client: typeof tx) => unknown) =>
+        write(tx)
+      ),
+    });
+  });
+
+  describe("recordEvent", () => {
+    it("should queue the room event in the write's transaction and notify the relay", async () => {
+      const project = {
+        id: "project-1",
+        name: "Project",
+        description: null,
+        metadata: null,
+        ownerId: "user-1",
+      };
+      Object.assign(tx, { project: { create: jest.fn(() => project) } });
+
+      await ProjectService.create(
+        { name: "Project", ownerId: "user-1" },
+        context
+      );
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(tx.outboxEvent.create).toHaveBeenCalledWith({
+        data: {
+          id: expect.any(String),
+          projectId: "project-1",
+          type: "PROJECT_UPDATE",
+          payload: expect.objectContaining({
+            type: "PROJECT_CREATE",
+            operationId: "op-1",
+          }),
+          userId: null,
+          operationId: "op-1",
+          createdAt: expect.any(Date),
+        },
+      });
+      expect(tx.$executeRaw).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.stringContaining("pg_notify")]),
+        OUTBOX_CHANNEL
+      );
+      expect(tx.outboxEvent.create.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.$executeRaw.mock.invocationCallOrder[0]
+      );
+    });
+  });
+
+  describe("ProjectService", () => {
+    describe("findByUserId", () => {
+      it("should count each project's tasks instead of loading them", async () => {
+        const findMany = jest.fn(() => [
+          {
+            id: "project-1",
+            name: "Project",
+            ownerId: "user-2",
+            members: [{ userId: "user-1", role: "MEMBER" }],
+            _count: { tasks: 3 },
+          },
+        ]);
+        Object.assign(prisma, { project: { findMany } });
+
+        const projects = await ProjectService.findByUserId("user-1");
+
+        expect(findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            include: { members: true, _count: { select: { tasks: true } } },
+          })
+        );
+        expect(projects).toEqual([
+          expect.objectContaining({
+            id: "project-1",
+            role: "MEMBER",
+            taskCount: 3,
+          }),
+        ]);
+        expect(projects[0]).not.toHaveProperty("_count");
+      });
+    });
+  });
+
+  describe("TaskService", () => {
+    describe("create", () => {
+      const createTask = (status?: "TODO" | "IN_PROGRESS") =>
+        TaskService.create(
+          {
+            projectId: "project-1",
+            title: "New task",
+            status,
+            dependencies: ["task-1"],
+          } as Parameters<typeof TaskService.create>[0],
+          context
+        );
+
+      it("should block a task created with open dependencies in an autoBlock project", async () => {
+        withTasks(tx, [createTaskRow({ status: "IN_PROGRESS" })], {
+          autoBlock: true,
+        });
+
+        const task = await createTask("IN_PROGRESS");
+
+        expect(task.status).toBe("BLOCKED");
+        expect(task.dependencies).toEqual(["task-1"]);
+        expect(eventPayloads(tx, "TASK_CREATE")).toEqual([
+          expect.objectContaining({ status: "BLOCKED" }),
+        ]);
+      });
+
+      it("should keep the status when all dependencies are done", async () => {
+        withTasks(tx, [createTaskRow({ status: "DONE" })], {
+          autoBlock: true,
+        });
+
+        const task = await createTask("IN_PROGRESS");
+
+        expect(task.status).toBe("IN_PROGRESS");
+      });
+
+      it("should keep the status in projects without autoBlock", async () => {
+        withTasks(tx, [createTaskRow({ status: "TODO" })], {
+          autoBlock: false,
+        });
+
+        const task = await createTask();
+
+        expect(task.status).toBe("TODO");
+      });
+    });
+
+    describe("list", () => {
+      let queryRaw: jest.Mock;
+      let findMany: jest.Mock;
+
+      beforeEach(() => {
+        queryRaw = jest.fn(() => [{ id: "task-2" }]);
+        findMany = jest.fn(() => []);
+        Object.assign(prisma, { $queryRaw: queryRaw, task: { findMany } });
+      });
+
+      const list = (q: string) =>
+        TaskService.list("project-1", "user-1", {
+          q,
+          sort: "createdAt",
+          order: "desc",
+          limit: 50,
+        } as Parameters<typeof TaskService.list>[2]);
+
+      it("should match titles and descriptions ignoring case", async () => {
+        await list("Login Bug");
+
+        const [sql, ...values] = queryRaw.mock.calls[0];
+        expect(sql.join("?")).toMatch(
+          /title ILIKE \?\s+OR configuration->>'description' ILIKE \?/
+        );
+        expect(values).toEqual(["project-1", "%Login Bug%", "%Login Bug%"]);
+        expect(findMany.mock.calls[0][0].where.AND).toContainEqual({
+          id: { in: ["task-2"] },
+        });
+      });
+
+      it("should match wildcard characters literally", async () => {
+        await list("100%_done\\");
+
+        expect(queryRaw.mock.calls[0][2]).toBe("%100\\%\\_done\\\\%");
+      });
+    });
+
+    describe("delete", () => {
+      const tasks = () => [
+        createTaskRow({ id: "task-1", status: "IN_PROGRESS" }),
+        createTaskRow({
+          id: "task-2",
+          status: "BLOCKED",
+          dependencies: ["task-1", "task-3"],
+        }),
+        createTaskRow({ id: "task-3", status: "TODO" }),
+        createTaskRow({
+          id: "task-4",
+          status: "BLOCKED",
+          dependencies: ["task-1"],
+        }),
+      ];
+
+      it("should remove the task from its dependents' dependencies", async () => {
+        const taskTable = withTasks(tx, tasks(), { autoBlock: false });
+
+        const dependents = await TaskService.delete("task-1", context);
+
+        expect(taskTable.delete).toHaveBeenCalledWith({
+          where: { id: "task-1" },
+        });
+        expect(dependents).toEqual([
+          expect.objectContaining({
+            id: "task-2",
+            dependencies: ["task-3"],
+            status: "BLOCKED",
+            version: 2,
+          }),
+          expect.objectContaining({
+            id: "task-4",
+            dependencies: [],
+            status: "BLOCKED",
+            version: 2,
+          }),
+        ]);
+      });
+
+      it("should broadcast the delete and each dependent's new dependencies", async () => {
+        withTasks(tx, tasks(), { autoBlock: true });
+
+        await TaskService.delete("task-1", context);
+
+        expect(eventPayloads(tx, "TASK_DELETE")).toEqual([
+          { taskId: "task-1" },
+        ]);
+        // Server-made changes reach everyone, the deleting user too
+        expect(
+          recordedEvents(tx, "TASK_UPDATE").map((data) => data.userId)
+        ).toEqual([null, null]);
+        expect(eventPayloads(tx, "TASK_UPDATE")).toEqual([
+          expect.objectContaining({
+            id: "task-2",
+            changes: {
+              dependencies: ["task-3"],
+              status: "BLOCKED",
+              version: 2,
+            },
+            causedBy: "op-1",
+          }),
+          // Its last open dependency is gone, so autoBlock unblocks it
+          expect.objectContaining({
+            id: "task-4",
+            changes: { dependencies: [], status: "TODO", version: 2 },
+            causedBy: "op-1",
+          }),
+        ]);
+      });
+    });
+
+    describe("addDependency", () => {
+      it("should block the task when the added dependency is open", async () => {
+        withTasks(
+          tx,
+          [
+            createTaskRow({ id: "task-1", status: "IN_PROGRESS" }),
+            createTaskRow({ id: "task-2", status: "TODO" }),
+          ],
+          { autoBlock: true }
+        );
+
+        const task = await TaskService.addDependency(
+          "task-1",
+          "task-2",
+          context
+        );
+
+        expect(task.status).toBe("BLOCKED");
+        expect(eventPayloads(tx, "TASK_UPDATE")).toEqual([
+          expect.objectContaining({
+            changes: {
+              dependencies: ["task-2"],
+              status: "BLOCKED",
+              version: 2,
+            },
+          }),
+        ]);
+      });
+    });
+
+    describe("removeDependency", () => {
+      it("should unblock the task when its last open dependency is removed", async () => {
+        withTasks(
+          tx,
+          [
+            createTaskRow({
+              id: "task-1",
+              status: "BLOCKED",
+              dependencies: ["task-2"],
+            }),
+            createTaskRow({ id: "task-2", status: "TODO" }),
+          ],
+          { autoBlock: true }
+        );
+
+        const task = await TaskService.removeDependency(
+          "task-1",
+          "task-2",
+          context
+        );
+
+        expect(task.status).toBe("TODO");
+        expect(task.dependencies).toEqual([]);
+      });
+    });
+  });
+
+  describe("TransactionService", () => {
+    describe("updateTaskWithDependencies", () => {
+      // Tasks can only be started from To Do
+      const workflow: Workflow = {
+        ...DEFAULT_WORKFLOW,
+        transitions: { TODO: ["IN_PROGRESS"] },
+      };
+
+      it("should reject a status the workflow does not allow", async () => {
+        const task = withTasks(tx, [createTaskRow({})], {
+          autoBlock: false,
+          workflow,
+        });
+
+        await expect(
+          TransactionService.updateTaskWithDependencies(
+            "task-1",
+            { status: "DONE" },
+            [],
+            context
+          )
+        ).rejects.toMatchObject({
+          issues: [{ message: 'Tasks cannot move from "To Do" to "Done"' }],
+        });
+        expect(task.update).not.toHaveBeenCalled();
+      });
+
+      it("should apply a status the workflow allows", async () => {
+        withTasks(tx, [createTaskRow({})], { autoBlock: false, workflow });
+
+        const { task } = await TransactionService.updateTaskWithDependencies(
+          "task-1",
+          { status: "IN_PROGRESS" },
+          [],
+          context
+        );
+
+        expect(task.status).toBe("IN_PROGRESS");
+      });
+
+      it("should unblock dependents when the task is finished", async () => {
+        withTasks(
+          tx,
+          [
+            createTaskRow({ id: "task-1", status: "IN_PROGRESS" }),
+            createTaskRow({
+              id: "task-2",
+              status: "BLOCKED",
+              dependencies: ["task-1"],
+            }),
+          ],
+          { autoBlock: true }
+        );
+
+        const { cascade } =
+          await TransactionService.updateTaskWithDependencies(
+            "task-1",
+            { status: "DONE" },
+            [],
+            context
+          );
+
+        expect(cascade).toEqual([
+          expect.objectContaining({ id: "task-2", status: "TODO" }),
+        ]);
+        expect(eventPayloads(tx, "TASK_UPDATE")).toEqual([
+          expect.objectContaining({ id: "task-1" }),
+          expect.objectContaining({
+            id: "task-2",
+            changes: { status: "TODO", version: 2 },
+            causedBy: "op-1",
+          }),
+        ]);
+      });
+
+      it("should block dependents when the task is reopened", async () => {
+        withTasks(
+          tx,
+          [
+            createTaskRow({ id: "task-1", status: "DONE" }),
+            createTaskRow({ id: "task-2", dependencies: ["task-1"] }),
+          ],
+          { autoBlock: true }
+        );
+
+        const { cascade } =
+          await TransactionService.updateTaskWithDependencies(
+            "task-1",
+            { status: "IN_PROGRESS" },
+            [],
+            context
+          );
+
+        expect(cascade).toEqual([
+          expect.objectContaining({ id: "task-2", status: "BLOCKED" }),
+        ]);
+      });
+    });
+  });
+
+  describe("UserService", () => {
+    describe("delete", () => {
+      it("should remove the files of cascaded attachments once the delete committed", async () => {
+        const storage = getAttachmentStorage();
+        const findAttachments = jest.fn(() => [
+          { storageKey: "file-1" },
+          { storageKey: "file-2" },
+        ]);
+        Object.assign(tx, {
+          user: {
+            findUnique: jest.fn(() => ({
+              id: "user-1",
+              projects: [],
+              comments: [],
+            })),
+            delete: jest.fn(() => {
+              expect(storage.delete).not.toHaveBeenCalled();
+            }),
+          },
+          attachment: { findMany: findAttachments },
+        });
+
+        await UserService.delete({ id: "user-1" });
+
+        // Attachments they uploaded elsewhere outlive them
+        expect(findAttachments).toHaveBeenCalledWith({
+          where: {
+            OR: [
+              { task: { project: { ownerId: "user-1" } } },
+              { comment: { authorId: "user-1" } },
+              { comment: { parent: { authorId: "user-1" } } },
+            ],
+          },
+          select: { storageKey: true },
+        });
+        expect(storage.delete).toHaveBeenCalledWith("file-1");
+        expect(storage.delete).toHaveBeenCalledWith("file-2");
+      });
+    });
+  });
+
+  describe("TaskDescriptionService", () => {
+    describe("applyOperation", () => {
+      type ActivityRow = { id: string; changes: object };
+      let activities: ActivityRow[];
+      let lastEdit: { createdAt: Date } | null;
+      let updateActivity: jest.Mock;
+
+      beforeEach(() => {
+        jest.useFakeTimers({ now: new Date("2026-01-01T12:00:00Z") });
+        withTasks(
+          tx,
+          [
+            createTaskRow({
+              configuration: { description: "Hello" },
+              descriptionRevision: 3,
+            }),
+          ],
+          { autoBlock: false }
+        );
+        activities = [];
+        lastEdit = null;
+        tx.activity.create.mockImplementation(({ data }) => {
+          activities.push(data);
+        });
+        updateActivity = jest.fn();
+        Object.assign(tx.activity, {
+          findFirst: jest.fn(() => activities[activities.length - 1] ?? null),
+          update: updateActivity,
+        });
+        Object.assign(tx, {
+          taskDescriptionOp: {
+            findMany: jest.fn(() => []),
+            findFirst: jest.fn(() => lastEdit),
+            create: jest.fn(({ data }) => data),
+            deleteMany: jest.fn(),
+          },
+        });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      const applyOperation = (operation: (number | string)[]) =>
+        TaskDescriptionService.applyOperation(
+          "task-1",
+          { revision: 3, operation, clientId: "editor-1" },
+          context
+        );
+
+      it("should leave the task's version alone", async () => {
+        const { task, operation } = await applyOperation([5, " world"]);
+
+        expect(task.version).toBe(1);
+        expect(task.configuration).toEqual({ description: "Hello world" });
+        expect(operation.revision).toBe(4);
+        expect(eventPayloads(tx, "DESCRIPTION_OP")).toEqual([
+          expect.objectContaining({ revision: 4, version: 1 }),
+        ]);
+      });
+
+      it("should start an activity entry for a new editing session", async () => {
+        await applyOperation([5, " world"]);
+
+        expect(activities).toEqual([
+          expect.objectContaining({
+            taskId: "task-1",
+            actorId: "user-1",
+            action: "UPDATED",
+            changes: {
+              description: { before: "Hello", after: "Hello world" },
+            },
+          }),
+        ]);
+      });
+
+      it("should supersede the session's entry with one for the whole session", async () => {
+        activities.push({
+          id: "activity-1",
+          changes: { description: { before: "Hi", after: "Hello" } },
+        });
+        lastEdit = { createdAt: new Date("2026-01-01T11:58:00Z") };
+
+        await applyOperation([5, "!"]);
+
+        // The log is append-only, so the earlier entry is left as it was
+        expect(updateActivity).not.toHaveBeenCalled();
+        expect(activities).toEqual([
+          {
+            id: "activity-1",
+            changes: { description: { before: "Hi", after: "Hello" } },
+          },
+          expect.objectContaining({
+            supersedesId: "activity-1",
+            actorId: "user-1",
+            changes: { description: { before: "Hi", after: "Hello!" } },
+          }),
+        ]);
+      });
+
+      it("should start a new entry after a pause in editing", async () => {
+        activities.push({
+          id: "activity-1",
+          changes: { description: { before: "Hi", after: "Hello" } },
+        });
+        lastEdit = { createdAt: new Date("2026-01-01T11:50:00Z") };
+
+        await applyOperation([5, "!"]);
+
+        expect(activities).toHaveLength(2);
+        expect(activities[1].changes).toEqual({
+          description: { before: "Hello", after: "Hello!" },
+        });
+      });
+
+      it("should start a new entry after other changes by the same user", async () => {
+        activities.push({
+          id: "activity-1",
+          changes: { status: { before: "TODO", after: "IN_PROGRESS" } },
+        });
+        lastEdit = { createdAt: new Date("2026-01-01T11:59:00Z") };
+
+        await applyOperation([5, "!"]);
+
+        expect(activities).toHaveLength(2);
+      });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import {
+  buildDependencyGraph,
+  DependencyGraphTask,
+  getTaskWeight,
+} from "@/lib/dependency-graph";
+
+const task = (
+  id: string,
+  dependencies: string[] = [],
+  overrides: Partial<DependencyGraphTask> = {}
+): DependencyGraphTask => ({
+  id,
+  title: `Task ${id}`,
+  status: "TODO",
+  dependencies,
+  configuration: { priority: "MEDIUM", tags: [], customFields: {} },
+  ...overrides,
+});
+
+const withEstimate = (hours: number) => ({ estimate: hours });
+
+describe("Dependency Graph", () => {
+  describe("getTaskWeight", () => {
+    it("should use the estimate when it is a positive number", () => {
+      expect(getTaskWeight(task("a", [], withEstimate(5)))).toBe(5);
+      expect(getTaskWeight(task("a", [], withEstimate(0)))).toBe(1);
+      expect(getTaskWeight(task("a"))).toBe(1);
+    });
+
+    it("should prefer the remaining work over the estimate", () => {
+      expect(
+        getTaskWeight(task("a", [], { estimate: 8, remaining: 3 }))
+      ).toBe(3);
+      expect(
+        getTaskWeight(task("a", [], { estimate: 8, remaining: null }))
+      ).toBe(8);
+    });
+
+    it("should weigh finished tasks as zero", () => {
+      expect(
+        getTaskWeight(task("a", [], { ...withEstimate(5), status: "DONE" }))
+      ).toBe(0);
+    });
+  });
+
+  describe("buildDependencyGraph", () => {
+    it("should order dependencies before their dependents", () => {
+      const graph = buildDependencyGraph([
+        task("c", ["b"]),
+        task("b", ["a"]),
+        task("a"),
+      ]);
+
+      expect(graph.order).toEqual(["a", "b", "c"]);
+      expect(graph.edges).toEqual(
+        expect.arrayContaining([
+          { from: "a", to: "b" },
+          { from: "b", to: "c" },
+        ])
+      );
+      expect(graph.nodes.find((n) => n.id === "c")?.depth).toBe(2);
+    });
+
+    it("should follow the heaviest chain for the critical path", () => {
+      // a(1) -> c(1) and b(8) -> c(1)
+      const graph = buildDependencyGraph([
+        task("a"),
+        task("b", [], withEstimate(8)),
+        task("c", ["a", "b"]),
+      ]);
+
+      expect(graph.criticalPath).toEqual(["b", "c"]);
+      expect(graph.duration).toBe(9);
+      expect(graph.nodes.find((n) => n.id === "a")).toMatchObject({
+        earliestStart: 0,
+        earliestFinish: 1,
+        slack: 7,
+      });
+      expect(graph.nodes.find((n) => n.id === "b")?.slack).toBe(0);
+    });
+
+    it("should list tasks whose dependencies are all done as ready", () => {
+      const graph = buildDependencyGraph([
+        task("a", [], { status: "DONE" }),
+        task("b", ["a"]),
+        task("c", ["b"]),
+        task("d", [], { status: "IN_PROGRESS" }),
+      ]);
+
+      expect(graph.ready).toEqual(["b"]);
+      expect(graph.nodes.find((n) => n.id === "c")?.blocked).toBe(true);
+      expect(graph.criticalPath).toEqual(["b", "c"]);
+    });
+
+    it("should ignore dependencies outside the project", () => {
+      const graph = buildDependencyGraph([task("a", ["elsewhere", "a"])]);
+
+      expect(graph.nodes[0].dependencies).toEqual([]);
+      expect(graph.ready).toEqual(["a"]);
+    });
+
+    it("should report tasks caught in a cycle without scheduling them", () => {
+      const graph = buildDependencyGraph([
+        task("a"),
+        task("b", ["a", "c"]),
+        task("c", ["b"]),
+      ]);
+
+      expect(graph.order).toEqual(["a"]);
+      expect(graph.cyclic).toEqual(["b", "c"]);
+      expect(graph.nodes.find((n) => n.id === "b")).toMatchObject({
+        depth: null,
+        earliestStart: null,
+        slack: null,
+      });
+    });
+  });
+});
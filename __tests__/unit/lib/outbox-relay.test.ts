@@ -0,0 +1,297 @@
+/**
+ * @jest-environment node
+ */
+import { prisma } from "@/lib/db";
+import { OutboxRelay } from "@/lib/outbox-relay";
+import { BroadcastError, websocketClient } from "@/lib/websocket-client";
+
+const mockListener = {
+  on: jest.fn(),
+  connect: jest.fn(),
+  query: jest.fn(),
+  end: jest.fn(),
+};
+
+jest.mock("pg", () => ({
+  Client: jest.fn(() => mockListener),
+}));
+
+jest.mock("@/lib/db", () => ({
+  OUTBOX_CHANNEL: "outbox_events",
+  prisma: {
+    outboxEvent: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock("@/lib/websocket-client", () => ({
+  ...jest.requireActual("@/lib/websocket-client"),
+  websocketClient: { broadcast: jest.fn() },
+}));
+
+type StoredEvent = {
+  id: string;
+  sequence: number;
+  projectId: string;
+  type: string;
+  payload: unknown;
+  userId: string | null;
+  operationId: string;
+  createdAt: Date;
+  deliveredAt: Date | null;
+  failedAt: Date | null;
+  attempts: number;
+  lastError: string | null;
+};
+
+type EventUpdate = {
+  where: { id: string };
+  data: {
+    attempts?: { increment: number };
+    lastError?: string;
+    deliveredAt?: Date;
+    failedAt?: Date;
+  };
+};
+
+const broadcast = websocketClient.broadcast as jest.Mock;
+const findMany = prisma.outboxEvent.findMany as jest.Mock;
+const update = prisma.outboxEvent.update as jest.Mock;
+const deleteMany = prisma.outboxEvent.deleteMany as jest.Mock;
+
+let outbox: StoredEvent[];
+
+const createEvent = (sequence: number): StoredEvent => ({
+  id: `event-${sequence}`,
+  sequence,
+  projectId: "project-1",
+  type: "TASK_UPDATE",
+  payload: { id: "task-1" },
+  userId: "user-1",
+  operationId: `op-${sequence}`,
+  createdAt: new Date(1_700_000_000_000 + sequence),
+  deliveredAt: null,
+  failedAt: null,
+  attempts: 0,
+  lastError: null,
+});
+
+const sentEventIds = () =>
+  broadcast.mock.calls.map(([message]) => message.eventId);
+
+const findEvent = (id: string) => outbox.find((event) => event.id === id)!;
+
+// Let the drain started by start(), a notification or a poll run to the end
+const settle = () => jest.advanceTimersByTimeAsync(0);
+
+describe("OutboxRelay", () => {
+  let relay: OutboxRelay;
+  let consoleError: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    outbox = [];
+    findMany.mockImplementation(async ({ take }: { take: number }) =>
+      outbox
+        .filter((event) => !event.deliveredAt && !event.failedAt)
+        .sort((a, b) => a.sequence - b.sequence)
+        .slice(0, take)
+    );
+    update.mockImplementation(async ({ where, data }: EventUpdate) => {
+      const event = findEvent(where.id);
+      event.attempts += data.attempts?.increment ?? 0;
+      event.lastError = data.lastError ?? event.lastError;
+      event.deliveredAt = data.deliveredAt ?? event.deliveredAt;
+      event.failedAt = data.failedAt ?? event.failedAt;
+      return event;
+    });
+    deleteMany.mockResolvedValue({ count: 0 });
+    broadcast.mockResolvedValue(undefined);
+
+    mockListener.connect.mockResolvedValue(undefined);
+    mockListener.query.mockResolvedValue({ rows: [] });
+    mockListener.end.mockResolvedValue(undefined);
+
+    relay = new OutboxRelay("postgres://test");
+  });
+
+  afterEach(async () => {
+    await relay.stop();
+    consoleError.mockRestore();
+    jest.useRealTimers();
+  });
+
+  describe("start", () => {
+    it("should deliver pending events in sequence order", async () => {
+      outbox = [createEvent(3), createEvent(1), createEvent(2)];
+
+      await relay.start(jest.fn());
+      await settle();
+
+      expect(sentEventIds()).toEqual(["event-1", "event-2", "event-3"]);
+      expect(broadcast).toHaveBeenCalledWith({
+        type: "TASK_UPDATE",
+        payload: { id: "task-1" },
+        projectId: "project-1",
+        operationId: "op-1",
+        timestamp: 1_700_000_000_001,
+        userId: "user-1",
+        eventId: "event-1",
+      });
+      outbox.forEach((event) => {
+        expect(event.deliveredAt).toBeInstanceOf(Date);
+        expect(event.attempts).toBe(1);
+      });
+    });
+
+    it("should deliver in batches until the outbox is empty", async () => {
+      outbox = Array.from({ length: 150 }, (_, i) => createEvent(i + 1));
+
+      await relay.start(jest.fn());
+      await settle();
+
+      expect(findMany).toHaveBeenCalledTimes(2);
+      expect(broadcast).toHaveBeenCalledTimes(150);
+      expect(sentEventIds()[149]).toBe("event-150");
+    });
+
+    it("should wait for the advisory lock before listening or delivering", async () => {
+      outbox = [createEvent(1)];
+      let grantLock: () => void = () => {};
+      mockListener.query.mockImplementation((sql: string) =>
+        sql.startsWith("SELECT pg_advisory_lock")
+          ? new Promise((resolve) => {
+              grantLock = () => resolve({ rows: [] });
+            })
+          : Promise.resolve({ rows: [] })
+      );
+
+      const started = relay.start(jest.fn());
+      await settle();
+
+      // Another relay holds the lock; this one is a standby
+      expect(mockListener.query).toHaveBeenCalledTimes(1);
+      expect(mockListener.query).toHaveBeenCalledWith(
+        "SELECT pg_advisory_lock($1)",
+        [expect.any(Number)]
+      );
+      await jest.advanceTimersByTimeAsync(60_000);
+      expect(findMany).not.toHaveBeenCalled();
+      expect(broadcast).not.toHaveBeenCalled();
+
+      grantLock();
+      await started;
+      await settle();
+
+      expect(mockListener.query).toHaveBeenLastCalledWith(
+        "LISTEN outbox_events"
+      );
+      expect(sentEventIds()).toEqual(["event-1"]);
+    });
+
+    it("should drain again when notified of a new event", async () => {
+      await relay.start(jest.fn());
+      await settle();
+      expect(broadcast).not.toHaveBeenCalled();
+
+      outbox.push(createEvent(1));
+      const [, notify] = mockListener.on.mock.calls.find(
+        ([event]) => event === "notification"
+      )!;
+      notify();
+      await settle();
+
+      expect(sentEventIds()).toEqual(["event-1"]);
+    });
+  });
+
+  describe("retries", () => {
+    it("should stop at a failed delivery and keep the event pending", async () => {
+      outbox = [createEvent(1), createEvent(2)];
+      broadcast.mockRejectedValueOnce(
+        new BroadcastError("WebSocket server returned 503")
+      );
+
+      await relay.start(jest.fn());
+      await settle();
+
+      // The second event must not overtake the first
+      expect(sentEventIds()).toEqual(["event-1"]);
+      expect(findEvent("event-1")).toMatchObject({
+        deliveredAt: null,
+        failedAt: null,
+        attempts: 1,
+        lastError: "WebSocket server returned 503",
+      });
+      expect(findEvent("event-2").attempts).toBe(0);
+    });
+
+    it("should retry after a backoff that doubles with each failure", async () => {
+      outbox = [createEvent(1)];
+      broadcast
+        .mockRejectedValueOnce(new BroadcastError("WebSocket server down"))
+        .mockRejectedValueOnce(new BroadcastError("WebSocket server down"));
+
+      await relay.start(jest.fn());
+      await settle();
+      expect(broadcast).toHaveBeenCalledTimes(1);
+
+      // First retry on the next poll, 5s later
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(broadcast).toHaveBeenCalledTimes(2);
+
+      // Then 10s after the second failure, skipping the poll in between
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(broadcast).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(broadcast).toHaveBeenCalledTimes(3);
+
+      expect(findEvent("event-1")).toMatchObject({
+        attempts: 3,
+        deliveredAt: expect.any(Date),
+      });
+    });
+
+    it("should dead-letter events the server rejects as undeliverable", async () => {
+      outbox = [createEvent(1), createEvent(2)];
+      broadcast.mockRejectedValueOnce(
+        new BroadcastError("Payload too large", "MESSAGE_TOO_LARGE")
+      );
+
+      await relay.start(jest.fn());
+      await settle();
+
+      expect(sentEventIds()).toEqual(["event-1", "event-2"]);
+      expect(findEvent("event-1")).toMatchObject({
+        deliveredAt: null,
+        failedAt: expect.any(Date),
+        attempts: 1,
+        lastError: "MESSAGE_TOO_LARGE: Payload too large",
+      });
+      expect(findEvent("event-2").deliveredAt).toBeInstanceOf(Date);
+      expect(consoleError).toHaveBeenCalledWith(
+        "Outbox event event-1 (TASK_UPDATE) dead-lettered:",
+        expect.any(BroadcastError)
+      );
+
+      // Dead letters are not sent again
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(broadcast).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only clean up delivered events", async () => {
+      await relay.start(jest.fn());
+      await settle();
+
+      expect(deleteMany).toHaveBeenCalledWith({
+        where: { deliveredAt: { lt: expect.any(Date) } },
+      });
+    });
+  });
+});
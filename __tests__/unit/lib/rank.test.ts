@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import {
+  compareTaskRank,
+  placeInColumn,
+  rankBetween,
+  ranksBetween,
+} from "@/lib/rank";
+
+function expectAscending(ranks: string[]) {
+  for (let i = 1; i < ranks.length; i++) {
+    expect(ranks[i - 1] < ranks[i]).toBe(true);
+  }
+}
+
+describe("Rank", () => {
+  describe("rankBetween", () => {
+    it("should rank the first task of an empty column", () => {
+      expect(rankBetween(null, null)).toBe("i");
+    });
+
+    it("should sort between its neighbours", () => {
+      const cases: Array<[string | null, string | null]> = [
+        [null, "i"],
+        ["i", null],
+        ["a", "b"],
+        ["a", "a5"],
+        ["az", "b"],
+        [null, "1"],
+        ["zz", null],
+      ];
+      cases.forEach(([before, after]) => {
+        const rank = rankBetween(before, after);
+        if (before !== null) expect(before < rank).toBe(true);
+        if (after !== null) expect(rank < after).toBe(true);
+        expect(rank.endsWith("0")).toBe(false);
+      });
+    });
+
+    it("should keep finding room in the same gap", () => {
+      const ranks = ["a", "b"];
+      for (let i = 0; i < 50; i++) {
+        ranks.splice(1, 0, rankBetween(ranks[0], ranks[1]));
+      }
+      expectAscending(ranks);
+      expect(new Set(ranks).size).toBe(ranks.length);
+    });
+
+    it("should reject neighbours out of order or invalid ranks", () => {
+      expect(() => rankBetween("b", "a")).toThrow();
+      expect(() => rankBetween("a", "a")).toThrow();
+      expect(() => rankBetween("a0", null)).toThrow();
+      expect(() => rankBetween("", null)).toThrow();
+    });
+  });
+
+  describe("ranksBetween", () => {
+    it("should return ascending ranks inside the gap", () => {
+      const ranks = ranksBetween("a", "b", 20);
+      expect(ranks).toHaveLength(20);
+      expectAscending(["a", ...ranks, "b"]);
+    });
+
+    it("should keep ranks short when ranking a long column", () => {
+      const ranks = ranksBetween(null, null, 1000);
+      expectAscending(ranks);
+      expect(Math.max(...ranks.map((rank) => rank.length))).toBeLessThan(12);
+    });
+
+    it("should return nothing for no tasks", () => {
+      expect(ranksBetween(null, null, 0)).toEqual([]);
+    });
+  });
+
+  describe("compareTaskRank", () => {
+    it("should order by rank, with unranked tasks first and newest first", () => {
+      const tasks = [
+        { id: "c", rank: "m", createdAt: "2024-01-03T00:00:00Z" },
+        { id: "a", rank: "", createdAt: "2024-01-01T00:00:00Z" },
+        { id: "d", rank: "b", createdAt: "2024-01-04T00:00:00Z" },
+        { id: "b", createdAt: "2024-01-02T00:00:00Z" },
+      ];
+      expect(tasks.sort(compareTaskRank).map((task) => task.id)).toEqual([
+        "b",
+        "a",
+        "d",
+        "c",
+      ]);
+    });
+  });
+
+  describe("placeInColumn", () => {
+    const task = (id: string, rank: string, day: number) => ({
+      id,
+      rank,
+      createdAt: `2024-01-0${day}T00:00:00Z`,
+    });
+
+    it("should place a task between the card it follows and the next one", () => {
+      const column = [task("a", "c", 1), task("b", "m", 2), task("c", "t", 3)];
+      const placed = placeInColumn(column, "a")!;
+      expect(placed.ranked).toEqual([]);
+      expect("c" < placed.rank && placed.rank < "m").toBe(true);
+      expect(placeInColumn(column, null)!.rank < "c").toBe(true);
+      expect(placeInColumn(column, "c")!.rank > "t").toBe(true);
+    });
+
+    it("should rank unranked tasks above the ranked ones first", () => {
+      const column = [task("a", "", 1), task("b", "", 2), task("c", "m", 3)];
+      const placed = placeInColumn(column, "a")!;
+      expect(placed.ranked.map(({ id }) => id)).toEqual(["b", "a"]);
+      const [b, a] = placed.ranked.map(({ rank }) => rank);
+      expectAscending([b, a, placed.rank, "m"]);
+    });
+
+    it("should reject a card that isn't in the column", () => {
+      expect(placeInColumn([task("a", "c", 1)], "missing")).toBeNull();
+    });
+  });
+});
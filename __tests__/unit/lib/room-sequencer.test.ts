@@ -0,0 +1,244 @@
+/**
+ * @jest-environment node
+ */
+import { RoomSequencer } from "@/lib/room-sequencer";
+import { ServerMessage } from "@/lib/types";
+
+const epoch = "epoch-1";
+
+const joined = (seq: number, projectId = "project-1") =>
+  ({
+    type: "PROJECT_JOINED",
+    projectId,
+    seq,
+    epoch,
+    timestamp: 1,
+  }) as ServerMessage;
+
+const taskDeleted = (seq: number, projectId = "project-1") =>
+  ({
+    type: "TASK_DELETE",
+    projectId,
+    payload: { taskId: `task-${seq}` },
+    seq,
+    timestamp: 1,
+  }) as ServerMessage;
+
+const resumed = (seq: number, replayed: number, projectId = "project-1") =>
+  ({
+    type: "RESUMED",
+    projectId,
+    seq,
+    epoch,
+    payload: { replayed },
+    timestamp: 1,
+  }) as ServerMessage;
+
+const resyncRequired = (seq: number) =>
+  ({
+    type: "RESYNC_REQUIRED",
+    projectId: "project-1",
+    seq,
+    epoch: "epoch-2",
+    timestamp: 1,
+  }) as ServerMessage;
+
+describe("RoomSequencer", () => {
+  let dispatch: jest.Mock;
+  let resume: jest.Mock;
+  let resync: jest.Mock;
+  let sequencer: RoomSequencer;
+
+  const dispatchedSeqs = () =>
+    dispatch.mock.calls.map(([message]) => message.seq);
+
+  beforeEach(() => {
+    dispatch = jest.fn();
+    resume = jest.fn(() => true);
+    resync = jest.fn();
+    sequencer = new RoomSequencer({ dispatch, resume, resync });
+  });
+
+  describe("receive", () => {
+    it("should apply messages that arrive in order", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(taskDeleted(5));
+      sequencer.receive(taskDeleted(6));
+
+      expect(dispatchedSeqs()).toEqual([5, 6]);
+      expect(sequencer.getPosition("project-1")).toEqual({ seq: 6, epoch });
+      expect(resume).not.toHaveBeenCalled();
+    });
+
+    it("should ignore messages that were already applied", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(taskDeleted(5));
+      sequencer.receive(taskDeleted(5));
+      sequencer.receive(taskDeleted(3));
+
+      expect(dispatchedSeqs()).toEqual([5]);
+    });
+
+    it("should pass unsequenced messages straight through", () => {
+      const presence = {
+        type: "USER_PRESENCE",
+        payload: { projectId: "project-1", activeUsers: [], userCount: 0 },
+        timestamp: 1,
+      } as ServerMessage;
+
+      sequencer.receive(presence);
+
+      expect(dispatch).toHaveBeenCalledWith(presence);
+    });
+
+    it("should advance past ACKs without applying them", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive({
+        type: "ACK",
+        projectId: "project-1",
+        seq: 5,
+        timestamp: 1,
+      } as ServerMessage);
+      sequencer.receive(taskDeleted(6));
+
+      expect(dispatchedSeqs()).toEqual([6]);
+      expect(sequencer.getPosition("project-1")?.seq).toBe(6);
+    });
+  });
+
+  describe("gaps", () => {
+    it("should request a RESUME from the last applied message on a gap", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(taskDeleted(5));
+      sequencer.receive(taskDeleted(8));
+
+      expect(dispatchedSeqs()).toEqual([5]);
+      expect(resume).toHaveBeenCalledTimes(1);
+      expect(resume).toHaveBeenCalledWith("project-1", { seq: 5, epoch });
+    });
+
+    it("should buffer messages while resuming and apply them after the replay", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(taskDeleted(7));
+      sequencer.receive(taskDeleted(8));
+      expect(resume).toHaveBeenCalledTimes(1);
+
+      // The replay fills the gap, then the buffered messages follow
+      sequencer.receive(taskDeleted(5));
+      sequencer.receive(taskDeleted(6));
+      sequencer.receive(resumed(8, 2));
+
+      expect(dispatchedSeqs()).toEqual([5, 6, 7, 8]);
+      expect(sequencer.getPosition("project-1")?.seq).toBe(8);
+      expect(resume).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip replayed messages it already holds in the buffer", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(taskDeleted(6));
+      sequencer.receive(taskDeleted(5));
+      sequencer.receive(taskDeleted(6));
+      sequencer.receive(resumed(6, 2));
+
+      expect(dispatchedSeqs()).toEqual([5, 6]);
+    });
+
+    it("should try again when the RESUME could not be sent", () => {
+      resume.mockReturnValueOnce(false);
+      sequencer.receive(joined(4));
+      sequencer.receive(taskDeleted(6));
+      sequencer.receive(taskDeleted(7));
+
+      expect(resume).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep applying other rooms' messages during a gap", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(joined(1, "project-2"));
+      sequencer.receive(taskDeleted(6));
+      sequencer.receive(taskDeleted(2, "project-2"));
+
+      expect(resume).toHaveBeenCalledTimes(1);
+      expect(dispatchedSeqs()).toEqual([2]);
+
+      sequencer.receive(taskDeleted(3, "project-2"));
+      sequencer.receive(taskDeleted(5));
+      sequencer.receive(resumed(6, 2));
+
+      expect(dispatchedSeqs()).toEqual([2, 3, 5, 6]);
+    });
+
+    it("should resume each room with a gap", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(joined(1, "project-2"));
+      sequencer.receive(taskDeleted(6));
+      sequencer.receive(taskDeleted(3, "project-2"));
+
+      expect(resume).toHaveBeenCalledWith("project-1", { seq: 4, epoch });
+      expect(resume).toHaveBeenCalledWith("project-2", { seq: 1, epoch });
+
+      sequencer.receive(resumed(3, 1, "project-2"));
+      expect(dispatchedSeqs()).toEqual([]);
+      sequencer.receive(taskDeleted(2, "project-2"));
+      expect(dispatchedSeqs()).toEqual([2, 3]);
+    });
+
+    it("should resume from the kept position when rejoining after a reconnect", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(taskDeleted(5));
+
+      sequencer.reconnected();
+      sequencer.receive(joined(9));
+
+      expect(resume).toHaveBeenCalledWith("project-1", { seq: 5, epoch });
+      expect(sequencer.getPosition("project-1")?.seq).toBe(5);
+    });
+
+    it("should start over in a room it forgot", () => {
+      sequencer.receive(joined(4));
+      sequencer.forget("project-1");
+      sequencer.receive(joined(9));
+      sequencer.receive(taskDeleted(10));
+
+      expect(resume).not.toHaveBeenCalled();
+      expect(dispatchedSeqs()).toEqual([10]);
+    });
+
+    it("should keep other rooms' buffered messages when forgetting one", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(joined(1, "project-2"));
+      sequencer.receive(taskDeleted(3, "project-2"));
+      sequencer.forget("project-1");
+      sequencer.receive(taskDeleted(2, "project-2"));
+      sequencer.receive(resumed(3, 1, "project-2"));
+
+      expect(dispatchedSeqs()).toEqual([2, 3]);
+    });
+  });
+
+  describe("RESYNC_REQUIRED", () => {
+    it("should refetch and continue from the server's position", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(taskDeleted(9));
+      sequencer.receive(resyncRequired(9));
+
+      expect(resync).toHaveBeenCalledWith("project-1");
+      expect(sequencer.getPosition("project-1")).toEqual({
+        seq: 9,
+        epoch: "epoch-2",
+      });
+
+      // The missed messages are never applied; newer ones are
+      sequencer.receive(taskDeleted(10));
+      expect(dispatchedSeqs()).toEqual([10]);
+    });
+
+    it("should apply buffered messages newer than the server's position", () => {
+      sequencer.receive(joined(4));
+      sequencer.receive(taskDeleted(10));
+      sequencer.receive(resyncRequired(9));
+
+      expect(dispatchedSeqs()).toEqual([10]);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+import { ParsedTask } from "@/lib/types";
+import { mergeList, mergeTaskEdits, setTaskMergeField } from "@/lib/task-merge";
+
+const base: ParsedTask = {
+  id: "task-1",
+  projectId: "project-1",
+  title: "Write docs",
+  status: "TODO",
+  assignedTo: ["user-1"],
+  dependencies: [],
+  configuration: {
+    priority: "MEDIUM",
+    description: "Draft",
+    tags: ["docs", "q3"],
+    customFields: { estimate: 3, owner: "ops" },
+  },
+  version: 1,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+};
+
+const withConfiguration = (
+  task: ParsedTask,
+  configuration: Record<string, unknown>
+): ParsedTask => ({
+  ...task,
+  configuration: { ...task.configuration, ...configuration },
+});
+
+describe("Task merge", () => {
+  describe("mergeList", () => {
+    it("should keep additions and drop removals from both sides", () => {
+      expect(mergeList(["a", "b"], ["a", "b", "c"], ["b", "d"])).toEqual([
+        "b",
+        "c",
+        "d",
+      ]);
+    });
+  });
+
+  describe("mergeTaskEdits", () => {
+    it("should apply non-conflicting remote changes to the local edit", () => {
+      const local = { ...base, title: "Write the docs" };
+      const remote = {
+        ...withConfiguration(base, { priority: "HIGH" }),
+        status: "IN_PROGRESS",
+        version: 2,
+      };
+
+      const { task, conflicts } = mergeTaskEdits(base, local, remote);
+
+      expect(conflicts).toEqual([]);
+      expect(task.title).toBe("Write the docs");
+      expect(task.status).toBe("IN_PROGRESS");
+      expect(task.configuration).toMatchObject({ priority: "HIGH" });
+      expect(task.version).toBe(2);
+    });
+
+    it("should report fields both sides changed and keep the local value", () => {
+      const local = { ...base, title: "Mine" };
+      const remote = { ...base, title: "Theirs", version: 2 };
+
+      const { task, conflicts } = mergeTaskEdits(base, local, remote);
+
+      expect(task.title).toBe("Mine");
+      expect(conflicts).toEqual([
+        { field: "title", local: "Mine", remote: "Theirs" },
+      ]);
+    });
+
+    it("should merge schedule fields, comparing dates by value", () => {
+      const local = {
+        ...base,
+        dueDate: new Date("2024-02-01T00:00:00.000Z"),
+        estimate: 5,
+      };
+      const remote = {
+        ...base,
+        dueDate: "2024-02-01T00:00:00.000Z",
+        remaining: 2,
+        version: 2,
+      };
+
+      const { task, conflicts } = mergeTaskEdits(base, local, remote);
+
+      expect(conflicts).toEqual([]);
+      expect(task).toMatchObject({ estimate: 5, remaining: 2 });
+    });
+
+    it("should merge tags as a set and custom fields key by key", () => {
+      const local = withConfiguration(base, {
+        tags: ["docs", "q3", "urgent"],
+        customFields: { estimate: 5, owner: "ops" },
+      });
+      const remote = withConfiguration(base, {
+        tags: ["docs"],
+        customFields: { estimate: 8, owner: "dev", sprint: 4 },
+      });
+
+      const { task, conflicts } = mergeTaskEdits(base, local, remote);
+
+      expect(task.configuration).toMatchObject({
+        tags: ["docs", "urgent"],
+        customFields: { estimate: 5, owner: "dev", sprint: 4 },
+      });
+      expect(conflicts).toEqual([
+        { field: "customFields.estimate", local: 5, remote: 8 },
+      ]);
+    });
+  });
+
+  describe("setTaskMergeField", () => {
+    it("should set top-level, configuration and custom fields", () => {
+      expect(setTaskMergeField(base, "title", "New").title).toBe("New");
+      expect(
+        setTaskMergeField(base, "description", "Done").configuration
+      ).toMatchObject({ description: "Done" });
+      expect(
+        setTaskMergeField(base, "customFields.owner", null).configuration
+      ).toMatchObject({ customFields: { estimate: 3 } });
+    });
+  });
+});
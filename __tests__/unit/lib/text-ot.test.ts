@@ -0,0 +1,158 @@
+/**
+ * @jest-environment node
+ */
+import {
+  applyTextOperation,
+  composeTextOperations,
+  diffText,
+  TextOperation,
+  TextOperationClient,
+  transformCaret,
+  transformTextOperations,
+} from "@/lib/text-ot";
+
+// Minimal stand-in for the server: transforms each operation against the
+// ones applied since its base revision, like TaskDescriptionService
+class TestServer {
+  operations: TextOperation[] = [];
+
+  constructor(public text: string) {}
+
+  receive(revision: number, operation: TextOperation): TextOperation {
+    let transformed = operation;
+    for (const concurrent of this.operations.slice(revision)) {
+      [transformed] = transformTextOperations(transformed, concurrent);
+    }
+    this.text = applyTextOperation(this.text, transformed);
+    this.operations.push(transformed);
+    return transformed;
+  }
+}
+
+describe("Text OT", () => {
+  describe("applyTextOperation", () => {
+    it("should retain, insert and delete", () => {
+      expect(applyTextOperation("hello world", [6, "big ", 5])).toBe(
+        "hello big world"
+      );
+      expect(applyTextOperation("hello world", [5, -6])).toBe("hello");
+    });
+
+    it("should reject operations for another document length", () => {
+      expect(() => applyTextOperation("hello", [3, "x"])).toThrow(
+        "Operation does not match the document length"
+      );
+    });
+  });
+
+  describe("diffText", () => {
+    it("should replace only the changed range", () => {
+      expect(diffText("hello world", "hello brave world")).toEqual([
+        6,
+        "brave ",
+        5,
+      ]);
+      expect(diffText("abcdef", "abXef")).toEqual([2, "X", -2, 2]);
+      expect(diffText("same", "same")).toEqual([4]);
+    });
+
+    it("should round-trip through applyTextOperation", () => {
+      const before = "The quick brown fox";
+      const after = "The slow brown dog";
+      expect(applyTextOperation(before, diffText(before, after))).toBe(after);
+    });
+  });
+
+  describe("composeTextOperations", () => {
+    it("should have the effect of applying both operations", () => {
+      const first = diffText("abc", "abXc");
+      const second = diffText("abXc", "bXcY");
+      expect(
+        applyTextOperation("abc", composeTextOperations(first, second))
+      ).toBe("bXcY");
+    });
+  });
+
+  describe("transformTextOperations", () => {
+    it("should converge on concurrent edits", () => {
+      const text = "collaborate";
+      const a = diffText(text, "collaborative editing");
+      const b = diffText(text, "Collaborate");
+      const [aPrime, bPrime] = transformTextOperations(a, b);
+
+      const viaA = applyTextOperation(applyTextOperation(text, a), bPrime);
+      const viaB = applyTextOperation(applyTextOperation(text, b), aPrime);
+      expect(viaA).toBe("Collaborative editing");
+      expect(viaB).toBe(viaA);
+    });
+
+    it("should put the first operation's insert first on a tie", () => {
+      const [aPrime, bPrime] = transformTextOperations([1, "A"], [1, "B"]);
+      expect(applyTextOperation("xA", bPrime)).toBe("xAB");
+      expect(applyTextOperation("xB", aPrime)).toBe("xAB");
+    });
+
+    it("should not delete text twice", () => {
+      const [aPrime, bPrime] = transformTextOperations([1, -3, 2], [2, -3, 1]);
+      expect(
+        applyTextOperation(applyTextOperation("abcdef", [1, -3, 2]), bPrime)
+      ).toBe("af");
+      expect(
+        applyTextOperation(applyTextOperation("abcdef", [2, -3, 1]), aPrime)
+      ).toBe("af");
+    });
+  });
+
+  describe("transformCaret", () => {
+    it("should follow the text around it", () => {
+      expect(transformCaret(5, [2, "xyz", 5])).toBe(8);
+      expect(transformCaret(1, [2, "xyz", 5])).toBe(1);
+      expect(transformCaret(5, [1, -3, 3])).toBe(2);
+      expect(transformCaret(2, [1, -3, 3])).toBe(1);
+    });
+  });
+
+  describe("TextOperationClient", () => {
+    it("should converge with edits in flight on both clients", () => {
+      const server = new TestServer("shared notes");
+      const alice = new TextOperationClient(0, server.text);
+      const bob = new TextOperationClient(0, server.text);
+
+      const aliceOp = alice.applyLocal(diffText(alice.text, "shared notes!"));
+      // Buffered behind the first one until it is acknowledged
+      expect(
+        alice.applyLocal(diffText(alice.text, "Shared notes!"))
+      ).toBeNull();
+      const bobOp = bob.applyLocal(diffText(bob.text, "shared meeting notes"));
+
+      // Bob's operation reaches the server first
+      const bobApplied = server.receive(0, bobOp!);
+      bob.acknowledge();
+      alice.applyRemote(bobApplied);
+
+      const aliceApplied = server.receive(0, aliceOp!);
+      bob.applyRemote(aliceApplied);
+      const buffered = alice.acknowledge();
+      expect(buffered).not.toBeNull();
+
+      const bufferedApplied = server.receive(alice.revision, buffered!);
+      alice.acknowledge();
+      bob.applyRemote(bufferedApplied);
+
+      expect(server.text).toBe("Shared meeting notes!");
+      expect(alice.text).toBe(server.text);
+      expect(bob.text).toBe(server.text);
+      expect(alice.revision).toBe(3);
+      expect(bob.revision).toBe(3);
+      expect(alice.hasPendingOperations).toBe(false);
+    });
+
+    it("should map remote carets past unacknowledged local edits", () => {
+      const client = new TextOperationClient(4, "world");
+      client.applyLocal(diffText(client.text, "hello world"));
+
+      expect(client.transformServerCaret(5)).toBe(11);
+      expect(client.transformServerCaret(0)).toBe(6);
+    });
+  });
+});
@@ -1,7 +1,28 @@
 /**
  * @jest-environment jsdom
  */
-import { generateId, parseTask, stringifyTaskData } from "@/lib/utils";
+import {
+  generateId,
+  parseTask,
+  stringifyTaskData,
+  hasProjectRole,
+  resolveProjectRole,
+  encodeCursor,
+  decodeCursor,
+  splitHighlights,
+  findDependencyCycle,
+  getDependencyDrivenStatus,
+  getDueState,
+  getChecklistProgress,
+  groupCommentThreads,
+  summarizeReactions,
+  formatFileSize,
+  getTaskActivityFields,
+  diffActivityFields,
+  formatTaskETag,
+  parseIfMatch,
+  mergeTaskChanges,
+} from "@/lib/utils";
 import { ParsedTask } from "@/lib/types";
 
 describe("Utils", () => {
@@ -71,7 +92,7 @@ describe("Utils", () => {
 
   describe("stringifyTaskData", () => {
     it("should stringify task data for database storage", () => {
-      const taskData: Partial<ParsedTask> = {
+      const taskData = {
         title: "Test Task",
         description: "A test task",
         status: "TODO",
@@ -106,4 +127,401 @@ describe("Utils", () => {
       expect(stringified.id).toBe("existing-task-id");
     });
   });
+
+  describe("hasProjectRole", () => {
+    it("should grant access to roles at or above the minimum", () => {
+      expect(hasProjectRole("OWNER", "ADMIN")).toBe(true);
+      expect(hasProjectRole("ADMIN", "ADMIN")).toBe(true);
+      expect(hasProjectRole("MEMBER", "VIEWER")).toBe(true);
+    });
+
+    it("should deny access to roles below the minimum", () => {
+      expect(hasProjectRole("VIEWER", "MEMBER")).toBe(false);
+      expect(hasProjectRole("ADMIN", "OWNER")).toBe(false);
+    });
+
+    it("should deny access when the user has no role", () => {
+      expect(hasProjectRole(null, "VIEWER")).toBe(false);
+      expect(hasProjectRole(undefined, "VIEWER")).toBe(false);
+    });
+  });
+
+  describe("resolveProjectRole", () => {
+    const project = {
+      ownerId: "owner-id",
+      members: [
+        { userId: "admin-id", role: "ADMIN" as const },
+        { userId: "viewer-id", role: "VIEWER" as const },
+      ],
+    };
+
+    it("should treat the project owner as OWNER", () => {
+      expect(resolveProjectRole(project, "owner-id")).toBe("OWNER");
+    });
+
+    it("should return the membership role for members", () => {
+      expect(resolveProjectRole(project, "admin-id")).toBe("ADMIN");
+      expect(resolveProjectRole(project, "viewer-id")).toBe("VIEWER");
+    });
+
+    it("should return null for users outside the project", () => {
+      expect(resolveProjectRole(project, "stranger-id")).toBeNull();
+      expect(
+        resolveProjectRole({ ownerId: "owner-id" }, "admin-id")
+      ).toBeNull();
+    });
+  });
+
+  describe("encodeCursor / decodeCursor", () => {
+    it("should round-trip cursor values", () => {
+      const value = { sort: "title", value: "Café – ünïcode", id: "task-1" };
+
+      const cursor = encodeCursor(value);
+
+      expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+      expect(decodeCursor(cursor)).toEqual(value);
+    });
+
+    it("should return null for malformed cursors", () => {
+      expect(decodeCursor("not a cursor!")).toBeNull();
+      expect(decodeCursor(encodeCursor({}).slice(0, 1))).toBeNull();
+      expect(decodeCursor(btoa("[1,2]"))).toBeNull();
+    });
+  });
+
+  describe("splitHighlights", () => {
+    it("should split a snippet into plain and highlighted segments", () => {
+      expect(
+        splitHighlights(
+          "Fix the <mark>login</mark> form on <mark>mobile</mark>"
+        )
+      ).toEqual([
+        { text: "Fix the ", highlighted: false },
+        { text: "login", highlighted: true },
+        { text: " form on ", highlighted: false },
+        { text: "mobile", highlighted: true },
+      ]);
+    });
+
+    it("should keep markup other than the markers as text", () => {
+      expect(splitHighlights("<b>bold</b> <mark><script></mark>")).toEqual([
+        { text: "<b>bold</b> ", highlighted: false },
+        { text: "<script>", highlighted: true },
+      ]);
+    });
+
+    it("should treat an unterminated marker as plain text", () => {
+      expect(splitHighlights("a <mark>b")).toEqual([
+        { text: "a ", highlighted: false },
+        { text: "b", highlighted: false },
+      ]);
+    });
+  });
+
+  describe("findDependencyCycle", () => {
+    // c depends on b, b depends on a
+    const tasks = [
+      { id: "a", dependencies: [] },
+      { id: "b", dependencies: ["a"] },
+      { id: "c", dependencies: ["b"] },
+    ];
+
+    it("should return null when the graph stays acyclic", () => {
+      expect(findDependencyCycle("d", ["c", "a"], tasks)).toBeNull();
+      expect(findDependencyCycle("c", ["a"], tasks)).toBeNull();
+    });
+
+    it("should return the path of a transitive cycle", () => {
+      expect(findDependencyCycle("a", ["c"], tasks)).toEqual([
+        "a",
+        "c",
+        "b",
+        "a",
+      ]);
+    });
+
+    it("should report self-dependencies", () => {
+      expect(findDependencyCycle("a", ["a"], tasks)).toEqual(["a", "a"]);
+    });
+
+    it("should not loop on cycles that do not involve the task", () => {
+      const cyclic = [
+        { id: "x", dependencies: ["y"] },
+        { id: "y", dependencies: ["x"] },
+      ];
+
+      expect(findDependencyCycle("a", ["x"], cyclic)).toBeNull();
+    });
+  });
+
+  describe("getDependencyDrivenStatus", () => {
+    it("should block open tasks with an unfinished dependency", () => {
+      expect(getDependencyDrivenStatus("TODO", ["DONE", "IN_PROGRESS"])).toBe(
+        "BLOCKED"
+      );
+      expect(getDependencyDrivenStatus("IN_PROGRESS", ["TODO"])).toBe(
+        "BLOCKED"
+      );
+    });
+
+    it("should unblock tasks whose dependencies are all done", () => {
+      expect(getDependencyDrivenStatus("BLOCKED", ["DONE", "DONE"])).toBe(
+        "TODO"
+      );
+      expect(getDependencyDrivenStatus("BLOCKED", [])).toBe("TODO");
+    });
+
+    it("should leave tasks alone when their status already fits", () => {
+      expect(getDependencyDrivenStatus("BLOCKED", ["TODO"])).toBeNull();
+      expect(getDependencyDrivenStatus("IN_PROGRESS", ["DONE"])).toBeNull();
+      expect(getDependencyDrivenStatus("DONE", ["TODO"])).toBeNull();
+    });
+  });
+
+  describe("getDueState", () => {
+    const now = new Date("2025-03-10T12:00:00.000Z");
+
+    it("should flag open tasks past or close to their due date", () => {
+      expect(
+        getDueState(
+          { status: "TODO", dueDate: "2025-03-10T11:00:00.000Z" },
+          undefined,
+          now
+        )
+      ).toBe("overdue");
+      expect(
+        getDueState(
+          { status: "IN_PROGRESS", dueDate: "2025-03-12T12:00:00.000Z" },
+          undefined,
+          now
+        )
+      ).toBe("due-soon");
+      expect(
+        getDueState(
+          { status: "TODO", dueDate: new Date("2025-03-20T00:00:00.000Z") },
+          undefined,
+          now
+        )
+      ).toBeNull();
+    });
+
+    it("should ignore done tasks and tasks without a due date", () => {
+      expect(
+        getDueState(
+          { status: "DONE", dueDate: "2025-03-01T00:00:00.000Z" },
+          undefined,
+          now
+        )
+      ).toBeNull();
+      expect(
+        getDueState({ status: "TODO", dueDate: null }, undefined, now)
+      ).toBeNull();
+    });
+  });
+
+  describe("getChecklistProgress", () => {
+    it("should count the checked items", () => {
+      expect(
+        getChecklistProgress({
+          checklist: [
+            { id: "a", content: "Draft", done: true },
+            { id: "b", content: "Review", done: false },
+            { id: "c", content: "Publish", done: true },
+          ],
+        })
+      ).toEqual({ done: 2, total: 3 });
+    });
+
+    it("should return null without a checklist", () => {
+      expect(getChecklistProgress({ checklist: [] })).toBeNull();
+      expect(getChecklistProgress({})).toBeNull();
+    });
+  });
+
+  describe("groupCommentThreads", () => {
+    const comment = (id: string, minute: number, parentId?: string) => ({
+      id,
+      taskId: "task-1",
+      parentId,
+      content: id,
+      authorId: "user-1",
+      timestamp: `2025-01-01T00:0${minute}:00.000Z`,
+    });
+
+    it("should put replies under their parent, oldest first", () => {
+      const threads = groupCommentThreads([
+        comment("b", 3),
+        comment("reply-2", 5, "a"),
+        comment("a", 1),
+        comment("reply-1", 2, "a"),
+      ]);
+
+      expect(
+        threads.map((thread) => [
+          thread.comment.id,
+          thread.replies.map((reply) => reply.id),
+        ])
+      ).toEqual([
+        ["b", []],
+        ["a", ["reply-1", "reply-2"]],
+      ]);
+    });
+
+    it("should keep replies whose parent isn't loaded", () => {
+      const threads = groupCommentThreads([comment("reply", 2, "missing")]);
+      expect(threads.map((thread) => thread.comment.id)).toEqual(["reply"]);
+    });
+  });
+
+  describe("summarizeReactions", () => {
+    it("should count reactions per emoji in order of first use", () => {
+      const reaction = (emoji: string, userId: string) => ({
+        emoji,
+        userId,
+        createdAt: "2025-01-01T00:00:00.000Z",
+      });
+
+      expect(
+        summarizeReactions(
+          [
+            reaction("🎉", "user-2"),
+            reaction("👍", "user-1"),
+            reaction("🎉", "user-1"),
+            reaction("👍", "user-3"),
+            reaction("👀", "user-2"),
+          ],
+          "user-1"
+        )
+      ).toEqual([
+        { emoji: "🎉", count: 2, reacted: true },
+        { emoji: "👍", count: 2, reacted: true },
+        { emoji: "👀", count: 1, reacted: false },
+      ]);
+    });
+  });
+
+  describe("formatFileSize", () => {
+    it("should use the largest fitting unit", () => {
+      expect(formatFileSize(512)).toBe("512 B");
+      expect(formatFileSize(348_160)).toBe("340 KB");
+      expect(formatFileSize(10 * 1024 * 1024)).toBe("10.0 MB");
+    });
+  });
+
+  describe("diffActivityFields", () => {
+    const task = {
+      title: "Write docs",
+      status: "TODO",
+      assignedTo: [],
+      dependencies: [],
+      configuration: { priority: "MEDIUM" as const, tags: ["docs"] },
+    };
+
+    it("should record only the fields that changed", () => {
+      const changes = diffActivityFields(
+        getTaskActivityFields(task),
+        getTaskActivityFields({
+          ...task,
+          status: "IN_PROGRESS",
+          configuration: { ...task.configuration, priority: "HIGH" },
+        })
+      );
+
+      expect(changes).toEqual({
+        status: { before: "TODO", after: "IN_PROGRESS" },
+        priority: { before: "MEDIUM", after: "HIGH" },
+      });
+    });
+
+    it("should record dates as ISO strings", () => {
+      const changes = diffActivityFields(
+        getTaskActivityFields({ ...task, dueDate: null }),
+        getTaskActivityFields({
+          ...task,
+          dueDate: new Date("2025-03-10T00:00:00.000Z"),
+          estimate: 4,
+        })
+      );
+
+      expect(changes).toEqual({
+        dueDate: { before: null, after: "2025-03-10T00:00:00.000Z" },
+        estimate: { before: null, after: 4 },
+      });
+    });
+
+    it("should compare arrays and objects by value", () => {
+      expect(
+        diffActivityFields(
+          getTaskActivityFields(task),
+          getTaskActivityFields({
+            ...task,
+            configuration: { priority: "MEDIUM", tags: ["docs"] },
+          })
+        )
+      ).toEqual({});
+    });
+
+    it("should use null for the missing side of a create or delete", () => {
+      const changes = diffActivityFields(null, { content: "Hi", note: null });
+
+      expect(changes).toEqual({ content: { before: null, after: "Hi" } });
+      expect(diffActivityFields({ content: "Hi" }, null)).toEqual({
+        content: { before: "Hi", after: null },
+      });
+    });
+  });
+
+  describe("task ETags", () => {
+    it("should round-trip a version through If-Match", () => {
+      expect(formatTaskETag(3)).toBe('"3"');
+      expect(parseIfMatch(formatTaskETag(3))).toBe(3);
+    });
+
+    it("should ignore a missing or wildcard header and reject others", () => {
+      expect(parseIfMatch(null)).toBeUndefined();
+      expect(parseIfMatch("*")).toBeUndefined();
+      expect(parseIfMatch('W/"3"')).toBeNull();
+      expect(parseIfMatch("3")).toBeNull();
+    });
+  });
+
+  describe("mergeTaskChanges", () => {
+    const base = {
+      id: "task-1",
+      projectId: "project-1",
+      title: "Write docs",
+      status: "TODO",
+      assignedTo: [],
+      dependencies: [],
+      configuration: { priority: "MEDIUM" as const, description: "Draft" },
+      version: 1,
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+    };
+
+    it("should keep only the fields the user changed", () => {
+      const server = {
+        ...base,
+        title: "Write the docs",
+        configuration: { ...base.configuration, description: "Outline" },
+        version: 2,
+      };
+      const local = {
+        title: base.title,
+        status: "IN_PROGRESS",
+        configuration: { ...base.configuration, priority: "HIGH" as const },
+      };
+
+      expect(mergeTaskChanges(base, local, server)).toEqual({
+        status: "IN_PROGRESS",
+        configuration: { priority: "HIGH", description: "Outline" },
+      });
+    });
+
+    it("should return no changes when the user changed nothing", () => {
+      expect(
+        mergeTaskChanges(base, { title: base.title }, { ...base, version: 2 })
+      ).toEqual({});
+    });
+  });
 });
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+import { Workflow, WorkflowSchema } from "@/lib/types";
+import { getDependencyDrivenStatus } from "@/lib/utils";
+import {
+  canTransition,
+  DEFAULT_WORKFLOW,
+  getInitialStatus,
+  isDoneStatus,
+  isNotStartedStatus,
+} from "@/lib/workflow";
+
+const workflow: Workflow = {
+  statuses: [
+    { key: "ON_HOLD", label: "On hold", color: "#dc2626", category: "ACTIVE" },
+    {
+      key: "BACKLOG",
+      label: "Backlog",
+      color: "#6b7280",
+      category: "NOT_STARTED",
+    },
+    { key: "DEV", label: "Dev", color: "#2563eb", category: "ACTIVE" },
+    { key: "QA", label: "QA", color: "#f59e0b", category: "ACTIVE" },
+    { key: "DEPLOYED", label: "Deployed", color: "#16a34a", category: "DONE" },
+  ],
+  transitions: { BACKLOG: ["DEV"], QA: ["DEV", "DEPLOYED"] },
+  blockedStatus: "ON_HOLD",
+};
+
+describe("Workflow", () => {
+  describe("canTransition", () => {
+    it("should only allow listed moves for statuses with an entry", () => {
+      expect(canTransition(workflow, "BACKLOG", "DEV")).toBe(true);
+      expect(canTransition(workflow, "BACKLOG", "DEPLOYED")).toBe(false);
+      expect(canTransition(workflow, "QA", "DEPLOYED")).toBe(true);
+    });
+
+    it("should allow any move from statuses without an entry", () => {
+      expect(canTransition(workflow, "DEV", "DEPLOYED")).toBe(true);
+      expect(canTransition(DEFAULT_WORKFLOW, "TODO", "DONE")).toBe(true);
+    });
+
+    it("should reject unknown targets but allow staying put", () => {
+      expect(canTransition(workflow, "DEV", "TODO")).toBe(false);
+      expect(canTransition(workflow, "BACKLOG", "BACKLOG")).toBe(true);
+    });
+  });
+
+  describe("status categories", () => {
+    it("should derive done and not-started from the category", () => {
+      expect(isDoneStatus(workflow, "DEPLOYED")).toBe(true);
+      expect(isDoneStatus(workflow, "DONE")).toBe(false);
+      expect(isNotStartedStatus(workflow, "BACKLOG")).toBe(true);
+      expect(isNotStartedStatus(workflow, "ON_HOLD")).toBe(true);
+      expect(isNotStartedStatus(workflow, "DEV")).toBe(false);
+    });
+
+    it("should start tasks in the first not-started status", () => {
+      expect(getInitialStatus(workflow)).toBe("BACKLOG");
+      expect(getInitialStatus(DEFAULT_WORKFLOW)).toBe("TODO");
+    });
+  });
+
+  describe("getDependencyDrivenStatus", () => {
+    it("should use the workflow's blocked and initial statuses", () => {
+      expect(getDependencyDrivenStatus("DEV", ["QA"], workflow)).toBe(
+        "ON_HOLD"
+      );
+      expect(getDependencyDrivenStatus("ON_HOLD", ["DEPLOYED"], workflow)).toBe(
+        "BACKLOG"
+      );
+    });
+
+    it("should do nothing without a blocked status", () => {
+      expect(
+        getDependencyDrivenStatus("DEV", ["QA"], {
+          ...workflow,
+          blockedStatus: null,
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe("WorkflowSchema", () => {
+    it("should accept the default workflow", () => {
+      expect(WorkflowSchema.safeParse(DEFAULT_WORKFLOW).success).toBe(true);
+    });
+
+    it("should reject duplicate keys and unknown transition targets", () => {
+      const result = WorkflowSchema.safeParse({
+        ...workflow,
+        statuses: [...workflow.statuses, workflow.statuses[1]],
+        transitions: { BACKLOG: ["REVIEW"] },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+        'Duplicate status "BACKLOG"',
+        'Unknown status "REVIEW"',
+      ]);
+    });
+
+    it("should reject a done status as the blocked status", () => {
+      const result = WorkflowSchema.safeParse({
+        ...workflow,
+        blockedStatus: "DEPLOYED",
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+import { createHmac } from "crypto";
+import {
+  signBroadcastRequest,
+  signWebSocketToken,
+  verifyWebSocketToken,
+} from "@/lib/ws-auth";
+
+const secret = "test-ws-secret";
+
+describe("WebSocket Tokens", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should round-trip claims through sign and verify", () => {
+    const { token, expiresAt } = signWebSocketToken(
+      { sub: "user-1", email: "user@example.com", projectId: "project-1" },
+      secret
+    );
+
+    const claims = verifyWebSocketToken(token, secret);
+
+    expect(claims).toMatchObject({
+      sub: "user-1",
+      email: "user@example.com",
+      projectId: "project-1",
+    });
+    expect(claims!.exp * 1000).toBe(expiresAt);
+  });
+
+  it("should reject tokens signed with a different secret", () => {
+    const { token } = signWebSocketToken({ sub: "user-1" }, "other-secret");
+
+    expect(verifyWebSocketToken(token, secret)).toBeNull();
+  });
+
+  it("should reject tokens with a tampered payload", () => {
+    const { token } = signWebSocketToken({ sub: "user-1" }, secret);
+    const [header, , signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ sub: "user-2", iat: 0, exp: 9999999999 })
+    ).toString("base64url");
+
+    expect(
+      verifyWebSocketToken(`${header}.${forged}.${signature}`, secret)
+    ).toBeNull();
+  });
+
+  it("should reject expired tokens", () => {
+    jest.useFakeTimers();
+    const { token } = signWebSocketToken({ sub: "user-1" }, secret, 60);
+
+    jest.advanceTimersByTime(61 * 1000);
+
+    expect(verifyWebSocketToken(token, secret)).toBeNull();
+  });
+
+  it("should reject malformed tokens", () => {
+    expect(verifyWebSocketToken("not-a-token", secret)).toBeNull();
+    expect(verifyWebSocketToken("a.b.c", secret)).toBeNull();
+  });
+});
+
+describe("Broadcast Signing", () => {
+  it("should sign the timestamp, nonce and body with HMAC-SHA256", () => {
+    const body = JSON.stringify({ type: "TASK_DELETE", projectId: "p1" });
+
+    const headers = signBroadcastRequest(body, secret, 1700000000000);
+
+    const expected = createHmac("sha256", secret)
+      .update(`1700000000000.${headers["x-broadcast-nonce"]}.${body}`)
+      .digest("hex");
+    expect(headers["x-broadcast-timestamp"]).toBe("1700000000000");
+    expect(headers["x-broadcast-signature"]).toBe(`sha256=${expected}`);
+  });
+
+  it("should use a fresh nonce for every request", () => {
+    const first = signBroadcastRequest("{}", secret);
+    const second = signBroadcastRequest("{}", secret);
+
+    expect(first["x-broadcast-nonce"]).not.toBe(second["x-broadcast-nonce"]);
+  });
+});
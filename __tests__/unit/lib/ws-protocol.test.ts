@@ -0,0 +1,184 @@
+/**
+ * @jest-environment node
+ */
+import {
+  BroadcastRequestSchema,
+  MAX_CLIENT_MESSAGE_BYTES,
+  parseClientMessage,
+  parseServerMessage,
+  validateMessage,
+} from "@/lib/ws-protocol";
+
+const task = {
+  id: "task-1",
+  projectId: "project-1",
+  title: "Write the docs",
+  status: "TODO",
+  assignedTo: [],
+  configuration: { priority: "LOW", tags: [], customFields: {} },
+  dependencies: [],
+  version: 1,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  updatedAt: "2025-01-01T00:00:00.000Z",
+};
+
+describe("WebSocket Protocol", () => {
+  describe("parseClientMessage", () => {
+    it("should accept a valid message", () => {
+      const result = parseClientMessage(
+        JSON.stringify({
+          type: "JOIN_PROJECT",
+          projectId: "project-1",
+          token: "grant",
+        })
+      );
+
+      expect(result).toEqual({
+        success: true,
+        message: {
+          type: "JOIN_PROJECT",
+          projectId: "project-1",
+          token: "grant",
+        },
+      });
+    });
+
+    it("should reject frames that aren't JSON", () => {
+      expect(parseClientMessage("{not json")).toMatchObject({
+        success: false,
+        code: "INVALID_MESSAGE",
+      });
+    });
+
+    it("should reject oversized frames before parsing them", () => {
+      const result = parseClientMessage(
+        "x".repeat(MAX_CLIENT_MESSAGE_BYTES + 1)
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        code: "MESSAGE_TOO_LARGE",
+      });
+    });
+
+    it("should reject messages missing required fields", () => {
+      const result = parseClientMessage(
+        JSON.stringify({ type: "RESUME", projectId: "project-1" })
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        code: "INVALID_MESSAGE",
+        error: expect.stringContaining("lastSequence"),
+      });
+    });
+
+    it("should not accept room events from clients", () => {
+      const result = parseClientMessage(
+        JSON.stringify({
+          type: "TASK_UPDATE",
+          projectId: "project-1",
+          payload: { id: "task-1", changes: { title: "Hijacked" } },
+        })
+      );
+
+      expect(result).toEqual({
+        success: false,
+        code: "UNSUPPORTED_MESSAGE",
+        error: "Unsupported message type: TASK_UPDATE",
+      });
+    });
+  });
+
+  describe("parseServerMessage", () => {
+    it("should strip fields a payload doesn't declare", () => {
+      const result = parseServerMessage(
+        JSON.stringify({
+          type: "TASK_CREATE",
+          projectId: "project-1",
+          payload: { ...task, project: { id: "project-1" } },
+          seq: 3,
+          timestamp: 1,
+        })
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success && result.message.type === "TASK_CREATE") {
+        expect(result.message.payload).toEqual(task);
+      }
+    });
+
+    it("should reject typed errors with unknown codes", () => {
+      const result = parseServerMessage(
+        JSON.stringify({
+          type: "ERROR",
+          code: "OOPS",
+          error: "Unknown",
+          timestamp: 1,
+        })
+      );
+
+      expect(result).toMatchObject({
+        success: false,
+        code: "INVALID_MESSAGE",
+      });
+    });
+  });
+
+  describe("BroadcastRequestSchema", () => {
+    it("should accept the events the outbox records", () => {
+      const result = validateMessage(BroadcastRequestSchema, {
+        type: "COMMENT_DELETE",
+        payload: { id: "comment-1", taskId: "task-1" },
+        projectId: "project-1",
+        operationId: "op-1",
+        timestamp: 1,
+        userId: null,
+        eventId: "event-1",
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a comment's reactions", () => {
+      const result = validateMessage(BroadcastRequestSchema, {
+        type: "COMMENT_REACTION",
+        payload: {
+          commentId: "comment-1",
+          taskId: "task-1",
+          reactions: [
+            {
+              emoji: "🎉",
+              userId: "user-1",
+              createdAt: "2025-01-01T00:00:00.000Z",
+            },
+          ],
+          operationId: "op-1",
+          timestamp: 1,
+        },
+        projectId: "project-1",
+        operationId: "op-1",
+        timestamp: 1,
+        userId: "user-1",
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject events with a malformed payload", () => {
+      const result = validateMessage(BroadcastRequestSchema, {
+        type: "TASK_DELETE",
+        payload: {},
+        projectId: "project-1",
+        operationId: "op-1",
+        timestamp: 1,
+      });
+
+      expect(result).toMatchObject({
+        success: false,
+        code: "INVALID_MESSAGE",
+        error: "payload.taskId: Required",
+      });
+    });
+  });
+});
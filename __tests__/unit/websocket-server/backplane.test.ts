@@ -0,0 +1,228 @@
+/**
+ * @jest-environment node
+ */
+import {
+  EVENT_ID_TTL_MS,
+  PRESENCE_TTL_MS,
+  createMemoryBackplane,
+  createMemoryHub,
+} from "@/websocket-server/src/backplane.js";
+
+const alice = { userId: "user-1", clientId: "client-1" };
+const bob = { userId: "user-2", clientId: "client-2" };
+
+// Two server instances sharing a hub, as they would share a Redis server
+const createInstances = (replayBufferSize?: number) => {
+  const hub = createMemoryHub();
+  return [
+    createMemoryBackplane({ hub, replayBufferSize }),
+    createMemoryBackplane({ hub, replayBufferSize }),
+  ];
+};
+
+describe("Memory Backplane", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe("publish", () => {
+    it("should deliver envelopes to every connected instance, the publisher too", async () => {
+      const [first, second] = createInstances();
+      const firstReceived = jest.fn();
+      const secondReceived = jest.fn();
+      await first.connect(firstReceived);
+      await second.connect(secondReceived);
+
+      const envelope = {
+        kind: "message",
+        projectId: "project-1",
+        message: { type: "TASK_UPDATE", payload: { id: "task-1" } },
+      };
+      await first.publish(envelope);
+
+      expect(firstReceived).toHaveBeenCalledWith(envelope);
+      expect(secondReceived).toHaveBeenCalledWith(envelope);
+    });
+
+    it("should give each instance its own copy of the envelope", async () => {
+      const [first, second] = createInstances();
+      const received: { message: { seq?: number } }[] = [];
+      await first.connect((envelope: { message: object }) =>
+        received.push(envelope)
+      );
+      await second.connect((envelope: { message: object }) =>
+        received.push(envelope)
+      );
+
+      await first.publish({ kind: "message", message: {} });
+      received[0].message.seq = 1;
+
+      expect(received[1].message).toEqual({});
+    });
+
+    it("should stop delivering to an instance once it is closed", async () => {
+      const [first, second] = createInstances();
+      const secondReceived = jest.fn();
+      await first.connect(jest.fn());
+      await second.connect(secondReceived);
+
+      await second.close();
+      await first.publish({ kind: "message", message: {} });
+
+      expect(secondReceived).not.toHaveBeenCalled();
+    });
+
+    it("should not deliver across hubs", async () => {
+      const first = createMemoryBackplane({ hub: createMemoryHub() });
+      const other = createMemoryBackplane({ hub: createMemoryHub() });
+      const otherReceived = jest.fn();
+      await other.connect(otherReceived);
+
+      await first.publish({ kind: "message", message: {} });
+
+      expect(otherReceived).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("presence", () => {
+    it("should merge the users of every instance in a room", async () => {
+      const [first, second] = createInstances();
+
+      await first.setPresence("project-1", [alice]);
+      await second.setPresence("project-1", [bob]);
+
+      expect(await first.getPresence("project-1")).toEqual([alice, bob]);
+      expect(await second.getPresence("project-1")).toEqual([alice, bob]);
+      expect(await first.getPresence("project-2")).toEqual([]);
+    });
+
+    it("should replace an instance's users when it sets them again", async () => {
+      const [first, second] = createInstances();
+      await first.setPresence("project-1", [alice]);
+      await second.setPresence("project-1", [bob]);
+
+      await second.setPresence("project-1", []);
+
+      expect(await first.getPresence("project-1")).toEqual([alice]);
+    });
+
+    it("should drop an instance's users when it closes", async () => {
+      const [first, second] = createInstances();
+      await first.setPresence("project-1", [alice]);
+      await second.setPresence("project-1", [bob]);
+
+      await first.close();
+
+      expect(await second.getPresence("project-1")).toEqual([bob]);
+    });
+
+    it("should expire users of an instance that stopped refreshing them", async () => {
+      jest.useFakeTimers();
+      const [first, second] = createInstances();
+      await first.setPresence("project-1", [alice]);
+      await second.setPresence("project-1", [bob]);
+
+      // The second instance keeps refreshing; the first has died
+      jest.advanceTimersByTime(PRESENCE_TTL_MS / 2);
+      await second.setPresence("project-1", [bob]);
+      jest.advanceTimersByTime(PRESENCE_TTL_MS / 2);
+
+      expect(await second.getPresence("project-1")).toEqual([bob]);
+    });
+  });
+
+  describe("room log", () => {
+    it("should number messages from both instances in one sequence", async () => {
+      const [first, second] = createInstances();
+
+      const one = await first.appendToLog("project-1", { type: "A" });
+      const two = await second.appendToLog("project-1", { type: "B" });
+      const other = await second.appendToLog("project-2", { type: "C" });
+
+      expect(one).toEqual({ type: "A", projectId: "project-1", seq: 1 });
+      expect(two).toEqual({ type: "B", projectId: "project-1", seq: 2 });
+      expect(other.seq).toBe(1);
+      expect(first.epoch).toBe(second.epoch);
+    });
+
+    it("should read back messages after a sequence number in order", async () => {
+      const [first, second] = createInstances();
+      await first.appendToLog("project-1", { type: "A" });
+      await second.appendToLog("project-1", { type: "B" });
+      await first.appendToLog("project-1", { type: "C" });
+
+      const missed = await second.readLog("project-1", 1);
+
+      expect(missed.map((message: { type: string }) => message.type)).toEqual(
+        ["B", "C"]
+      );
+      expect(await first.readLog("project-2", 0)).toEqual([]);
+    });
+
+    it("should keep only the newest messages up to the buffer size", async () => {
+      const [first, second] = createInstances(2);
+      for (const type of ["A", "B", "C"]) {
+        await first.appendToLog("project-1", { type });
+      }
+
+      expect(await second.getLogInfo("project-1")).toEqual({
+        sequence: 3,
+        oldest: 2,
+        size: 2,
+      });
+      expect(
+        (await second.readLog("project-1", 0)).map(
+          (message: { seq: number }) => message.seq
+        )
+      ).toEqual([2, 3]);
+    });
+
+    it("should report an empty log for a room without messages", async () => {
+      const [first] = createInstances();
+
+      expect(await first.getLogInfo("project-1")).toEqual({
+        sequence: 0,
+        oldest: 1,
+        size: 0,
+      });
+    });
+  });
+
+  describe("claimEvent", () => {
+    it("should claim an outbox event only the first time it is seen", async () => {
+      const backplane = createMemoryBackplane({ hub: createMemoryHub() });
+
+      expect(await backplane.claimEvent("event-1")).toBe(true);
+      expect(await backplane.claimEvent("event-1")).toBe(false);
+      expect(await backplane.claimEvent("event-2")).toBe(true);
+    });
+
+    it("should drop an event resent to another instance", async () => {
+      const [first, second] = createInstances();
+
+      expect(await first.claimEvent("event-1")).toBe(true);
+      expect(await second.claimEvent("event-1")).toBe(false);
+    });
+
+    it("should claim a released event again", async () => {
+      const [first, second] = createInstances();
+
+      await first.claimEvent("event-1");
+      await first.releaseEvent("event-1");
+
+      expect(await second.claimEvent("event-1")).toBe(true);
+    });
+
+    it("should forget event IDs once they expire", async () => {
+      jest.useFakeTimers();
+      const backplane = createMemoryBackplane({ hub: createMemoryHub() });
+
+      await backplane.claimEvent("event-1");
+      jest.advanceTimersByTime(EVENT_ID_TTL_MS - 1);
+      expect(await backplane.claimEvent("event-1")).toBe(false);
+
+      jest.advanceTimersByTime(1);
+      expect(await backplane.claimEvent("event-1")).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createMemoryBackplane,
+  createMemoryHub,
+} from "@/websocket-server/src/backplane.js";
+import { deliverOnce } from "@/websocket-server/src/delivery.js";
+
+describe("deliverOnce", () => {
+  const createBackplane = () =>
+    createMemoryBackplane({ hub: createMemoryHub() });
+
+  it("should deliver an event the first time it is sent", async () => {
+    const backplane = createBackplane();
+    const deliver = jest.fn(() => Promise.resolve());
+
+    expect(await deliverOnce(backplane, "event-1", deliver)).toBe(true);
+    expect(deliver).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop a resent event that was delivered", async () => {
+    const backplane = createBackplane();
+    const deliver = jest.fn(() => Promise.resolve());
+
+    await deliverOnce(backplane, "event-1", deliver);
+
+    expect(await deliverOnce(backplane, "event-1", deliver)).toBe(false);
+    expect(deliver).toHaveBeenCalledTimes(1);
+  });
+
+  it("should deliver the resend of an event whose delivery failed", async () => {
+    const backplane = createBackplane();
+    const deliver = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("backplane unavailable"))
+      .mockResolvedValueOnce(undefined);
+
+    await expect(deliverOnce(backplane, "event-1", deliver)).rejects.toThrow(
+      "backplane unavailable"
+    );
+
+    expect(await deliverOnce(backplane, "event-1", deliver)).toBe(true);
+    expect(deliver).toHaveBeenCalledTimes(2);
+    expect(await backplane.claimEvent("event-1")).toBe(false);
+  });
+
+  it("should report the delivery error when releasing the claim fails", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const backplane = createBackplane();
+    backplane.releaseEvent = jest.fn(() =>
+      Promise.reject(new Error("redis down"))
+    );
+
+    await expect(
+      deliverOnce(backplane, "event-1", () =>
+        Promise.reject(new Error("backplane unavailable"))
+      )
+    ).rejects.toThrow("backplane unavailable");
+  });
+
+  it("should always deliver events without an ID", async () => {
+    const backplane = createBackplane();
+    const deliver = jest.fn(() => Promise.resolve());
+
+    await deliverOnce(backplane, undefined, deliver);
+    await deliverOnce(backplane, undefined, deliver);
+
+    expect(deliver).toHaveBeenCalledTimes(2);
+  });
+});
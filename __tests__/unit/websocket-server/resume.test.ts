@@ -0,0 +1,118 @@
+/**
+ * @jest-environment node
+ */
+import {
+  createMemoryBackplane,
+  createMemoryHub,
+} from "@/websocket-server/src/backplane.js";
+import { resumeFromLog } from "@/websocket-server/src/resume.js";
+
+describe("resumeFromLog", () => {
+  const createBackplane = async (count: number, replayBufferSize = 500) => {
+    const backplane = createMemoryBackplane({
+      hub: createMemoryHub(),
+      replayBufferSize,
+    });
+    for (let i = 0; i < count; i++) {
+      await backplane.appendToLog("project-1", { type: "TASK_DELETE" });
+    }
+    return backplane;
+  };
+
+  it("should replay the messages after the client's position in order", async () => {
+    const backplane = await createBackplane(5);
+
+    const { missed, reply } = await resumeFromLog(
+      backplane,
+      "project-1",
+      2,
+      backplane.epoch
+    );
+
+    expect(missed.map((message: { seq: number }) => message.seq)).toEqual([
+      3, 4, 5,
+    ]);
+    expect(reply).toMatchObject({
+      type: "RESUMED",
+      projectId: "project-1",
+      seq: 5,
+      epoch: backplane.epoch,
+      payload: { replayed: 3 },
+    });
+  });
+
+  it("should resume with nothing to replay when the client is up to date", async () => {
+    const backplane = await createBackplane(5);
+
+    const { missed, reply } = await resumeFromLog(
+      backplane,
+      "project-1",
+      5,
+      backplane.epoch
+    );
+
+    expect(missed).toEqual([]);
+    expect(reply).toMatchObject({ type: "RESUMED", seq: 5 });
+  });
+
+  it("should replay from the oldest message the buffer still holds", async () => {
+    const backplane = await createBackplane(5, 3);
+
+    const { missed } = await resumeFromLog(
+      backplane,
+      "project-1",
+      2,
+      backplane.epoch
+    );
+
+    expect(missed.map((message: { seq: number }) => message.seq)).toEqual([
+      3, 4, 5,
+    ]);
+  });
+
+  it("should require a resync once the buffer was trimmed past the client's position", async () => {
+    const backplane = await createBackplane(5, 3);
+
+    const { missed, reply } = await resumeFromLog(
+      backplane,
+      "project-1",
+      1,
+      backplane.epoch
+    );
+
+    expect(missed).toBeNull();
+    expect(reply).toMatchObject({
+      type: "RESYNC_REQUIRED",
+      projectId: "project-1",
+      seq: 5,
+      epoch: backplane.epoch,
+    });
+  });
+
+  it("should require a resync for a position from another epoch", async () => {
+    const backplane = await createBackplane(5);
+
+    const { reply } = await resumeFromLog(
+      backplane,
+      "project-1",
+      2,
+      "old-epoch"
+    );
+
+    expect(reply.type).toBe("RESYNC_REQUIRED");
+  });
+
+  it("should require a resync for a position the room never reached", async () => {
+    const backplane = await createBackplane(5);
+
+    for (const lastSequence of [6, -1, 2.5, "2"]) {
+      const { reply } = await resumeFromLog(
+        backplane,
+        "project-1",
+        lastSequence,
+        backplane.epoch
+      );
+      expect(reply.type).toBe("RESYNC_REQUIRED");
+    }
+  });
+});
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AttachmentService } from "@/lib/db";
+import { generateOperationId } from "@/lib/utils";
+import {
+  authorizeAttachment,
+  authorizeAttachmentModification,
+  accessDeniedResponse,
+} from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/attachments/{id}:
+ *   get:
+ *     summary: Download an attachment
+ *     description: Get the attached file with its stored MIME type. Images are served inline so they can be shown as thumbnails; other files are sent as downloads. Requires any role in the attachment's project.
+ *     tags: [Attachments]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Attachment ID
+ *     responses:
+ *       200:
+ *         description: The file
+ *         content:
+ *           application/octet-stream:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeAttachment(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+    const { attachment } = access.data;
+
+    const file = await AttachmentService.readFile(attachment);
+    if (!file) {
+      console.error("Attachment file missing from storage:", id);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Attachment not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    const disposition = attachment.mimeType.startsWith("image/")
+      ? "inline"
+      : "attachment";
+    return new NextResponse(new Uint8Array(file), {
+      headers: {
+        "Content-Type": attachment.mimeType,
+        "Content-Length": String(file.length),
+        "Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=3600",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading attachment:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to download attachment",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/attachments/{id}:
+ *   delete:
+ *     summary: Delete an attachment
+ *     description: Delete an attachment and its file. Only the uploader or a project ADMIN or OWNER may delete it. The task's updated attachment list is broadcast to all connected clients in real-time.
+ *     tags: [Attachments]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Attachment ID
+ *     responses:
+ *       200:
+ *         description: Attachment deleted successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeAttachment(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+    const modification = authorizeAttachmentModification(access.data);
+    if (!modification.success) {
+      return accessDeniedResponse(modification);
+    }
+
+    const operationId = generateOperationId();
+    await AttachmentService.delete(id, {
+      actorId: access.data.user.id,
+      operationId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error deleting attachment:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to delete attachment",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AttachmentService } from "@/lib/db";
+import { readAttachmentUpload } from "@/lib/attachments";
+import { generateOperationId } from "@/lib/utils";
+import {
+  authorizeComment,
+  authorizeCommentModification,
+  accessDeniedResponse,
+} from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/comments/{id}/attachments:
+ *   post:
+ *     summary: Attach a file to a comment
+ *     description: Upload a file to a comment, with the same form field and limits as POST /api/tasks/{id}/attachments. The attachment belongs to the comment's task with `commentId` set, is deleted along with the comment, and is broadcast as part of the task's attachment list. Only the comment's author or a project admin can attach files to it.
+ *     tags: [Attachments]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Comment ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: File attached; returns the attachment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Attachment'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeComment(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+    const modification = authorizeCommentModification(access.data);
+    if (!modification.success) {
+      return accessDeniedResponse(modification);
+    }
+
+    const upload = await readAttachmentUpload(request);
+
+    const operationId = generateOperationId();
+    const attachment = await AttachmentService.create(
+      access.data.comment.taskId,
+      id,
+      upload,
+      { actorId: access.data.user.id, operationId }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: attachment,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error uploading comment attachment:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid attachment",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to upload attachment",
+      },
+      { status: 500 }
+    );
+  }
+}
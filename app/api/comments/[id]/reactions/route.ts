@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CommentService } from "@/lib/db";
+import { CommentReactionSchema } from "@/lib/types";
+import { generateOperationId } from "@/lib/utils";
+import { authorizeComment, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/comments/{id}/reactions:
+ *   post:
+ *     summary: React to a comment
+ *     description: Add the current user's reaction with `emoji` to a comment; reacting again with the same emoji changes nothing. Returns the comment's reactions, which are broadcast as a COMMENT_REACTION to all connected clients in real-time. Requires the MEMBER role or higher in the comment's project.
+ *     tags: [Comments]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Comment ID
+ *         example: "comment_123456789"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [emoji]
+ *             properties:
+ *               emoji:
+ *                 type: string
+ *                 enum: ["👍", "👎", "😄", "🎉", "😕", "❤️", "🚀", "👀"]
+ *     responses:
+ *       200:
+ *         description: Reaction added; returns the comment's reactions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CommentReaction'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeComment(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const body = await request.json();
+    const { emoji } = CommentReactionSchema.parse(body);
+
+    const operationId = generateOperationId();
+    const reactions = await CommentService.addReaction(id, emoji, {
+      actorId: access.data.user.id,
+      operationId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: reactions,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error adding reaction:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid reaction",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to add reaction",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/comments/{id}/reactions:
+ *   delete:
+ *     summary: Remove a reaction from a comment
+ *     description: Remove the current user's reaction with `emoji` from a comment, if there is one. Returns the comment's reactions, which are broadcast as a COMMENT_REACTION to all connected clients in real-time. Requires the MEMBER role or higher in the comment's project.
+ *     tags: [Comments]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Comment ID
+ *         example: "comment_123456789"
+ *       - in: query
+ *         name: emoji
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: ["👍", "👎", "😄", "🎉", "😕", "❤️", "🚀", "👀"]
+ *     responses:
+ *       200:
+ *         description: Reaction removed; returns the comment's reactions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CommentReaction'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeComment(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const { emoji } = CommentReactionSchema.parse({
+      emoji: request.nextUrl.searchParams.get("emoji"),
+    });
+
+    const operationId = generateOperationId();
+    const reactions = await CommentService.removeReaction(id, emoji, {
+      actorId: access.data.user.id,
+      operationId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: reactions,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error removing reaction:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid reaction",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to remove reaction",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CommentService } from "@/lib/db";
+import { CreateCommentSchema } from "@/lib/types";
+import { generateOperationId } from "@/lib/utils";
+import { authorizeComment, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/comments/{id}/replies:
+ *   post:
+ *     summary: Reply to a comment
+ *     description: Create a comment on the same task with `parentId` set to this comment. Threads are one level deep, so replies can only be made to top-level comments; a reply to a reply is rejected. Replies are listed with the task's other comments and are deleted along with their parent. The reply is broadcast as a COMMENT_CREATE to all connected clients in real-time. Requires the MEMBER role or higher in the comment's project.
+ *     tags: [Comments]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ID of the comment to reply to
+ *         example: "comment_123456789"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/UpdateCommentRequest'
+ *     responses:
+ *       200:
+ *         description: Reply created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Comment'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeComment(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+    const { user, comment } = access.data;
+
+    const body = await request.json();
+    const validatedData = CreateCommentSchema.parse({
+      content: body.content,
+      taskId: comment.taskId,
+      parentId: id,
+      authorId: user.id,
+    });
+
+    const operationId = generateOperationId();
+    const reply = await CommentService.create(validatedData, {
+      actorId: user.id,
+      operationId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: reply,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error creating reply:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid reply",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to create reply",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { CommentService, TaskService } from "@/lib/db";
+import { CommentService } from "@/lib/db";
 import { UpdateCommentSchema } from "@/lib/types";
-import { websocketClient } from "@/lib/websocket-client";
 import { generateOperationId } from "@/lib/utils";
-import { getCurrentUser } from "@/lib/auth-utils";
+import {
+  authorizeComment,
+  authorizeCommentModification,
+  accessDeniedResponse,
+} from "@/lib/authorization";
 
 interface RouteParams {
   params: Promise<{
@@ -16,8 +19,10 @@ interface RouteParams {
  * /api/comments/{id}:
  *   get:
  *     summary: Get a specific comment by ID
- *     description: Retrieve a comment by its ID
+ *     description: Retrieve a comment by its ID. Requires any role in the comment's project.
  *     tags: [Comments]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -39,6 +44,8 @@ interface RouteParams {
  *                   example: true
  *                 data:
  *                   $ref: '#/components/schemas/Comment'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       500:
@@ -47,21 +54,14 @@ interface RouteParams {
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const comment = await CommentService.findById(id);
-
-    if (!comment) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Comment not found",
-        },
-        { status: 404 }
-      );
+    const access = await authorizeComment(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
     }
 
     return NextResponse.json({
       success: true,
-      data: comment,
+      data: access.data.comment,
     });
   } catch (error) {
     console.error("Error fetching comment:", error);
@@ -80,8 +80,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * /api/comments/{id}:
  *   put:
  *     summary: Update a comment
- *     description: Update an existing comment. Changes are broadcast to all connected clients in real-time.
+ *     description: Update an existing comment. Only the comment author or a project ADMIN or OWNER may update it. Changes are broadcast to all connected clients in real-time.
  *     tags: [Comments]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -114,6 +116,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  *                   example: "op_123456789"
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       500:
@@ -122,51 +128,29 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
+    const access = await authorizeComment(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+    const modification = authorizeCommentModification(access.data);
+    if (!modification.success) {
+      return accessDeniedResponse(modification);
+    }
+    const { user } = access.data;
+
     const body = await request.json();
     const validatedData = UpdateCommentSchema.parse(body);
 
-    const comment = await CommentService.update(id, validatedData);
-
-    // Get task to find project ID for broadcasting
-    // The comment should have taskId, but we need to handle the type properly
-    const taskId =
-      (comment as { taskId?: string; task?: { id: string } }).taskId ||
-      (comment as { taskId?: string; task?: { id: string } }).task?.id;
-    const task = taskId ? await TaskService.findById(taskId) : null;
-    if (task) {
-      // Broadcast comment update to WebSocket clients
-      console.log("Broadcasting comment update:", {
-        commentId: (comment as unknown as { id: string }).id,
-        taskId: taskId,
-        projectId: task.projectId,
-        changes: validatedData,
-      });
-
-      try {
-        // Get the current user for broadcasting
-        const user = await getCurrentUser();
-
-        await websocketClient.broadcastCommentUpdate(
-          task.projectId,
-          {
-            id: (comment as unknown as { id: string }).id,
-            taskId: (comment as unknown as { taskId: string }).taskId,
-            changes: validatedData,
-            operationId: generateOperationId(),
-            timestamp: Date.now(),
-          },
-          user?.data?.id
-        );
-        console.log("Comment update broadcast successful");
-      } catch (broadcastError) {
-        console.error("Failed to broadcast comment update:", broadcastError);
-      }
-    }
+    const operationId = generateOperationId();
+    const comment = await CommentService.update(id, validatedData, {
+      actorId: user.id,
+      operationId,
+    });
 
     return NextResponse.json({
       success: true,
       data: comment,
-      operationId: generateOperationId(),
+      operationId,
     });
   } catch (error) {
     console.error("Error updating comment:", error);
@@ -197,8 +181,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  * /api/comments/{id}:
  *   delete:
  *     summary: Delete a comment
- *     description: Delete a comment. The deletion is broadcast to all connected clients in real-time.
+ *     description: Delete a comment. Only the comment author or a project ADMIN or OWNER may delete it. The deletion is broadcast to all connected clients in real-time.
  *     tags: [Comments]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -221,6 +207,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  *                 operationId:
  *                   type: string
  *                   example: "op_123456789"
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       500:
@@ -231,60 +221,23 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     const { id } = await params;
     console.log("DELETE comment request:", { commentId: id });
 
-    const comment = await CommentService.findById(id);
-    console.log(
-      "Comment found:",
-      comment
-        ? {
-            id: (comment as unknown as { id: string }).id,
-            taskId: (comment as unknown as { taskId: string }).taskId,
-          }
-        : null
-    );
-
-    if (!comment) {
-      console.log("Comment not found for deletion:", id);
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Comment not found",
-        },
-        { status: 404 }
-      );
+    const access = await authorizeComment(id, "MEMBER");
+    if (!access.success) {
+      console.log("Comment not found or not accessible for deletion:", id);
+      return accessDeniedResponse(access);
     }
-
-    await CommentService.delete(id);
-
-    // Get task to find project ID for broadcasting
-    const task = await TaskService.findById(
-      (comment as unknown as { taskId: string }).taskId
-    );
-    if (task) {
-      // Broadcast comment deletion to WebSocket clients
-      console.log("Broadcasting comment deletion:", {
-        commentId: (comment as unknown as { id: string }).id,
-        taskId: (comment as unknown as { taskId: string }).taskId,
-        projectId: task.projectId,
-      });
-
-      try {
-        // Get the current user for broadcasting
-        const user = await getCurrentUser();
-
-        await websocketClient.broadcastCommentDelete(
-          task.projectId,
-          (comment as unknown as { id: string }).id,
-          user?.data?.id
-        );
-        console.log("Comment deletion broadcast successful");
-      } catch (broadcastError) {
-        console.error("Failed to broadcast comment deletion:", broadcastError);
-      }
+    const modification = authorizeCommentModification(access.data);
+    if (!modification.success) {
+      return accessDeniedResponse(modification);
     }
+    const { user } = access.data;
+
+    const operationId = generateOperationId();
+    await CommentService.delete(id, { actorId: user.id, operationId });
 
     return NextResponse.json({
       success: true,
-      operationId: generateOperationId(),
+      operationId,
     });
   } catch (error) {
     console.error("Error deleting comment:", error);
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ProjectService, TaskService } from "@/lib/db";
+import { buildDependencyGraph } from "@/lib/dependency-graph";
+import { authorizeProject, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/projects/{id}/graph:
+ *   get:
+ *     summary: Get the task dependency graph of a project
+ *     description: |
+ *       Return the project's task dependency DAG with a topological order,
+ *       each task's depth, an earliest-start schedule with slack, the critical
+ *       path and the tasks that are ready to start. Work is weighted by a
+ *       task's `remaining` hours, or its `estimate` when `remaining` is
+ *       unset, if positive and by one unit otherwise; tasks in a status of
+ *       the DONE category weigh nothing. Tasks in a dependency cycle are
+ *       listed in `cyclic` and have no schedule.
+ *       Requires any role in the project.
+ *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *         example: "project_123456789"
+ *     responses:
+ *       200:
+ *         description: Dependency graph
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/DependencyGraph'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeProject(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const [tasks, workflow] = await Promise.all([
+      TaskService.findDependencyGraphTasks(id),
+      ProjectService.findWorkflow(id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: buildDependencyGraph(tasks, workflow),
+    });
+  } catch (error) {
+    console.error("Error building dependency graph:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to build dependency graph",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,226 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ProjectMemberService } from "@/lib/db";
+import { UpdateProjectMemberSchema } from "@/lib/types";
+import { generateOperationId, hasProjectRole } from "@/lib/utils";
+import { authorizeProject, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+    userId: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/projects/{id}/members/{userId}:
+ *   put:
+ *     summary: Change a member's role
+ *     description: Update the role of a project member. Requires the ADMIN role or higher.
+ *     tags: [Projects]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *         example: "project_123456789"
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID of the member
+ *         example: "user_987654321"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, MEMBER, VIEWER]
+ *                 example: "VIEWER"
+ *             required: [role]
+ *     responses:
+ *       200:
+ *         description: Member role updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ProjectMember'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, userId } = await params;
+    const access = await authorizeProject(id, "ADMIN");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const body = await request.json();
+    const validatedData = UpdateProjectMemberSchema.parse(body);
+
+    const existing = await ProjectMemberService.findByProjectAndUser(
+      id,
+      userId
+    );
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    const member = await ProjectMemberService.updateRole(
+      id,
+      userId,
+      validatedData.role
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: member,
+      operationId: generateOperationId(),
+    });
+  } catch (error) {
+    console.error("Error updating project member:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid member data",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update project member",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/projects/{id}/members/{userId}:
+ *   delete:
+ *     summary: Remove a member from a project
+ *     description: Revoke a user's access to a project. Requires the ADMIN role or higher, except that any member may remove themselves.
+ *     tags: [Projects]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *         example: "project_123456789"
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: User ID of the member
+ *         example: "user_987654321"
+ *     responses:
+ *       200:
+ *         description: Member removed successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, userId } = await params;
+    const access = await authorizeProject(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    // Members can always leave; removing someone else needs ADMIN
+    const isSelf = access.data.user.id === userId;
+    if (!isSelf && !hasProjectRole(access.data.role, "ADMIN")) {
+      return accessDeniedResponse({
+        success: false,
+        error: "This action requires the ADMIN role or higher",
+        status: 403,
+      });
+    }
+
+    const existing = await ProjectMemberService.findByProjectAndUser(
+      id,
+      userId
+    );
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: "Member not found" },
+        { status: 404 }
+      );
+    }
+
+    await ProjectMemberService.remove(id, userId);
+
+    return NextResponse.json({
+      success: true,
+      operationId: generateOperationId(),
+    });
+  } catch (error) {
+    console.error("Error removing project member:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to remove project member",
+      },
+      { status: 500 }
+    );
+  }
+}
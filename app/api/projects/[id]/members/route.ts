@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma, ProjectMemberService } from "@/lib/db";
+import { AddProjectMemberSchema } from "@/lib/types";
+import { generateOperationId } from "@/lib/utils";
+import { authorizeProject, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/projects/{id}/members:
+ *   get:
+ *     summary: Get the members of a project
+ *     description: Retrieve all members of a project with their roles. The project owner is not listed here; it is the project's ownerId. Requires any role in the project.
+ *     tags: [Projects]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *         example: "project_123456789"
+ *     responses:
+ *       200:
+ *         description: List of project members
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ProjectMember'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeProject(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const members = await ProjectMemberService.findByProjectId(id);
+
+    return NextResponse.json({
+      success: true,
+      data: members,
+    });
+  } catch (error) {
+    console.error("Error fetching project members:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch project members",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/projects/{id}/members:
+ *   post:
+ *     summary: Add a member to a project
+ *     description: Share a project with another user, identified by user ID or email. Requires the ADMIN role or higher.
+ *     tags: [Projects]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Project ID
+ *         example: "project_123456789"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AddProjectMemberRequest'
+ *     responses:
+ *       200:
+ *         description: Member added successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ProjectMember'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: User is already a member of the project
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *             example:
+ *               success: false
+ *               error: "User is already a member of this project"
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeProject(id, "ADMIN");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const body = await request.json();
+    const validatedData = AddProjectMemberSchema.parse(body);
+
+    const user = await prisma.user.findFirst({
+      where: validatedData.userId
+        ? { id: validatedData.userId }
+        : { email: validatedData.email },
+    });
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { ownerId: true },
+    });
+    if (project?.ownerId === user.id) {
+      return NextResponse.json(
+        { success: false, error: "User is already the owner of this project" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await ProjectMemberService.findByProjectAndUser(
+      id,
+      user.id
+    );
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: "User is already a member of this project" },
+        { status: 409 }
+      );
+    }
+
+    const member = await ProjectMemberService.add(
+      id,
+      user.id,
+      validatedData.role
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: member,
+      operationId: generateOperationId(),
+    });
+  } catch (error) {
+    console.error("Error adding project member:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid member data",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to add project member",
+      },
+      { status: 500 }
+    );
+  }
+}
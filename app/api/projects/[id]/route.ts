@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ProjectService } from "@/lib/db";
 import { UpdateProjectSchema } from "@/lib/types";
-import { websocketClient } from "@/lib/websocket-client";
 import { generateOperationId } from "@/lib/utils";
+import { authorizeProject, accessDeniedResponse } from "@/lib/authorization";
 
 interface RouteParams {
   params: Promise<{
@@ -15,8 +15,10 @@ interface RouteParams {
  * /api/projects/{id}:
  *   get:
  *     summary: Get a specific project by ID
- *     description: Retrieve a project by its ID
+ *     description: Retrieve a project by its ID. Requires any role in the project.
  *     tags: [Projects]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -38,6 +40,10 @@ interface RouteParams {
  *                   example: true
  *                 data:
  *                   $ref: '#/components/schemas/Project'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       500:
@@ -46,6 +52,11 @@ interface RouteParams {
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
+    const access = await authorizeProject(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
     const project = await ProjectService.findById(id);
 
     if (!project) {
@@ -60,7 +71,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({
       success: true,
-      data: project,
+      data: { ...project, role: access.data.role },
     });
   } catch (error) {
     console.error("Error fetching project:", error);
@@ -79,8 +90,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * /api/projects/{id}:
  *   put:
  *     summary: Update a project
- *     description: Update an existing project
+ *     description: Update an existing project. Requires the ADMIN role or higher. A new `workflow` (or `null` to restore the default) must keep every status that tasks are still in; otherwise a 400 lists the statuses in use.
  *     tags: [Projects]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -113,6 +126,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  *                   example: "op_123456789"
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       500:
@@ -121,24 +138,24 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
+    const access = await authorizeProject(id, "ADMIN");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
     const body = await request.json();
     const validatedData = UpdateProjectSchema.parse(body);
 
-    const project = await ProjectService.update(id, validatedData);
-
-    // Broadcast project update to WebSocket clients
-    await websocketClient.broadcastProjectUpdate(project.id, {
-      id: project.id,
-      projectId: project.id,
-      changes: validatedData,
-      operationId: generateOperationId(),
-      timestamp: Date.now(),
+    const operationId = generateOperationId();
+    const project = await ProjectService.update(id, validatedData, {
+      actorId: access.data.user.id,
+      operationId,
     });
 
     return NextResponse.json({
       success: true,
       data: project,
-      operationId: generateOperationId(),
+      operationId,
     });
   } catch (error) {
     console.error("Error updating project:", error);
@@ -169,8 +186,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  * /api/projects/{id}:
  *   delete:
  *     summary: Delete a project
- *     description: Delete a project and all its associated tasks
+ *     description: Delete a project and all its associated tasks. Only the project owner can delete it.
  *     tags: [Projects]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -193,6 +212,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  *                 operationId:
  *                   type: string
  *                   example: "op_123456789"
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       500:
@@ -201,14 +224,20 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    await ProjectService.delete(id);
+    const access = await authorizeProject(id, "OWNER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
 
-    // Broadcast project deletion to WebSocket clients
-    await websocketClient.broadcastProjectDelete(id);
+    const operationId = generateOperationId();
+    await ProjectService.delete(id, {
+      actorId: access.data.user.id,
+      operationId,
+    });
 
     return NextResponse.json({
       success: true,
-      operationId: generateOperationId(),
+      operationId,
     });
   } catch (error) {
     console.error("Error deleting project:", error);
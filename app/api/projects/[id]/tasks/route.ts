@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { TaskService, ProjectService } from "@/lib/db";
-import { CreateTaskSchema } from "@/lib/types";
-import { websocketClient } from "@/lib/websocket-client";
+import { parseTaskCursor, TaskService } from "@/lib/db";
+import { CreateTaskSchema, TaskListQuerySchema } from "@/lib/types";
 import { generateOperationId } from "@/lib/utils";
-import { getCurrentUser } from "@/lib/auth-utils";
+import { authorizeProject, accessDeniedResponse } from "@/lib/authorization";
 
 interface RouteParams {
   params: Promise<{
@@ -15,9 +14,11 @@ interface RouteParams {
  * @swagger
  * /api/projects/{id}/tasks:
  *   get:
- *     summary: Get all tasks for a project
- *     description: Retrieve all tasks belonging to a specific project
+ *     summary: Get tasks for a project
+ *     description: Retrieve a filtered, sorted page of a project's tasks. Pass the returned nextCursor as `cursor` to fetch the next page. Tasks carry commentCount instead of comments unless `include=comments` is set. Requires any role in the project.
  *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -26,9 +27,99 @@ interface RouteParams {
  *           type: string
  *         description: Project ID
  *         example: "project_123456789"
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *         description: Comma-separated statuses
+ *         example: "TODO,IN_PROGRESS"
+ *       - in: query
+ *         name: priority
+ *         schema:
+ *           type: string
+ *         description: Comma-separated priorities
+ *         example: "HIGH,URGENT"
+ *       - in: query
+ *         name: assignee
+ *         schema:
+ *           type: string
+ *         description: Only tasks assigned to this user ID
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *         description: Only tasks with this tag
+ *       - in: query
+ *         name: dependencies
+ *         schema:
+ *           type: string
+ *           enum: [ready, blocked]
+ *         description: ready returns tasks whose dependencies are all in a done status; blocked returns the rest
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Text to match in the title (case-insensitive) or description
+ *       - in: query
+ *         name: startFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only tasks starting on or after this date or date-time
+ *         example: "2025-03-01"
+ *       - in: query
+ *         name: startTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only tasks starting on or before this date or date-time
+ *       - in: query
+ *         name: dueFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only tasks due on or after this date or date-time
+ *       - in: query
+ *         name: dueTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only tasks due on or before this date or date-time; tasks without a due date never match a due range
+ *         example: "2025-03-31T23:59:59Z"
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, updatedAt, title, startDate, dueDate]
+ *           default: createdAt
+ *         description: Tasks without a start or due date come last when sorting by it
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from a previous response's nextCursor
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *       - in: query
+ *         name: include
+ *         schema:
+ *           type: string
+ *           enum: [comments]
+ *         description: Embed each task's comments
  *     responses:
  *       200:
- *         description: List of project tasks
+ *         description: Page of project tasks
  *         content:
  *           application/json:
  *             schema:
@@ -41,20 +132,65 @@ interface RouteParams {
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Task'
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor for the next page; null on the last page
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const tasks = await TaskService.findByProjectId(id);
+    const access = await authorizeProject(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const query = TaskListQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (
+      query.cursor &&
+      !parseTaskCursor(query.cursor, query.sort, query.order)
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    const { tasks, nextCursor } = await TaskService.list(
+      id,
+      access.data.user.id,
+      query
+    );
 
     return NextResponse.json({
       success: true,
       data: tasks,
+      nextCursor,
     });
   } catch (error) {
     console.error("Error fetching tasks:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid task query",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -70,7 +206,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * /api/projects/{id}/tasks:
  *   post:
  *     summary: Create a new task in a project
- *     description: Create a new task within a specific project. The task creation is broadcast to all connected clients in real-time.
+ *     description: Create a new task within a specific project. Requires the MEMBER role or higher. The status must be one of the project's workflow statuses and defaults to its first not-started status. Dependencies must be existing tasks in the same project; in projects with `autoBlock`, a task created with an open dependency starts in the blocked status instead. The task creation is broadcast to all connected clients in real-time.
  *     tags: [Tasks]
  *     security:
  *       - ClerkAuth: []
@@ -108,6 +244,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  *         $ref: '#/components/responses/ValidationError'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         description: Project not found or access denied
  *         content:
@@ -123,21 +261,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
-    }
 
-    // Verify user owns the project
-    const project = await ProjectService.findById(id);
-    if (!project || project.ownerId !== user.data?.id) {
-      return NextResponse.json(
-        { success: false, error: "Project not found or access denied" },
-        { status: 404 }
-      );
+    // Creating tasks requires at least the MEMBER role
+    const access = await authorizeProject(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
     }
 
     const body = await request.json();
@@ -153,15 +281,16 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       updatedAt: new Date(),
     };
 
-    const task = await TaskService.create(taskData);
-
-    // Broadcast task creation to WebSocket clients
-    await websocketClient.broadcastTaskCreate(id, task);
+    const operationId = generateOperationId();
+    const task = await TaskService.create(taskData, {
+      actorId: access.data.user.id,
+      operationId,
+    });
 
     return NextResponse.json({
       success: true,
       data: task,
-      operationId: generateOperationId(),
+      operationId,
     });
   } catch (error) {
     console.error("Error creating task:", error);
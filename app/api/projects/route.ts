@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { ProjectService } from "@/lib/db";
 import { CreateProjectSchema } from "@/lib/types";
-import { websocketClient } from "@/lib/websocket-client";
 import { generateOperationId } from "@/lib/utils";
 import { getCurrentUser } from "@/lib/auth-utils";
 
@@ -10,7 +9,7 @@ import { getCurrentUser } from "@/lib/auth-utils";
  * /api/projects:
  *   get:
  *     summary: Get all projects for the current user
- *     description: Retrieve all projects owned by the authenticated user
+ *     description: Retrieve all projects the authenticated user owns or has been added to as a member. Each project includes the user's `role`.
  *     tags: [Projects]
  *     security:
  *       - ClerkAuth: []
@@ -44,7 +43,7 @@ export async function GET() {
       );
     }
 
-    const projects = await ProjectService.findByOwnerId(user.data!.id);
+    const projects = await ProjectService.findByUserId(user.data!.id);
     return NextResponse.json({
       success: true,
       data: projects,
@@ -122,20 +121,16 @@ export async function POST(request: NextRequest) {
       updatedAt: new Date(),
     };
 
-    const project = await ProjectService.create(projectData);
-
-    // Broadcast project creation to WebSocket clients
-    await websocketClient.broadcastProjectUpdate(project.id, {
-      type: "PROJECT_CREATE",
-      payload: project,
-      operationId: generateOperationId(),
-      timestamp: Date.now(),
+    const operationId = generateOperationId();
+    const project = await ProjectService.create(projectData, {
+      actorId: validatedData.ownerId,
+      operationId,
     });
 
     return NextResponse.json({
       success: true,
       data: project,
-      operationId: generateOperationId(),
+      operationId,
     });
   } catch (error) {
     console.error("Error creating project:", error);
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-utils";
+import { SearchService } from "@/lib/db";
+import { SearchQuerySchema } from "@/lib/types";
+import { authorizeProject, accessDeniedResponse } from "@/lib/authorization";
+
+/**
+ * @swagger
+ * /api/search:
+ *   get:
+ *     summary: Search tasks and comments
+ *     description: Full-text search over task titles, descriptions, tags and comments in every project the user can access. Results are ranked by relevance and carry highlighted snippets of the matching fields. The query supports quoted phrases, `or` and `-term`.
+ *     tags: [Search]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           maxLength: 200
+ *         description: Search query
+ *         example: "login -mobile"
+ *       - in: query
+ *         name: projectId
+ *         schema:
+ *           type: string
+ *         description: Only search this project; requires any role in it
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 50
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Ranked search results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SearchResult'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const query = SearchQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    // Scoping to a project reuses its access check so non-members get the
+    // same 404 as on the project routes
+    let userId: string;
+    if (query.projectId) {
+      const access = await authorizeProject(query.projectId);
+      if (!access.success) {
+        return accessDeniedResponse(access);
+      }
+      userId = access.data.user.id;
+    } else {
+      const user = await getCurrentUser();
+      if (!user.success || !user.data) {
+        return NextResponse.json(
+          { success: false, error: "Unauthorized" },
+          { status: 401 }
+        );
+      }
+      userId = user.data.id;
+    }
+
+    const results = await SearchService.search(userId, query);
+
+    return NextResponse.json({
+      success: true,
+      data: results,
+    });
+  } catch (error) {
+    console.error("Error searching tasks:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid search query",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to search tasks",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ActivityService, parseActivityCursor } from "@/lib/db";
+import { ActivityQuerySchema } from "@/lib/types";
+import { authorizeTask, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/tasks/{id}/activity:
+ *   get:
+ *     summary: Get the activity history of a task
+ *     description: Retrieve a page of the task's activity log, newest first: every change to the task and its comments with the actor, a field-level before/after diff and the operationId. Entries without an actor were made by the server, e.g. by auto-block. Pass the returned nextCursor as `cursor` to fetch the next page. Requires any role in the task's project.
+ *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *         example: "task_123456789"
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: Opaque cursor from a previous response's nextCursor
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Page of activity entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Activity'
+ *                 nextCursor:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Cursor for the next page; null on the last page
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeTask(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const query = ActivityQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (query.cursor && !parseActivityCursor(query.cursor)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    const { activities, nextCursor } = await ActivityService.findByTask(
+      id,
+      query
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: activities,
+      nextCursor,
+    });
+  } catch (error) {
+    console.error("Error fetching task activity:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid activity query",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch activity",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AttachmentService } from "@/lib/db";
+import { readAttachmentUpload } from "@/lib/attachments";
+import { generateOperationId } from "@/lib/utils";
+import { authorizeTask, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/tasks/{id}/attachments:
+ *   get:
+ *     summary: List a task's attachments
+ *     description: Get the files attached to a task and to its comments, oldest first; those attached to a comment have `commentId` set. Requires any role in the task's project.
+ *     tags: [Attachments]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *         example: "task_123456789"
+ *     responses:
+ *       200:
+ *         description: The task's attachments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Attachment'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeTask(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const attachments = await AttachmentService.findByTaskId(id);
+
+    return NextResponse.json({
+      success: true,
+      data: attachments,
+    });
+  } catch (error) {
+    console.error("Error fetching attachments:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch attachments",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/tasks/{id}/attachments:
+ *   post:
+ *     summary: Attach a file to a task
+ *     description: Upload a file as multipart/form-data in the `file` field. Files are limited to 10 MB and to images (PNG, JPEG, GIF, WebP), PDF, JSON, ZIP, plain text, CSV and Markdown; `.txt`, `.log`, `.csv`, `.md` and `.json` files sent without a type are recognized by their extension. The task's updated attachment list is broadcast to the project as a TASK_UPDATE. Requires the MEMBER role or higher in the task's project.
+ *     tags: [Attachments]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *         example: "task_123456789"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: File attached; returns the attachment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Attachment'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeTask(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const upload = await readAttachmentUpload(request);
+
+    const operationId = generateOperationId();
+    const attachment = await AttachmentService.create(id, null, upload, {
+      actorId: access.data.user.id,
+      operationId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: attachment,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error uploading attachment:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid attachment",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to upload attachment",
+      },
+      { status: 500 }
+    );
+  }
+}
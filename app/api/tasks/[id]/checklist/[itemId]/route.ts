@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ChecklistItemNotFoundError, TaskService } from "@/lib/db";
+import { UpdateChecklistItemSchema } from "@/lib/types";
+import { generateOperationId } from "@/lib/utils";
+import { authorizeTask, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+    itemId: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/tasks/{id}/checklist/{itemId}:
+ *   put:
+ *     summary: Update or complete a checklist item
+ *     description: Change a checklist item's text, or check it off or on again with `done`. The updated checklist is broadcast to the project as a TASK_UPDATE. Requires the MEMBER role or higher in the task's project.
+ *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *         example: "task_123456789"
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Checklist item ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Write and run the migration"
+ *               done:
+ *                 type: boolean
+ *                 example: true
+ *     responses:
+ *       200:
+ *         description: Item updated; returns the updated task
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, itemId } = await params;
+    const access = await authorizeTask(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const body = await request.json();
+    const validatedData = UpdateChecklistItemSchema.parse(body);
+
+    const operationId = generateOperationId();
+    const task = await TaskService.updateChecklistItem(
+      id,
+      itemId,
+      validatedData,
+      { actorId: access.data.user.id, operationId }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: task,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error updating checklist item:", error);
+
+    if (error instanceof ChecklistItemNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid checklist item",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to update checklist item",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/tasks/{id}/checklist/{itemId}:
+ *   delete:
+ *     summary: Remove a checklist item
+ *     description: Remove an item from the task's checklist. The updated checklist is broadcast to the project as a TASK_UPDATE. Requires the MEMBER role or higher in the task's project.
+ *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *         example: "task_123456789"
+ *       - in: path
+ *         name: itemId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Checklist item ID
+ *     responses:
+ *       200:
+ *         description: Item removed; returns the updated task
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, itemId } = await params;
+    const access = await authorizeTask(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const operationId = generateOperationId();
+    const task = await TaskService.removeChecklistItem(id, itemId, {
+      actorId: access.data.user.id,
+      operationId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: task,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error removing checklist item:", error);
+
+    if (error instanceof ChecklistItemNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to remove checklist item",
+      },
+      { status: 500 }
+    );
+  }
+}
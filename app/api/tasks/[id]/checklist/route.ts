@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TaskService } from "@/lib/db";
+import { CreateChecklistItemSchema, ReorderChecklistSchema } from "@/lib/types";
+import { generateOperationId } from "@/lib/utils";
+import { authorizeTask, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/tasks/{id}/checklist:
+ *   post:
+ *     summary: Add an item to a task's checklist
+ *     description: Append an unchecked item to the task's checklist, which holds at most 100 items. The updated checklist is broadcast to the project as a TASK_UPDATE. Requires the MEMBER role or higher in the task's project.
+ *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *         example: "task_123456789"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [content]
+ *             properties:
+ *               content:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Write the migration"
+ *     responses:
+ *       200:
+ *         description: Item added; returns the updated task
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeTask(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const body = await request.json();
+    const validatedData = CreateChecklistItemSchema.parse(body);
+
+    const operationId = generateOperationId();
+    const task = await TaskService.addChecklistItem(id, validatedData, {
+      actorId: access.data.user.id,
+      operationId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: task,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error adding checklist item:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid checklist item",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to add checklist item",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/tasks/{id}/checklist:
+ *   put:
+ *     summary: Reorder a task's checklist
+ *     description: Put the checklist items in the given order. `itemIds` must list every item of the checklist exactly once; a list missing an item someone else just added, or naming one they removed, is rejected with 400 and should be retried against the current checklist. The new order is broadcast to the project as a TASK_UPDATE. Requires the MEMBER role or higher in the task's project.
+ *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *         example: "task_123456789"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [itemIds]
+ *             properties:
+ *               itemIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["item_2", "item_1", "item_3"]
+ *     responses:
+ *       200:
+ *         description: Checklist reordered; returns the updated task
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeTask(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const body = await request.json();
+    const { itemIds } = ReorderChecklistSchema.parse(body);
+
+    const operationId = generateOperationId();
+    const task = await TaskService.reorderChecklist(id, itemIds, {
+      actorId: access.data.user.id,
+      operationId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: task,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error reordering checklist:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid checklist order",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to reorder checklist",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
-import { CommentService, TaskService } from "@/lib/db";
-import { getCurrentUser } from "@/lib/auth-utils";
+import { CommentService } from "@/lib/db";
+import { authorizeTask, accessDeniedResponse } from "@/lib/authorization";
 import { CreateCommentSchema } from "@/lib/types";
-import { websocketClient } from "@/lib/websocket-client";
 import { generateOperationId } from "@/lib/utils";
 
 interface RouteParams {
@@ -16,8 +15,10 @@ interface RouteParams {
  * /api/tasks/{id}/comments:
  *   get:
  *     summary: Get all comments for a task
- *     description: Retrieve all comments belonging to a specific task
+ *     description: Retrieve all comments belonging to a specific task. Requires any role in the task's project.
  *     tags: [Comments]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -41,12 +42,21 @@ interface RouteParams {
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/Comment'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
+    const access = await authorizeTask(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
     const comments = await CommentService.findByTaskId(id);
 
     return NextResponse.json({
@@ -70,7 +80,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * /api/tasks/{id}/comments:
  *   post:
  *     summary: Create a new comment on a task
- *     description: Create a new comment on a specific task. The comment creation is broadcast to all connected clients in real-time.
+ *     description: Create a new comment on a specific task, or a reply to one of its top-level comments with `parentId`. Requires the MEMBER role or higher in the task's project. The comment creation is broadcast to all connected clients in real-time.
  *     tags: [Comments]
  *     security:
  *       - ClerkAuth: []
@@ -108,25 +118,28 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  *         $ref: '#/components/responses/ValidationError'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const user = await getCurrentUser();
-    if (!user) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 }
-      );
+    // Commenting requires at least the MEMBER role in the task's project
+    const access = await authorizeTask(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
     }
+    const { user } = access.data;
 
     const body = await request.json();
     const validatedData = CreateCommentSchema.parse({
       ...body,
       taskId: id,
-      authorId: user.data!.id, // Use internal database user ID
+      authorId: user.id, // Use internal database user ID
     });
 
     // Generate a unique ID for the comment
@@ -142,42 +155,21 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       content: commentData.content.substring(0, 50) + "...",
     });
 
-    const comment = await CommentService.create(commentData);
+    const operationId = generateOperationId();
+    const comment = await CommentService.create(commentData, {
+      actorId: user.id,
+      operationId,
+    });
     console.log("Comment created successfully:", {
       id: (comment as unknown as { id: string }).id,
       taskId: (comment as unknown as { taskId: string }).taskId,
       authorId: (comment as unknown as { authorId: string }).authorId,
     });
 
-    // Get task to find project ID for broadcasting
-    const task = await TaskService.findById(id);
-    if (task) {
-      // Broadcast comment creation to WebSocket clients
-      console.log("Broadcasting comment creation:", {
-        commentId: (comment as unknown as { id: string }).id,
-        taskId: task.id,
-        projectId: task.projectId,
-      });
-
-      try {
-        await websocketClient.broadcastCommentCreate(
-          task.projectId,
-          comment,
-          user.data!.id
-        );
-        console.log("Comment creation broadcast successful");
-      } catch (broadcastError) {
-        console.error("Failed to broadcast comment creation:", broadcastError);
-        // Don't fail the request if broadcasting fails
-      }
-    } else {
-      console.error("Task not found for comment broadcasting:", id);
-    }
-
     return NextResponse.json({
       success: true,
       data: comment,
-      operationId: generateOperationId(),
+      operationId,
     });
   } catch (error) {
     console.error("Error creating comment:", error);
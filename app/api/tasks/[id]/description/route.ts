@@ -0,0 +1,246 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DescriptionHistoryError, TaskDescriptionService } from "@/lib/db";
+import {
+  DescriptionOperationSchema,
+  DescriptionQuerySchema,
+} from "@/lib/types";
+import { generateOperationId } from "@/lib/utils";
+import { authorizeTask, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/tasks/{id}/description:
+ *   get:
+ *     summary: Get the collaborative description document of a task
+ *     description: Retrieve the task's description with its revision, the number of operations applied to it. Editors load it before sending operations. With `since`, the operations applied after that revision are included so an editor that missed some broadcasts can catch up; if they are no longer kept, the request fails with 409 and the editor should reload. Requires any role in the task's project.
+ *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *         example: "task_123456789"
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Include the operations applied after this revision
+ *     responses:
+ *       200:
+ *         description: Description document
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     text:
+ *                       type: string
+ *                     revision:
+ *                       type: integer
+ *                     operations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/DescriptionOperation'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The operations after `since` are no longer kept
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeTask(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const { since } = DescriptionQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const document = await TaskDescriptionService.findDocument(id, since);
+    if (!document) {
+      return NextResponse.json(
+        { success: false, error: "Task not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: document,
+    });
+  } catch (error) {
+    console.error("Error fetching task description:", error);
+
+    if (error instanceof DescriptionHistoryError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid description query",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to fetch task description",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * @swagger
+ * /api/tasks/{id}/description:
+ *   post:
+ *     summary: Apply an edit to a task description
+ *     description: Apply a text operation made against `revision` of the description. The server transforms it over the operations applied since then, so concurrent edits from several editors are all kept, and broadcasts the result to the project as DESCRIPTION_OP. Operations whose base revision is no longer kept are rejected with 409; reload the description and edit again. Plain PUT updates of configuration.description still work and are logged as an operation replacing the changed text. Operations advance the description's revision but not the task's version, so an If-Match sent with other edits stays valid, and each editing session is logged as a single activity entry. Requires the MEMBER role or higher in the task's project.
+ *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *         example: "task_123456789"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [revision, operation, clientId]
+ *             properties:
+ *               revision:
+ *                 type: integer
+ *                 description: Revision the operation was made against
+ *                 example: 12
+ *               operation:
+ *                 type: array
+ *                 items:
+ *                   oneOf:
+ *                     - type: integer
+ *                     - type: string
+ *                 example: [6, "brave ", 5]
+ *               clientId:
+ *                 type: string
+ *                 description: Editor session sending the operation, echoed in the broadcast
+ *     responses:
+ *       200:
+ *         description: Operation applied
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/DescriptionOperation'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The operation's base revision is no longer kept
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeTask(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const body = await request.json();
+    const validatedData = DescriptionOperationSchema.parse(body);
+
+    const operationId = generateOperationId();
+    const { operation } = await TaskDescriptionService.applyOperation(
+      id,
+      validatedData,
+      { actorId: access.data.user.id, operationId }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: operation,
+      operationId,
+    });
+  } catch (error) {
+    console.error("Error editing task description:", error);
+
+    if (error instanceof DescriptionHistoryError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid description operation",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to edit task description",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { TaskService } from "@/lib/db";
+import { MoveTaskSchema } from "@/lib/types";
+import { generateOperationId } from "@/lib/utils";
+import { authorizeTask, accessDeniedResponse } from "@/lib/authorization";
+
+interface RouteParams {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+/**
+ * @swagger
+ * /api/tasks/{id}/move:
+ *   post:
+ *     summary: Move a task on the board
+ *     description: Put a task right below `afterTaskId` in the `status` column, or at the top of the column when `afterTaskId` is null, changing its status and position in one write. Without `status` the task is reordered within its current column. The new status must be reachable from the current one through the workflow's transitions, and `afterTaskId` must be another task in the target column. Columns are ordered by each task's `rank`, so only the moved task's rank changes; tasks in the column that were never ranked get a rank first, broadcast with the move's `operationId` in `causedBy`. The move, and any autoBlock cascade it causes, is broadcast to all connected clients in real-time. Moves apply on top of concurrent edits and don't take If-Match. Requires the MEMBER role or higher in the task's project.
+ *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Task ID
+ *         example: "task_123456789"
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [afterTaskId]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 description: Status key of the target column; defaults to the current status
+ *                 example: "IN_PROGRESS"
+ *               afterTaskId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Task the moved task goes right below, or null for the top of the column
+ *                 example: "task_987654321"
+ *     responses:
+ *       200:
+ *         description: Task moved; returns the updated task
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/Task'
+ *                 operationId:
+ *                   type: string
+ *                   example: "op_123456789"
+ *                 cascade:
+ *                   type: array
+ *                   description: Dependents whose status changed because of this move
+ *                   items:
+ *                     $ref: '#/components/schemas/Task'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const access = await authorizeTask(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const body = await request.json();
+    const validatedData = MoveTaskSchema.parse(body);
+
+    const operationId = generateOperationId();
+    const { task, cascade } = await TaskService.move(id, validatedData, {
+      actorId: access.data.user.id,
+      operationId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: task,
+      operationId,
+      cascade,
+    });
+  } catch (error) {
+    console.error("Error moving task:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid move",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to move task",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { TaskService } from "@/lib/db";
+import { TaskService, TaskVersionConflictError } from "@/lib/db";
 import { UpdateTaskSchema } from "@/lib/types";
-import { websocketClient } from "@/lib/websocket-client";
-import { generateOperationId } from "@/lib/utils";
-import { getCurrentUser } from "@/lib/auth-utils";
+import { formatTaskETag, generateOperationId, parseIfMatch } from "@/lib/utils";
+import { authorizeTask, accessDeniedResponse } from "@/lib/authorization";
 
 interface RouteParams {
   params: Promise<{
@@ -16,8 +15,10 @@ interface RouteParams {
  * /api/tasks/{id}:
  *   get:
  *     summary: Get a specific task by ID
- *     description: Retrieve a task by its ID
+ *     description: Retrieve a task by its ID. The ETag header carries the task's version for use in If-Match on updates. Requires any role in the task's project.
  *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -29,6 +30,12 @@ interface RouteParams {
  *     responses:
  *       200:
  *         description: Task details
+ *         headers:
+ *           ETag:
+ *             description: Current version of the task
+ *             schema:
+ *               type: string
+ *               example: '"3"'
  *         content:
  *           application/json:
  *             schema:
@@ -39,6 +46,10 @@ interface RouteParams {
  *                   example: true
  *                 data:
  *                   $ref: '#/components/schemas/Task'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       500:
@@ -47,22 +58,21 @@ interface RouteParams {
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const task = await TaskService.findById(id);
-
-    if (!task) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Task not found",
-        },
-        { status: 404 }
-      );
+    const access = await authorizeTask(id);
+    if (!access.success) {
+      return accessDeniedResponse(access);
     }
 
-    return NextResponse.json({
-      success: true,
-      data: task,
-    });
+    const { task } = access.data;
+    return NextResponse.json(
+      {
+        success: true,
+        data: task,
+      },
+      {
+        headers: task.version ? { ETag: formatTaskETag(task.version) } : {},
+      }
+    );
   } catch (error) {
     console.error("Error fetching task:", error);
     return NextResponse.json(
@@ -80,8 +90,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * /api/tasks/{id}:
  *   put:
  *     summary: Update a task
- *     description: Update an existing task. Changes are broadcast to all connected clients in real-time.
+ *     description: Update an existing task. Requires the MEMBER role or higher in the task's project. A new status must exist in the project's workflow and be reachable from the current one through its transitions. New dependencies must be other tasks in the same project and must not create a cycle; violations return a 400 naming the cycle path. In projects with `autoBlock`, changing dependencies without a status re-derives whether the task is blocked, reopening a done task blocks its dependents and finishing one unblocks the dependents with no open dependencies left. Changes are broadcast to all connected clients in real-time; each cascaded change carries the triggering `operationId` in `causedBy`. Send the ETag of the task you edited as If-Match to reject the update with a 409 if someone else changed the task in the meantime; without it the update always applies. The description is edited collaboratively: a configuration without one keeps the current description, and a new one is applied as an edit that open editors merge with their own (see /api/tasks/{id}/description).
  *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -90,6 +102,12 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  *           type: string
  *         description: Task ID
  *         example: "task_123456789"
+ *       - in: header
+ *         name: If-Match
+ *         schema:
+ *           type: string
+ *         description: ETag of the task version the update is based on
+ *         example: '"3"'
  *     requestBody:
  *       required: true
  *       content:
@@ -112,58 +130,91 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  *                 operationId:
  *                   type: string
  *                   example: "op_123456789"
+ *                 cascade:
+ *                   type: array
+ *                   description: Dependents whose status changed because of this update
+ *                   items:
+ *                     $ref: '#/components/schemas/Task'
+ *         headers:
+ *           ETag:
+ *             description: New version of the task
+ *             schema:
+ *               type: string
  *       400:
  *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
+ *       409:
+ *         description: The task changed since the If-Match version; data holds its current state and the ETag header its current version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiResponse'
+ *             example:
+ *               success: false
+ *               error: "Task has been modified since it was loaded"
+ *               conflict: true
  *       500:
  *         $ref: '#/components/responses/InternalServerError'
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
+    const access = await authorizeTask(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
+    }
+
+    const expectedVersion = parseIfMatch(request.headers.get("If-Match"));
+    if (expectedVersion === null) {
+      return NextResponse.json(
+        { success: false, error: "Invalid If-Match header" },
+        { status: 400 }
+      );
+    }
+
     const body = await request.json();
     const validatedData = UpdateTaskSchema.parse(body);
 
-    const task = await TaskService.update(id, validatedData);
-
-    // Broadcast task update to WebSocket clients
-    console.log("Broadcasting task update:", {
-      originalId: id,
-      taskIdFromDB: task.id,
-      projectId: task.projectId,
-      changes: validatedData,
-      idsMatch: id === task.id,
-    });
+    const operationId = generateOperationId();
+    const { task, cascade } = await TaskService.update(
+      id,
+      validatedData,
+      { actorId: access.data.user.id, operationId },
+      expectedVersion
+    );
 
-    try {
-      // Get the current user for broadcasting
-      const user = await getCurrentUser();
+    return NextResponse.json(
+      {
+        success: true,
+        data: task,
+        operationId,
+        cascade,
+      },
+      { headers: { ETag: formatTaskETag(task.version!) } }
+    );
+  } catch (error) {
+    console.error("Error updating task:", error);
 
-      await websocketClient.broadcastTaskUpdate(
-        task.projectId,
+    if (error instanceof TaskVersionConflictError) {
+      return NextResponse.json(
         {
-          id: id, // Use the original task ID from the route parameter
-          projectId: task.projectId,
-          changes: validatedData,
-          operationId: generateOperationId(),
-          timestamp: Date.now(),
+          success: false,
+          error: error.message,
+          data: error.task,
+          conflict: true,
         },
-        user?.data?.id
+        {
+          status: 409,
+          headers: { ETag: formatTaskETag(error.task.version!) },
+        }
       );
-      console.log("Task update broadcast successful");
-    } catch (broadcastError) {
-      console.error("Failed to broadcast task update:", broadcastError);
     }
 
-    return NextResponse.json({
-      success: true,
-      data: task,
-      operationId: generateOperationId(),
-    });
-  } catch (error) {
-    console.error("Error updating task:", error);
-
     if (error instanceof Error && error.name === "ZodError") {
       return NextResponse.json(
         {
@@ -190,8 +241,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  * /api/tasks/{id}:
  *   delete:
  *     summary: Delete a task
- *     description: Delete a task. The deletion is broadcast to all connected clients in real-time.
+ *     description: Delete a task. Requires the MEMBER role or higher in the task's project. The task is removed from the dependencies of every task that depended on it in the same transaction; in projects with `autoBlock`, blocked dependents left without open dependencies are unblocked. The deletion, and an update for each affected task carrying the deletion's `operationId` in `causedBy`, are broadcast to all connected clients in real-time.
  *     tags: [Tasks]
+ *     security:
+ *       - ClerkAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -214,6 +267,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  *                 operationId:
  *                   type: string
  *                   example: "op_123456789"
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
  *       404:
  *         $ref: '#/components/responses/NotFoundError'
  *       500:
@@ -222,32 +279,21 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
-    const task = await TaskService.findById(id);
-    if (!task) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Task not found",
-        },
-        { status: 404 }
-      );
+    const access = await authorizeTask(id, "MEMBER");
+    if (!access.success) {
+      return accessDeniedResponse(access);
     }
+    const { user } = access.data;
 
-    await TaskService.delete(id);
-
-    // Get the current user for broadcasting
-    const user = await getCurrentUser();
-
-    // Broadcast task deletion to WebSocket clients
-    await websocketClient.broadcastTaskDelete(
-      task.projectId,
-      id,
-      user?.data?.id
-    );
+    const operationId = generateOperationId();
+    await TaskService.delete(id, {
+      actorId: user.id,
+      operationId,
+    });
 
     return NextResponse.json({
       success: true,
-      operationId: generateOperationId(),
+      operationId,
     });
   } catch (error) {
     console.error("Error deleting task:", error);
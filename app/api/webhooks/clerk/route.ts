@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Webhook } from "svix";
 import { headers } from "next/headers";
-import { prisma } from "@/lib/db";
+import { prisma, UserService } from "@/lib/db";
 
 // Clerk webhook events we want to handle
 const WEBHOOK_EVENTS = {
@@ -163,12 +163,9 @@ async function handleUserDeleted(user: ClerkUser) {
   try {
     // Delete user from our database
     // Note: This will cascade delete related projects, tasks, and comments
-    // due to the onDelete: Cascade in our Prisma schema
-    await prisma.user.delete({
-      where: {
-        clerkId: user.id,
-      },
-    });
+    // due to the onDelete: Cascade in our Prisma schema; UserService tells
+    // the affected project rooms
+    await UserService.delete({ clerkId: user.id });
 
     console.log(`User deleted: ${user.id}`);
   } catch (error) {
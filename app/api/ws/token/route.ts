@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth-utils";
+import { authorizeProject, accessDeniedResponse } from "@/lib/authorization";
+import { WebSocketTokenRequestSchema } from "@/lib/types";
+import {
+  getWebSocketAuthSecret,
+  signWebSocketToken,
+  WebSocketTokenInput,
+} from "@/lib/ws-auth";
+
+/**
+ * @swagger
+ * /api/ws/token:
+ *   post:
+ *     summary: Issue a WebSocket token
+ *     description: |
+ *       Issue a short-lived signed token for the real-time server. Without a
+ *       projectId the token authenticates the connection and is passed as the
+ *       `token` query parameter of the WebSocket URL. With a projectId the
+ *       token is a grant for that project and must be sent with the
+ *       JOIN_PROJECT message; it requires any role in the project.
+ *     tags: [Authentication]
+ *     security:
+ *       - ClerkAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               projectId:
+ *                 type: string
+ *                 example: "project_123456789"
+ *     responses:
+ *       200:
+ *         description: Token issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     token:
+ *                       type: string
+ *                       description: HS256-signed JWT
+ *                     expiresAt:
+ *                       type: number
+ *                       description: Expiry as a Unix timestamp in milliseconds
+ *                       example: 1705312800000
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ *       500:
+ *         $ref: '#/components/responses/InternalServerError'
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const secret = getWebSocketAuthSecret();
+    if (!secret) {
+      console.error("WS_AUTH_SECRET is not set; cannot issue WebSocket tokens");
+      return NextResponse.json(
+        {
+          success: false,
+          error: "WebSocket authentication is not configured",
+        },
+        { status: 500 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { projectId } = WebSocketTokenRequestSchema.parse(body);
+
+    const user = await getCurrentUser();
+    if (!user.success || !user.data) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // The token carries identity for presence, so clients can't claim
+    // another user's ID or name
+    const { id, firstName, lastName, email } = user.data;
+    const claims: WebSocketTokenInput = {
+      sub: id,
+      name: `${firstName || ""} ${lastName || ""}`.trim() || undefined,
+      firstName: firstName || undefined,
+      lastName: lastName || undefined,
+      email,
+    };
+
+    if (projectId) {
+      const access = await authorizeProject(projectId);
+      if (!access.success) {
+        return accessDeniedResponse(access);
+      }
+      claims.projectId = projectId;
+      claims.role = access.data.role;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: signWebSocketToken(claims, secret),
+    });
+  } catch (error) {
+    console.error("Error issuing WebSocket token:", error);
+
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid token request",
+          details: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to issue WebSocket token",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@ import { useEffect, useState, useRef, useCallback } from "react";
 import { useAppStore } from "@/lib/store";
 import { apiClient } from "@/lib/api-client";
 import { TaskBoard } from "@/components/task-board";
+import { TaskSearch } from "@/components/task-search";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, Users } from "lucide-react";
 
@@ -15,8 +16,14 @@ export default function ProjectPage() {
   const router = useRouter();
   const projectId = params.id as string;
 
-  const { currentProject, setCurrentProject, setProjects, setTasks, loading } =
-    useAppStore();
+  const {
+    currentProject,
+    setCurrentProject,
+    setProjects,
+    setTasks,
+    setTasksNextCursor,
+    loading,
+  } = useAppStore();
 
   const [projectLoaded, setProjectLoaded] = useState(false);
   const loadingRef = useRef(false);
@@ -45,6 +52,7 @@ export default function ProjectPage() {
         const tasksResponse = await apiClient.getTasks(projectId);
         if (tasksResponse.success && tasksResponse.data) {
           setTasks(tasksResponse.data);
+          setTasksNextCursor(tasksResponse.nextCursor ?? null);
         }
 
         setProjectLoaded(true);
@@ -60,6 +68,7 @@ export default function ProjectPage() {
     setProjects,
     setCurrentProject,
     setTasks,
+    setTasksNextCursor,
     setProjectLoaded,
     router,
   ]);
@@ -147,6 +156,17 @@ export default function ProjectPage() {
           </div>
 
           <div className="flex items-center space-x-4">
+            <TaskSearch
+              projectId={projectId}
+              onSelect={(result) =>
+                router.replace(
+                  `/projects/${projectId}?task=${encodeURIComponent(
+                    result.taskId
+                  )}`
+                )
+              }
+              className="w-64"
+            />
             <div className="flex items-center space-x-2 text-sm text-gray-600">
               <span className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></span>
               <span>Real-time</span>
@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { apiClient } from "@/lib/api-client";
+import { Button } from "@/components/ui/button";
+import { Activity, ChecklistItem, ParsedTask, Workflow } from "@/lib/types";
+import { formatTimestamp } from "@/lib/utils";
+import { getStatusLabel } from "@/lib/workflow";
+
+const ACTION_LABELS: Record<Activity["action"], string> = {
+  CREATED: "created",
+  UPDATED: "updated",
+  DELETED: "deleted",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  status: "Status",
+  assignedTo: "Assignees",
+  dependencies: "Dependencies",
+  checklist: "Checklist",
+  priority: "Priority",
+  description: "Description",
+  tags: "Tags",
+  customFields: "Custom fields",
+  content: "Comment",
+};
+
+function getActorName(activity: Activity): string {
+  if (!activity.actorId) return "Automatic";
+  return (
+    activity.actor?.firstName ||
+    activity.actor?.email?.split("@")[0] ||
+    "Unknown User"
+  );
+}
+
+export function ActivityTimeline({
+  taskId,
+  tasks,
+  workflow,
+  refreshKey,
+}: {
+  taskId: string;
+  tasks: ParsedTask[];
+  workflow: Workflow;
+  refreshKey?: string | Date; // Reloads the first page when it changes
+}) {
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(
+    async (cursor?: string) => {
+      setIsLoading(true);
+      setError(null);
+      const response = await apiClient.getTaskActivity(taskId, { cursor });
+      setIsLoading(false);
+
+      if (response.success && response.data) {
+        const page = response.data;
+        setActivities((current) => (cursor ? [...current, ...page] : page));
+        setNextCursor(response.nextCursor ?? null);
+      } else {
+        setError(response.error || "Failed to load activity");
+      }
+    },
+    [taskId]
+  );
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage, refreshKey]);
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || (Array.isArray(value) && value.length === 0)) {
+      return "none";
+    }
+    if (field === "status" && typeof value === "string") {
+      return getStatusLabel(workflow, value);
+    }
+    if (field === "dependencies" && Array.isArray(value)) {
+      return value
+        .map((id) => tasks.find((task) => task.id === id)?.title ?? id)
+        .join(", ");
+    }
+    if (field === "checklist" && Array.isArray(value)) {
+      const items = value as ChecklistItem[];
+      return `${items.filter((item) => item.done).length}/${items.length} done`;
+    }
+    if (Array.isArray(value)) return value.join(", ");
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {activities.length === 0 && !isLoading && (
+        <p className="text-sm text-muted-foreground">No activity yet.</p>
+      )}
+
+      <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+        {activities.map((activity) => {
+          // Creates and deletes list every field, so only updates show a diff
+          const fields =
+            activity.action === "UPDATED"
+              ? Object.entries(activity.changes)
+              : [];
+
+          return (
+            <li key={activity.id} className="ml-4">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+              <div className="flex items-center gap-2 text-sm">
+                <span
+                  className={
+                    activity.actorId
+                      ? "font-medium"
+                      : "font-medium text-muted-foreground italic"
+                  }
+                >
+                  {getActorName(activity)}
+                </span>
+                <span>
+                  {ACTION_LABELS[activity.action]}{" "}
+                  {activity.entityType === "COMMENT" ? "a comment" : "the task"}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {formatTimestamp(activity.createdAt)}
+                </span>
+              </div>
+              {fields.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                  {fields.map(([field, { before, after }]) => (
+                    <li key={field}>
+                      <span className="font-medium text-gray-700">
+                        {FIELD_LABELS[field] ?? field}:
+                      </span>{" "}
+                      <span className="line-through">
+                        {formatValue(field, before)}
+                      </span>{" "}
+                      → {formatValue(field, after)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {isLoading && (
+        <p className="text-sm text-muted-foreground">Loading activity...</p>
+      )}
+      {nextCursor && !isLoading && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => loadPage(nextCursor)}
+        >
+          Load more
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+"use client";
+
+import { ReactNode, useEffect, useLayoutEffect, useRef, useState } from "react";
+import { apiClient } from "@/lib/api-client";
+import { useAppStore } from "@/lib/store";
+import { Textarea } from "@/components/ui/textarea";
+import { subscribeToDescription } from "@/lib/description-events";
+import {
+  DescriptionCaret,
+  DescriptionOperation,
+  ParsedTask,
+  ClientMessage,
+} from "@/lib/types";
+import { generateOperationId, hasProjectRole } from "@/lib/utils";
+import {
+  diffText,
+  isNoopOperation,
+  TextOperation,
+  TextOperationClient,
+  transformCaret,
+} from "@/lib/text-ot";
+
+const CARET_COLORS = [
+  "#2563eb",
+  "#16a34a",
+  "#9333ea",
+  "#ea580c",
+  "#db2777",
+  "#4f46e5",
+  "#ca8a04",
+  "#dc2626",
+];
+
+// Same color for a user everywhere, like the active user badges
+function getCaretColor(userId: string): string {
+  const hash = userId
+    .split("")
+    .reduce((acc, char) => acc + char.charCodeAt(0), 0);
+  return CARET_COLORS[hash % CARET_COLORS.length];
+}
+
+// Another editor's caret, as an index into the local text
+interface RemoteCaret {
+  clientId: string;
+  userId?: string;
+  index: number;
+}
+
+/**
+ * Description editor shared by everyone who has the task open. Edits are
+ * sent as text operations to /api/tasks/{id}/description, which merges them
+ * with concurrent ones and broadcasts the result to the project room; carets
+ * are relayed between editors over the WebSocket. There is no save button:
+ * the server's copy is the saved one.
+ */
+export function CollaborativeDescription({
+  task,
+  sendMessage,
+}: {
+  task: ParsedTask;
+  sendMessage: (message: ClientMessage) => void;
+}) {
+  const { activeUsers, currentProject } = useAppStore();
+  const [text, setText] = useState<string | null>(null); // null while loading
+  const [carets, setCarets] = useState<Record<string, RemoteCaret>>({});
+  const [notice, setNotice] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // Local selection to restore once a remote edit has been rendered
+  const selectionRef = useRef<{ start: number; end: number } | null>(null);
+  const sendMessageRef = useRef(sendMessage);
+  sendMessageRef.current = sendMessage;
+  const syncRef = useRef<{
+    edit: (value: string) => void;
+    moveCaret: () => void;
+  } | null>(null);
+
+  const canEdit = hasProjectRole(currentProject?.role, "MEMBER");
+
+  useEffect(() => {
+    const clientId = generateOperationId();
+    let client: TextOperationClient | null = null;
+    let disposed = false;
+    // Operations that arrived while catching up on missed ones
+    let catchingUp = false;
+    let queued: DescriptionOperation[] = [];
+
+    const render = () => {
+      if (client) setText(client.text);
+    };
+
+    const mapCarets = (operation: TextOperation) => {
+      setCarets((current) =>
+        Object.fromEntries(
+          Object.entries(current).map(([id, caret]) => [
+            id,
+            { ...caret, index: transformCaret(caret.index, operation) },
+          ])
+        )
+      );
+    };
+
+    const sendCaret = (index: number | null, selectionEnd?: number) => {
+      sendMessageRef.current({
+        type: "DESCRIPTION_CARET",
+        projectId: task.projectId,
+        payload: {
+          taskId: task.id,
+          clientId,
+          revision: client?.revision ?? 0,
+          index,
+          selectionEnd,
+        } satisfies DescriptionCaret,
+        operationId: generateOperationId(),
+        timestamp: Date.now(),
+      });
+    };
+
+    // Carets are only sent in server coordinates, so wait for pending edits
+    const moveCaret = () => {
+      const textarea = textareaRef.current;
+      if (
+        disposed ||
+        !client ||
+        client.hasPendingOperations ||
+        !textarea ||
+        document.activeElement !== textarea
+      ) {
+        return;
+      }
+      sendCaret(textarea.selectionStart, textarea.selectionEnd);
+    };
+
+    const load = async (message?: string) => {
+      const response = await apiClient.getTaskDescription(task.id);
+      if (disposed) return;
+      if (!response.success || !response.data) {
+        setNotice(response.error || "Failed to load the description");
+        return;
+      }
+      client = new TextOperationClient(
+        response.data.revision,
+        response.data.text
+      );
+      catchingUp = false;
+      queued = [];
+      setCarets({});
+      setNotice(message ?? null);
+      render();
+    };
+
+    // Pending edits are still sent after the editor closes, so nothing typed
+    // is lost; only a reload drops them
+    const send = async (operation: TextOperation) => {
+      const sent = client!;
+      const response = await apiClient.applyDescriptionOperation(task.id, {
+        revision: sent.revision,
+        operation,
+        clientId,
+      });
+      if (client !== sent) return;
+      if (response.success && response.data) {
+        receive(response.data);
+      } else {
+        load(
+          "Your last edit could not be saved, so the description was reloaded."
+        );
+      }
+    };
+
+    const catchUp = async () => {
+      const behind = client!;
+      catchingUp = true;
+      const response = await apiClient.getTaskDescription(
+        task.id,
+        behind.revision
+      );
+      if (client !== behind) return;
+      catchingUp = false;
+      if (!response.success || !response.data) {
+        load("Some edits were missed, so the description was reloaded.");
+        return;
+      }
+      const pending = queued;
+      queued = [];
+      [...(response.data.operations ?? []), ...pending].forEach(receive);
+    };
+
+    // Operations arrive both as broadcasts and as responses to our own
+    // requests; each revision is applied once, in order
+    const receive = (operation: DescriptionOperation) => {
+      if (!client) return;
+      if (catchingUp) {
+        queued.push(operation);
+        return;
+      }
+      if (operation.revision <= client.revision) return;
+      if (operation.revision > client.revision + 1) {
+        queued.push(operation);
+        catchUp();
+        return;
+      }
+
+      if (operation.clientId === clientId && client.hasPendingOperations) {
+        const next = client.acknowledge();
+        if (next) {
+          send(next);
+        } else {
+          moveCaret();
+        }
+        return;
+      }
+
+      const applied = client.applyRemote(operation.operation);
+      const textarea = textareaRef.current;
+      if (textarea && document.activeElement === textarea) {
+        selectionRef.current = {
+          start: transformCaret(textarea.selectionStart, applied),
+          end: transformCaret(textarea.selectionEnd, applied),
+        };
+      }
+      mapCarets(applied);
+      render();
+    };
+
+    const receiveCaret = (caret: DescriptionCaret, userId?: string) => {
+      if (caret.clientId === clientId) return;
+      if (caret.index === null || !client) {
+        setCarets((current) => {
+          const next = { ...current };
+          delete next[caret.clientId];
+          return next;
+        });
+        return;
+      }
+      // A caret from another revision is close enough until its next move
+      const index =
+        caret.revision === client.revision
+          ? client.transformServerCaret(caret.index)
+          : Math.min(caret.index, client.text.length);
+      setCarets((current) => ({
+        ...current,
+        [caret.clientId]: { clientId: caret.clientId, userId, index },
+      }));
+    };
+
+    const unsubscribe = subscribeToDescription(task.id, (message) => {
+      if (message.type === "DESCRIPTION_OP") {
+        receive(message.payload);
+      } else if (message.type === "DESCRIPTION_CARET") {
+        receiveCaret(message.payload, message.userId);
+      }
+    });
+
+    syncRef.current = {
+      edit: (value) => {
+        if (!client) return;
+        const operation = diffText(client.text, value);
+        if (isNoopOperation(operation)) return;
+        mapCarets(operation);
+        const next = client.applyLocal(operation);
+        render();
+        if (next) send(next);
+      },
+      moveCaret,
+    };
+
+    load();
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+      syncRef.current = null;
+      sendCaret(null);
+    };
+  }, [task.id, task.projectId]);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (selectionRef.current && textarea) {
+      textarea.setSelectionRange(
+        selectionRef.current.start,
+        selectionRef.current.end
+      );
+    }
+    selectionRef.current = null;
+  }, [text]);
+
+  if (text === null) {
+    return notice ? (
+      <p className="text-sm text-red-600">{notice}</p>
+    ) : (
+      <p className="text-sm text-muted-foreground">Loading description...</p>
+    );
+  }
+
+  // Only show carets of editors whose users are still in the project room
+  const visibleCarets = Object.values(carets)
+    .filter(
+      (caret) =>
+        caret.userId && activeUsers.some((user) => user.userId === caret.userId)
+    )
+    .sort((a, b) => a.index - b.index);
+
+  const overlay: ReactNode[] = [];
+  let position = 0;
+  visibleCarets.forEach((caret) => {
+    const color = getCaretColor(caret.userId!);
+    const initials =
+      activeUsers.find((user) => user.userId === caret.userId)?.initials ||
+      caret.userId!.slice(-2).toUpperCase();
+    overlay.push(text.slice(position, caret.index));
+    overlay.push(
+      <span key={caret.clientId} className="relative">
+        <span
+          className="absolute top-0 -ml-px h-5 w-0.5"
+          style={{ backgroundColor: color }}
+        />
+        <span
+          className="absolute -top-3 left-0 rounded px-1 font-mono text-[9px] leading-3 text-white whitespace-nowrap"
+          style={{ backgroundColor: color }}
+        >
+          {initials}
+        </span>
+      </span>
+    );
+    position = caret.index;
+  });
+  overlay.push(text.slice(position));
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        {/* Mirrors the textarea's text layout to position remote carets */}
+        <div
+          ref={overlayRef}
+          aria-hidden
+          className="pointer-events-none absolute inset-0 overflow-hidden whitespace-pre-wrap break-words rounded-md border border-transparent px-3 py-2 text-sm text-transparent"
+        >
+          {overlay}
+          {"\u200b"}
+        </div>
+        <Textarea
+          ref={textareaRef}
+          value={text}
+          readOnly={!canEdit}
+          placeholder={canEdit ? "Add a description" : "No description"}
+          onChange={(e) => syncRef.current?.edit(e.target.value)}
+          onSelect={() => syncRef.current?.moveCaret()}
+          onScroll={(e) => {
+            if (overlayRef.current) {
+              overlayRef.current.scrollTop = e.currentTarget.scrollTop;
+            }
+          }}
+          className="relative min-h-[120px] bg-transparent"
+        />
+      </div>
+      {notice && <p className="text-xs text-amber-700">{notice}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { SmilePlus } from "lucide-react";
+import { apiClient } from "@/lib/api-client";
+import { Button } from "@/components/ui/button";
+import {
+  Comment,
+  CommentReaction,
+  REACTION_EMOJIS,
+  ReactionEmoji,
+} from "@/lib/types";
+import { summarizeReactions } from "@/lib/utils";
+
+/**
+ * A comment's reactions as emoji counts. Clicking a count toggles the
+ * current user's reaction; other viewers get the new list as a
+ * COMMENT_REACTION.
+ */
+export function CommentReactions({
+  comment,
+  currentUserId,
+  canReact,
+  onChange,
+}: {
+  comment: Comment;
+  currentUserId: string | undefined;
+  canReact: boolean;
+  onChange: (reactions: CommentReaction[]) => void;
+}) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const summary = summarizeReactions(comment.reactions ?? [], currentUserId);
+  if (summary.length === 0 && !canReact) return null;
+
+  const toggle = async (emoji: ReactionEmoji, reacted: boolean) => {
+    setIsPickerOpen(false);
+    setIsSaving(true);
+    try {
+      const response = reacted
+        ? await apiClient.removeReaction(comment.id, emoji)
+        : await apiClient.addReaction(comment.id, emoji);
+      if (response.success && response.data) {
+        onChange(response.data);
+      } else {
+        console.error("Failed to update reaction:", response.error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-1 mt-2">
+      {summary.map(({ emoji, count, reacted }) => (
+        <button
+          key={emoji}
+          type="button"
+          disabled={!canReact || isSaving}
+          onClick={() => toggle(emoji as ReactionEmoji, reacted)}
+          className={`rounded-full border px-2 text-xs ${
+            reacted ? "border-blue-300 bg-blue-50" : "bg-white"
+          }`}
+        >
+          {emoji} {count}
+        </button>
+      ))}
+      {canReact && (
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={isSaving}
+          onClick={() => setIsPickerOpen(!isPickerOpen)}
+          className="h-6 w-6 p-0"
+          title="Add reaction"
+        >
+          <SmilePlus className="h-3 w-3" />
+        </Button>
+      )}
+      {isPickerOpen && (
+        <div className="absolute top-full left-0 z-10 mt-1 flex gap-1 rounded border bg-white p-1 shadow">
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() =>
+                toggle(
+                  emoji,
+                  summary.some((s) => s.emoji === emoji && s.reacted)
+                )
+              }
+              className="rounded px-1 hover:bg-gray-100"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
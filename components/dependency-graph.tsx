@@ -0,0 +1,496 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useAppStore } from "@/lib/store";
+import { apiClient } from "@/lib/api-client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ZoomIn, ZoomOut, Maximize } from "lucide-react";
+import { DependencyGraph, DependencyGraphNode } from "@/lib/types";
+import { findDependencyCycle, hasProjectRole } from "@/lib/utils";
+import {
+  getProjectWorkflow,
+  getStatusLabel,
+  getStatusStyle,
+  isDoneStatus,
+} from "@/lib/workflow";
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 80;
+const ROW_GAP = 24;
+const PADDING = 24;
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 2;
+// Pointer travel before a press on a node becomes a connection drag
+const DRAG_THRESHOLD = 4;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface Viewport extends Point {
+  scale: number;
+}
+
+// A press on a node or the background, resolved into a click, a pan or a
+// connection drag once the pointer moves
+type PointerGesture =
+  | { kind: "pan"; origin: Point; viewport: Viewport }
+  | { kind: "node"; nodeId: string; origin: Point; dragging: boolean };
+
+// Lay tasks out in columns by depth; tasks in a cycle go in a last column
+function layoutGraph(graph: DependencyGraph): Map<string, Point> {
+  const columns = new Map<number, string[]>();
+  const lastColumn =
+    Math.max(-1, ...graph.nodes.map((node) => node.depth ?? -1)) + 1;
+  const byId = new Map(graph.nodes.map((node) => [node.id, node]));
+
+  [...graph.order, ...graph.cyclic].forEach((id) => {
+    const column = byId.get(id)?.depth ?? lastColumn;
+    columns.set(column, [...(columns.get(column) ?? []), id]);
+  });
+
+  const positions = new Map<string, Point>();
+  columns.forEach((ids, column) => {
+    ids.forEach((id, row) => {
+      positions.set(id, {
+        x: PADDING + column * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+  return positions;
+}
+
+// Horizontal bezier from the right edge of one node to the left edge of another
+function edgePath(from: Point, to: Point): string {
+  const midX = (from.x + to.x) / 2;
+  return `M ${from.x} ${from.y} C ${midX} ${from.y}, ${midX} ${to.y}, ${to.x} ${to.y}`;
+}
+
+export function DependencyGraphView({
+  projectId,
+  onSelectTask,
+}: {
+  projectId: string;
+  onSelectTask: (taskId: string) => void;
+}) {
+  const { tasks, setTasks, currentProject } = useAppStore();
+  const [graph, setGraph] = useState<DependencyGraph | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [viewport, setViewport] = useState<Viewport>({ x: 0, y: 0, scale: 1 });
+  const [gesture, setGesture] = useState<PointerGesture | null>(null);
+  const [pointer, setPointer] = useState<Point | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const workflow = getProjectWorkflow(currentProject);
+
+  // Owners may not have a resolved role on freshly created projects
+  const canEdit =
+    !currentProject?.role || hasProjectRole(currentProject.role, "MEMBER");
+
+  // Refetch when the board's tasks change so real-time updates show up here;
+  // the API covers tasks on pages the board hasn't loaded
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const response = await apiClient.getDependencyGraph(projectId);
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setGraph(response.data);
+      } else {
+        setError(response.error || "Failed to load dependency graph");
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [projectId, tasks, reloadKey]);
+
+  // Zoom towards the cursor. React registers wheel listeners as passive, so
+  // attach it directly to be able to prevent page scrolling.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const cursor = {
+        x: event.clientX - rect.left,
+        y: event.clientY - rect.top,
+      };
+      setViewport((current) => {
+        const scale = Math.min(
+          MAX_SCALE,
+          Math.max(MIN_SCALE, current.scale * Math.exp(-event.deltaY / 500))
+        );
+        const ratio = scale / current.scale;
+        return {
+          scale,
+          x: cursor.x - (cursor.x - current.x) * ratio,
+          y: cursor.y - (cursor.y - current.y) * ratio,
+        };
+      });
+    };
+
+    container.addEventListener("wheel", handleWheel, { passive: false });
+    return () => container.removeEventListener("wheel", handleWheel);
+  }, [graph !== null]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (error && !graph) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-red-600">
+          {error}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!graph) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          Loading dependency graph...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const positions = layoutGraph(graph);
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const criticalEdges = new Set(
+    graph.criticalPath.slice(1).map((id, i) => `${graph.criticalPath[i]}>${id}`)
+  );
+  const width =
+    Math.max(0, ...Array.from(positions.values(), (p) => p.x)) +
+    NODE_WIDTH +
+    PADDING;
+  const height =
+    Math.max(0, ...Array.from(positions.values(), (p) => p.y)) +
+    NODE_HEIGHT +
+    PADDING;
+
+  // Convert a pointer position to graph coordinates
+  const toGraphPoint = (event: React.PointerEvent): Point => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left - viewport.x) / viewport.scale,
+      y: (event.clientY - rect.top - viewport.y) / viewport.scale,
+    };
+  };
+
+  const zoomBy = (factor: number) => {
+    setViewport((current) => ({
+      ...current,
+      scale: Math.min(MAX_SCALE, Math.max(MIN_SCALE, current.scale * factor)),
+    }));
+  };
+
+  // Make `dependent` depend on `dependency` through the regular task update
+  const addDependency = async (dependencyId: string, dependentId: string) => {
+    const dependent = nodesById.get(dependentId)!;
+    if (dependent.dependencies.includes(dependencyId)) return;
+
+    const cycle = findDependencyCycle(dependentId, [dependencyId], graph.nodes);
+    if (cycle) {
+      const path = cycle.map((id) => nodesById.get(id)?.title ?? id);
+      setError(`That would create a cycle: ${path.join(" → ")}`);
+      return;
+    }
+
+    setError(null);
+    const response = await apiClient.updateTask(dependentId, {
+      dependencies: [...dependent.dependencies, dependencyId],
+    });
+    if (response.success && response.data) {
+      const updatedTask = response.data;
+      setTasks(tasks.map((t) => (t.id === updatedTask.id ? updatedTask : t)));
+      // The task may not be loaded on the board, so refetch explicitly
+      setReloadKey((key) => key + 1);
+    } else {
+      setError(response.error || "Failed to add dependency");
+    }
+  };
+
+  const handleBackgroundPointerDown = (event: React.PointerEvent) => {
+    if (event.button !== 0) return;
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    setGesture({
+      kind: "pan",
+      origin: { x: event.clientX, y: event.clientY },
+      viewport,
+    });
+  };
+
+  const handleNodePointerDown = (
+    event: React.PointerEvent,
+    node: DependencyGraphNode
+  ) => {
+    if (event.button !== 0) return;
+    event.stopPropagation();
+    setGesture({
+      kind: "node",
+      nodeId: node.id,
+      origin: { x: event.clientX, y: event.clientY },
+      dragging: false,
+    });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!gesture) return;
+
+    if (gesture.kind === "pan") {
+      setViewport({
+        ...gesture.viewport,
+        x: gesture.viewport.x + event.clientX - gesture.origin.x,
+        y: gesture.viewport.y + event.clientY - gesture.origin.y,
+      });
+      return;
+    }
+
+    const moved =
+      Math.abs(event.clientX - gesture.origin.x) > DRAG_THRESHOLD ||
+      Math.abs(event.clientY - gesture.origin.y) > DRAG_THRESHOLD;
+    if (canEdit && (gesture.dragging || moved)) {
+      if (!gesture.dragging) setGesture({ ...gesture, dragging: true });
+      setPointer(toGraphPoint(event));
+    }
+  };
+
+  const handleNodePointerUp = (
+    event: React.PointerEvent,
+    node: DependencyGraphNode
+  ) => {
+    if (gesture?.kind !== "node") return;
+    event.stopPropagation();
+
+    if (!gesture.dragging && gesture.nodeId === node.id) {
+      onSelectTask(node.id);
+    } else if (gesture.dragging && gesture.nodeId !== node.id) {
+      addDependency(gesture.nodeId, node.id);
+    }
+    setGesture(null);
+    setPointer(null);
+  };
+
+  const handlePointerUp = () => {
+    setGesture(null);
+    setPointer(null);
+  };
+
+  const connectingFrom =
+    gesture?.kind === "node" && gesture.dragging && pointer
+      ? positions.get(gesture.nodeId)
+      : undefined;
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2 text-xs text-muted-foreground">
+          <div className="flex items-center gap-4">
+            <span>
+              {canEdit
+                ? "Drag from a task onto another to make the second depend on the first"
+                : "Click a task to open it"}
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-0.5 w-4 bg-red-500" />
+              Blocked chain
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="inline-block h-1 w-4 bg-blue-600" />
+              Critical path
+            </span>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button size="sm" variant="ghost" onClick={() => zoomBy(1.2)}>
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => zoomBy(1 / 1.2)}>
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setViewport({ x: 0, y: 0, scale: 1 })}
+            >
+              <Maximize className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="border-b bg-red-50 px-4 py-2 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        <div
+          ref={containerRef}
+          className={`relative h-[600px] overflow-hidden bg-gray-50 select-none touch-none ${
+            gesture?.kind === "pan" ? "cursor-grabbing" : "cursor-grab"
+          }`}
+          onPointerDown={handleBackgroundPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+        >
+          {graph.nodes.length === 0 && (
+            <p className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+              No tasks yet
+            </p>
+          )}
+
+          <div
+            className="absolute left-0 top-0 origin-top-left"
+            style={{
+              width,
+              height,
+              transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.scale})`,
+            }}
+          >
+            <svg
+              width={width}
+              height={height}
+              className="absolute left-0 top-0 pointer-events-none"
+            >
+              <defs>
+                {["gray", "red", "blue"].map((color) => (
+                  <marker
+                    key={color}
+                    id={`arrow-${color}`}
+                    viewBox="0 0 10 10"
+                    refX="10"
+                    refY="5"
+                    markerWidth="6"
+                    markerHeight="6"
+                    orient="auto-start-reverse"
+                  >
+                    <path
+                      d="M 0 0 L 10 5 L 0 10 z"
+                      className={
+                        color === "red"
+                          ? "fill-red-500"
+                          : color === "blue"
+                          ? "fill-blue-600"
+                          : "fill-gray-400"
+                      }
+                    />
+                  </marker>
+                ))}
+              </defs>
+
+              {graph.edges.map(({ from, to }) => {
+                const source = positions.get(from);
+                const target = positions.get(to);
+                if (!source || !target) return null;
+
+                // A chain is blocked while work upstream of an open task is open
+                const isOpen = (id: string) => {
+                  const node = nodesById.get(id);
+                  return !node || !isDoneStatus(workflow, node.status);
+                };
+                const blocked = isOpen(from) && isOpen(to);
+                const critical = criticalEdges.has(`${from}>${to}`);
+                const color = blocked ? "red" : critical ? "blue" : "gray";
+
+                return (
+                  <path
+                    key={`${from}>${to}`}
+                    d={edgePath(
+                      {
+                        x: source.x + NODE_WIDTH,
+                        y: source.y + NODE_HEIGHT / 2,
+                      },
+                      { x: target.x, y: target.y + NODE_HEIGHT / 2 }
+                    )}
+                    fill="none"
+                    strokeWidth={critical ? 3 : 1.5}
+                    strokeDasharray={blocked ? "6 4" : undefined}
+                    className={
+                      color === "red"
+                        ? "stroke-red-500"
+                        : color === "blue"
+                        ? "stroke-blue-600"
+                        : "stroke-gray-400"
+                    }
+                    markerEnd={`url(#arrow-${color})`}
+                  />
+                );
+              })}
+
+              {connectingFrom && pointer && (
+                <path
+                  d={edgePath(
+                    {
+                      x: connectingFrom.x + NODE_WIDTH,
+                      y: connectingFrom.y + NODE_HEIGHT / 2,
+                    },
+                    pointer
+                  )}
+                  fill="none"
+                  strokeWidth={2}
+                  strokeDasharray="4 4"
+                  className="stroke-blue-500"
+                  markerEnd="url(#arrow-blue)"
+                />
+              )}
+            </svg>
+
+            {graph.nodes.map((node) => {
+              const position = positions.get(node.id);
+              if (!position) return null;
+              const isCyclic = node.depth === null;
+              const statusStyle = getStatusStyle(workflow, node.status);
+
+              return (
+                <div
+                  key={node.id}
+                  className={`absolute flex flex-col justify-center rounded-md border bg-white px-3 shadow-sm cursor-pointer hover:shadow-md ${
+                    node.blocked || isCyclic
+                      ? "border-red-500 ring-1 ring-red-300"
+                      : "border-gray-200"
+                  }`}
+                  style={{
+                    left: position.x,
+                    top: position.y,
+                    width: NODE_WIDTH,
+                    height: NODE_HEIGHT,
+                    color: statusStyle.color,
+                    // Tint over the white background so edges stay hidden
+                    backgroundImage: `linear-gradient(${statusStyle.backgroundColor}, ${statusStyle.backgroundColor})`,
+                  }}
+                  title={
+                    isCyclic
+                      ? "Part of a dependency cycle"
+                      : node.blocked
+                      ? "Blocked by unfinished dependencies"
+                      : undefined
+                  }
+                  onPointerDown={(e) => handleNodePointerDown(e, node)}
+                  onPointerUp={(e) => handleNodePointerUp(e, node)}
+                >
+                  <span className="truncate text-sm font-medium">
+                    {node.title}
+                  </span>
+                  <span className="text-xs opacity-75">
+                    {getStatusLabel(workflow, node.status)}
+                    {node.ready && " · ready"}
+                    {node.slack === 0 && node.weight > 0 && " · critical"}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,10 +14,19 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, FolderOpen, Users, Calendar, Trash2 } from "lucide-react";
+import { TaskSearch } from "@/components/task-search";
+import {
+  Plus,
+  FolderOpen,
+  Users,
+  Calendar,
+  Trash2,
+  Share2,
+} from "lucide-react";
 import { formatTimestamp } from "@/lib/utils";
-import { Project } from "@/lib/types";
+import { Project, SearchResult } from "@/lib/types";
 
 export function ProjectList() {
   const { user } = useUser();
@@ -71,13 +80,20 @@ export function ProjectList() {
     router.push(`/projects/${project.id}`);
   };
 
+  // Open the project with the matching task's details showing
+  const handleSelectSearchResult = (result: SearchResult) => {
+    router.push(
+      `/projects/${result.projectId}?task=${encodeURIComponent(result.taskId)}`
+    );
+  };
+
   const handleDeleteProject = async (project: Project, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent card click event
 
     // Check if project has tasks
-    if (project.tasks && project.tasks.length > 0) {
+    if (project.taskCount) {
       const confirmed = window.confirm(
-        `This project has ${project.tasks.length} task(s). Deleting it will also delete all associated tasks. Are you sure you want to delete "${project.name}"?`
+        `This project has ${project.taskCount} task(s). Deleting it will also delete all associated tasks. Are you sure you want to delete "${project.name}"?`
       );
       if (!confirmed) return;
     } else {
@@ -115,10 +131,16 @@ export function ProjectList() {
             Manage your collaborative task management projects
           </p>
         </div>
-        <Button onClick={() => setShowCreateForm(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          New Project
-        </Button>
+        <div className="flex items-center gap-2">
+          <TaskSearch
+            onSelect={handleSelectSearchResult}
+            className="w-64 lg:w-80"
+          />
+          <Button onClick={() => setShowCreateForm(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Project
+          </Button>
+        </div>
       </div>
 
       {showCreateForm && (
@@ -182,45 +204,60 @@ export function ProjectList() {
       )}
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {projects.map((project) => (
-          <Card
-            key={project.id}
-            className="cursor-pointer hover:shadow-md transition-shadow"
-            onClick={() => handleSelectProject(project)}
-          >
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <FolderOpen className="h-5 w-5 text-blue-600" />
-                  <CardTitle className="text-lg">{project.name}</CardTitle>
-                </div>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={(e) => handleDeleteProject(project, e)}
-                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
-              {project.description && (
-                <CardDescription>{project.description}</CardDescription>
-              )}
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                <div className="flex items-center gap-1">
-                  <Users className="h-4 w-4" />
-                  <span>{project.tasks?.length || 0} tasks</span>
+        {projects.map((project) => {
+          // Projects without a resolved role were just created by this user
+          const isShared = !!project.role && project.role !== "OWNER";
+
+          return (
+            <Card
+              key={project.id}
+              className="cursor-pointer hover:shadow-md transition-shadow"
+              onClick={() => handleSelectProject(project)}
+            >
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <FolderOpen className="h-5 w-5 text-blue-600" />
+                    <CardTitle className="text-lg">{project.name}</CardTitle>
+                  </div>
+                  {isShared ? (
+                    <Badge
+                      variant="secondary"
+                      className="flex items-center gap-1"
+                    >
+                      <Share2 className="h-3 w-3" />
+                      Shared · {project.role}
+                    </Badge>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={(e) => handleDeleteProject(project, e)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
-                <div className="flex items-center gap-1">
-                  <Calendar className="h-4 w-4" />
-                  <span>{formatTimestamp(project.updatedAt)}</span>
+                {project.description && (
+                  <CardDescription>{project.description}</CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                  <div className="flex items-center gap-1">
+                    <Users className="h-4 w-4" />
+                    <span>{project.taskCount ?? 0} tasks</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Calendar className="h-4 w-4" />
+                    <span>{formatTimestamp(project.updatedAt)}</span>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
 
       {projects.length === 0 && !showCreateForm && (
@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { FileText, Paperclip, X } from "lucide-react";
+import { apiClient } from "@/lib/api-client";
+import { useAppStore } from "@/lib/store";
+import { Button } from "@/components/ui/button";
+import {
+  ATTACHMENT_MIME_TYPES,
+  Attachment,
+  ParsedTask,
+  User,
+} from "@/lib/types";
+import { formatFileSize, hasProjectRole } from "@/lib/utils";
+
+// For file inputs; the extensions cover files browsers send without a type
+export const ATTACHMENT_ACCEPT = [...ATTACHMENT_MIME_TYPES, ".log", ".md"].join(
+  ","
+);
+
+/**
+ * Attachments as thumbnails for images and as download links for other
+ * files. `onDelete` is offered for the ones `canDelete` allows.
+ */
+export function AttachmentList({
+  attachments,
+  canDelete,
+  onDelete,
+  className = "",
+}: {
+  attachments: Attachment[];
+  canDelete: (attachment: Attachment) => boolean;
+  onDelete: (attachment: Attachment) => void;
+  className?: string;
+}) {
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter((a) => a.mimeType.startsWith("image/"));
+  const files = attachments.filter((a) => !a.mimeType.startsWith("image/"));
+
+  const deleteButton = (attachment: Attachment, placement: string) =>
+    canDelete(attachment) && (
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => onDelete(attachment)}
+        className={`h-5 w-5 p-0 text-red-600 hover:text-red-700 ${placement}`}
+        title="Delete attachment"
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    );
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((attachment) => (
+            <div key={attachment.id} className="group relative">
+              <a
+                href={apiClient.getAttachmentUrl(attachment.id)}
+                target="_blank"
+                rel="noopener noreferrer"
+                title={`${attachment.fileName} (${formatFileSize(
+                  attachment.size
+                )})`}
+              >
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img
+                  src={apiClient.getAttachmentUrl(attachment.id)}
+                  alt={attachment.fileName}
+                  loading="lazy"
+                  className="h-20 w-20 rounded border object-cover bg-white"
+                />
+              </a>
+              {deleteButton(
+                attachment,
+                "absolute -top-2 -right-2 bg-white rounded-full border opacity-0 group-hover:opacity-100"
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="group flex items-center gap-2 text-sm"
+            >
+              <FileText className="h-4 w-4 text-muted-foreground" />
+              <a
+                href={apiClient.getAttachmentUrl(attachment.id)}
+                className="truncate text-blue-600 hover:underline"
+              >
+                {attachment.fileName}
+              </a>
+              <span className="text-xs text-muted-foreground">
+                {formatFileSize(attachment.size)}
+              </span>
+              {deleteButton(attachment, "opacity-0 group-hover:opacity-100")}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The files attached to a task itself; those attached to its comments are
+ * shown with the comments. The list lives on `task.attachments`, which is
+ * loaded when the modal opens and kept current by TASK_UPDATE messages.
+ */
+export function TaskAttachments({
+  task,
+  onUpdate,
+}: {
+  task: ParsedTask;
+  onUpdate: (task: ParsedTask) => void;
+}) {
+  const { currentProject } = useAppStore();
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const canUpload = hasProjectRole(currentProject?.role, "MEMBER");
+  const isAdmin = hasProjectRole(currentProject?.role, "ADMIN");
+  const attachments = (task.attachments ?? []).filter((a) => !a.commentId);
+
+  useEffect(() => {
+    apiClient.getCurrentUser().then((response) => {
+      if (response.success && response.data) setCurrentUser(response.data);
+    });
+  }, []);
+
+  const isLoaded = task.attachments !== undefined;
+  useEffect(() => {
+    if (isLoaded) return;
+    apiClient.getAttachments(task.id).then((response) => {
+      if (response.success && response.data) {
+        onUpdate({ ...task, attachments: response.data });
+      }
+    });
+  }, [task.id, isLoaded]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      const response = await apiClient.uploadAttachment(task.id, file);
+      if (response.success && response.data) {
+        onUpdate({
+          ...task,
+          attachments: [...(task.attachments ?? []), response.data],
+        });
+      } else {
+        setError(response.error || "Failed to upload file");
+      }
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    if (!window.confirm(`Delete ${attachment.fileName}?`)) return;
+
+    setError(null);
+    const response = await apiClient.deleteAttachment(attachment.id);
+    if (response.success) {
+      onUpdate({
+        ...task,
+        attachments: (task.attachments ?? []).filter(
+          (a) => a.id !== attachment.id
+        ),
+      });
+    } else {
+      setError(response.error || "Failed to delete file");
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium">
+          Attachments ({attachments.length})
+        </label>
+        {canUpload && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              onChange={handleUpload}
+              className="hidden"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isUploading}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Paperclip className="h-3 w-3 mr-1" />
+              {isUploading ? "Uploading..." : "Attach file"}
+            </Button>
+          </>
+        )}
+      </div>
+
+      {attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No attachments.</p>
+      ) : (
+        <AttachmentList
+          attachments={attachments}
+          canDelete={(a) => isAdmin || a.uploadedBy === currentUser?.id}
+          onDelete={handleDelete}
+        />
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { useUser } from "@clerk/nextjs";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useAppStore } from "@/lib/store";
 import { useWebSocket } from "@/lib/use-websocket";
 import { apiClient } from "@/lib/api-client";
@@ -17,22 +18,40 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { ActiveUsers } from "./active-users";
+import { DependencyGraphView } from "./dependency-graph";
+import { WorkflowEditor } from "./workflow-editor";
+import { ActivityTimeline } from "./activity-timeline";
+import { CollaborativeDescription } from "./collaborative-description";
+import { TaskChecklist } from "./task-checklist";
+import {
+  ATTACHMENT_ACCEPT,
+  AttachmentList,
+  TaskAttachments,
+} from "./task-attachments";
+import { CommentReactions } from "./comment-reactions";
 import {
   Plus,
-  CheckCircle,
-  Circle,
-  Clock,
-  AlertCircle,
   MessageSquare,
   User as UserIcon,
   Tag,
+  LayoutGrid,
+  GitBranch,
+  Settings2,
+  CalendarClock,
+  ListChecks,
+  Paperclip,
+  Reply,
+  X,
 } from "lucide-react";
 import {
   ParsedTask,
   TaskStatus,
   Comment,
+  Attachment,
   TaskConfiguration,
   User,
+  ClientMessage,
+  Workflow,
 } from "@/lib/types";
 
 // Helper function to safely access task configuration
@@ -61,31 +80,52 @@ const getTaskConfiguration = (task: ParsedTask): TaskConfiguration | null => {
 
   return null;
 };
-import { getPriorityColor, getStatusColor, formatTimestamp } from "@/lib/utils";
-
-const statusColumns: {
-  status: TaskStatus;
-  label: string;
-  icon: React.ReactNode;
-}[] = [
-  { status: "TODO", label: "To Do", icon: <Circle className="h-4 w-4" /> },
-  {
-    status: "IN_PROGRESS",
-    label: "In Progress",
-    icon: <Clock className="h-4 w-4" />,
-  },
-  {
-    status: "IN_REVIEW",
-    label: "In Review",
-    icon: <AlertCircle className="h-4 w-4" />,
-  },
-  { status: "DONE", label: "Done", icon: <CheckCircle className="h-4 w-4" /> },
-  {
-    status: "BLOCKED",
-    label: "Blocked",
-    icon: <AlertCircle className="h-4 w-4" />,
-  },
-];
+
+// Date inputs work in local calendar days. A start date is the start of its
+// day and a due date the end of it, so a task due today isn't overdue yet.
+const toDateInputValue = (date: Date | string | null | undefined): string => {
+  if (!date) return "";
+  const value = new Date(date);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(
+    value.getDate()
+  )}`;
+};
+
+const fromDateInputValue = (value: string, endOfDay = false): Date | null =>
+  value ? new Date(`${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}`) : null;
+
+const fromHoursInputValue = (value: string): number | null =>
+  value === "" ? null : Number(value);
+
+const formatTaskDate = (date: Date | string): string =>
+  new Date(date).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+import {
+  getPriorityColor,
+  formatTimestamp,
+  hasProjectRole,
+  findDependencyCycle,
+  getDueState,
+  getChecklistProgress,
+  groupCommentThreads,
+} from "@/lib/utils";
+import {
+  mergeTaskEdits,
+  setTaskMergeField,
+  TaskMergeConflict,
+} from "@/lib/task-merge";
+import { compareTaskRank, placeInColumn } from "@/lib/rank";
+import {
+  canTransition,
+  getProjectWorkflow,
+  getStatusLabel,
+  getStatusStyle,
+  isDoneStatus,
+  isNotStartedStatus,
+} from "@/lib/workflow";
 
 export function TaskBoard() {
   const { user } = useUser();
@@ -94,10 +134,15 @@ export function TaskBoard() {
     tasks,
     loading,
     error,
+    setCurrentProject,
     setTasks,
     setLoading,
     setError,
     wsConnected,
+    tasksNextCursor,
+    setTasksNextCursor,
+    fetchMoreTasks,
+    handleTaskDelete,
   } = useAppStore();
 
   // Log when component re-renders due to tasks array changes
@@ -110,50 +155,34 @@ export function TaskBoard() {
 
   const [currentUser, setCurrentUser] = useState<User | null>(null);
 
-  // Log user info being passed to WebSocket
-  const userInfoForWebSocket = useMemo(() => {
-    return user
-      ? {
-          name:
-            user.fullName ||
-            `${user.firstName || ""} ${user.lastName || ""}`.trim(),
-          firstName: user.firstName || undefined,
-          lastName: user.lastName || undefined,
-          email: user.primaryEmailAddress?.emailAddress || undefined,
-        }
-      : undefined;
-  }, [user]);
-
-  console.log("🔍 TaskBoard - User info for WebSocket:", {
-    user,
-    currentUser,
-    userInfoForWebSocket,
-    hasUser: !!user,
-    hasCurrentUser: !!currentUser,
-    clerkUserData: user
-      ? {
-          fullName: user.fullName,
-          firstName: user.firstName,
-          lastName: user.lastName,
-          email: user.primaryEmailAddress?.emailAddress,
-        }
-      : null,
-    timestamp: new Date().toISOString(),
-  });
-
-  const { joinProject, leaveProject } = useWebSocket({
+  const { joinProject, leaveProject, sendMessage } = useWebSocket({
     userId: currentUser?.id,
-    userInfo: userInfoForWebSocket,
   });
   const [showCreateForm, setShowCreateForm] = useState(false);
+  const [showWorkflowEditor, setShowWorkflowEditor] = useState(false);
   const [newTask, setNewTask] = useState({
     title: "",
     description: "",
     priority: "MEDIUM" as "LOW" | "MEDIUM" | "HIGH" | "URGENT",
     tags: [] as string[],
     dependencies: [] as string[],
+    startDate: "",
+    dueDate: "",
+    estimate: "",
   });
   const [selectedTask, setSelectedTask] = useState<ParsedTask | null>(null);
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const linkedTaskId = searchParams.get("task");
+  const view = searchParams.get("view") === "graph" ? "graph" : "board";
+  const [loadingMoreTasks, setLoadingMoreTasks] = useState(false);
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  // Where the dragged card would land: its column and the card it'd follow
+  const [dropTarget, setDropTarget] = useState<{
+    status: TaskStatus;
+    afterTaskId: string | null;
+  } | null>(null);
 
   // Sync selectedTask with tasks array updates (for real-time updates)
   // But only if the modal is not open to prevent cycling
@@ -162,9 +191,12 @@ export function TaskBoard() {
       const updatedTask = tasks.find((t) => t.id === selectedTask.id);
       if (updatedTask) {
         // Only update if the task has actually changed and it's not just a re-render
+        // A new version alone matters too: saving sends it as If-Match
         const hasSignificantChanges =
+          updatedTask.version !== selectedTask.version ||
           updatedTask.status !== selectedTask.status ||
           updatedTask.title !== selectedTask.title ||
+          updatedTask.attachments !== selectedTask.attachments ||
           JSON.stringify(updatedTask.configuration) !==
             JSON.stringify(selectedTask.configuration);
 
@@ -181,6 +213,52 @@ export function TaskBoard() {
     }
   }, [tasks, selectedTask?.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Open the task linked by ?task= (e.g. from a search result)
+  useEffect(() => {
+    if (!linkedTaskId || selectedTask?.id === linkedTaskId) return;
+
+    const loadedTask = tasks.find((t) => t.id === linkedTaskId);
+    if (loadedTask) {
+      setSelectedTask(loadedTask);
+      return;
+    }
+
+    // The task may be on a page that hasn't been loaded yet
+    let cancelled = false;
+    apiClient.getTask(linkedTaskId).then((response) => {
+      if (
+        !cancelled &&
+        response.success &&
+        response.data &&
+        response.data.projectId === currentProject?.id
+      ) {
+        setSelectedTask(response.data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [linkedTaskId, tasks, currentProject?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Update one query parameter, keeping the others (e.g. the view)
+  const replaceSearchParam = (key: string, value: string | null) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+    const query = params.toString();
+    router.replace(query ? `${pathname}?${query}` : pathname);
+  };
+
+  const handleCloseTask = () => {
+    setSelectedTask(null);
+    if (linkedTaskId) {
+      replaceSearchParam("task", null);
+    }
+  };
+
   const lastTasksRequestTimeRef = useRef<number>(0);
 
   useEffect(() => {
@@ -203,6 +281,7 @@ export function TaskBoard() {
           const response = await apiClient.getTasks(currentProject.id);
           if (response.success) {
             setTasks(response.data || []);
+            setTasksNextCursor(response.nextCursor ?? null);
             console.log("Tasks loaded successfully:", {
               projectId: currentProject.id,
               taskCount: response.data?.length || 0,
@@ -265,7 +344,6 @@ export function TaskBoard() {
       const response = await apiClient.createTask({
         projectId: currentProject.id,
         title: newTask.title,
-        status: "TODO",
         assignedTo: [user.id], // Assign to current user by default
         configuration: {
           priority: newTask.priority,
@@ -274,6 +352,9 @@ export function TaskBoard() {
           customFields: {},
         },
         dependencies: newTask.dependencies,
+        startDate: fromDateInputValue(newTask.startDate),
+        dueDate: fromDateInputValue(newTask.dueDate, true),
+        estimate: fromHoursInputValue(newTask.estimate),
       });
 
       if (response.success && response.data) {
@@ -284,6 +365,9 @@ export function TaskBoard() {
           priority: "MEDIUM",
           tags: [],
           dependencies: [],
+          startDate: "",
+          dueDate: "",
+          estimate: "",
         });
         setShowCreateForm(false);
       } else {
@@ -296,25 +380,9 @@ export function TaskBoard() {
     }
   };
 
-  const handleDeleteTask = async (taskId: string) => {
-    try {
-      // Remove task from local state and clean up dependencies in one operation
-      const filteredTasks = tasks.filter(
-        (task: ParsedTask) => task.id !== taskId
-      );
-
-      // Update any remaining tasks that had this task as a dependency
-      const updatedTasks = filteredTasks.map((task: ParsedTask) => ({
-        ...task,
-        dependencies: task.dependencies.filter(
-          (depId: string) => depId !== taskId
-        ),
-      }));
-
-      setTasks(updatedTasks);
-    } catch (error) {
-      console.error("Failed to update local state after task deletion:", error);
-    }
+  // The server has already removed the task from its dependents' dependencies
+  const handleDeleteTask = (taskId: string) => {
+    handleTaskDelete(taskId);
   };
 
   const handleTaskUpdate = useCallback(
@@ -326,8 +394,83 @@ export function TaskBoard() {
     [tasks, setTasks]
   );
 
+  const handleLoadMoreTasks = async () => {
+    if (!currentProject) return;
+    setLoadingMoreTasks(true);
+    try {
+      await fetchMoreTasks(currentProject.id);
+    } finally {
+      setLoadingMoreTasks(false);
+    }
+  };
+
+  const workflow = getProjectWorkflow(currentProject);
+
   const getTasksByStatus = (status: TaskStatus) => {
-    return tasks.filter((task) => task.status === status);
+    return tasks
+      .filter((task) => task.status === status)
+      .sort(compareTaskRank);
+  };
+
+  const canMoveTasks = hasProjectRole(currentProject?.role, "MEMBER");
+  const draggedTask = tasks.find((t) => t.id === draggedTaskId);
+
+  // A card can be dropped in its own column or one its status can move to
+  const canDropIn = (status: TaskStatus) =>
+    !!draggedTask &&
+    (draggedTask.status === status ||
+      canTransition(workflow, draggedTask.status, status));
+
+  const handleDragEnd = () => {
+    setDraggedTaskId(null);
+    setDropTarget(null);
+  };
+
+  // Show the move right away, with the ranks the server will pick, then
+  // take the server's copy of the task, or put it back if the move failed
+  const handleMoveTask = async (
+    task: ParsedTask,
+    status: TaskStatus,
+    afterTaskId: string | null
+  ) => {
+    const placement = placeInColumn(
+      tasks.filter((t) => t.status === status && t.id !== task.id),
+      afterTaskId
+    );
+    if (!placement) return;
+    const ranks = new Map(placement.ranked.map(({ id, rank }) => [id, rank]));
+    setTasks(
+      tasks.map((t) => {
+        if (t.id === task.id) return { ...t, status, rank: placement.rank };
+        const rank = ranks.get(t.id);
+        return rank ? { ...t, rank } : t;
+      })
+    );
+
+    const response = await apiClient.moveTask(task.id, { status, afterTaskId });
+    if (!response.success) {
+      console.error("Failed to move task:", response.error);
+    }
+    const moved = response.success && response.data ? response.data : task;
+    setTasks(
+      useAppStore
+        .getState()
+        .tasks.map((t) => (t.id === moved.id ? moved : t))
+    );
+  };
+
+  const handleDrop = (status: TaskStatus) => {
+    if (draggedTask && dropTarget?.status === status) {
+      const column = getTasksByStatus(status);
+      const index = column.indexOf(draggedTask);
+      const unchanged =
+        index !== -1 &&
+        (column[index - 1]?.id ?? null) === dropTarget.afterTaskId;
+      if (!unchanged) {
+        handleMoveTask(draggedTask, status, dropTarget.afterTaskId);
+      }
+    }
+    handleDragEnd();
   };
 
   // Check if a task is blocked by incomplete dependencies
@@ -336,7 +479,7 @@ export function TaskBoard() {
 
     const incompleteDeps = task.dependencies.filter((depId) => {
       const depTask = tasks.find((t) => t.id === depId);
-      return depTask && depTask.status !== "DONE";
+      return depTask && !isDoneStatus(workflow, depTask.status);
     });
 
     return incompleteDeps.length > 0;
@@ -350,13 +493,31 @@ export function TaskBoard() {
       .map((depId) => tasks.find((t) => t.id === depId))
       .filter(Boolean);
 
-    const completedDeps = depTasks.filter((dep) => dep?.status === "DONE");
+    const completedDeps = depTasks.filter(
+      (dep) => dep && isDoneStatus(workflow, dep.status)
+    );
 
     if (completedDeps.length === depTasks.length) return "ready";
     if (completedDeps.length === 0) return "blocked";
     return "partial";
   };
 
+  const handleToggleAutoBlock = async (autoBlock: boolean) => {
+    if (!currentProject) return;
+
+    const response = await apiClient.updateProject(currentProject.id, {
+      autoBlock,
+    });
+    if (response.success && response.data) {
+      setCurrentProject({
+        ...currentProject,
+        autoBlock: response.data.autoBlock,
+      });
+    } else {
+      console.error("Failed to update project:", response.error);
+    }
+  };
+
   if (!currentProject) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -403,6 +564,47 @@ export function TaskBoard() {
           <span className="text-sm text-muted-foreground">
             {wsConnected ? "Connected" : "Disconnected"}
           </span>
+          <div className="flex rounded-md border">
+            <Button
+              size="sm"
+              variant={view === "board" ? "secondary" : "ghost"}
+              onClick={() => replaceSearchParam("view", null)}
+            >
+              <LayoutGrid className="h-4 w-4 mr-2" />
+              Board
+            </Button>
+            <Button
+              size="sm"
+              variant={view === "graph" ? "secondary" : "ghost"}
+              onClick={() => replaceSearchParam("view", "graph")}
+            >
+              <GitBranch className="h-4 w-4 mr-2" />
+              Graph
+            </Button>
+          </div>
+          {hasProjectRole(currentProject.role, "ADMIN") && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowWorkflowEditor(true)}
+            >
+              <Settings2 className="h-4 w-4 mr-2" />
+              Workflow
+            </Button>
+          )}
+          {hasProjectRole(currentProject.role, "ADMIN") && (
+            <label
+              className="flex items-center gap-2 text-sm text-muted-foreground"
+              title="Move tasks into the blocked status and back as their dependencies are reopened or finished"
+            >
+              <input
+                type="checkbox"
+                checked={currentProject.autoBlock ?? false}
+                onChange={(e) => handleToggleAutoBlock(e.target.checked)}
+              />
+              Auto-block
+            </label>
+          )}
           <Button onClick={() => setShowCreateForm(true)}>
             <Plus className="h-4 w-4 mr-2" />
             New Task
@@ -485,6 +687,60 @@ export function TaskBoard() {
                   <option value="URGENT">Urgent</option>
                 </select>
               </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label
+                    htmlFor="startDate"
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Start Date
+                  </label>
+                  <Input
+                    id="startDate"
+                    type="date"
+                    value={newTask.startDate}
+                    max={newTask.dueDate || undefined}
+                    onChange={(e) =>
+                      setNewTask({ ...newTask, startDate: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="dueDate"
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Due Date
+                  </label>
+                  <Input
+                    id="dueDate"
+                    type="date"
+                    value={newTask.dueDate}
+                    min={newTask.startDate || undefined}
+                    onChange={(e) =>
+                      setNewTask({ ...newTask, dueDate: e.target.value })
+                    }
+                  />
+                </div>
+                <div>
+                  <label
+                    htmlFor="estimate"
+                    className="block text-sm font-medium mb-2"
+                  >
+                    Estimate (hours)
+                  </label>
+                  <Input
+                    id="estimate"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={newTask.estimate}
+                    onChange={(e) =>
+                      setNewTask({ ...newTask, estimate: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
 
               {/* Dependencies Section */}
               <div>
@@ -546,8 +802,7 @@ export function TaskBoard() {
                   <option value="">Add dependency...</option>
                   {tasks.map((t: ParsedTask) => (
                     <option key={t.id} value={t.id}>
-                      {t.title} (
-                      {statusColumns.find((c) => c.status === t.status)?.label})
+                      {t.title} ({getStatusLabel(workflow, t.status)})
                     </option>
                   ))}
                 </select>
@@ -568,128 +823,265 @@ export function TaskBoard() {
         </Card>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
-        {statusColumns.map((column) => {
-          const columnTasks = getTasksByStatus(column.status);
+      {view === "graph" ? (
+        <DependencyGraphView
+          projectId={currentProject.id}
+          onSelectTask={(taskId) => replaceSearchParam("task", taskId)}
+        />
+      ) : (
+        <div className="flex gap-6 overflow-x-auto pb-2">
+          {workflow.statuses.map((column) => {
+            const columnTasks = getTasksByStatus(column.key);
+            // The column as it would be without the dragged card
+            const others = columnTasks.filter((t) => t.id !== draggedTaskId);
+            const isDropPoint = (afterTaskId: string | null) =>
+              dropTarget?.status === column.key &&
+              dropTarget.afterTaskId === afterTaskId;
+
+            return (
+              <div
+                key={column.key}
+                className="space-y-4 min-w-[16rem] flex-1"
+                onDragOver={(e) => {
+                  if (!canDropIn(column.key)) return;
+                  e.preventDefault();
+                  // Entering the column drops at its bottom until a card
+                  // is hovered
+                  if (dropTarget?.status !== column.key) {
+                    setDropTarget({
+                      status: column.key,
+                      afterTaskId: others[others.length - 1]?.id ?? null,
+                    });
+                  }
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(column.key);
+                }}
+              >
+                <div className="flex items-center gap-2">
+                  <span
+                    className="h-3 w-3 rounded-full"
+                    style={{ backgroundColor: column.color }}
+                  />
+                  <h3 className="font-semibold">{column.label}</h3>
+                  <Badge variant="secondary">{columnTasks.length}</Badge>
+                </div>
 
-          return (
-            <div key={column.status} className="space-y-4">
-              <div className="flex items-center gap-2">
-                {column.icon}
-                <h3 className="font-semibold">{column.label}</h3>
-                <Badge variant="secondary">{columnTasks.length}</Badge>
-              </div>
+                <div className="space-y-3">
+                  {columnTasks.map((task) => {
+                    const isBlocked = isTaskBlocked(task);
+                    const depStatus = getTaskDependencyStatus(task);
+                    const dueState = getDueState(task, workflow);
+                    const checklist = getChecklistProgress(task);
+
+                    // Log when task card is rendered with updated data
+                    console.log("🎯 Task card rendered:", {
+                      taskId: task.id,
+                      title: task.title,
+                      status: task.status,
+                      column: column.key,
+                      timestamp: new Date().toISOString(),
+                    });
+
+                    const index = others.indexOf(task);
+
+                    return (
+                      <Card
+                        key={task.id}
+                        className={`cursor-pointer hover:shadow-md transition-shadow ${
+                          isBlocked
+                            ? "opacity-75 border-l-4 border-l-orange-500"
+                            : ""
+                        } ${task.id === draggedTaskId ? "opacity-50" : ""} ${
+                          index !== -1 &&
+                          isDropPoint(others[index - 1]?.id ?? null)
+                            ? "border-t-4 border-t-blue-500"
+                            : ""
+                        }`}
+                        onClick={() => setSelectedTask(task)}
+                        draggable={canMoveTasks}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          e.dataTransfer.setData("text/plain", task.id);
+                          setDraggedTaskId(task.id);
+                        }}
+                        onDragEnd={handleDragEnd}
+                        onDragOver={(e) => {
+                          if (index === -1 || !canDropIn(column.key)) return;
+                          e.preventDefault();
+                          e.stopPropagation();
+                          // Above or below this card, by the half it's over
+                          const { top, height } =
+                            e.currentTarget.getBoundingClientRect();
+                          const afterTaskId =
+                            e.clientY < top + height / 2
+                              ? others[index - 1]?.id ?? null
+                              : task.id;
+                          if (!isDropPoint(afterTaskId)) {
+                            setDropTarget({ status: column.key, afterTaskId });
+                          }
+                        }}
+                      >
+                        <CardContent className="p-4">
+                          <div className="space-y-2">
+                            <div className="flex items-start justify-between">
+                              <h4 className="font-medium text-sm">
+                                {task.title}
+                              </h4>
+                              {task.dependencies.length > 0 && (
+                                <div className="flex items-center gap-1">
+                                  {depStatus === "blocked" && (
+                                    <div
+                                      className="w-2 h-2 bg-orange-500 rounded-full"
+                                      title="Blocked by dependencies"
+                                    />
+                                  )}
+                                  {depStatus === "partial" && (
+                                    <div
+                                      className="w-2 h-2 bg-yellow-500 rounded-full"
+                                      title="Partially blocked"
+                                    />
+                                  )}
+                                  {depStatus === "ready" && (
+                                    <div
+                                      className="w-2 h-2 bg-green-500 rounded-full"
+                                      title="All dependencies completed"
+                                    />
+                                  )}
+                                </div>
+                              )}
+                            </div>
 
-              <div className="space-y-3">
-                {columnTasks.map((task) => {
-                  const isBlocked = isTaskBlocked(task);
-                  const depStatus = getTaskDependencyStatus(task);
-
-                  // Log when task card is rendered with updated data
-                  console.log("🎯 Task card rendered:", {
-                    taskId: task.id,
-                    title: task.title,
-                    status: task.status,
-                    column: column.status,
-                    timestamp: new Date().toISOString(),
-                  });
-
-                  return (
-                    <Card
-                      key={task.id}
-                      className={`cursor-pointer hover:shadow-md transition-shadow ${
-                        isBlocked
-                          ? "opacity-75 border-l-4 border-l-orange-500"
-                          : ""
-                      }`}
-                      onClick={() => setSelectedTask(task)}
-                    >
-                      <CardContent className="p-4">
-                        <div className="space-y-2">
-                          <div className="flex items-start justify-between">
-                            <h4 className="font-medium text-sm">
-                              {task.title}
-                            </h4>
-                            {task.dependencies.length > 0 && (
-                              <div className="flex items-center gap-1">
-                                {depStatus === "blocked" && (
-                                  <div
-                                    className="w-2 h-2 bg-orange-500 rounded-full"
-                                    title="Blocked by dependencies"
-                                  />
-                                )}
-                                {depStatus === "partial" && (
-                                  <div
-                                    className="w-2 h-2 bg-yellow-500 rounded-full"
-                                    title="Partially blocked"
-                                  />
-                                )}
-                                {depStatus === "ready" && (
-                                  <div
-                                    className="w-2 h-2 bg-green-500 rounded-full"
-                                    title="All dependencies completed"
-                                  />
-                                )}
-                              </div>
+                            {getTaskConfiguration(task)?.description && (
+                              <p className="text-xs text-muted-foreground line-clamp-2">
+                                {getTaskConfiguration(task)?.description}
+                              </p>
                             )}
-                          </div>
 
-                          {getTaskConfiguration(task)?.description && (
-                            <p className="text-xs text-muted-foreground line-clamp-2">
-                              {getTaskConfiguration(task)?.description}
-                            </p>
-                          )}
+                            <div className="flex items-center gap-2">
+                              <Badge
+                                variant="outline"
+                                className={getPriorityColor(
+                                  getTaskConfiguration(task)?.priority ||
+                                    "MEDIUM"
+                                )}
+                              >
+                                {getTaskConfiguration(task)?.priority ||
+                                  "MEDIUM"}
+                              </Badge>
+
+                              {(getTaskConfiguration(task)?.tags?.length || 0) >
+                                0 && (
+                                <div className="flex items-center gap-1">
+                                  <Tag className="h-3 w-3" />
+                                  <span className="text-xs text-muted-foreground">
+                                    {getTaskConfiguration(task)?.tags?.length ||
+                                      0}
+                                  </span>
+                                </div>
+                              )}
 
-                          <div className="flex items-center gap-2">
-                            <Badge
-                              variant="outline"
-                              className={getPriorityColor(
-                                getTaskConfiguration(task)?.priority || "MEDIUM"
+                              {dueState && (
+                                <Badge
+                                  variant="outline"
+                                  className={
+                                    dueState === "overdue"
+                                      ? "border-red-300 bg-red-50 text-red-700"
+                                      : "border-amber-300 bg-amber-50 text-amber-700"
+                                  }
+                                >
+                                  {dueState === "overdue"
+                                    ? "Overdue"
+                                    : "Due soon"}
+                                </Badge>
                               )}
-                            >
-                              {getTaskConfiguration(task)?.priority || "MEDIUM"}
-                            </Badge>
+                            </div>
 
-                            {(getTaskConfiguration(task)?.tags?.length || 0) >
-                              0 && (
+                            <div className="flex items-center justify-between text-xs text-muted-foreground">
+                              <div className="flex items-center gap-1">
+                                <UserIcon className="h-3 w-3" />
+                                <span>{task.assignedTo.length}</span>
+                              </div>
+                              {task.dueDate && (
+                                <div className="flex items-center gap-1">
+                                  <CalendarClock className="h-3 w-3" />
+                                  <span>{formatTaskDate(task.dueDate)}</span>
+                                </div>
+                              )}
+                              {checklist && (
+                                <div
+                                  className={`flex items-center gap-1 ${
+                                    checklist.done === checklist.total
+                                      ? "text-green-600"
+                                      : ""
+                                  }`}
+                                >
+                                  <ListChecks className="h-3 w-3" />
+                                  <span>
+                                    {checklist.done}/{checklist.total}
+                                  </span>
+                                </div>
+                              )}
                               <div className="flex items-center gap-1">
-                                <Tag className="h-3 w-3" />
-                                <span className="text-xs text-muted-foreground">
-                                  {getTaskConfiguration(task)?.tags?.length ||
-                                    0}
+                                <MessageSquare className="h-3 w-3" />
+                                <span>
+                                  {task.comments
+                                    ? task.comments.length
+                                    : task.commentCount || 0}
                                 </span>
                               </div>
-                            )}
-                          </div>
-
-                          <div className="flex items-center justify-between text-xs text-muted-foreground">
-                            <div className="flex items-center gap-1">
-                              <UserIcon className="h-3 w-3" />
-                              <span>{task.assignedTo.length}</span>
-                            </div>
-                            <div className="flex items-center gap-1">
-                              <MessageSquare className="h-3 w-3" />
-                              <span>{task.comments?.length || 0}</span>
                             </div>
                           </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  );
-                })}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                  {isDropPoint(others[others.length - 1]?.id ?? null) && (
+                    <div className="h-1 rounded bg-blue-500" />
+                  )}
+                </div>
               </div>
-            </div>
-          );
-        })}
-      </div>
+            );
+          })}
+        </div>
+      )}
+
+      {view === "board" && tasksNextCursor && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            disabled={loadingMoreTasks}
+            onClick={handleLoadMoreTasks}
+          >
+            {loadingMoreTasks ? "Loading..." : "Load more tasks"}
+          </Button>
+        </div>
+      )}
+
+      {showWorkflowEditor && (
+        <WorkflowEditor
+          project={currentProject}
+          onClose={() => setShowWorkflowEditor(false)}
+          onSaved={(project) => {
+            setCurrentProject({
+              ...currentProject,
+              workflow: project.workflow,
+            });
+            setShowWorkflowEditor(false);
+          }}
+        />
+      )}
 
       {selectedTask && (
         <TaskDetailModal
           task={selectedTask}
           tasks={tasks}
-          onClose={() => setSelectedTask(null)}
+          workflow={workflow}
+          onClose={handleCloseTask}
           onUpdate={handleTaskUpdate}
           onDelete={handleDeleteTask}
+          sendMessage={sendMessage}
         />
       )}
     </div>
@@ -699,18 +1091,27 @@ export function TaskBoard() {
 function TaskDetailModal({
   task,
   tasks,
+  workflow,
   onClose,
   onUpdate,
   onDelete,
+  sendMessage,
 }: {
   task: ParsedTask;
   tasks: ParsedTask[];
+  workflow: Workflow;
   onClose: () => void;
   onUpdate: (task: ParsedTask) => void;
   onDelete: (taskId: string) => void;
+  sendMessage: (message: ClientMessage) => void;
 }) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedTask, setEditedTask] = useState(task);
+  // The task as of the last edit or merge; remote changes merge against it
+  const [baseTask, setBaseTask] = useState(task);
+  const [conflicts, setConflicts] = useState<TaskMergeConflict[]>([]);
+  const [mergeNotice, setMergeNotice] = useState<string | null>(null);
+  const [tab, setTab] = useState<"details" | "activity">("details");
   const modalRef = useRef<HTMLDivElement>(null);
 
   // Use refs to track previous values to avoid dependency issues
@@ -733,6 +1134,21 @@ function TaskDetailModal({
       return;
     }
 
+    // While editing, merge remote changes into the edit field by field;
+    // fields both sides changed are shown as conflicts to resolve
+    if (isEditing && task.version !== prevTaskRef.current.version) {
+      const merged = mergeTaskEdits(baseTask, editedTask, task);
+      setEditedTask(merged.task);
+      setBaseTask(task);
+      setConflicts((current) => [
+        ...current.filter(
+          (conflict) =>
+            !merged.conflicts.some(({ field }) => field === conflict.field)
+        ),
+        ...merged.conflicts,
+      ]);
+    }
+
     // Only update if we're not currently editing and the task has actually changed
     if (!isEditing) {
       const prevTask = prevTaskRef.current;
@@ -754,7 +1170,74 @@ function TaskDetailModal({
 
     // Update the ref with the current task
     prevTaskRef.current = task;
-  }, [task.id, task.title, task.status, task.configuration, isEditing]); // eslint-disable-line react-hooks/exhaustive-deps
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [
+    task.id,
+    task.version,
+    task.title,
+    task.status,
+    task.configuration,
+    isEditing,
+  ]);
+
+  const startEditing = () => {
+    setEditedTask(task);
+    setBaseTask(task);
+    setConflicts([]);
+    setMergeNotice(null);
+    setIsEditing(true);
+  };
+
+  const resolveConflict = (conflict: TaskMergeConflict, value: unknown) => {
+    setEditedTask((current) =>
+      setTaskMergeField(current, conflict.field, value)
+    );
+    setConflicts((current) =>
+      current.filter(({ field }) => field !== conflict.field)
+    );
+  };
+
+  const formatConflictValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === "") return "(none)";
+    if (field === "status") return getStatusLabel(workflow, value as string);
+    if (field === "startDate" || field === "dueDate") {
+      return formatTaskDate(value as string);
+    }
+    return typeof value === "string" ? value : JSON.stringify(value);
+  };
+
+  const renderConflicts = (matches: (field: string) => boolean) =>
+    (isEditing ? conflicts : [])
+      .filter((conflict) => matches(conflict.field))
+      .map((conflict) => (
+        <div
+          key={conflict.field}
+          className="mt-2 rounded-md border border-amber-300 bg-amber-50 p-2 text-xs space-y-1"
+        >
+          <p className="font-medium text-amber-800">
+            {conflict.field.startsWith("customFields.")
+              ? `"${conflict.field.slice("customFields.".length)}"`
+              : "This field"}{" "}
+            was also changed by someone else
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => resolveConflict(conflict, conflict.local)}
+            >
+              Keep mine: {formatConflictValue(conflict.field, conflict.local)}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => resolveConflict(conflict, conflict.remote)}
+            >
+              Use theirs: {formatConflictValue(conflict.field, conflict.remote)}
+            </Button>
+          </div>
+        </div>
+      ));
 
   // Handle click outside to close
   const handleBackdropClick = (e: React.MouseEvent) => {
@@ -809,16 +1292,27 @@ function TaskDetailModal({
     };
   }, [onClose, isEditing]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Tasks that can become dependencies; a task that (transitively) depends
+  // on this one would close a cycle, which the server rejects
+  const dueState = getDueState(editedTask, workflow);
+
+  const dependencyOptions = tasks.filter(
+    (t: ParsedTask) =>
+      t.id !== task.id &&
+      !editedTask.dependencies.includes(t.id) &&
+      !findDependencyCycle(task.id, [t.id], tasks)
+  );
+
   // Check if task can transition to a given status based on dependencies
   const canTransitionToStatus = (taskId: string, newStatus: TaskStatus) => {
     const task = tasks.find((t) => t.id === taskId);
     if (!task) return true;
 
-    // If moving to IN_PROGRESS or beyond, check dependencies
-    if (["IN_PROGRESS", "IN_REVIEW", "DONE"].includes(newStatus)) {
+    // Starting work (or finishing it) requires finished dependencies
+    if (!isNotStartedStatus(workflow, newStatus)) {
       const incompleteDeps = task.dependencies.filter((depId) => {
         const depTask = tasks.find((t) => t.id === depId);
-        return depTask && depTask.status !== "DONE";
+        return depTask && !isDoneStatus(workflow, depTask.status);
       });
 
       if (incompleteDeps.length > 0) {
@@ -830,12 +1324,17 @@ function TaskDetailModal({
   };
 
   const handleSave = async () => {
+    if (conflicts.length > 0) {
+      setMergeNotice("Resolve the conflicting fields before saving.");
+      return;
+    }
+
     try {
       // Validate status transition
       if (!canTransitionToStatus(task.id, editedTask.status)) {
         const incompleteDeps = editedTask.dependencies.filter((depId) => {
           const depTask = tasks.find((t) => t.id === depId);
-          return depTask && depTask.status !== "DONE";
+          return depTask && !isDoneStatus(workflow, depTask.status);
         });
 
         const depTitles = incompleteDeps.map((depId) => {
@@ -844,28 +1343,52 @@ function TaskDetailModal({
         });
 
         alert(
-          `Cannot move task to "${
+          `Cannot move task to "${getStatusLabel(
+            workflow,
             editedTask.status
-          }" because the following dependencies are not completed:\n\n${depTitles.join(
+          )}" because the following dependencies are not completed:\n\n${depTitles.join(
             "\n"
           )}`
         );
         return;
       }
 
-      // Update the task with all edited fields
+      // Update the task with all edited fields. The description is saved as
+      // it is typed; leaving it out keeps everyone's edits to it.
+      const configuration = getTaskConfiguration(editedTask);
       const updateData = {
         title: editedTask.title,
         status: editedTask.status,
-        configuration: getTaskConfiguration(editedTask) || undefined,
+        configuration: configuration
+          ? { ...configuration, description: undefined }
+          : undefined,
         dependencies: editedTask.dependencies,
+        startDate: editedTask.startDate ? new Date(editedTask.startDate) : null,
+        dueDate: editedTask.dueDate ? new Date(editedTask.dueDate) : null,
+        estimate: editedTask.estimate ?? null,
+        remaining: editedTask.remaining ?? null,
       };
 
-      const response = await apiClient.updateTask(task.id, updateData);
+      const response = await apiClient.updateTask(
+        task.id,
+        updateData,
+        task.version
+      );
+
+      if (response.conflict && response.data) {
+        // Someone else saved the task first; loading their version merges it
+        // into this edit like any remote change
+        onUpdate(response.data);
+        setMergeNotice(
+          "Someone else changed this task while you were editing. Their changes were merged in; review them and save again."
+        );
+        return;
+      }
 
       if (response.success && response.data) {
         // Update the parent component with the new task data
         onUpdate(response.data);
+        setEditedTask(response.data);
         setIsEditing(false);
       } else {
         console.error("Failed to update task:", response.error);
@@ -946,11 +1469,7 @@ function TaskDetailModal({
                   </Button>
                 </>
               ) : (
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={() => setIsEditing(true)}
-                >
+                <Button size="sm" variant="outline" onClick={startEditing}>
                   Edit
                 </Button>
               )}
@@ -974,268 +1493,394 @@ function TaskDetailModal({
               </Button>
             </div>
           </div>
+          <div className="flex gap-1 border-b">
+            {(["details", "activity"] as const).map((value) => (
+              <button
+                key={value}
+                onClick={() => setTab(value)}
+                className={`px-3 py-1.5 text-sm capitalize border-b-2 -mb-px ${
+                  tab === value
+                    ? "border-blue-600 text-blue-600 font-medium"
+                    : "border-transparent text-muted-foreground hover:text-gray-900"
+                }`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
         </CardHeader>
-        <CardContent className="space-y-4 animate-in slide-in-from-bottom-4 duration-300">
-          <div>
-            <label className="block text-sm font-medium mb-2">Title</label>
-            {isEditing ? (
-              <Input
-                value={editedTask.title}
-                onChange={(e) =>
-                  setEditedTask({ ...editedTask, title: e.target.value })
-                }
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") {
-                    handleSave();
-                  }
-                }}
-                autoFocus
-              />
-            ) : (
-              <p className="text-sm">{editedTask.title}</p>
+        {tab === "activity" ? (
+          <CardContent>
+            <ActivityTimeline
+              taskId={task.id}
+              tasks={tasks}
+              workflow={workflow}
+              refreshKey={task.updatedAt}
+            />
+          </CardContent>
+        ) : (
+          <CardContent className="space-y-4 animate-in slide-in-from-bottom-4 duration-300">
+            {isEditing && mergeNotice && (
+              <p className="rounded-md bg-amber-50 p-2 text-sm text-amber-800">
+                {mergeNotice}
+              </p>
             )}
-          </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Title</label>
+              {isEditing ? (
+                <Input
+                  value={editedTask.title}
+                  onChange={(e) =>
+                    setEditedTask({ ...editedTask, title: e.target.value })
+                  }
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      handleSave();
+                    }
+                  }}
+                  autoFocus
+                />
+              ) : (
+                <p className="text-sm">{editedTask.title}</p>
+              )}
+              {renderConflicts((field) => field === "title")}
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium mb-2">Status</label>
-            {isEditing ? (
-              <select
-                value={editedTask.status}
-                onChange={(e) =>
-                  setEditedTask({
-                    ...editedTask,
-                    status: e.target.value as TaskStatus,
-                  })
-                }
-                onKeyDown={(e) => {
-                  if (e.key === "Enter") {
-                    handleSave();
+            <div>
+              <label className="block text-sm font-medium mb-2">Status</label>
+              {isEditing ? (
+                <select
+                  value={editedTask.status}
+                  onChange={(e) =>
+                    setEditedTask({
+                      ...editedTask,
+                      status: e.target.value as TaskStatus,
+                    })
                   }
-                }}
-                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      handleSave();
+                    }
+                  }}
+                  className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  {workflow.statuses.map((column) => {
+                    const isAllowed = canTransition(
+                      workflow,
+                      task.status,
+                      column.key
+                    );
+                    const isBlocked = !canTransitionToStatus(
+                      task.id,
+                      column.key
+                    );
+                    return (
+                      <option
+                        key={column.key}
+                        value={column.key}
+                        disabled={!isAllowed || isBlocked}
+                      >
+                        {column.label}{" "}
+                        {!isAllowed
+                          ? `(Not allowed from ${getStatusLabel(
+                              workflow,
+                              task.status
+                            )})`
+                          : isBlocked && "(Blocked by dependencies)"}
+                      </option>
+                    );
+                  })}
+                </select>
+              ) : (
+                <Badge style={getStatusStyle(workflow, editedTask.status)}>
+                  {getStatusLabel(workflow, editedTask.status)}
+                </Badge>
+              )}
+              {renderConflicts((field) => field === "status")}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-2">Priority</label>
+              <Badge
+                className={getPriorityColor(
+                  getTaskConfiguration(editedTask)?.priority || "MEDIUM"
+                )}
               >
-                {statusColumns.map((column) => {
-                  const isDisabled = !canTransitionToStatus(
-                    task.id,
-                    column.status as TaskStatus
-                  );
-                  return (
-                    <option
-                      key={column.status}
-                      value={column.status}
-                      disabled={isDisabled}
-                    >
-                      {column.label} {isDisabled && "(Blocked by dependencies)"}
-                    </option>
-                  );
-                })}
-              </select>
-            ) : (
-              <Badge className={getStatusColor(editedTask.status)}>
-                {
-                  statusColumns.find((c) => c.status === editedTask.status)
-                    ?.label
-                }
+                {getTaskConfiguration(editedTask)?.priority || "MEDIUM"}
               </Badge>
-            )}
-          </div>
+              {renderConflicts((field) => field === "priority")}
+            </div>
 
-          <div>
-            <label className="block text-sm font-medium mb-2">Priority</label>
-            <Badge
-              className={getPriorityColor(
-                getTaskConfiguration(editedTask)?.priority || "MEDIUM"
-              )}
-            >
-              {getTaskConfiguration(editedTask)?.priority || "MEDIUM"}
-            </Badge>
-          </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Start Date
+                </label>
+                {isEditing ? (
+                  <Input
+                    type="date"
+                    value={toDateInputValue(editedTask.startDate)}
+                    max={toDateInputValue(editedTask.dueDate) || undefined}
+                    onChange={(e) =>
+                      setEditedTask({
+                        ...editedTask,
+                        startDate: fromDateInputValue(e.target.value),
+                      })
+                    }
+                  />
+                ) : (
+                  <p className="text-sm">
+                    {editedTask.startDate
+                      ? formatTaskDate(editedTask.startDate)
+                      : "Not set"}
+                  </p>
+                )}
+                {renderConflicts((field) => field === "startDate")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Due Date
+                </label>
+                {isEditing ? (
+                  <Input
+                    type="date"
+                    value={toDateInputValue(editedTask.dueDate)}
+                    min={toDateInputValue(editedTask.startDate) || undefined}
+                    onChange={(e) =>
+                      setEditedTask({
+                        ...editedTask,
+                        dueDate: fromDateInputValue(e.target.value, true),
+                      })
+                    }
+                  />
+                ) : (
+                  <p className="text-sm">
+                    {editedTask.dueDate
+                      ? formatTaskDate(editedTask.dueDate)
+                      : "Not set"}
+                    {dueState === "overdue" && (
+                      <span className="ml-2 text-red-600">(Overdue)</span>
+                    )}
+                    {dueState === "due-soon" && (
+                      <span className="ml-2 text-amber-600">(Due soon)</span>
+                    )}
+                  </p>
+                )}
+                {renderConflicts((field) => field === "dueDate")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Estimate (hours)
+                </label>
+                {isEditing ? (
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={editedTask.estimate ?? ""}
+                    onChange={(e) =>
+                      setEditedTask({
+                        ...editedTask,
+                        estimate: fromHoursInputValue(e.target.value),
+                      })
+                    }
+                  />
+                ) : (
+                  <p className="text-sm">{editedTask.estimate ?? "Not set"}</p>
+                )}
+                {renderConflicts((field) => field === "estimate")}
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Remaining (hours)
+                </label>
+                {isEditing ? (
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={editedTask.remaining ?? ""}
+                    onChange={(e) =>
+                      setEditedTask({
+                        ...editedTask,
+                        remaining: fromHoursInputValue(e.target.value),
+                      })
+                    }
+                  />
+                ) : (
+                  <p className="text-sm">{editedTask.remaining ?? "Not set"}</p>
+                )}
+                {renderConflicts((field) => field === "remaining")}
+              </div>
+            </div>
 
-          {getTaskConfiguration(editedTask)?.description && (
             <div>
               <label className="block text-sm font-medium mb-2">
                 Description
               </label>
-              <p className="text-sm text-muted-foreground">
-                {getTaskConfiguration(editedTask)?.description}
-              </p>
+              <CollaborativeDescription task={task} sendMessage={sendMessage} />
             </div>
-          )}
+            {renderConflicts((field) => field.startsWith("customFields."))}
 
-          {(getTaskConfiguration(editedTask)?.tags?.length || 0) > 0 && (
-            <div>
-              <label className="block text-sm font-medium mb-2">Tags</label>
-              <div className="flex flex-wrap gap-1">
-                {getTaskConfiguration(editedTask)?.tags?.map(
-                  (tag: string, index: number) => (
-                    <Badge key={index} variant="outline" className="text-xs">
-                      {tag}
-                    </Badge>
-                  )
-                )}
+            {(getTaskConfiguration(editedTask)?.tags?.length || 0) > 0 && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Tags</label>
+                <div className="flex flex-wrap gap-1">
+                  {getTaskConfiguration(editedTask)?.tags?.map(
+                    (tag: string, index: number) => (
+                      <Badge key={index} variant="outline" className="text-xs">
+                        {tag}
+                      </Badge>
+                    )
+                  )}
+                </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Dependencies Section */}
-          <div>
-            <label className="block text-sm font-medium mb-2">
-              Dependencies
-            </label>
-            {editedTask.dependencies.length > 0 ? (
-              <div className="space-y-2">
-                {editedTask.dependencies.map((depId: string) => {
-                  const depTask = tasks.find((t) => t.id === depId);
-                  return (
-                    <div
-                      key={depId}
-                      className="flex items-center justify-between p-2 bg-gray-50 rounded-md"
-                    >
-                      <div className="flex items-center gap-2">
-                        <div
-                          className={`w-2 h-2 rounded-full ${
-                            depTask?.status === "DONE"
-                              ? "bg-green-500"
-                              : "bg-gray-400"
-                          }`}
-                        />
-                        <span className="text-sm">
-                          {depTask ? depTask.title : `Unknown Task (${depId})`}
-                        </span>
-                        {depTask && (
-                          <Badge
-                            variant="outline"
-                            className={getStatusColor(depTask.status)}
+            <TaskChecklist task={task} onUpdate={onUpdate} />
+
+            <TaskAttachments task={task} onUpdate={onUpdate} />
+
+            {/* Dependencies Section */}
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Dependencies
+              </label>
+              {editedTask.dependencies.length > 0 ? (
+                <div className="space-y-2">
+                  {editedTask.dependencies.map((depId: string) => {
+                    const depTask = tasks.find((t) => t.id === depId);
+                    return (
+                      <div
+                        key={depId}
+                        className="flex items-center justify-between p-2 bg-gray-50 rounded-md"
+                      >
+                        <div className="flex items-center gap-2">
+                          <div
+                            className={`w-2 h-2 rounded-full ${
+                              depTask && isDoneStatus(workflow, depTask.status)
+                                ? "bg-green-500"
+                                : "bg-gray-400"
+                            }`}
+                          />
+                          <span className="text-sm">
+                            {depTask
+                              ? depTask.title
+                              : `Unknown Task (${depId})`}
+                          </span>
+                          {depTask && (
+                            <Badge
+                              variant="outline"
+                              style={getStatusStyle(workflow, depTask.status)}
+                            >
+                              {getStatusLabel(workflow, depTask.status)}
+                            </Badge>
+                          )}
+                        </div>
+                        {isEditing && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => {
+                              setEditedTask({
+                                ...editedTask,
+                                dependencies: editedTask.dependencies.filter(
+                                  (id: string) => id !== depId
+                                ),
+                              });
+                            }}
+                            className="text-red-600 hover:text-red-700"
                           >
-                            {
-                              statusColumns.find(
-                                (c) => c.status === depTask.status
-                              )?.label
-                            }
-                          </Badge>
+                            ×
+                          </Button>
                         )}
                       </div>
-                      {isEditing && (
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => {
+                    );
+                  })}
+                  {isEditing && (
+                    <div className="mt-2">
+                      <select
+                        onChange={(e) => {
+                          const selectedId = e.target.value;
+                          if (
+                            selectedId &&
+                            !editedTask.dependencies.includes(selectedId)
+                          ) {
                             setEditedTask({
                               ...editedTask,
-                              dependencies: editedTask.dependencies.filter(
-                                (id: string) => id !== depId
-                              ),
+                              dependencies: [
+                                ...editedTask.dependencies,
+                                selectedId,
+                              ],
                             });
-                          }}
-                          className="text-red-600 hover:text-red-700"
-                        >
-                          ×
-                        </Button>
-                      )}
-                    </div>
-                  );
-                })}
-                {isEditing && (
-                  <div className="mt-2">
-                    <select
-                      onChange={(e) => {
-                        const selectedId = e.target.value;
-                        if (
-                          selectedId &&
-                          !editedTask.dependencies.includes(selectedId)
-                        ) {
-                          setEditedTask({
-                            ...editedTask,
-                            dependencies: [
-                              ...editedTask.dependencies,
-                              selectedId,
-                            ],
-                          });
-                        }
-                        e.target.value = ""; // Reset selection
-                      }}
-                      className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
-                      value=""
-                    >
-                      <option value="">Add dependency...</option>
-                      {tasks
-                        .filter(
-                          (t: ParsedTask) =>
-                            t.id !== task.id &&
-                            !editedTask.dependencies.includes(t.id)
-                        )
-                        .map((t: ParsedTask) => (
+                          }
+                          e.target.value = ""; // Reset selection
+                        }}
+                        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                        value=""
+                      >
+                        <option value="">Add dependency...</option>
+                        {dependencyOptions.map((t: ParsedTask) => (
                           <option key={t.id} value={t.id}>
-                            {t.title} (
-                            {
-                              statusColumns.find((c) => c.status === t.status)
-                                ?.label
-                            }
-                            )
+                            {t.title} ({getStatusLabel(workflow, t.status)})
                           </option>
                         ))}
-                    </select>
-                  </div>
-                )}
-              </div>
-            ) : (
-              <div className="text-sm text-muted-foreground">
-                No dependencies
-                {isEditing && (
-                  <div className="mt-2">
-                    <select
-                      onChange={(e) => {
-                        const selectedId = e.target.value;
-                        if (selectedId) {
-                          setEditedTask({
-                            ...editedTask,
-                            dependencies: [
-                              ...editedTask.dependencies,
-                              selectedId,
-                            ],
-                          });
-                        }
-                        e.target.value = ""; // Reset selection
-                      }}
-                      className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
-                      value=""
-                    >
-                      <option value="">Add dependency...</option>
-                      {tasks
-                        .filter((t: ParsedTask) => t.id !== task.id)
-                        .map((t: ParsedTask) => (
+                      </select>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="text-sm text-muted-foreground">
+                  No dependencies
+                  {isEditing && (
+                    <div className="mt-2">
+                      <select
+                        onChange={(e) => {
+                          const selectedId = e.target.value;
+                          if (selectedId) {
+                            setEditedTask({
+                              ...editedTask,
+                              dependencies: [
+                                ...editedTask.dependencies,
+                                selectedId,
+                              ],
+                            });
+                          }
+                          e.target.value = ""; // Reset selection
+                        }}
+                        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                        value=""
+                      >
+                        <option value="">Add dependency...</option>
+                        {dependencyOptions.map((t: ParsedTask) => (
                           <option key={t.id} value={t.id}>
-                            {t.title} (
-                            {
-                              statusColumns.find((c) => c.status === t.status)
-                                ?.label
-                            }
-                            )
+                            {t.title} ({getStatusLabel(workflow, t.status)})
                           </option>
                         ))}
-                    </select>
-                  </div>
-                )}
-              </div>
-            )}
-          </div>
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
 
-          {/* Comments Section */}
-          <CommentsSection
-            task={task}
-            comments={task.comments || []}
-            onCommentAdd={onUpdate}
-            onCommentUpdate={onUpdate}
-            onCommentDelete={onUpdate}
-          />
+            {/* Comments Section */}
+            <CommentsSection
+              task={task}
+              comments={task.comments || []}
+              onCommentAdd={onUpdate}
+              onCommentUpdate={onUpdate}
+              onCommentDelete={onUpdate}
+            />
 
-          <div>
-            <label className="block text-sm font-medium mb-2">Created</label>
-            <p className="text-sm text-muted-foreground">
-              {formatTimestamp(task.createdAt)}
-            </p>
-          </div>
-        </CardContent>
+            <div>
+              <label className="block text-sm font-medium mb-2">Created</label>
+              <p className="text-sm text-muted-foreground">
+                {formatTimestamp(task.createdAt)}
+              </p>
+            </div>
+          </CardContent>
+        )}
       </Card>
     </div>
   );
@@ -1255,10 +1900,17 @@ function CommentsSection({
   onCommentUpdate: (updatedTask: ParsedTask) => void;
   onCommentDelete: (updatedTask: ParsedTask) => void;
 }) {
-  const { wsConnected, comments: storeComments, setComments } = useAppStore();
+  const {
+    wsConnected,
+    currentProject,
+    comments: storeComments,
+    setComments,
+    handleCommentReaction,
+  } = useAppStore();
 
   // Use comments from the store for real-time updates, fallback to prop
   const currentComments = storeComments[task.id] || comments;
+  const threads = groupCommentThreads(currentComments);
   const [newComment, setNewComment] = useState("");
   const [editingComment, setEditingComment] = useState<string | null>(null);
   const [editingText, setEditingText] = useState("");
@@ -1266,7 +1918,15 @@ function CommentsSection({
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [commentError, setCommentError] = useState<string | null>(null);
   const [isLoadingComments, setIsLoadingComments] = useState(false);
+  const [newCommentFiles, setNewCommentFiles] = useState<File[]>([]);
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(
+    new Set()
+  );
+  const [replyTexts, setReplyTexts] = useState<Record<string, string>>({});
   const lastRequestTimeRef = useRef<number>(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canComment =
+    !!currentUser && hasProjectRole(currentProject?.role, "MEMBER");
 
   // Load current user's internal ID when component mounts
   useEffect(() => {
@@ -1356,12 +2016,28 @@ function CommentsSection({
 
       if (response.success && response.data) {
         console.log("Comment created successfully:", response.data.id);
+        // Files are attached once the comment exists
+        const uploads = await Promise.all(
+          newCommentFiles.map((file) =>
+            apiClient.uploadCommentAttachment(response.data!.id, file)
+          )
+        );
+        const uploaded = uploads.flatMap((upload) =>
+          upload.success && upload.data ? [upload.data] : []
+        );
         const updatedTask = {
           ...task,
           comments: [response.data, ...currentComments],
+          attachments: [...(task.attachments ?? []), ...uploaded],
         };
         onCommentAdd(updatedTask);
         setNewComment("");
+        setNewCommentFiles([]);
+
+        const failed = uploads.find((upload) => !upload.success);
+        if (failed) {
+          setCommentError(failed.error || "Failed to upload attachment");
+        }
       } else {
         const errorMsg = response.error || "Failed to create comment";
         console.error("Failed to create comment:", errorMsg);
@@ -1377,6 +2053,28 @@ function CommentsSection({
     }
   };
 
+  const handleAddReply = async (e: React.FormEvent, parentId: string) => {
+    e.preventDefault();
+    const content = replyTexts[parentId]?.trim();
+    if (!content || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setCommentError(null);
+    try {
+      const response = await apiClient.replyToComment(parentId, content);
+      if (response.success && response.data) {
+        const updatedComments = [...currentComments, response.data];
+        setComments(task.id, updatedComments);
+        onCommentAdd({ ...task, comments: updatedComments });
+        setReplyTexts({ ...replyTexts, [parentId]: "" });
+      } else {
+        setCommentError(response.error || "Failed to reply");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleEditComment = async (commentId: string) => {
     if (!editingText.trim()) return;
 
@@ -1430,8 +2128,10 @@ function CommentsSection({
 
       if (response.success) {
         console.log("Comment deleted successfully");
+        // Its replies were deleted along with it
         const updatedComments = currentComments.filter(
-          (comment) => comment.id !== commentId
+          (comment) =>
+            comment.id !== commentId && comment.parentId !== commentId
         );
         const updatedTask = { ...task, comments: updatedComments };
         onCommentDelete(updatedTask);
@@ -1473,6 +2173,22 @@ function CommentsSection({
     }
   };
 
+  const handleDeleteAttachment = async (attachment: Attachment) => {
+    if (!window.confirm(`Delete ${attachment.fileName}?`)) return;
+
+    const response = await apiClient.deleteAttachment(attachment.id);
+    if (response.success) {
+      onCommentUpdate({
+        ...task,
+        attachments: (task.attachments ?? []).filter(
+          (a) => a.id !== attachment.id
+        ),
+      });
+    } else {
+      alert(`Failed to delete attachment: ${response.error}`);
+    }
+  };
+
   const startEditing = (comment: Comment) => {
     setEditingComment(comment.id);
     setEditingText(comment.content);
@@ -1483,6 +2199,120 @@ function CommentsSection({
     setEditingText("");
   };
 
+  const toggleThread = (commentId: string) => {
+    const expanded = new Set(expandedThreads);
+    if (!expanded.delete(commentId)) expanded.add(commentId);
+    setExpandedThreads(expanded);
+  };
+
+  const renderComment = (comment: Comment) => (
+    <div key={comment.id} className="border rounded-lg p-3 bg-gray-50">
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-sm font-medium">
+              {comment.author?.firstName ||
+                comment.author?.email?.split("@")[0] ||
+                "Unknown User"}
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {formatTimestamp(comment.timestamp)}
+            </span>
+            {!wsConnected && (
+              <span className="text-xs text-orange-600" title="Offline">
+                ⚠️
+              </span>
+            )}
+          </div>
+
+          {editingComment === comment.id ? (
+            <div className="space-y-2">
+              <Textarea
+                value={editingText}
+                onChange={(e) => setEditingText(e.target.value)}
+                rows={2}
+                className="w-full"
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleEditComment(comment.id)}
+                  disabled={!editingText.trim()}
+                >
+                  Save
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={cancelEditing}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">
+              {comment.content}
+            </p>
+          )}
+          <AttachmentList
+            attachments={(task.attachments ?? []).filter(
+              (a) => a.commentId === comment.id
+            )}
+            canDelete={(a) =>
+              a.uploadedBy === currentUser?.id ||
+              hasProjectRole(currentProject?.role, "ADMIN")
+            }
+            onDelete={handleDeleteAttachment}
+            className="mt-2"
+          />
+          <CommentReactions
+            comment={comment}
+            currentUserId={currentUser?.id}
+            canReact={canComment}
+            onChange={(reactions) =>
+              handleCommentReaction({
+                commentId: comment.id,
+                taskId: task.id,
+                reactions,
+                operationId: "",
+                timestamp: Date.now(),
+              })
+            }
+          />
+        </div>
+
+        {currentUser &&
+          (currentUser.id === comment.authorId ||
+            currentProject?.ownerId === currentUser.id ||
+            hasProjectRole(currentProject?.role, "ADMIN")) && (
+            <div className="flex gap-1 ml-2">
+              {editingComment !== comment.id && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => startEditing(comment)}
+                    className="h-6 w-6 p-0"
+                  >
+                    ✏️
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDeleteComment(comment.id)}
+                    className="h-6 w-6 p-0 text-red-600 hover:text-red-700"
+                  >
+                    🗑️
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+      </div>
+    </div>
+  );
+
   return (
     <div>
       <label className="block text-sm font-medium mb-2">
@@ -1501,14 +2331,59 @@ function CommentsSection({
               className="flex-1"
               disabled={isSubmitting}
             />
-            <Button
-              type="submit"
-              size="sm"
-              disabled={!newComment.trim() || isSubmitting}
-            >
-              {isSubmitting ? "Posting..." : "Post"}
-            </Button>
+            <div className="flex flex-col gap-1">
+              <Button
+                type="submit"
+                size="sm"
+                disabled={!newComment.trim() || isSubmitting}
+              >
+                {isSubmitting ? "Posting..." : "Post"}
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ATTACHMENT_ACCEPT}
+                multiple
+                onChange={(e) => {
+                  const files = Array.from(e.target.files ?? []);
+                  setNewCommentFiles([...newCommentFiles, ...files]);
+                  e.target.value = "";
+                }}
+                className="hidden"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={isSubmitting}
+                onClick={() => fileInputRef.current?.click()}
+                title="Attach files"
+              >
+                <Paperclip className="h-3 w-3" />
+              </Button>
+            </div>
           </div>
+          {newCommentFiles.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {newCommentFiles.map((file, index) => (
+                <Badge key={index} variant="outline" className="text-xs">
+                  {file.name}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setNewCommentFiles(
+                        newCommentFiles.filter((_, i) => i !== index)
+                      )
+                    }
+                    className="ml-1"
+                    title="Remove"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
           {commentError && (
             <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
               Error: {commentError}
@@ -1522,87 +2397,66 @@ function CommentsSection({
         {currentComments.length === 0 ? (
           <p className="text-sm text-muted-foreground">No comments yet.</p>
         ) : (
-          currentComments.map((comment) => (
-            <div key={comment.id} className="border rounded-lg p-3 bg-gray-50">
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 mb-1">
-                    <span className="text-sm font-medium">
-                      {comment.author?.firstName ||
-                        comment.author?.email?.split("@")[0] ||
-                        "Unknown User"}
-                    </span>
-                    <span className="text-xs text-muted-foreground">
-                      {formatTimestamp(comment.timestamp)}
-                    </span>
-                    {!wsConnected && (
-                      <span className="text-xs text-orange-600" title="Offline">
-                        ⚠️
-                      </span>
-                    )}
-                  </div>
-
-                  {editingComment === comment.id ? (
-                    <div className="space-y-2">
-                      <Textarea
-                        value={editingText}
-                        onChange={(e) => setEditingText(e.target.value)}
-                        rows={2}
-                        className="w-full"
-                      />
-                      <div className="flex gap-2">
-                        <Button
-                          size="sm"
-                          onClick={() => handleEditComment(comment.id)}
-                          disabled={!editingText.trim()}
-                        >
-                          Save
-                        </Button>
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={cancelEditing}
-                        >
-                          Cancel
-                        </Button>
-                      </div>
-                    </div>
-                  ) : (
-                    <p className="text-sm text-gray-700 whitespace-pre-wrap">
-                      {comment.content}
-                    </p>
-                  )}
-                </div>
-
-                {currentUser && currentUser.id === comment.authorId && (
-                  <div className="flex gap-1 ml-2">
-                    {editingComment !== comment.id && (
-                      <>
-                        <Button
-                          size="sm"
-                          variant="ghost"
-                          onClick={() => startEditing(comment)}
-                          className="h-6 w-6 p-0"
-                        >
-                          ✏️
-                        </Button>
+          threads.map(({ comment, replies }) => {
+            const isExpanded = expandedThreads.has(comment.id);
+            return (
+              <div key={comment.id} className="space-y-2">
+                {renderComment(comment)}
+                {(replies.length > 0 || canComment) && (
+                  <div className="ml-6 space-y-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => toggleThread(comment.id)}
+                      className="h-6 px-2 text-xs text-muted-foreground"
+                    >
+                      <Reply className="h-3 w-3 mr-1" />
+                      {getThreadToggleLabel(replies.length, isExpanded)}
+                    </Button>
+                    {isExpanded && replies.map(renderComment)}
+                    {isExpanded && canComment && (
+                      <form
+                        onSubmit={(e) => handleAddReply(e, comment.id)}
+                        className="flex gap-2"
+                      >
+                        <Textarea
+                          value={replyTexts[comment.id] ?? ""}
+                          onChange={(e) =>
+                            setReplyTexts({
+                              ...replyTexts,
+                              [comment.id]: e.target.value,
+                            })
+                          }
+                          placeholder="Reply..."
+                          rows={1}
+                          className="flex-1"
+                          disabled={isSubmitting}
+                        />
                         <Button
+                          type="submit"
                           size="sm"
-                          variant="ghost"
-                          onClick={() => handleDeleteComment(comment.id)}
-                          className="h-6 w-6 p-0 text-red-600 hover:text-red-700"
+                          disabled={
+                            !replyTexts[comment.id]?.trim() || isSubmitting
+                          }
                         >
-                          🗑️
+                          Reply
                         </Button>
-                      </>
+                      </form>
                     )}
                   </div>
                 )}
               </div>
-            </div>
-          ))
+            );
+          })
         )}
       </div>
     </div>
   );
 }
+
+// "3 replies" on a collapsed thread, or "Reply" when it has none yet
+function getThreadToggleLabel(replyCount: number, isExpanded: boolean) {
+  if (isExpanded) return replyCount > 0 ? "Hide replies" : "Cancel";
+  if (replyCount === 0) return "Reply";
+  return replyCount === 1 ? "1 reply" : `${replyCount} replies`;
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowUp, X } from "lucide-react";
+import { apiClient } from "@/lib/api-client";
+import { useAppStore } from "@/lib/store";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ApiResponse, ParsedTask } from "@/lib/types";
+import { getChecklistProgress, hasProjectRole } from "@/lib/utils";
+
+/**
+ * A task's checklist. Every change is saved right away through
+ * /api/tasks/{id}/checklist and reaches other viewers as a TASK_UPDATE, so
+ * the list always shows the server's copy from `task`.
+ */
+export function TaskChecklist({
+  task,
+  onUpdate,
+}: {
+  task: ParsedTask;
+  onUpdate: (task: ParsedTask) => void;
+}) {
+  const { currentProject } = useAppStore();
+  const [newItem, setNewItem] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const checklist = task.checklist ?? [];
+  const progress = getChecklistProgress(task);
+  const canEdit = hasProjectRole(currentProject?.role, "MEMBER");
+
+  const save = async (request: Promise<ApiResponse<ParsedTask>>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await request;
+      if (response.success && response.data) {
+        onUpdate(response.data);
+        return true;
+      }
+      setError(response.error || "Failed to update checklist");
+    } catch {
+      setError("Failed to update checklist");
+    } finally {
+      setIsSaving(false);
+    }
+    return false;
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+    const saved = await save(
+      apiClient.addChecklistItem(task.id, { content: newItem.trim() })
+    );
+    if (saved) setNewItem("");
+  };
+
+  const move = (index: number, offset: number) => {
+    const itemIds = checklist.map((item) => item.id);
+    [itemIds[index], itemIds[index + offset]] = [
+      itemIds[index + offset],
+      itemIds[index],
+    ];
+    save(apiClient.reorderChecklist(task.id, itemIds));
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">
+        Checklist
+        {progress && (
+          <span className="ml-2 font-normal text-muted-foreground">
+            {progress.done}/{progress.total} done
+          </span>
+        )}
+      </label>
+
+      {progress && (
+        <div className="h-1.5 mb-3 rounded-full bg-gray-100">
+          <div
+            className="h-1.5 rounded-full bg-green-500 transition-all"
+            style={{ width: `${(progress.done / progress.total) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {checklist.map((item, index) => (
+          <li key={item.id} className="group flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={item.done}
+              disabled={!canEdit || isSaving}
+              onChange={(e) =>
+                save(
+                  apiClient.updateChecklistItem(task.id, item.id, {
+                    done: e.target.checked,
+                  })
+                )
+              }
+            />
+            <span
+              className={`flex-1 ${
+                item.done ? "line-through text-muted-foreground" : ""
+              }`}
+            >
+              {item.content}
+            </span>
+            {canEdit && (
+              <div className="flex opacity-0 group-hover:opacity-100">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isSaving || index === 0}
+                  onClick={() => move(index, -1)}
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isSaving || index === checklist.length - 1}
+                  onClick={() => move(index, 1)}
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isSaving}
+                  onClick={() =>
+                    save(apiClient.deleteChecklistItem(task.id, item.id))
+                  }
+                  className="text-red-600 hover:text-red-700"
+                  title="Remove"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="flex gap-2 mt-2">
+          <Input
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            placeholder="Add an item"
+            maxLength={500}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={isSaving || !newItem.trim()}
+          >
+            Add
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
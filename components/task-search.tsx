@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { apiClient } from "@/lib/api-client";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Search, MessageSquare } from "lucide-react";
+import { SearchResult } from "@/lib/types";
+import { getStatusColor, splitHighlights } from "@/lib/utils";
+
+const SEARCH_DELAY_MS = 250;
+
+export function TaskSearch({
+  projectId,
+  onSelect,
+  className,
+}: {
+  projectId?: string; // Limit results to one project
+  onSelect: (result: SearchResult) => void;
+  className?: string;
+}) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Debounce typing and cancel superseded requests so results never arrive
+  // out of order
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      const response = await apiClient.search(
+        { q, projectId },
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+      setResults(response.success && response.data ? response.data : []);
+      setSearching(false);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, projectId]);
+
+  // Close the results when clicking elsewhere
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, []);
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false);
+    setQuery("");
+    onSelect(result);
+  };
+
+  return (
+    <div ref={containerRef} className={`relative ${className || ""}`}>
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+      <Input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setOpen(false);
+          if (e.key === "Enter" && results[0]) handleSelect(results[0]);
+        }}
+        placeholder={projectId ? "Search this project..." : "Search tasks..."}
+        className="pl-9"
+        aria-label="Search tasks and comments"
+      />
+
+      {open && query.trim() && (
+        <div className="absolute z-50 mt-1 w-full min-w-[20rem] max-h-96 overflow-y-auto rounded-md border bg-white shadow-lg">
+          {searching && results.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">Searching...</p>
+          ) : results.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500">No matching tasks</p>
+          ) : (
+            <ul role="listbox">
+              {results.map((result) => (
+                <li key={result.taskId}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(result)}
+                    className="w-full text-left p-3 hover:bg-gray-50 border-b last:border-b-0"
+                  >
+                    <SearchResultItem
+                      result={result}
+                      showProject={!projectId}
+                    />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SearchResultItem({
+  result,
+  showProject,
+}: {
+  result: SearchResult;
+  showProject: boolean;
+}) {
+  const title = result.highlights.find((h) => h.field === "title");
+  const snippets = result.highlights.filter((h) => h.field !== "title");
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-sm truncate">
+          <HighlightedText snippet={title?.snippet ?? result.title} />
+        </span>
+        <Badge className={`text-xs ${getStatusColor(result.status)}`}>
+          {result.status.replace("_", " ")}
+        </Badge>
+      </div>
+      {showProject && (
+        <p className="text-xs text-gray-500">{result.projectName}</p>
+      )}
+      {snippets.map((highlight) => (
+        <p
+          key={highlight.commentId ?? highlight.field}
+          className="text-xs text-gray-600 line-clamp-2"
+        >
+          {highlight.field === "comment" && (
+            <MessageSquare className="inline h-3 w-3 mr-1 text-gray-400" />
+          )}
+          {highlight.field === "tags" && (
+            <span className="text-gray-400">Tags: </span>
+          )}
+          <HighlightedText snippet={highlight.snippet} />
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function HighlightedText({ snippet }: { snippet: string }) {
+  return (
+    <>
+      {splitHighlights(snippet).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-100 rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,349 @@
+"use client";
+
+import { useState } from "react";
+import { apiClient } from "@/lib/api-client";
+import { useAppStore } from "@/lib/store";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowUp, ArrowDown, Trash2, Plus, X } from "lucide-react";
+import {
+  ParsedProject,
+  StatusCategory,
+  Workflow,
+  WorkflowSchema,
+  WorkflowStatus,
+} from "@/lib/types";
+import { canTransition, getProjectWorkflow } from "@/lib/workflow";
+
+const CATEGORY_LABELS: Record<StatusCategory, string> = {
+  NOT_STARTED: "Not started",
+  ACTIVE: "Active",
+  DONE: "Done",
+};
+
+export function WorkflowEditor({
+  project,
+  onClose,
+  onSaved,
+}: {
+  project: ParsedProject;
+  onClose: () => void;
+  onSaved: (project: ParsedProject) => void;
+}) {
+  const { tasks } = useAppStore();
+  const [draft, setDraft] = useState<Workflow>(() =>
+    structuredClone(getProjectWorkflow(project))
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Keys are what tasks store, so only statuses added here can be renamed
+  const savedKeys = new Set(
+    getProjectWorkflow(project).statuses.map((status) => status.key)
+  );
+
+  const updateStatus = (index: number, changes: Partial<WorkflowStatus>) => {
+    setDraft((workflow) => ({
+      ...workflow,
+      statuses: workflow.statuses.map((status, i) =>
+        i === index ? { ...status, ...changes } : status
+      ),
+    }));
+  };
+
+  const moveStatus = (index: number, offset: number) => {
+    setDraft((workflow) => {
+      const statuses = [...workflow.statuses];
+      const [status] = statuses.splice(index, 1);
+      statuses.splice(index + offset, 0, status);
+      return { ...workflow, statuses };
+    });
+  };
+
+  const removeStatus = (key: string) => {
+    setDraft((workflow) => {
+      const transitions: Record<string, string[]> = {};
+      Object.entries(workflow.transitions).forEach(([from, targets]) => {
+        if (from !== key) {
+          transitions[from] = targets.filter((to) => to !== key);
+        }
+      });
+      return {
+        statuses: workflow.statuses.filter((status) => status.key !== key),
+        transitions,
+        blockedStatus:
+          workflow.blockedStatus === key ? null : workflow.blockedStatus,
+      };
+    });
+  };
+
+  const addStatus = () => {
+    setDraft((workflow) => ({
+      ...workflow,
+      statuses: [
+        ...workflow.statuses,
+        { key: "", label: "", color: "#6b7280", category: "ACTIVE" },
+      ],
+    }));
+  };
+
+  // A status without a transitions entry may move anywhere, so unchecking
+  // the first target spells out the rest of the row
+  const toggleTransition = (from: string, to: string) => {
+    setDraft((workflow) => {
+      const others = workflow.statuses
+        .map((status) => status.key)
+        .filter((key) => key !== from);
+      const allowed = workflow.transitions[from] ?? others;
+      const next = allowed.includes(to)
+        ? allowed.filter((key) => key !== to)
+        : [...allowed, to];
+
+      const transitions = { ...workflow.transitions };
+      if (others.every((key) => next.includes(key))) {
+        delete transitions[from];
+      } else {
+        transitions[from] = next;
+      }
+      return { ...workflow, transitions };
+    });
+  };
+
+  const save = async (workflow: Workflow | null) => {
+    if (workflow) {
+      const result = WorkflowSchema.safeParse(workflow);
+      if (!result.success) {
+        setError(result.error.issues[0].message);
+        return;
+      }
+    }
+
+    setSaving(true);
+    setError(null);
+    const response = await apiClient.updateProject(project.id, { workflow });
+    setSaving(false);
+    if (response.success && response.data) {
+      onSaved(response.data);
+    } else {
+      setError(
+        response.error === "Invalid project data"
+          ? "The workflow was rejected; statuses that tasks are in cannot be removed"
+          : response.error || "Failed to save the workflow"
+      );
+    }
+  };
+
+  const keys = draft.statuses.map((status) => status.key).filter(Boolean);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <Card className="relative w-full max-w-4xl max-h-[90vh] overflow-y-auto shadow-2xl bg-white">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Workflow</CardTitle>
+              <CardDescription>
+                Board columns for {project.name} and the moves allowed between
+                them
+              </CardDescription>
+            </div>
+            <Button size="sm" variant="ghost" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Statuses</h3>
+            {draft.statuses.map((status, index) => {
+              const taskCount = tasks.filter(
+                (task) => task.status === status.key
+              ).length;
+
+              return (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={status.color}
+                    onChange={(e) =>
+                      updateStatus(index, { color: e.target.value })
+                    }
+                    className="h-9 w-9 rounded border"
+                    aria-label="Color"
+                  />
+                  <Input
+                    value={status.label}
+                    onChange={(e) =>
+                      updateStatus(index, { label: e.target.value })
+                    }
+                    placeholder="Label"
+                    className="flex-1"
+                  />
+                  <Input
+                    value={status.key}
+                    onChange={(e) =>
+                      updateStatus(index, {
+                        key: e.target.value
+                          .toUpperCase()
+                          .replace(/[^A-Z0-9_]/g, "_"),
+                      })
+                    }
+                    disabled={savedKeys.has(status.key)}
+                    placeholder="KEY"
+                    className="w-36 font-mono"
+                  />
+                  <select
+                    value={status.category}
+                    onChange={(e) =>
+                      updateStatus(index, {
+                        category: e.target.value as StatusCategory,
+                      })
+                    }
+                    className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={index === 0}
+                    onClick={() => moveStatus(index, -1)}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={index === draft.statuses.length - 1}
+                    onClick={() => moveStatus(index, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={taskCount > 0 || draft.statuses.length === 1}
+                    title={
+                      taskCount > 0
+                        ? `${taskCount} task(s) are in this status`
+                        : undefined
+                    }
+                    onClick={() => removeStatus(status.key)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button size="sm" variant="outline" onClick={addStatus}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add status
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Allowed transitions</h3>
+            <p className="text-xs text-muted-foreground">
+              Rows are the current status, columns the status a task may move
+              to.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="text-xs">
+                <thead>
+                  <tr>
+                    <th className="p-1" />
+                    {keys.map((to) => (
+                      <th key={to} className="p-1 font-mono font-normal">
+                        {to}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {keys.map((from) => (
+                    <tr key={from}>
+                      <th className="p-1 text-left font-mono font-normal">
+                        {from}
+                      </th>
+                      {keys.map((to) => (
+                        <td key={to} className="p-1 text-center">
+                          <input
+                            type="checkbox"
+                            disabled={from === to}
+                            checked={canTransition(draft, from, to)}
+                            onChange={() => toggleTransition(from, to)}
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label
+              htmlFor="blocked-status"
+              className="block text-sm font-medium"
+            >
+              Blocked status
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Where auto-block moves tasks with unfinished dependencies
+            </p>
+            <select
+              id="blocked-status"
+              value={draft.blockedStatus ?? ""}
+              onChange={(e) =>
+                setDraft({ ...draft, blockedStatus: e.target.value || null })
+              }
+              className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="">None</option>
+              {draft.statuses
+                .filter((status) => status.key && status.category !== "DONE")
+                .map((status) => (
+                  <option key={status.key} value={status.key}>
+                    {status.label || status.key}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              disabled={saving}
+              onClick={() => save(null)}
+            >
+              Reset to default
+            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button disabled={saving} onClick={() => save(draft)}>
+                {saving ? "Saving..." : "Save workflow"}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
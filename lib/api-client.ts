@@ -2,6 +2,9 @@ import {
   ParsedProject,
   ParsedTask,
   Comment,
+  CommentReaction,
+  ReactionEmoji,
+  Attachment,
   User,
   CreateProjectInput,
   UpdateProjectInput,
@@ -9,10 +12,29 @@ import {
   UpdateTaskInput,
   CreateCommentInput,
   UpdateCommentInput,
+  CreateChecklistItemInput,
+  UpdateChecklistItemInput,
+  MoveTaskInput,
   ApiResponse,
+  WebSocketToken,
+  TaskListQueryInput,
+  SearchQueryInput,
+  SearchResult,
+  DependencyGraph,
+  Activity,
+  ActivityQueryInput,
+  DescriptionDocument,
+  DescriptionOperation,
+  DescriptionOperationInput,
 } from "./types";
 import { useAppStore } from "./store";
-import { generateOperationId } from "./utils";
+import {
+  formatTaskETag,
+  generateOperationId,
+  mergeTaskChanges,
+  toQueryString,
+} from "./utils";
+import { getInitialStatus, getProjectWorkflow } from "./workflow";
 
 class ApiClient {
   private baseUrl: string;
@@ -26,16 +48,26 @@ class ApiClient {
     options: RequestInit = {}
   ): Promise<ApiResponse<T>> {
     try {
+      // Form uploads need the multipart boundary fetch puts in Content-Type
+      const contentType: HeadersInit =
+        options.body instanceof FormData
+          ? {}
+          : { "Content-Type": "application/json" };
       const response = await fetch(`${this.baseUrl}${endpoint}`, {
+        ...options,
         headers: {
-          "Content-Type": "application/json",
+          ...contentType,
           ...options.headers,
         },
-        ...options,
       });
 
       const data = await response.json();
 
+      // Conflicts carry the current server state for the caller to resolve
+      if (response.status === 409 && data.conflict) {
+        return data;
+      }
+
       if (!response.ok) {
         throw new Error(data.error || "Request failed");
       }
@@ -55,6 +87,16 @@ class ApiClient {
     return this.request<User>("/user/current");
   }
 
+  // Connection token, or a project grant for JOIN_PROJECT when projectId is set
+  async getWebSocketToken(
+    projectId?: string
+  ): Promise<ApiResponse<WebSocketToken>> {
+    return this.request<WebSocketToken>("/ws/token", {
+      method: "POST",
+      body: JSON.stringify(projectId ? { projectId } : {}),
+    });
+  }
+
   // Project operations
   async getProjects(): Promise<ApiResponse<ParsedProject[]>> {
     return this.request<ParsedProject[]>("/projects");
@@ -90,8 +132,20 @@ class ApiClient {
   }
 
   // Task operations
-  async getTasks(projectId: string): Promise<ApiResponse<ParsedTask[]>> {
-    return this.request<ParsedTask[]>(`/projects/${projectId}/tasks`);
+  // One page of tasks; pass the response's nextCursor back as query.cursor
+  async getTasks(
+    projectId: string,
+    query: TaskListQueryInput = {}
+  ): Promise<ApiResponse<ParsedTask[]>> {
+    return this.request<ParsedTask[]>(
+      `/projects/${projectId}/tasks${toQueryString(query)}`
+    );
+  }
+
+  async getDependencyGraph(
+    projectId: string
+  ): Promise<ApiResponse<DependencyGraph>> {
+    return this.request<DependencyGraph>(`/projects/${projectId}/graph`);
   }
 
   async getTask(id: string): Promise<ApiResponse<ParsedTask>> {
@@ -105,13 +159,17 @@ class ApiClient {
     });
   }
 
+  // With the version the edit was based on, a concurrent change makes the
+  // update fail with `conflict` set and the current task as data
   async updateTask(
     id: string,
-    data: UpdateTaskInput
+    data: UpdateTaskInput,
+    version?: number
   ): Promise<ApiResponse<ParsedTask>> {
     return this.request<ParsedTask>(`/tasks/${id}`, {
       method: "PUT",
       body: JSON.stringify(data),
+      headers: version ? { "If-Match": formatTaskETag(version) } : {},
     });
   }
 
@@ -121,6 +179,58 @@ class ApiClient {
     });
   }
 
+  // Change a task's column and position on the board in one write
+  async moveTask(
+    id: string,
+    data: MoveTaskInput
+  ): Promise<ApiResponse<ParsedTask>> {
+    return this.request<ParsedTask>(`/tasks/${id}/move`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Checklist operations; each returns the updated task
+  async addChecklistItem(
+    taskId: string,
+    data: CreateChecklistItemInput
+  ): Promise<ApiResponse<ParsedTask>> {
+    return this.request<ParsedTask>(`/tasks/${taskId}/checklist`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    data: UpdateChecklistItemInput
+  ): Promise<ApiResponse<ParsedTask>> {
+    return this.request<ParsedTask>(`/tasks/${taskId}/checklist/${itemId}`, {
+      method: "PUT",
+      body: JSON.stringify(data),
+    });
+  }
+
+  async deleteChecklistItem(
+    taskId: string,
+    itemId: string
+  ): Promise<ApiResponse<ParsedTask>> {
+    return this.request<ParsedTask>(`/tasks/${taskId}/checklist/${itemId}`, {
+      method: "DELETE",
+    });
+  }
+
+  async reorderChecklist(
+    taskId: string,
+    itemIds: string[]
+  ): Promise<ApiResponse<ParsedTask>> {
+    return this.request<ParsedTask>(`/tasks/${taskId}/checklist`, {
+      method: "PUT",
+      body: JSON.stringify({ itemIds }),
+    });
+  }
+
   // Comment operations
   async getComments(taskId: string): Promise<ApiResponse<Comment[]>> {
     return this.request<Comment[]>(`/tasks/${taskId}/comments`);
@@ -152,6 +262,139 @@ class ApiClient {
       method: "DELETE",
     });
   }
+
+  async replyToComment(
+    id: string,
+    content: string
+  ): Promise<ApiResponse<Comment>> {
+    return this.request<Comment>(`/comments/${id}/replies`, {
+      method: "POST",
+      body: JSON.stringify({ content }),
+    });
+  }
+
+  // Reaction operations; each returns the comment's reactions
+  async addReaction(
+    commentId: string,
+    emoji: ReactionEmoji
+  ): Promise<ApiResponse<CommentReaction[]>> {
+    return this.request<CommentReaction[]>(`/comments/${commentId}/reactions`, {
+      method: "POST",
+      body: JSON.stringify({ emoji }),
+    });
+  }
+
+  async removeReaction(
+    commentId: string,
+    emoji: ReactionEmoji
+  ): Promise<ApiResponse<CommentReaction[]>> {
+    return this.request<CommentReaction[]>(
+      `/comments/${commentId}/reactions${toQueryString({ emoji })}`,
+      { method: "DELETE" }
+    );
+  }
+
+  // Attachment operations
+  async getAttachments(taskId: string): Promise<ApiResponse<Attachment[]>> {
+    return this.request<Attachment[]>(`/tasks/${taskId}/attachments`);
+  }
+
+  async uploadAttachment(
+    taskId: string,
+    file: File
+  ): Promise<ApiResponse<Attachment>> {
+    return this.uploadFile(`/tasks/${taskId}/attachments`, file);
+  }
+
+  async uploadCommentAttachment(
+    commentId: string,
+    file: File
+  ): Promise<ApiResponse<Attachment>> {
+    return this.uploadFile(`/comments/${commentId}/attachments`, file);
+  }
+
+  async deleteAttachment(id: string): Promise<ApiResponse<void>> {
+    return this.request<void>(`/attachments/${id}`, {
+      method: "DELETE",
+    });
+  }
+
+  // Where the file is served, for links and image thumbnails
+  getAttachmentUrl(id: string): string {
+    return `${this.baseUrl}/attachments/${id}`;
+  }
+
+  private async uploadFile(
+    endpoint: string,
+    file: File
+  ): Promise<ApiResponse<Attachment>> {
+    const body = new FormData();
+    body.append("file", file);
+    return this.request<Attachment>(endpoint, { method: "POST", body });
+  }
+
+  // Search operations
+  async search(
+    query: SearchQueryInput,
+    signal?: AbortSignal
+  ): Promise<ApiResponse<SearchResult[]>> {
+    return this.request<SearchResult[]>(`/search${toQueryString(query)}`, {
+      signal,
+    });
+  }
+
+  // Activity history, newest first; pages like getTasks
+  async getTaskActivity(
+    taskId: string,
+    query: ActivityQueryInput = {}
+  ): Promise<ApiResponse<Activity[]>> {
+    return this.request<Activity[]>(
+      `/tasks/${taskId}/activity${toQueryString(query)}`
+    );
+  }
+
+  async getProjectActivity(
+    projectId: string,
+    query: ActivityQueryInput = {}
+  ): Promise<ApiResponse<Activity[]>> {
+    return this.request<Activity[]>(
+      `/projects/${projectId}/activity${toQueryString(query)}`
+    );
+  }
+
+  // Collaborative description; `since` also returns the operations after it
+  async getTaskDescription(
+    taskId: string,
+    since?: number
+  ): Promise<ApiResponse<DescriptionDocument>> {
+    return this.request<DescriptionDocument>(
+      `/tasks/${taskId}/description${toQueryString({ since })}`
+    );
+  }
+
+  async applyDescriptionOperation(
+    taskId: string,
+    data: DescriptionOperationInput
+  ): Promise<ApiResponse<DescriptionOperation>> {
+    return this.request<DescriptionOperation>(`/tasks/${taskId}/description`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    });
+  }
+}
+
+// An optimistic task update the server rejected because the task changed in
+// the meantime. The store already shows `server`; resolve with
+// mergeTaskConflict or retryTaskConflict.
+export class TaskConflictError extends Error {
+  constructor(
+    public readonly base: ParsedTask, // The task the update was based on
+    public readonly changes: UpdateTaskInput,
+    public readonly server: ParsedTask
+  ) {
+    super("Task was changed by someone else");
+    this.name = "TaskConflictError";
+  }
 }
 
 // Optimistic API client with rollback capability
@@ -233,6 +476,12 @@ export class OptimisticApiClient extends ApiClient {
   async createTaskOptimistic(data: CreateTaskInput): Promise<string> {
     const operationId = this.store.createTaskOptimistic({
       ...data,
+      // The server picks the same default
+      status:
+        data.status ??
+        getInitialStatus(
+          getProjectWorkflow(useAppStore.getState().currentProject)
+        ),
       project: undefined,
       comments: [],
     });
@@ -259,20 +508,38 @@ export class OptimisticApiClient extends ApiClient {
     return operationId;
   }
 
+  // Throws TaskConflictError when someone else changed the task since it was
+  // loaded into the store
   async updateTaskOptimistic(
     id: string,
     data: UpdateTaskInput
   ): Promise<string> {
-    const operationId = generateOperationId();
-    this.store.updateTaskOptimistic(id, data as Partial<ParsedTask>);
+    const base = useAppStore.getState().tasks.find((t) => t.id === id);
+    const operationId = this.store.updateTaskOptimistic(
+      id,
+      data as Partial<ParsedTask>
+    );
 
     try {
-      const response = await this.updateTask(id, data);
+      const response = await this.updateTask(id, data, base?.version);
 
-      if (!response.success) {
+      if (response.conflict && response.data && base) {
+        // Show the server's version instead of restoring the stale one
+        this.store.rollbackOperation(operationId, response.data);
+        throw new TaskConflictError(base, data, response.data);
+      }
+      if (!response.success || !response.data) {
         this.store.rollbackOperation(operationId);
         throw new Error(response.error || "Failed to update task");
       }
+
+      // Keep the new version for the next update
+      const updated = response.data;
+      this.store.setTasks(
+        useAppStore
+          .getState()
+          .tasks.map((t) => (t.id === updated.id ? updated : t))
+      );
     } catch (error) {
       this.store.rollbackOperation(operationId);
       throw error;
@@ -281,6 +548,19 @@ export class OptimisticApiClient extends ApiClient {
     return operationId;
   }
 
+  // Apply the fields the user changed on top of the other edit
+  async mergeTaskConflict(conflict: TaskConflictError): Promise<string> {
+    return this.updateTaskOptimistic(
+      conflict.server.id,
+      mergeTaskChanges(conflict.base, conflict.changes, conflict.server)
+    );
+  }
+
+  // Send the user's update again as it was, overwriting the other edit
+  async retryTaskConflict(conflict: TaskConflictError): Promise<string> {
+    return this.updateTaskOptimistic(conflict.server.id, conflict.changes);
+  }
+
   async deleteTaskOptimistic(id: string): Promise<string> {
     const operationId = generateOperationId();
     this.store.deleteTaskOptimistic(id);
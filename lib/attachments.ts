@@ -0,0 +1,128 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ZodError, ZodIssueCode } from "zod";
+import {
+  MAX_ATTACHMENT_BYTES,
+  UploadAttachmentInput,
+  UploadAttachmentSchema,
+} from "./types";
+
+/**
+ * Where attachment files are kept; their metadata is in the attachments
+ * table. AttachmentService stores each file under its attachment's ID.
+ * Another backend, such as S3, only has to implement these methods and be
+ * added to createAttachmentStorage.
+ */
+export interface AttachmentStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>; // Null if there is no such file
+  delete(key: string): Promise<void>; // Missing files are ignored
+}
+
+const STORAGE_KEY = /^[A-Za-z0-9_-]+(\/[A-Za-z0-9_-]+)*$/;
+
+// Files in a directory on the server's disk, one per key. Several app
+// instances have to share the directory, e.g. as a mounted volume.
+export class LocalAttachmentStorage implements AttachmentStorage {
+  readonly name = "local";
+
+  constructor(private readonly root: string) {}
+
+  private resolve(key: string): string {
+    // Keys can't contain "." or "..", so files stay under the root
+    if (!STORAGE_KEY.test(key)) throw new Error(`Invalid storage key: ${key}`);
+    return path.join(this.root, ...key.split("/"));
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Pick the storage from ATTACHMENT_STORAGE ("local") and ATTACHMENT_STORAGE_DIR
+export function createAttachmentStorage(
+  env: NodeJS.ProcessEnv = process.env
+): AttachmentStorage {
+  const type = env.ATTACHMENT_STORAGE || "local";
+  if (type !== "local") {
+    throw new Error(`Unknown ATTACHMENT_STORAGE: ${type}`);
+  }
+  return new LocalAttachmentStorage(
+    path.resolve(env.ATTACHMENT_STORAGE_DIR || "storage/attachments")
+  );
+}
+
+let storage: AttachmentStorage | null = null;
+
+export function getAttachmentStorage(): AttachmentStorage {
+  return (storage ??= createAttachmentStorage());
+}
+
+// Types browsers often leave blank, by file extension
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  txt: "text/plain",
+  log: "text/plain",
+  csv: "text/csv",
+  md: "text/markdown",
+  json: "application/json",
+};
+
+// Room for the multipart boundaries and headers around the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+export interface AttachmentUpload extends UploadAttachmentInput {
+  data: Buffer;
+}
+
+function invalidUpload(message: string): ZodError {
+  return new ZodError([{ code: ZodIssueCode.custom, path: ["file"], message }]);
+}
+
+/**
+ * Read the `file` field of a multipart/form-data upload and check it against
+ * the attachment limits. Throws a ZodError for a missing, empty, oversized or
+ * disallowed file; bodies that are clearly too large aren't read at all.
+ */
+export async function readAttachmentUpload(
+  request: Request
+): Promise<AttachmentUpload> {
+  const length = Number(request.headers.get("content-length"));
+  if (length > MAX_ATTACHMENT_BYTES + MULTIPART_OVERHEAD_BYTES) {
+    throw invalidUpload("Files are limited to 10 MB");
+  }
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    throw invalidUpload("Expected a multipart/form-data upload");
+  }
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    throw invalidUpload("A file is required");
+  }
+
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  const metadata = UploadAttachmentSchema.parse({
+    fileName: file.name,
+    mimeType: file.type || MIME_TYPES_BY_EXTENSION[extension] || "",
+    size: file.size,
+  });
+  return { ...metadata, data: Buffer.from(await file.arrayBuffer()) };
+}
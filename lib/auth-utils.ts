@@ -1,5 +1,5 @@
 import { auth } from "@clerk/nextjs/server";
-import { prisma } from "./db";
+import { prisma, UserService } from "./db";
 import { generateId } from "./utils";
 
 export async function getCurrentUser() {
@@ -134,9 +134,7 @@ export async function deleteUser(userId: string) {
     }
 
     // Delete user
-    await prisma.user.delete({
-      where: { id: userId },
-    });
+    await UserService.delete({ id: userId });
 
     return { success: true, message: "User deleted successfully" };
   } catch {
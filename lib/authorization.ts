@@ -0,0 +1,198 @@
+import { NextResponse } from "next/server";
+import { User as PrismaUser } from "@prisma/client";
+import {
+  AttachmentService,
+  CommentService,
+  ProjectMemberService,
+  StoredAttachment,
+  TaskService,
+} from "./db";
+import { getCurrentUser } from "./auth-utils";
+import { Comment, ParsedTask, ProjectRole } from "./types";
+import { hasProjectRole } from "./utils";
+
+export interface ProjectAccess {
+  user: PrismaUser;
+  projectId: string;
+  role: ProjectRole;
+}
+
+export interface TaskAccess extends ProjectAccess {
+  task: ParsedTask;
+}
+
+export interface CommentAccess extends TaskAccess {
+  comment: Comment;
+}
+
+export interface AttachmentAccess extends TaskAccess {
+  attachment: StoredAttachment;
+}
+
+type AccessResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
+type AccessDenied = Extract<AccessResult<unknown>, { success: false }>;
+
+/**
+ * Shared access check for every project-scoped resource.
+ * Users outside the project get the resource's 404 so IDs are not leaked;
+ * members whose role is below `minimumRole` get a 403.
+ */
+async function checkProjectAccess(
+  projectId: string,
+  minimumRole: ProjectRole,
+  notFoundError: string
+): Promise<AccessResult<ProjectAccess>> {
+  const user = await getCurrentUser();
+  if (!user.success || !user.data) {
+    return { success: false, error: "Unauthorized", status: 401 };
+  }
+
+  const access = await ProjectMemberService.getAccess(projectId, user.data.id);
+  if (!access || !access.role) {
+    return { success: false, error: notFoundError, status: 404 };
+  }
+
+  if (!hasProjectRole(access.role, minimumRole)) {
+    return {
+      success: false,
+      error: `This action requires the ${minimumRole} role or higher`,
+      status: 403,
+    };
+  }
+
+  return {
+    success: true,
+    data: { user: user.data, projectId: access.projectId, role: access.role },
+  };
+}
+
+// Resolve the current user's access to a project
+export async function authorizeProject(
+  projectId: string,
+  minimumRole: ProjectRole = "VIEWER"
+): Promise<AccessResult<ProjectAccess>> {
+  return checkProjectAccess(
+    projectId,
+    minimumRole,
+    "Project not found or access denied"
+  );
+}
+
+// Resolve task -> project -> access for the current user
+export async function authorizeTask(
+  taskId: string,
+  minimumRole: ProjectRole = "VIEWER"
+): Promise<AccessResult<TaskAccess>> {
+  const task = await TaskService.findById(taskId);
+  if (!task) {
+    return { success: false, error: "Task not found", status: 404 };
+  }
+
+  const access = await checkProjectAccess(
+    task.projectId,
+    minimumRole,
+    "Task not found"
+  );
+  if (!access.success) return access;
+
+  return { success: true, data: { ...access.data, task } };
+}
+
+// Resolve comment -> task -> project -> access for the current user
+export async function authorizeComment(
+  commentId: string,
+  minimumRole: ProjectRole = "VIEWER"
+): Promise<AccessResult<CommentAccess>> {
+  const comment = await CommentService.findById(commentId);
+  if (!comment) {
+    return { success: false, error: "Comment not found", status: 404 };
+  }
+
+  const task = await TaskService.findById(comment.taskId);
+  if (!task) {
+    return { success: false, error: "Comment not found", status: 404 };
+  }
+
+  const access = await checkProjectAccess(
+    task.projectId,
+    minimumRole,
+    "Comment not found"
+  );
+  if (!access.success) return access;
+
+  return { success: true, data: { ...access.data, task, comment } };
+}
+
+// Resolve attachment -> task -> project -> access for the current user
+export async function authorizeAttachment(
+  attachmentId: string,
+  minimumRole: ProjectRole = "VIEWER"
+): Promise<AccessResult<AttachmentAccess>> {
+  const attachment = await AttachmentService.findById(attachmentId);
+  if (!attachment) {
+    return { success: false, error: "Attachment not found", status: 404 };
+  }
+
+  const task = await TaskService.findById(attachment.taskId);
+  if (!task) {
+    return { success: false, error: "Attachment not found", status: 404 };
+  }
+
+  const access = await checkProjectAccess(
+    task.projectId,
+    minimumRole,
+    "Attachment not found"
+  );
+  if (!access.success) return access;
+
+  return { success: true, data: { ...access.data, task, attachment } };
+}
+
+/**
+ * Comments can only be edited or deleted by their author or by a
+ * project admin.
+ */
+export function authorizeCommentModification(
+  access: CommentAccess
+): AccessResult<CommentAccess> {
+  if (
+    access.comment.authorId !== access.user.id &&
+    !hasProjectRole(access.role, "ADMIN")
+  ) {
+    return {
+      success: false,
+      error: "Only the comment author or a project admin can modify it",
+      status: 403,
+    };
+  }
+  return { success: true, data: access };
+}
+
+// Attachments can only be deleted by their uploader or by a project admin;
+// once the uploader's account is gone, only by an admin
+export function authorizeAttachmentModification(
+  access: AttachmentAccess
+): AccessResult<AttachmentAccess> {
+  if (
+    access.attachment.uploadedBy !== access.user.id &&
+    !hasProjectRole(access.role, "ADMIN")
+  ) {
+    return {
+      success: false,
+      error: "Only the uploader or a project admin can delete an attachment",
+      status: 403,
+    };
+  }
+  return { success: true, data: access };
+}
+
+// Build the ApiResponse for a failed authorization check
+export function accessDeniedResponse(result: AccessDenied) {
+  return NextResponse.json(
+    { success: false, error: result.error },
+    { status: result.status }
+  );
+}
@@ -1,13 +1,47 @@
-import { PrismaClient } from "@prisma/client";
 import {
+  Prisma,
+  PrismaClient,
+  Task as TaskRecord,
+  TaskDescriptionOp as TaskDescriptionOpRecord,
+} from "@prisma/client";
+import { ZodError, ZodIssueCode } from "zod";
+import {
+  Activity,
+  ActivityAction,
+  ActivityChanges,
+  ActivityEntity,
+  ActivityQuery,
+  Attachment,
+  ChecklistItem,
+  CreateChecklistItemInput,
+  MAX_CHECKLIST_ITEMS,
+  UpdateChecklistItemInput,
+  MoveTaskInput,
   ParsedProject,
   ParsedTask,
+  ProjectMember,
+  ProjectRole,
+  Comment,
+  CommentReaction,
+  ReactionEmoji,
   CreateProjectInput,
   UpdateProjectInput,
   CreateTaskInput,
   UpdateTaskInput,
   CreateCommentInput,
   UpdateCommentInput,
+  DescriptionDocument,
+  DescriptionOperation,
+  DescriptionOperationBroadcast,
+  DescriptionOperationInput,
+  TaskListQuery,
+  TaskStatus,
+  Workflow,
+  SearchQuery,
+  SearchResult,
+  SearchHighlight,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
 } from "./types";
 import {
   parseProject,
@@ -15,7 +49,35 @@ import {
   stringifyProjectData,
   stringifyTaskData,
   generateId,
+  generateOperationId,
+  resolveProjectRole,
+  encodeCursor,
+  decodeCursor,
+  findDependencyCycle,
+  getDependencyDrivenStatus,
+  diffActivityFields,
+  getTaskActivityFields,
+  getProjectActivityFields,
+  getCommentActivityFields,
 } from "./utils";
+import { DependencyGraphTask } from "./dependency-graph";
+import { placeInColumn } from "./rank";
+import { AttachmentUpload, getAttachmentStorage } from "./attachments";
+import {
+  applyTextOperation,
+  diffText,
+  TextOperation,
+  transformTextOperations,
+} from "./text-ot";
+import {
+  canTransition,
+  findWorkflowStatus,
+  getInitialStatus,
+  getProjectWorkflow,
+  getStatusLabel,
+  isDoneStatus,
+} from "./workflow";
+import { RoomEventType } from "./ws-protocol";
 
 // Global Prisma client instance
 const globalForPrisma = globalThis as unknown as {
@@ -26,15 +88,227 @@ export const prisma = globalForPrisma.prisma ?? new PrismaClient();
 
 if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
 
+// Where clause matching projects a user owns or is a member of
+function projectAccessFilter(userId: string) {
+  return {
+    OR: [{ ownerId: userId }, { members: { some: { userId } } }],
+  };
+}
+
+// Keyset position of the last task on a page, bound to the sort it came from
+interface TaskCursor extends Record<string, unknown> {
+  sort: TaskListQuery["sort"];
+  order: TaskListQuery["order"];
+  value: string | null; // null once the page reaches tasks without the date
+  id: string;
+}
+
+// Decode a task cursor; null if it is malformed or was issued for another sort
+export function parseTaskCursor(
+  cursor: string,
+  sort: TaskListQuery["sort"],
+  order: TaskListQuery["order"]
+): TaskCursor | null {
+  const decoded = decodeCursor<TaskCursor>(cursor);
+  if (
+    !decoded ||
+    decoded.sort !== sort ||
+    decoded.order !== order ||
+    (typeof decoded.value !== "string" && decoded.value !== null) ||
+    typeof decoded.id !== "string"
+  ) {
+    return null;
+  }
+  return decoded;
+}
+
+// Who made a write and the operation it belongs to. Changes the server makes
+// on its own (autoBlock cascades, dependency cleanup) have no actor.
+export interface ActivityContext {
+  actorId: string | null;
+  operationId: string;
+}
+
+type ActivityTarget = {
+  projectId: string;
+  taskId?: string;
+  commentId?: string;
+  entityType: ActivityEntity;
+  action: ActivityAction;
+};
+
+// Append an entry to the activity log; updates that changed nothing are skipped
+async function recordActivity(
+  tx: Prisma.TransactionClient,
+  target: ActivityTarget,
+  changes: ActivityChanges,
+  context: ActivityContext
+): Promise<void> {
+  if (target.action === "UPDATED" && Object.keys(changes).length === 0) return;
+
+  await tx.activity.create({
+    data: {
+      id: generateId(),
+      ...target,
+      changes: changes as Prisma.InputJsonObject,
+      actorId: context.actorId,
+      operationId: context.operationId,
+      createdAt: new Date(),
+    },
+  });
+}
+
+async function recordTaskActivity(
+  tx: Prisma.TransactionClient,
+  action: ActivityAction,
+  before: TaskRecord | null,
+  after: TaskRecord | null,
+  context: ActivityContext
+): Promise<void> {
+  const task = (after ?? before)!;
+  await recordActivity(
+    tx,
+    { projectId: task.projectId, taskId: task.id, entityType: "TASK", action },
+    diffActivityFields(
+      before && getTaskActivityFields(parseTask(before)),
+      after && getTaskActivityFields(parseTask(after))
+    ),
+    context
+  );
+}
+
+// Channel notified when outbox events commit; the relay listens on it
+export const OUTBOX_CHANNEL = "outbox_events";
+
+// A message for a project's WebSocket room
+type OutboxEventInput = {
+  projectId: string;
+  type: RoomEventType;
+  payload: unknown;
+  // Clients ignore events carrying their own user's ID, having applied the
+  // change already; server-made changes have none so they reach everyone
+  userId?: string | null;
+};
+
+/**
+ * Queue a room event in the outbox. Written in the transaction of the change
+ * it describes, it is only delivered if that commits, and always is then, by
+ * the relay in lib/outbox-relay.ts.
+ */
+async function recordEvent(
+  tx: Prisma.TransactionClient,
+  event: OutboxEventInput,
+  context: ActivityContext
+): Promise<void> {
+  await tx.outboxEvent.create({
+    data: {
+      id: generateId(),
+      projectId: event.projectId,
+      type: event.type,
+      payload: event.payload as Prisma.InputJsonValue,
+      userId: event.userId ?? null,
+      operationId: context.operationId,
+      createdAt: new Date(),
+    },
+  });
+  // Delivered on commit; notifications repeated in a transaction are merged
+  await tx.$executeRaw`SELECT pg_notify(${OUTBOX_CHANNEL}, '')`;
+}
+
+// TASK_UPDATE for a change the server made on its own, such as an autoBlock
+// cascade; clients tell it apart by causedBy
+async function recordCascadeEvent(
+  tx: Prisma.TransactionClient,
+  task: ParsedTask,
+  changes: Partial<ParsedTask>,
+  operationId: string
+): Promise<void> {
+  await recordEvent(
+    tx,
+    {
+      projectId: task.projectId,
+      type: "TASK_UPDATE",
+      payload: {
+        id: task.id,
+        projectId: task.projectId,
+        changes,
+        operationId: generateOperationId(),
+        causedBy: operationId,
+        timestamp: Date.now(),
+      },
+    },
+    { actorId: null, operationId }
+  );
+}
+
+// Keyset position of the last entry on an activity page
+interface ActivityCursor extends Record<string, unknown> {
+  value: string;
+  id: string;
+}
+
+export function parseActivityCursor(cursor: string): ActivityCursor | null {
+  const decoded = decodeCursor<ActivityCursor>(cursor);
+  if (
+    !decoded ||
+    typeof decoded.value !== "string" ||
+    typeof decoded.id !== "string" ||
+    Number.isNaN(Date.parse(decoded.value))
+  ) {
+    return null;
+  }
+  return decoded;
+}
+
+// Project creation goes out as a PROJECT_UPDATE wrapping the new project
+async function recordProjectCreateEvent(
+  tx: Prisma.TransactionClient,
+  project: ParsedProject,
+  context: ActivityContext
+): Promise<void> {
+  await recordEvent(
+    tx,
+    {
+      projectId: project.id,
+      type: "PROJECT_UPDATE",
+      payload: {
+        type: "PROJECT_CREATE",
+        payload: project,
+        operationId: context.operationId,
+        timestamp: Date.now(),
+      },
+    },
+    context
+  );
+}
+
 // Project operations
 export class ProjectService {
-  static async create(data: CreateProjectInput): Promise<ParsedProject> {
+  static async create(
+    data: CreateProjectInput,
+    context: ActivityContext
+  ): Promise<ParsedProject> {
     const projectData = stringifyProjectData(data);
-    const project = await prisma.project.create({
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      data: projectData as any,
+    return await prisma.$transaction(async (tx) => {
+      const project = await tx.project.create({
+        data: {
+          ...projectData,
+          metadata: projectData.metadata as Prisma.InputJsonObject | undefined,
+          workflow: projectData.workflow as Prisma.InputJsonObject | undefined,
+        },
+      });
+      await recordActivity(
+        tx,
+        { projectId: project.id, entityType: "PROJECT", action: "CREATED" },
+        diffActivityFields(
+          null,
+          getProjectActivityFields(parseProject(project))
+        ),
+        context
+      );
+      await recordProjectCreateEvent(tx, parseProject(project), context);
+      return parseProject(project);
     });
-    return parseProject(project);
   }
 
   static async findById(id: string): Promise<ParsedProject | null> {
@@ -80,170 +354,1814 @@ export class ProjectService {
     return projects.map(parseProject);
   }
 
+  static async findByUserId(userId: string): Promise<ParsedProject[]> {
+    const projects = await prisma.project.findMany({
+      where: projectAccessFilter(userId),
+      include: {
+        members: true,
+        _count: { select: { tasks: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+    // Tasks are loaded a page at a time from the task list endpoint
+    return projects.map(({ _count, ...project }) => ({
+      ...parseProject(project),
+      role: resolveProjectRole(project, userId) ?? undefined,
+      taskCount: _count.tasks,
+    }));
+  }
+
+  static async findWorkflow(id: string): Promise<Workflow> {
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { workflow: true },
+    });
+    return getProjectWorkflow(
+      project as Pick<ParsedProject, "workflow"> | null
+    );
+  }
+
+  /**
+   * Update a project. A new workflow (or null, for the default one) must keep
+   * every status that tasks are still in; this is checked in the same
+   * transaction as the write.
+   */
   static async update(
     id: string,
-    data: UpdateProjectInput
+    data: UpdateProjectInput,
+    context: ActivityContext
   ): Promise<ParsedProject> {
     const projectData = stringifyProjectData(data);
-    const project = await prisma.project.update({
+
+    return await prisma.$transaction(async (tx) => {
+      const previous = await tx.project.findUnique({ where: { id } });
+      if (!previous) throw new Error("Project not found");
+
+      if (data.workflow !== undefined) {
+        const workflow = getProjectWorkflow({ workflow: data.workflow });
+        const inUse = await tx.task.groupBy({
+          by: ["status"],
+          where: { projectId: id },
+          _count: { _all: true },
+        });
+        const removed = inUse.filter(
+          (group) => !findWorkflowStatus(workflow, group.status)
+        );
+        if (removed.length > 0) {
+          throw new ZodError([
+            {
+              code: ZodIssueCode.custom,
+              path: ["workflow"],
+              message: `Statuses still used by tasks cannot be removed: ${removed
+                .map((group) => `${group.status} (${group._count._all})`)
+                .join(", ")}`,
+            },
+          ]);
+        }
+      }
+
+      const project = await tx.project.update({
+        where: { id },
+        data: {
+          ...projectData,
+          metadata: projectData.metadata as Prisma.InputJsonObject | undefined,
+          workflow:
+            data.workflow === null
+              ? Prisma.DbNull
+              : (data.workflow as Prisma.InputJsonObject | undefined),
+        },
+        include: {
+          tasks: {
+            include: {
+              comments: true,
+            },
+          },
+        },
+      });
+      await recordActivity(
+        tx,
+        { projectId: id, entityType: "PROJECT", action: "UPDATED" },
+        diffActivityFields(
+          getProjectActivityFields(parseProject(previous)),
+          getProjectActivityFields(parseProject(project))
+        ),
+        context
+      );
+      await recordEvent(
+        tx,
+        {
+          projectId: id,
+          type: "PROJECT_UPDATE",
+          payload: {
+            id,
+            projectId: id,
+            changes: data,
+            operationId: context.operationId,
+            timestamp: Date.now(),
+          },
+        },
+        context
+      );
+      return parseProject(project);
+    });
+  }
+
+  // Not logged: the project's activity is deleted along with it
+  static async delete(id: string, context: ActivityContext): Promise<void> {
+    const attachmentKeys = await prisma.$transaction(async (tx) => {
+      const attachmentKeys = await findAttachmentKeys(tx, {
+        task: { projectId: id },
+      });
+      await tx.project.delete({
+        where: { id },
+      });
+      await recordEvent(
+        tx,
+        { projectId: id, type: "PROJECT_DELETE", payload: { projectId: id } },
+        context
+      );
+      return attachmentKeys;
+    });
+    await deleteAttachmentFiles(attachmentKeys);
+  }
+}
+
+// Task operations
+type TaskDependencyState = {
+  id: string;
+  projectId: string;
+  status: TaskStatus;
+  dependencies: string[];
+};
+
+/**
+ * A task write together with the dependents whose status changed because of
+ * it (see Project.autoBlock), so callers can return both.
+ */
+export interface TaskWriteResult {
+  task: ParsedTask;
+  cascade: ParsedTask[];
+}
+
+// Thrown by task writes whose expected version is no longer the current one
+export class TaskVersionConflictError extends Error {
+  constructor(public readonly task: ParsedTask) {
+    super("Task has been modified since it was loaded");
+    this.name = "TaskVersionConflictError";
+  }
+}
+
+function checkTaskVersion(
+  task: TaskRecord,
+  expectedVersion: number | undefined
+): void {
+  if (expectedVersion !== undefined && task.version !== expectedVersion) {
+    throw new TaskVersionConflictError(parseTask(task));
+  }
+}
+
+// Check an update's dates against the stored ones it leaves unchanged. Throws
+// a ZodError, which the routes report as a 400.
+function checkTaskSchedule(task: TaskRecord, data: UpdateTaskInput): void {
+  const startDate =
+    data.startDate === undefined ? task.startDate : data.startDate;
+  const dueDate = data.dueDate === undefined ? task.dueDate : data.dueDate;
+  if (startDate && dueDate && dueDate < startDate) {
+    throw new ZodError([
+      {
+        code: ZodIssueCode.custom,
+        path: ["dueDate"],
+        message: "Due date cannot be before the start date",
+      },
+    ]);
+  }
+}
+
+// Thrown for a checklist item ID the task doesn't have
+export class ChecklistItemNotFoundError extends Error {
+  constructor(public readonly itemId: string) {
+    super(`Checklist item ${itemId} not found`);
+    this.name = "ChecklistItemNotFoundError";
+  }
+}
+
+function invalidChecklist(path: string, message: string): ZodError {
+  return new ZodError([{ code: ZodIssueCode.custom, path: [path], message }]);
+}
+
+function getChecklist(task: TaskRecord): ChecklistItem[] {
+  return Array.isArray(task.checklist)
+    ? (task.checklist as unknown as ChecklistItem[])
+    : [];
+}
+
+function invalidDependencies(message: string): ZodError {
+  return new ZodError([
+    { code: ZodIssueCode.custom, path: ["dependencies"], message },
+  ]);
+}
+
+// Serialize dependency writes within a project by locking its row until the
+// surrounding transaction ends
+async function lockProjectDependencies(
+  tx: Prisma.TransactionClient,
+  projectId: string
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM projects WHERE id = ${projectId} FOR UPDATE`;
+}
+
+/**
+ * Check a task's new dependency list and return it de-duplicated. Added IDs
+ * must be other tasks in the same project and must not close a cycle; IDs the
+ * task already had are kept as-is so older data stays editable. Throws a
+ * ZodError, which the routes report as a 400. Locks the project row, so call
+ * it inside the transaction that writes the dependencies; otherwise two
+ * concurrent edits could each add half of a cycle.
+ */
+async function validateDependencies(
+  tx: Prisma.TransactionClient,
+  task: Omit<TaskDependencyState, "status">,
+  dependencies: string[]
+): Promise<string[]> {
+  const unique = Array.from(new Set(dependencies));
+  const added = unique.filter((id) => !task.dependencies.includes(id));
+  if (added.length === 0) return unique;
+
+  if (added.includes(task.id)) {
+    throw invalidDependencies("A task cannot depend on itself");
+  }
+
+  await lockProjectDependencies(tx, task.projectId);
+  const projectTasks = await tx.task.findMany({
+    where: { projectId: task.projectId },
+    select: { id: true, title: true, dependencies: true },
+  });
+  const titles = new Map(projectTasks.map((t) => [t.id, t.title]));
+
+  const unknown = added.filter((id) => !titles.has(id));
+  if (unknown.length > 0) {
+    throw invalidDependencies(
+      `Dependencies must be existing tasks in the same project: ${unknown.join(
+        ", "
+      )}`
+    );
+  }
+
+  // Only the task's own edges change, so any new cycle must leave the task
+  // through one of the added edges
+  const cycle = findDependencyCycle(task.id, added, projectTasks);
+  if (cycle) {
+    const path = cycle.map((id) => `"${titles.get(id) ?? id}"`).join(" -> ");
+    throw invalidDependencies(`Circular dependency: ${path}`);
+  }
+
+  return unique;
+}
+
+// The full row, so writes can record what they changed. The row stays locked
+// until the transaction ends, so a version check holds until the write.
+async function findTaskForWrite(
+  tx: Prisma.TransactionClient,
+  taskId: string
+): Promise<TaskRecord> {
+  await tx.$queryRaw`SELECT id FROM tasks WHERE id = ${taskId} FOR UPDATE`;
+  const task = await tx.task.findUnique({
+    where: { id: taskId },
+  });
+  if (!task) throw new Error("Task not found");
+  return task;
+}
+
+// Operations kept per task for transforming edits from editors that are
+// behind; editors further behind than this reload the description
+const DESCRIPTION_HISTORY_LIMIT = 500;
+
+// Thrown when an editor's revision is older than the kept history
+export class DescriptionHistoryError extends Error {
+  constructor(public readonly revision: number) {
+    super(`Description history after revision ${revision} is not available`);
+    this.name = "DescriptionHistoryError";
+  }
+}
+
+function invalidDescriptionOperation(message: string): ZodError {
+  return new ZodError([
+    { code: ZodIssueCode.custom, path: ["operation"], message },
+  ]);
+}
+
+function getTaskDescription(task: TaskRecord): string {
+  const configuration = (task.configuration ?? {}) as Record<string, unknown>;
+  return typeof configuration.description === "string"
+    ? configuration.description
+    : "";
+}
+
+function parseDescriptionOperation(
+  record: TaskDescriptionOpRecord
+): DescriptionOperation {
+  return {
+    taskId: record.taskId,
+    revision: record.revision,
+    operation: record.operation as TextOperation,
+    clientId: record.clientId,
+    userId: record.userId,
+    createdAt: record.createdAt,
+  };
+}
+
+// Log the operation that produced `revision` of a task's description and drop
+// entries that fell out of the kept history
+async function appendDescriptionOperation(
+  tx: Prisma.TransactionClient,
+  data: Omit<DescriptionOperation, "createdAt">
+): Promise<DescriptionOperation> {
+  const record = await tx.taskDescriptionOp.create({
+    data: {
+      id: generateId(),
+      ...data,
+      createdAt: new Date(),
+    },
+  });
+  await tx.taskDescriptionOp.deleteMany({
+    where: {
+      taskId: data.taskId,
+      revision: { lte: data.revision - DESCRIPTION_HISTORY_LIMIT },
+    },
+  });
+  return parseDescriptionOperation(record);
+}
+
+// Description operations a user sends with no more than this between them
+// form one editing session, which gets a single activity entry
+const DESCRIPTION_SESSION_GAP_MS = 5 * 60 * 1000;
+
+/**
+ * Log an editor's change of a task's description to `text` in the activity
+ * log. Within an editing session the new entry supersedes the session's
+ * previous one and keeps its `before`, so the log, which only shows the
+ * latest entry, has one entry for the whole session. Call it before
+ * appending the operation to the operation log.
+ */
+async function recordDescriptionActivity(
+  tx: Prisma.TransactionClient,
+  previous: TaskRecord,
+  text: string,
+  context: ActivityContext
+): Promise<void> {
+  const lastEdit = context.actorId
+    ? await tx.taskDescriptionOp.findFirst({
+        where: { taskId: previous.id, userId: context.actorId },
+        orderBy: { revision: "desc" },
+      })
+    : null;
+  if (
+    lastEdit &&
+    Date.now() - lastEdit.createdAt.getTime() <= DESCRIPTION_SESSION_GAP_MS
+  ) {
+    const entry = await tx.activity.findFirst({
+      where: {
+        taskId: previous.id,
+        actorId: context.actorId,
+        entityType: "TASK",
+        action: "UPDATED",
+        supersededBy: { is: null },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+    const changes = entry?.changes as ActivityChanges | undefined;
+    if (entry && changes?.description && Object.keys(changes).length === 1) {
+      await tx.activity.create({
+        data: {
+          id: generateId(),
+          projectId: entry.projectId,
+          taskId: entry.taskId,
+          entityType: "TASK",
+          action: "UPDATED",
+          changes: {
+            description: { before: changes.description.before, after: text },
+          } as Prisma.InputJsonObject,
+          actorId: context.actorId,
+          operationId: context.operationId,
+          supersedesId: entry.id,
+          createdAt: new Date(),
+        },
+      });
+      return;
+    }
+  }
+
+  await recordActivity(
+    tx,
+    {
+      projectId: previous.projectId,
+      taskId: previous.id,
+      entityType: "TASK",
+      action: "UPDATED",
+    },
+    diffActivityFields(
+      { description: getTaskDescription(previous) || null },
+      { description: text || null }
+    ),
+    context
+  );
+}
+
+/**
+ * Fold an update's configuration into the collaborative description. A
+ * configuration without a description keeps the current one, so saving other
+ * fields can't undo concurrent edits; a new description is logged as an
+ * operation that open editors transform against. Returns the extra fields to
+ * write.
+ */
+async function prepareDescriptionWrite(
+  tx: Prisma.TransactionClient,
+  previous: TaskRecord,
+  data: UpdateTaskInput,
+  actorId: string | null
+): Promise<{
+  data: Prisma.TaskUncheckedUpdateInput;
+  operation: DescriptionOperation | null;
+}> {
+  if (!data.configuration) return { data: {}, operation: null };
+
+  const before = getTaskDescription(previous);
+  const after = data.configuration.description;
+  if (after === undefined) {
+    const configuration = { ...data.configuration, description: before };
+    return {
+      data: before
+        ? { configuration: configuration as Prisma.InputJsonObject }
+        : {},
+      operation: null,
+    };
+  }
+  if (after === before) return { data: {}, operation: null };
+
+  const revision = previous.descriptionRevision + 1;
+  const operation = await appendDescriptionOperation(tx, {
+    taskId: previous.id,
+    revision,
+    operation: diffText(before, after),
+    clientId: null,
+    userId: actorId,
+  });
+  return { data: { descriptionRevision: revision }, operation };
+}
+
+type ProjectWorkflowSettings = {
+  workflow: Workflow;
+  autoBlock: boolean;
+};
+
+async function findProjectWorkflow(
+  tx: Prisma.TransactionClient,
+  projectId: string
+): Promise<ProjectWorkflowSettings> {
+  const project = await tx.project.findUnique({
+    where: { id: projectId },
+    select: { workflow: true, autoBlock: true },
+  });
+  return {
+    workflow: getProjectWorkflow(
+      project as Pick<ParsedProject, "workflow"> | null
+    ),
+    autoBlock: project?.autoBlock ?? false,
+  };
+}
+
+function invalidStatus(message: string): ZodError {
+  return new ZodError([
+    { code: ZodIssueCode.custom, path: ["status"], message },
+  ]);
+}
+
+// Throw a ZodError unless `to` is in the workflow and reachable from `from`
+function checkStatusTransition(
+  workflow: Workflow,
+  from: TaskStatus | null,
+  to: TaskStatus
+): void {
+  if (!findWorkflowStatus(workflow, to)) {
+    throw invalidStatus(
+      `Unknown status "${to}"; expected one of: ${workflow.statuses
+        .map((status) => status.key)
+        .join(", ")}`
+    );
+  }
+  if (from !== null && !canTransition(workflow, from, to)) {
+    throw invalidStatus(
+      `Tasks cannot move from "${getStatusLabel(
+        workflow,
+        from
+      )}" to "${getStatusLabel(workflow, to)}"`
+    );
+  }
+}
+
+async function findDependencyStatuses(
+  tx: Prisma.TransactionClient,
+  dependencies: string[]
+): Promise<TaskStatus[]> {
+  if (dependencies.length === 0) return [];
+  const tasks = await tx.task.findMany({
+    where: { id: { in: dependencies } },
+    select: { status: true },
+  });
+  return tasks.map((task) => task.status);
+}
+
+/**
+ * Status a task moves to because of its dependencies, for writes that set
+ * them: into the blocked status while one is open, out of it once none are.
+ * Null when the project doesn't use autoBlock or the status already fits.
+ */
+async function findDependencyDrivenStatus(
+  tx: Prisma.TransactionClient,
+  status: TaskStatus,
+  dependencies: string[],
+  { workflow, autoBlock }: ProjectWorkflowSettings
+): Promise<TaskStatus | null> {
+  if (!autoBlock) return null;
+  return getDependencyDrivenStatus(
+    status,
+    await findDependencyStatuses(tx, dependencies),
+    workflow
+  );
+}
+
+/**
+ * Re-derive the status of a task's dependents after the task changed. Only
+ * moves in the given direction are applied: into the blocked status when a
+ * dependency was reopened, out of it when the last open dependency finished.
+ * These moves bypass the workflow's transitions and are logged without an
+ * actor. Returns the dependents that changed.
+ */
+async function cascadeDependentStatus(
+  tx: Prisma.TransactionClient,
+  taskId: string,
+  workflow: Workflow,
+  direction: "block" | "unblock",
+  operationId: string
+): Promise<ParsedTask[]> {
+  const dependents = await tx.task.findMany({
+    where: { dependencies: { has: taskId } },
+  });
+
+  const changed: ParsedTask[] = [];
+  for (const dependent of dependents) {
+    const status = getDependencyDrivenStatus(
+      dependent.status,
+      await findDependencyStatuses(
+        tx,
+        dependent.dependencies.filter((id) => id !== dependent.id)
+      ),
+      workflow
+    );
+    if (
+      !status ||
+      (status === workflow.blockedStatus) !== (direction === "block")
+    ) {
+      continue;
+    }
+
+    const task = await tx.task.update({
+      where: { id: dependent.id },
+      data: { status, version: { increment: 1 }, updatedAt: new Date() },
+      include: {
+        project: true,
+        comments: true,
+      },
+    });
+    await recordTaskActivity(tx, "UPDATED", dependent, task, {
+      actorId: null,
+      operationId,
+    });
+    const parsed = parseTask(task);
+    await recordCascadeEvent(
+      tx,
+      parsed,
+      { status: parsed.status, version: parsed.version },
+      operationId
+    );
+    changed.push(parsed);
+  }
+  return changed;
+}
+
+/**
+ * Apply Project.autoBlock after a task moved from its previous state to
+ * `status`: reopening a finished task blocks its dependents and finishing one
+ * unblocks them.
+ */
+async function cascadeStatusChange(
+  tx: Prisma.TransactionClient,
+  task: TaskDependencyState,
+  status: TaskStatus,
+  { workflow, autoBlock }: ProjectWorkflowSettings,
+  operationId: string
+): Promise<ParsedTask[]> {
+  const wasDone = isDoneStatus(workflow, task.status);
+  if (!autoBlock || wasDone === isDoneStatus(workflow, status)) return [];
+
+  return cascadeDependentStatus(
+    tx,
+    task.id,
+    workflow,
+    wasDone ? "block" : "unblock",
+    operationId
+  );
+}
+
+// TASK_UPDATE for a user's edit, followed by the DESCRIPTION_OP open
+// description editors transform their pending edits against
+async function recordTaskUpdateEvent(
+  tx: Prisma.TransactionClient,
+  task: ParsedTask,
+  changes: Record<string, unknown>,
+  description: DescriptionOperation | null,
+  context: ActivityContext
+): Promise<void> {
+  await recordEvent(
+    tx,
+    {
+      projectId: task.projectId,
+      type: "TASK_UPDATE",
+      payload: {
+        id: task.id,
+        projectId: task.projectId,
+        changes,
+        operationId: context.operationId,
+        timestamp: Date.now(),
+      },
+      userId: context.actorId,
+    },
+    context
+  );
+  if (description) {
+    await recordDescriptionEvent(tx, task, description, context);
+  }
+}
+
+async function recordDescriptionEvent(
+  tx: Prisma.TransactionClient,
+  task: ParsedTask,
+  operation: DescriptionOperation,
+  context: ActivityContext
+): Promise<void> {
+  await recordEvent(
+    tx,
+    {
+      projectId: task.projectId,
+      type: "DESCRIPTION_OP",
+      payload: {
+        ...operation,
+        projectId: task.projectId,
+        configuration: task.configuration,
+        version: task.version,
+        operationId: context.operationId,
+      } satisfies DescriptionOperationBroadcast,
+    },
+    context
+  );
+}
+
+// Save a task's edited checklist; it is logged and broadcast like any other
+// task edit, as a TASK_UPDATE carrying the whole list
+async function writeChecklist(
+  tx: Prisma.TransactionClient,
+  previous: TaskRecord,
+  checklist: ChecklistItem[],
+  context: ActivityContext
+): Promise<ParsedTask> {
+  const task = await tx.task.update({
+    where: { id: previous.id },
+    data: {
+      checklist: checklist as unknown as Prisma.InputJsonArray,
+      version: { increment: 1 },
+      updatedAt: new Date(),
+    },
+    include: {
+      project: true,
+      comments: true,
+    },
+  });
+  await recordTaskActivity(tx, "UPDATED", previous, task, context);
+  await recordTaskUpdateEvent(
+    tx,
+    parseTask(task),
+    { checklist, version: task.version },
+    null,
+    context
+  );
+  return parseTask(task);
+}
+
+// Moves within a project take turns on its row, so two cards dropped into
+// the same gap at once can't end up with the same rank
+async function lockProjectBoard(
+  tx: Prisma.TransactionClient,
+  projectId: string
+): Promise<void> {
+  await tx.$queryRaw`SELECT id FROM projects WHERE id = ${projectId} FOR UPDATE`;
+}
+
+// New tasks have all of their estimate left unless they say otherwise
+function withRemainingWork(data: CreateTaskInput): CreateTaskInput {
+  return data.remaining === undefined
+    ? { ...data, remaining: data.estimate }
+    : data;
+}
+
+/**
+ * IDs of the project's tasks whose title or description contains `text`,
+ * ignoring case. Prisma can only match JSON strings case-sensitively, so the
+ * description is matched in SQL.
+ */
+async function findTasksContaining(
+  projectId: string,
+  text: string
+): Promise<string[]> {
+  const pattern = `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+  const tasks = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT id FROM tasks
+    WHERE "projectId" = ${projectId}
+      AND (title ILIKE ${pattern}
+        OR configuration->>'description' ILIKE ${pattern})
+  `;
+  return tasks.map(({ id }) => id);
+}
+
+export class TaskService {
+  static async create(
+    data: CreateTaskInput,
+    context: ActivityContext
+  ): Promise<ParsedTask> {
+    const taskData = stringifyTaskData(withRemainingWork(data));
+    return await prisma.$transaction(async (tx) => {
+      const settings = await findProjectWorkflow(tx, data.projectId);
+      const status = data.status ?? getInitialStatus(settings.workflow);
+      checkStatusTransition(settings.workflow, null, status);
+      taskData.status = status;
+
+      if (data.dependencies?.length) {
+        const dependencies = await validateDependencies(
+          tx,
+          {
+            id: taskData.id as string,
+            projectId: data.projectId,
+            dependencies: [],
+          },
+          data.dependencies
+        );
+        taskData.dependencies = dependencies;
+
+        // A task created with open dependencies starts out blocked
+        taskData.status =
+          (await findDependencyDrivenStatus(
+            tx,
+            status,
+            dependencies,
+            settings
+          )) ?? status;
+      }
+
+      const task = await tx.task.create({
+        data: {
+          ...taskData,
+          configuration: taskData.configuration as Prisma.InputJsonObject,
+        },
+        include: {
+          project: true,
+          comments: true,
+        },
+      });
+      await recordTaskActivity(tx, "CREATED", null, task, context);
+      await recordEvent(
+        tx,
+        {
+          projectId: task.projectId,
+          type: "TASK_CREATE",
+          payload: parseTask(task),
+        },
+        context
+      );
+      return parseTask(task);
+    });
+  }
+
+  static async findById(id: string): Promise<ParsedTask | null> {
+    const task = await prisma.task.findUnique({
       where: { id },
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      data: projectData as any,
       include: {
-        tasks: {
-          include: {
-            comments: true,
+        project: true,
+        comments: true,
+      },
+    });
+    return task ? parseTask(task) : null;
+  }
+
+  static async findByProjectId(
+    projectId: string,
+    userId?: string
+  ): Promise<ParsedTask[]> {
+    const tasks = await prisma.task.findMany({
+      where: {
+        projectId,
+        ...(userId ? { project: projectAccessFilter(userId) } : {}),
+      },
+      include: {
+        project: true,
+        comments: true,
+      },
+      orderBy: { createdAt: "desc" },
+    });
+    return tasks.map(parseTask);
+  }
+
+  // Every task in the project with just the fields the dependency graph needs
+  static async findDependencyGraphTasks(
+    projectId: string
+  ): Promise<DependencyGraphTask[]> {
+    const tasks = await prisma.task.findMany({
+      where: { projectId },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        dependencies: true,
+        configuration: true,
+        estimate: true,
+        remaining: true,
+      },
+      orderBy: { createdAt: "asc" },
+    });
+    return tasks.map(parseTask);
+  }
+
+  /**
+   * Filtered, sorted page of a project's tasks using keyset pagination on
+   * (sort field, id). Comments are replaced by commentCount unless
+   * `include=comments` is requested.
+   */
+  static async list(
+    projectId: string,
+    userId: string,
+    query: TaskListQuery
+  ): Promise<{ tasks: ParsedTask[]; nextCursor: string | null }> {
+    const { sort, order } = query;
+    const conditions: Prisma.TaskWhereInput[] = [
+      { projectId, project: projectAccessFilter(userId) },
+    ];
+
+    if (query.status?.length) {
+      conditions.push({ status: { in: query.status } });
+    }
+    if (query.priority?.length) {
+      conditions.push({
+        OR: query.priority.map((priority) => ({
+          configuration: { path: ["priority"], equals: priority },
+        })),
+      });
+    }
+    if (query.assignee) {
+      conditions.push({ assignedTo: { has: query.assignee } });
+    }
+    if (query.tag) {
+      conditions.push({
+        configuration: { path: ["tags"], array_contains: [query.tag] },
+      });
+    }
+    if (query.q) {
+      conditions.push({
+        id: { in: await findTasksContaining(projectId, query.q) },
+      });
+    }
+    if (query.startFrom || query.startTo) {
+      conditions.push({
+        startDate: { gte: query.startFrom, lte: query.startTo },
+      });
+    }
+    if (query.dueFrom || query.dueTo) {
+      conditions.push({ dueDate: { gte: query.dueFrom, lte: query.dueTo } });
+    }
+    if (query.dependencies) {
+      // A task is blocked while any of its dependencies is not done
+      const workflow = await ProjectService.findWorkflow(projectId);
+      const openTasks = await prisma.task.findMany({
+        where: {
+          projectId,
+          status: {
+            notIn: workflow.statuses
+              .filter((status) => status.category === "DONE")
+              .map((status) => status.key),
           },
         },
+        select: { id: true },
+      });
+      const blockedBy = {
+        dependencies: { hasSome: openTasks.map((t) => t.id) },
+      };
+      conditions.push(
+        query.dependencies === "blocked" ? blockedBy : { NOT: blockedBy }
+      );
+    }
+
+    // Tasks without a start or due date sort last in either order
+    const nullable = sort === "startDate" || sort === "dueDate";
+
+    if (query.cursor) {
+      const cursor = parseTaskCursor(query.cursor, sort, order);
+      if (!cursor) throw new Error("Invalid cursor");
+
+      const comparison = order === "asc" ? "gt" : "lt";
+      if (cursor.value === null) {
+        conditions.push({ [sort]: null, id: { [comparison]: cursor.id } });
+      } else {
+        const value =
+          sort === "title" ? cursor.value : new Date(cursor.value);
+        conditions.push({
+          OR: [
+            { [sort]: { [comparison]: value } },
+            { [sort]: value, id: { [comparison]: cursor.id } },
+            ...(nullable ? [{ [sort]: null }] : []),
+          ],
+        });
+      }
+    }
+
+    const tasks = await prisma.task.findMany({
+      where: { AND: conditions },
+      include: {
+        comments: query.include === "comments",
+        _count: { select: { comments: true } },
       },
+      orderBy: [
+        { [sort]: nullable ? { sort: order, nulls: "last" } : order },
+        { id: order },
+      ],
+      take: query.limit + 1,
+    });
+
+    const page = tasks.slice(0, query.limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      tasks.length > query.limit && last
+        ? encodeCursor({
+            sort,
+            order,
+            value:
+              sort === "title"
+                ? last.title
+                : (last[sort]?.toISOString() ?? null),
+            id: last.id,
+          })
+        : null;
+
+    return {
+      tasks: page.map(({ _count, ...task }) => ({
+        ...parseTask(task),
+        commentCount: _count.comments,
+      })),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Update a task. A new status must be allowed by the project's workflow. In
+   * projects with autoBlock, a dependency change without an explicit status
+   * re-derives whether the task is blocked, and a move into or out of a done
+   * status cascades to its dependents (returned in `cascade`). A changed
+   * description is logged for collaborative editors (returned in
+   * `description`). With `expectedVersion`, throws TaskVersionConflictError
+   * unless the task is still at that version.
+   */
+  static async update(
+    id: string,
+    data: UpdateTaskInput,
+    context: ActivityContext,
+    expectedVersion?: number
+  ): Promise<TaskWriteResult> {
+    const taskData = stringifyTaskData(data);
+
+    // Ensure we preserve the original task ID
+    taskData.id = id;
+
+    return await prisma.$transaction(async (tx) => {
+      const previous = await findTaskForWrite(tx, id);
+      checkTaskVersion(previous, expectedVersion);
+      checkTaskSchedule(previous, data);
+      const settings = await findProjectWorkflow(tx, previous.projectId);
+      if (data.status) {
+        checkStatusTransition(settings.workflow, previous.status, data.status);
+      }
+
+      if (data.dependencies) {
+        const dependencies = await validateDependencies(
+          tx,
+          previous,
+          data.dependencies
+        );
+        taskData.dependencies = dependencies;
+
+        if (!data.status) {
+          const status = await findDependencyDrivenStatus(
+            tx,
+            previous.status,
+            dependencies,
+            settings
+          );
+          if (status) taskData.status = status;
+        }
+      }
+
+      const description = await prepareDescriptionWrite(
+        tx,
+        previous,
+        data,
+        context.actorId
+      );
+
+      const task = await tx.task.update({
+        where: { id },
+        data: {
+          ...taskData,
+          configuration: taskData.configuration as
+            | Prisma.InputJsonObject
+            | undefined,
+          ...description.data,
+          version: { increment: 1 },
+        },
+        include: {
+          project: true,
+          comments: true,
+        },
+      });
+      await recordTaskActivity(tx, "UPDATED", previous, task, context);
+      const parsed = parseTask(task);
+      // Dependency automation may have changed the status as well, and a
+      // configuration without a description kept the current one
+      await recordTaskUpdateEvent(
+        tx,
+        parsed,
+        {
+          ...data,
+          ...(data.configuration && { configuration: parsed.configuration }),
+          status: parsed.status,
+          version: parsed.version,
+        },
+        description.operation,
+        context
+      );
+
+      return {
+        task: parsed,
+        cascade: await cascadeStatusChange(
+          tx,
+          previous,
+          task.status,
+          settings,
+          context.operationId
+        ),
+      };
+    });
+  }
+
+  /**
+   * Delete a task and remove its ID from the dependencies of every task that
+   * depended on it, in one transaction. In projects with autoBlock, dependents
+   * left without open dependencies are unblocked as well. Returns the updated
+   * dependents.
+   */
+  static async delete(
+    id: string,
+    context: ActivityContext
+  ): Promise<ParsedTask[]> {
+    let attachmentKeys: string[] = [];
+    const dependents = await prisma.$transaction(async (tx) => {
+      const task = await findTaskForWrite(tx, id);
+      await lockProjectDependencies(tx, task.projectId);
+      const { workflow, autoBlock } = await findProjectWorkflow(
+        tx,
+        task.projectId
+      );
+
+      const dependents = await tx.task.findMany({
+        where: { dependencies: { has: id } },
+      });
+      const updated = await Promise.all(
+        dependents.map(async (dependent) => {
+          const dependencies = dependent.dependencies.filter(
+            (dependencyId) => dependencyId !== id
+          );
+          const status = autoBlock
+            ? getDependencyDrivenStatus(
+                dependent.status,
+                await findDependencyStatuses(
+                  tx,
+                  dependencies.filter(
+                    (dependencyId) => dependencyId !== dependent.id
+                  )
+                ),
+                workflow
+              )
+            : null;
+          // Losing a dependency can only unblock
+          const unblocked =
+            status !== null && status !== workflow.blockedStatus;
+
+          const updated = await tx.task.update({
+            where: { id: dependent.id },
+            data: {
+              dependencies,
+              ...(unblocked && { status }),
+              version: { increment: 1 },
+              updatedAt: new Date(),
+            },
+            include: {
+              project: true,
+              comments: true,
+            },
+          });
+          await recordTaskActivity(tx, "UPDATED", dependent, updated, {
+            actorId: null,
+            operationId: context.operationId,
+          });
+          return parseTask(updated);
+        })
+      );
+
+      attachmentKeys = await findAttachmentKeys(tx, { taskId: id });
+      await tx.task.delete({
+        where: { id },
+      });
+      await recordTaskActivity(tx, "DELETED", task, null, context);
+      await recordEvent(
+        tx,
+        {
+          projectId: task.projectId,
+          type: "TASK_DELETE",
+          payload: { taskId: id },
+          userId: context.actorId,
+        },
+        context
+      );
+      // Dependents lost the task from their dependencies and may have been
+      // unblocked
+      for (const dependent of updated) {
+        await recordCascadeEvent(
+          tx,
+          dependent,
+          {
+            dependencies: dependent.dependencies,
+            status: dependent.status,
+            version: dependent.version,
+          },
+          context.operationId
+        );
+      }
+
+      return updated;
+    });
+    await deleteAttachmentFiles(attachmentKeys);
+    return dependents;
+  }
+
+  static async updateStatus(
+    id: string,
+    status: TaskStatus,
+    context: ActivityContext,
+    expectedVersion?: number
+  ): Promise<TaskWriteResult> {
+    return await prisma.$transaction(async (tx) => {
+      const previous = await findTaskForWrite(tx, id);
+      checkTaskVersion(previous, expectedVersion);
+      const settings = await findProjectWorkflow(tx, previous.projectId);
+      checkStatusTransition(settings.workflow, previous.status, status);
+
+      const task = await tx.task.update({
+        where: { id },
+        data: { status, version: { increment: 1 }, updatedAt: new Date() },
+        include: {
+          project: true,
+          comments: true,
+        },
+      });
+      await recordTaskActivity(tx, "UPDATED", previous, task, context);
+      await recordTaskUpdateEvent(
+        tx,
+        parseTask(task),
+        { status, version: task.version },
+        null,
+        context
+      );
+
+      return {
+        task: parseTask(task),
+        cascade: await cascadeStatusChange(
+          tx,
+          previous,
+          status,
+          settings,
+          context.operationId
+        ),
+      };
+    });
+  }
+
+  /**
+   * Move a task to `status`, right below `afterTaskId` in that column or at
+   * its top for null. Only the moved task's rank changes, apart from tasks in
+   * the column that were never ranked, which are ranked first (see
+   * placeInColumn) and broadcast with the move's operationId in causedBy.
+   * Moves don't check the task's version: they apply on top of any edit.
+   */
+  static async move(
+    id: string,
+    { status: newStatus, afterTaskId }: MoveTaskInput,
+    context: ActivityContext
+  ): Promise<TaskWriteResult> {
+    return await prisma.$transaction(async (tx) => {
+      const previous = await findTaskForWrite(tx, id);
+      const status = newStatus ?? previous.status;
+      const settings = await findProjectWorkflow(tx, previous.projectId);
+      if (status !== previous.status) {
+        checkStatusTransition(settings.workflow, previous.status, status);
+      }
+
+      await lockProjectBoard(tx, previous.projectId);
+      const column = await tx.task.findMany({
+        where: { projectId: previous.projectId, status, id: { not: id } },
+        select: { id: true, rank: true, createdAt: true },
+      });
+      const placement = placeInColumn(column, afterTaskId);
+      if (!placement) {
+        throw new ZodError([
+          {
+            code: ZodIssueCode.custom,
+            path: ["afterTaskId"],
+            message: `Task ${afterTaskId} is not in the ${status} column`,
+          },
+        ]);
+      }
+
+      // Ranking isn't an edit, so it leaves versions alone and doesn't make
+      // anyone's pending update to these tasks conflict
+      for (const { id: rankedId, rank } of placement.ranked) {
+        const ranked = await tx.task.update({
+          where: { id: rankedId },
+          data: { rank },
+        });
+        await recordCascadeEvent(
+          tx,
+          parseTask(ranked),
+          { rank },
+          context.operationId
+        );
+      }
+
+      const task = await tx.task.update({
+        where: { id },
+        data: {
+          status,
+          rank: placement.rank,
+          version: { increment: 1 },
+          updatedAt: new Date(),
+        },
+        include: {
+          project: true,
+          comments: true,
+        },
+      });
+      await recordTaskActivity(tx, "UPDATED", previous, task, context);
+      await recordTaskUpdateEvent(
+        tx,
+        parseTask(task),
+        { status, rank: task.rank, version: task.version },
+        null,
+        context
+      );
+
+      return {
+        task: parseTask(task),
+        cascade:
+          status === previous.status
+            ? []
+            : await cascadeStatusChange(
+                tx,
+                previous,
+                status,
+                settings,
+                context.operationId
+              ),
+      };
+    });
+  }
+
+  static async addDependency(
+    taskId: string,
+    dependencyId: string,
+    context: ActivityContext
+  ): Promise<ParsedTask> {
+    return await prisma.$transaction(async (tx) => {
+      const task = await findTaskForWrite(tx, taskId);
+      const dependencies = await validateDependencies(tx, task, [
+        ...task.dependencies,
+        dependencyId,
+      ]);
+      const status = await findDependencyDrivenStatus(
+        tx,
+        task.status,
+        dependencies,
+        await findProjectWorkflow(tx, task.projectId)
+      );
+
+      const updatedTask = await tx.task.update({
+        where: { id: taskId },
+        data: {
+          dependencies,
+          ...(status && { status }),
+          version: { increment: 1 },
+        },
+        include: {
+          project: true,
+          comments: true,
+        },
+      });
+      await recordTaskActivity(tx, "UPDATED", task, updatedTask, context);
+      await recordTaskUpdateEvent(
+        tx,
+        parseTask(updatedTask),
+        {
+          dependencies,
+          status: updatedTask.status,
+          version: updatedTask.version,
+        },
+        null,
+        context
+      );
+
+      return parseTask(updatedTask);
+    });
+  }
+
+  static async removeDependency(
+    taskId: string,
+    dependencyId: string,
+    context: ActivityContext
+  ): Promise<ParsedTask> {
+    return await prisma.$transaction(async (tx) => {
+      const task = await findTaskForWrite(tx, taskId);
+      const dependencies = task.dependencies.filter(
+        (id: string) => id !== dependencyId
+      );
+      const status = await findDependencyDrivenStatus(
+        tx,
+        task.status,
+        dependencies,
+        await findProjectWorkflow(tx, task.projectId)
+      );
+
+      const updatedTask = await tx.task.update({
+        where: { id: taskId },
+        data: {
+          dependencies,
+          ...(status && { status }),
+          version: { increment: 1 },
+        },
+        include: {
+          project: true,
+          comments: true,
+        },
+      });
+      await recordTaskActivity(tx, "UPDATED", task, updatedTask, context);
+      await recordTaskUpdateEvent(
+        tx,
+        parseTask(updatedTask),
+        {
+          dependencies,
+          status: updatedTask.status,
+          version: updatedTask.version,
+        },
+        null,
+        context
+      );
+
+      return parseTask(updatedTask);
+    });
+  }
+
+  static async addChecklistItem(
+    taskId: string,
+    data: CreateChecklistItemInput,
+    context: ActivityContext
+  ): Promise<ParsedTask> {
+    return await prisma.$transaction(async (tx) => {
+      const task = await findTaskForWrite(tx, taskId);
+      const checklist = getChecklist(task);
+      if (checklist.length >= MAX_CHECKLIST_ITEMS) {
+        throw invalidChecklist(
+          "content",
+          `A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`
+        );
+      }
+
+      return writeChecklist(
+        tx,
+        task,
+        [
+          ...checklist,
+          { id: generateId(), content: data.content, done: false },
+        ],
+        context
+      );
+    });
+  }
+
+  // Edit an item's text or check it off
+  static async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    data: UpdateChecklistItemInput,
+    context: ActivityContext
+  ): Promise<ParsedTask> {
+    return await prisma.$transaction(async (tx) => {
+      const task = await findTaskForWrite(tx, taskId);
+      const checklist = getChecklist(task);
+      if (!checklist.some((item) => item.id === itemId)) {
+        throw new ChecklistItemNotFoundError(itemId);
+      }
+
+      return writeChecklist(
+        tx,
+        task,
+        checklist.map((item) =>
+          item.id === itemId
+            ? {
+                ...item,
+                content: data.content ?? item.content,
+                done: data.done ?? item.done,
+              }
+            : item
+        ),
+        context
+      );
+    });
+  }
+
+  static async removeChecklistItem(
+    taskId: string,
+    itemId: string,
+    context: ActivityContext
+  ): Promise<ParsedTask> {
+    return await prisma.$transaction(async (tx) => {
+      const task = await findTaskForWrite(tx, taskId);
+      const checklist = getChecklist(task);
+      if (!checklist.some((item) => item.id === itemId)) {
+        throw new ChecklistItemNotFoundError(itemId);
+      }
+
+      return writeChecklist(
+        tx,
+        task,
+        checklist.filter((item) => item.id !== itemId),
+        context
+      );
+    });
+  }
+
+  /**
+   * Put a task's checklist in the order of `itemIds`, which must list each of
+   * its items exactly once. A list that is out of date because someone added
+   * or removed an item meanwhile is rejected rather than guessed at.
+   */
+  static async reorderChecklist(
+    taskId: string,
+    itemIds: string[],
+    context: ActivityContext
+  ): Promise<ParsedTask> {
+    return await prisma.$transaction(async (tx) => {
+      const task = await findTaskForWrite(tx, taskId);
+      const items = new Map(getChecklist(task).map((item) => [item.id, item]));
+      if (
+        itemIds.length !== items.size ||
+        !itemIds.every((id) => items.has(id)) ||
+        new Set(itemIds).size !== itemIds.length
+      ) {
+        throw invalidChecklist(
+          "itemIds",
+          "itemIds must list every checklist item exactly once"
+        );
+      }
+
+      return writeChecklist(
+        tx,
+        task,
+        itemIds.map((id) => items.get(id)!),
+        context
+      );
     });
-    return parseProject(project);
   }
+}
 
-  static async delete(id: string): Promise<void> {
-    await prisma.project.delete({
-      where: { id },
+// Collaborative description operations
+export class TaskDescriptionService {
+  /**
+   * The task's description and its revision. With `since`, also the logged
+   * operations after that revision, so an editor that missed some can catch
+   * up; throws DescriptionHistoryError if they are no longer kept.
+   */
+  static async findDocument(
+    taskId: string,
+    since?: number
+  ): Promise<DescriptionDocument | null> {
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+    if (!task) return null;
+
+    const document: DescriptionDocument = {
+      text: getTaskDescription(task),
+      revision: task.descriptionRevision,
+    };
+    if (since === undefined) return document;
+
+    const operations = await prisma.taskDescriptionOp.findMany({
+      where: { taskId, revision: { gt: since } },
+      orderBy: { revision: "asc" },
     });
+    if (
+      since < task.descriptionRevision &&
+      operations[0]?.revision !== since + 1
+    ) {
+      throw new DescriptionHistoryError(since);
+    }
+    return {
+      ...document,
+      operations: operations.map(parseDescriptionOperation),
+    };
   }
-}
 
-// Task operations
-export class TaskService {
-  static async create(data: CreateTaskInput): Promise<ParsedTask> {
-    const taskData = stringifyTaskData(data);
-    const task = await prisma.task.create({
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      data: taskData as any,
-      include: {
-        project: true,
-        comments: true,
-      },
+  /**
+   * Apply an editor's operation, made against `revision` of the description,
+   * on top of everything applied since then. Returns the operation as it was
+   * logged, transformed onto the current text, along with the updated task.
+   * The description has its own revision, so the task's version stays as it
+   * is and forms sending it as If-Match don't go stale over someone else's
+   * typing. The activity log gets one entry per editing session rather than
+   * one for every few keystrokes.
+   */
+  static async applyOperation(
+    taskId: string,
+    input: DescriptionOperationInput,
+    context: ActivityContext
+  ): Promise<{ task: ParsedTask; operation: DescriptionOperation }> {
+    return await prisma.$transaction(async (tx) => {
+      const previous = await findTaskForWrite(tx, taskId);
+      if (input.revision > previous.descriptionRevision) {
+        throw invalidDescriptionOperation(
+          `Unknown description revision ${input.revision}`
+        );
+      }
+
+      const concurrent = await tx.taskDescriptionOp.findMany({
+        where: { taskId, revision: { gt: input.revision } },
+        orderBy: { revision: "asc" },
+      });
+      if (concurrent.length !== previous.descriptionRevision - input.revision) {
+        throw new DescriptionHistoryError(input.revision);
+      }
+
+      let operation = input.operation;
+      let text: string;
+      try {
+        for (const applied of concurrent) {
+          [operation] = transformTextOperations(
+            operation,
+            applied.operation as TextOperation
+          );
+        }
+        text = applyTextOperation(getTaskDescription(previous), operation);
+      } catch (error) {
+        throw invalidDescriptionOperation((error as Error).message);
+      }
+
+      await recordDescriptionActivity(tx, previous, text, context);
+      const revision = previous.descriptionRevision + 1;
+      const logged = await appendDescriptionOperation(tx, {
+        taskId,
+        revision,
+        operation,
+        clientId: input.clientId,
+        userId: context.actorId,
+      });
+
+      const configuration = (previous.configuration ?? {}) as Record<
+        string,
+        unknown
+      >;
+      const task = await tx.task.update({
+        where: { id: taskId },
+        data: {
+          configuration: {
+            ...configuration,
+            description: text,
+          } as Prisma.InputJsonObject,
+          descriptionRevision: revision,
+          updatedAt: new Date(),
+        },
+        include: {
+          project: true,
+          comments: true,
+        },
+      });
+
+      const parsed = parseTask(task);
+      // Without a userId, so the sender's other editors get it too; the
+      // editor that sent it recognizes its own clientId
+      await recordDescriptionEvent(tx, parsed, logged, context);
+
+      return { task: parsed, operation: logged };
     });
-    return parseTask(task);
   }
+}
 
-  static async findById(id: string): Promise<ParsedTask | null> {
-    const task = await prisma.task.findUnique({
-      where: { id },
-      include: {
-        project: true,
-        comments: true,
+// Project membership operations
+export class ProjectMemberService {
+  // Resolve a user's role in a project; null when the project does not exist
+  static async getAccess(
+    projectId: string,
+    userId: string
+  ): Promise<{ projectId: string; role: ProjectRole | null } | null> {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      select: {
+        id: true,
+        ownerId: true,
+        members: {
+          where: { userId },
+          select: { userId: true, role: true },
+        },
       },
     });
-    return task ? parseTask(task) : null;
+    if (!project) return null;
+
+    return {
+      projectId: project.id,
+      role: resolveProjectRole(project, userId),
+    };
   }
 
-  static async findByProjectId(projectId: string): Promise<ParsedTask[]> {
-    const tasks = await prisma.task.findMany({
+  static async findByProjectId(projectId: string): Promise<ProjectMember[]> {
+    const members = await prisma.projectMember.findMany({
       where: { projectId },
       include: {
-        project: true,
-        comments: true,
+        user: true,
       },
-      orderBy: { createdAt: "desc" },
+      orderBy: { createdAt: "asc" },
     });
-    return tasks.map(parseTask);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return members as any;
   }
 
-  static async update(id: string, data: UpdateTaskInput): Promise<ParsedTask> {
-    const taskData = stringifyTaskData(data);
-
-    // Ensure we preserve the original task ID
-    taskData.id = id;
-
-    const task = await prisma.task.update({
-      where: { id },
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      data: taskData as any,
+  static async findByProjectAndUser(
+    projectId: string,
+    userId: string
+  ): Promise<ProjectMember | null> {
+    const member = await prisma.projectMember.findUnique({
+      where: { projectId_userId: { projectId, userId } },
       include: {
-        project: true,
-        comments: true,
+        user: true,
       },
     });
-    return parseTask(task);
-  }
-
-  static async delete(id: string): Promise<void> {
-    await prisma.task.delete({
-      where: { id },
-    });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return member as any;
   }
 
-  static async updateStatus(id: string, status: string): Promise<ParsedTask> {
-    const task = await prisma.task.update({
-      where: { id },
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      data: { status: status as any },
+  static async add(
+    projectId: string,
+    userId: string,
+    role: ProjectRole
+  ): Promise<ProjectMember> {
+    const member = await prisma.projectMember.create({
+      data: {
+        id: generateId(),
+        projectId,
+        userId,
+        role,
+        updatedAt: new Date(),
+      },
       include: {
-        project: true,
-        comments: true,
+        user: true,
       },
     });
-    return parseTask(task);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return member as any;
   }
 
-  static async addDependency(
-    taskId: string,
-    dependencyId: string
-  ): Promise<ParsedTask> {
-    const task = await prisma.task.findUnique({
-      where: { id: taskId },
-    });
-
-    if (!task) throw new Error("Task not found");
-
-    const dependencies = Array.isArray(task.dependencies)
-      ? task.dependencies
-      : [];
-    if (!dependencies.includes(dependencyId)) {
-      dependencies.push(dependencyId);
-    }
-
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: { dependencies },
+  static async updateRole(
+    projectId: string,
+    userId: string,
+    role: ProjectRole
+  ): Promise<ProjectMember> {
+    const member = await prisma.projectMember.update({
+      where: { projectId_userId: { projectId, userId } },
+      data: { role, updatedAt: new Date() },
       include: {
-        project: true,
-        comments: true,
+        user: true,
       },
     });
-
-    return parseTask(updatedTask);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return member as any;
   }
 
-  static async removeDependency(
-    taskId: string,
-    dependencyId: string
-  ): Promise<ParsedTask> {
-    const task = await prisma.task.findUnique({
-      where: { id: taskId },
+  static async remove(projectId: string, userId: string): Promise<void> {
+    await prisma.projectMember.delete({
+      where: { projectId_userId: { projectId, userId } },
     });
+  }
+}
 
-    if (!task) throw new Error("Task not found");
+// User operations
+export class UserService {
+  /**
+   * Delete a user. The database cascades the deletion to the projects they
+   * own, the comments they wrote and the replies to those, so the room
+   * events for those are recorded here, in the same transaction, and the
+   * files attached to them are removed once it commits. Files they attached
+   * anywhere else stay, without an uploader.
+   */
+  static async delete(where: Prisma.UserWhereUniqueInput): Promise<void> {
+    const attachmentKeys = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.findUnique({
+        where,
+        include: {
+          projects: { select: { id: true } },
+          comments: {
+            include: {
+              task: { select: { projectId: true } },
+              replies: { select: { id: true, authorId: true } },
+            },
+          },
+        },
+      });
+      if (!user) throw new Error("User not found");
 
-    const dependencies = Array.isArray(task.dependencies)
-      ? task.dependencies
-      : [];
-    const filteredDependencies = dependencies.filter(
-      (id: string) => id !== dependencyId
-    );
+      const attachmentKeys = await findAttachmentKeys(tx, {
+        OR: [
+          { task: { project: { ownerId: user.id } } },
+          { comment: { authorId: user.id } },
+          { comment: { parent: { authorId: user.id } } },
+        ],
+      });
+      await tx.user.delete({ where: { id: user.id } });
 
-    const updatedTask = await prisma.task.update({
-      where: { id: taskId },
-      data: { dependencies: filteredDependencies },
-      include: {
-        project: true,
-        comments: true,
-      },
+      const context = { actorId: null, operationId: generateOperationId() };
+      const deletedProjects = new Set<string>(
+        user.projects.map(({ id }) => id)
+      );
+      for (const projectId of deletedProjects) {
+        await recordEvent(
+          tx,
+          { projectId, type: "PROJECT_DELETE", payload: { projectId } },
+          context
+        );
+      }
+      // Comments in the user's own projects went with the project
+      for (const comment of user.comments) {
+        if (deletedProjects.has(comment.task.projectId)) continue;
+        // The user's own replies are among their comments already
+        const replies = comment.replies.filter(
+          (reply) => reply.authorId !== user.id
+        );
+        for (const { id } of [...replies, comment]) {
+          await recordEvent(
+            tx,
+            {
+              projectId: comment.task.projectId,
+              type: "COMMENT_DELETE",
+              payload: { id, taskId: comment.taskId },
+            },
+            context
+          );
+        }
+      }
+      return attachmentKeys;
     });
-
-    return parseTask(updatedTask);
+    await deleteAttachmentFiles(attachmentKeys);
   }
 }
 
+// Reactions as comments include them, oldest first
+const COMMENT_REACTIONS = {
+  select: { emoji: true, userId: true, createdAt: true },
+  orderBy: { createdAt: "asc" },
+} as const;
+
 // Comment operations
 export class CommentService {
-  static async create(data: CreateCommentInput): Promise<Comment> {
+  static async create(
+    data: CreateCommentInput,
+    context: ActivityContext
+  ): Promise<Comment> {
     if (!data.authorId) {
       throw new Error("Author ID is required for comment creation");
     }
@@ -251,20 +2169,49 @@ export class CommentService {
     const commentData = {
       id: data.id || generateId(), // Use provided ID or generate new one
       taskId: data.taskId,
+      parentId: data.parentId ?? null,
       content: data.content,
       authorId: data.authorId,
       timestamp: new Date(),
     };
 
-    const comment = await prisma.comment.create({
-      data: commentData,
-      include: {
-        task: true,
-        author: true,
-      },
+    return await prisma.$transaction(async (tx) => {
+      if (commentData.parentId) {
+        await checkReplyParent(tx, commentData.parentId, commentData.taskId);
+      }
+      const comment = await tx.comment.create({
+        data: commentData,
+        include: {
+          task: true,
+          author: true,
+          reactions: COMMENT_REACTIONS,
+        },
+      });
+      await recordActivity(
+        tx,
+        {
+          projectId: comment.task.projectId,
+          taskId: comment.taskId,
+          commentId: comment.id,
+          entityType: "COMMENT",
+          action: "CREATED",
+        },
+        diffActivityFields(null, getCommentActivityFields(comment)),
+        context
+      );
+      await recordEvent(
+        tx,
+        {
+          projectId: comment.task.projectId,
+          type: "COMMENT_CREATE",
+          payload: comment,
+          userId: context.actorId,
+        },
+        context
+      );
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return comment as any;
     });
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return comment as any;
   }
 
   static async findById(id: string): Promise<Comment | null> {
@@ -273,18 +2220,21 @@ export class CommentService {
       include: {
         task: true,
         author: true,
+        reactions: COMMENT_REACTIONS,
       },
     });
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     return comment as any;
   }
 
+  // Replies are listed with the other comments; clients group them by parentId
   static async findByTaskId(taskId: string): Promise<Comment[]> {
     const comments = await prisma.comment.findMany({
       where: { taskId },
       include: {
         task: true,
         author: true,
+        reactions: COMMENT_REACTIONS,
       },
       orderBy: { timestamp: "asc" },
     });
@@ -292,22 +2242,546 @@ export class CommentService {
     return comments as any;
   }
 
-  static async update(id: string, data: UpdateCommentInput): Promise<Comment> {
-    const comment = await prisma.comment.update({
-      where: { id },
-      data,
+  static async update(
+    id: string,
+    data: UpdateCommentInput,
+    context: ActivityContext
+  ): Promise<Comment> {
+    return await prisma.$transaction(async (tx) => {
+      const previous = await tx.comment.findUnique({ where: { id } });
+      if (!previous) throw new Error("Comment not found");
+
+      const comment = await tx.comment.update({
+        where: { id },
+        data,
+        include: {
+          task: true,
+          author: true,
+          reactions: COMMENT_REACTIONS,
+        },
+      });
+      await recordActivity(
+        tx,
+        {
+          projectId: comment.task.projectId,
+          taskId: comment.taskId,
+          commentId: id,
+          entityType: "COMMENT",
+          action: "UPDATED",
+        },
+        diffActivityFields(
+          getCommentActivityFields(previous),
+          getCommentActivityFields(comment)
+        ),
+        context
+      );
+      await recordEvent(
+        tx,
+        {
+          projectId: comment.task.projectId,
+          type: "COMMENT_UPDATE",
+          payload: {
+            id,
+            taskId: comment.taskId,
+            changes: data,
+            operationId: context.operationId,
+            timestamp: Date.now(),
+          },
+          userId: context.actorId,
+        },
+        context
+      );
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      return comment as any;
+    });
+  }
+
+  // A comment's replies are deleted with it, and logged and announced first
+  static async delete(id: string, context: ActivityContext): Promise<void> {
+    const attachmentKeys = await prisma.$transaction(async (tx) => {
+      const attachmentKeys = await findAttachmentKeys(tx, {
+        OR: [{ commentId: id }, { comment: { parentId: id } }],
+      });
+      const replies = await tx.comment.findMany({
+        where: { parentId: id },
+        orderBy: { timestamp: "asc" },
+      });
+      const comment = await tx.comment.delete({
+        where: { id },
+        include: { task: { select: { projectId: true } } },
+      });
+      for (const deleted of [...replies, comment]) {
+        await recordActivity(
+          tx,
+          {
+            projectId: comment.task.projectId,
+            taskId: deleted.taskId,
+            commentId: deleted.id,
+            entityType: "COMMENT",
+            action: "DELETED",
+          },
+          diffActivityFields(getCommentActivityFields(deleted), null),
+          context
+        );
+        await recordEvent(
+          tx,
+          {
+            projectId: comment.task.projectId,
+            type: "COMMENT_DELETE",
+            payload: { id: deleted.id, taskId: deleted.taskId },
+            userId: context.actorId,
+          },
+          context
+        );
+      }
+      return attachmentKeys;
+    });
+    await deleteAttachmentFiles(attachmentKeys);
+  }
+
+  // Reacting again with the same emoji changes nothing
+  static async addReaction(
+    id: string,
+    emoji: ReactionEmoji,
+    context: ActivityContext
+  ): Promise<CommentReaction[]> {
+    return await CommentService.changeReactions(id, context, (tx, userId) =>
+      tx.commentReaction.upsert({
+        where: { commentId_userId_emoji: { commentId: id, userId, emoji } },
+        create: {
+          id: generateId(),
+          commentId: id,
+          userId,
+          emoji,
+          createdAt: new Date(),
+        },
+        update: {},
+      })
+    );
+  }
+
+  static async removeReaction(
+    id: string,
+    emoji: ReactionEmoji,
+    context: ActivityContext
+  ): Promise<CommentReaction[]> {
+    return await CommentService.changeReactions(id, context, (tx, userId) =>
+      tx.commentReaction.deleteMany({
+        where: { commentId: id, userId, emoji },
+      })
+    );
+  }
+
+  /**
+   * Apply a change to the actor's reactions and broadcast the comment's
+   * reactions as COMMENT_REACTION. Reactions aren't logged as activity.
+   */
+  private static async changeReactions(
+    id: string,
+    context: ActivityContext,
+    change: (tx: Prisma.TransactionClient, userId: string) => Promise<unknown>
+  ): Promise<CommentReaction[]> {
+    const userId = context.actorId;
+    if (!userId) {
+      throw new Error("User ID is required for reactions");
+    }
+
+    return await prisma.$transaction(async (tx) => {
+      // Locked so concurrent reactions broadcast the lists in order
+      await tx.$queryRaw`SELECT id FROM comments WHERE id = ${id} FOR UPDATE`;
+      const comment = await tx.comment.findUnique({
+        where: { id },
+        include: { task: { select: { projectId: true } } },
+      });
+      if (!comment) throw new Error("Comment not found");
+
+      await change(tx, userId);
+      const reactions = (await tx.commentReaction.findMany({
+        where: { commentId: id },
+        ...COMMENT_REACTIONS,
+      })) as CommentReaction[];
+      await recordEvent(
+        tx,
+        {
+          projectId: comment.task.projectId,
+          type: "COMMENT_REACTION",
+          payload: {
+            commentId: id,
+            taskId: comment.taskId,
+            reactions,
+            operationId: context.operationId,
+            timestamp: Date.now(),
+          },
+          userId,
+        },
+        context
+      );
+      return reactions;
+    });
+  }
+}
+
+// Replies can only be to a top-level comment of the same task
+async function checkReplyParent(
+  tx: Prisma.TransactionClient,
+  parentId: string,
+  taskId: string
+): Promise<void> {
+  const parent = await tx.comment.findUnique({ where: { id: parentId } });
+  if (!parent || parent.taskId !== taskId || parent.parentId) {
+    throw new ZodError([
+      {
+        code: ZodIssueCode.custom,
+        path: ["parentId"],
+        message: "Replies must be to a top-level comment on the same task",
+      },
+    ]);
+  }
+}
+
+// Attachment columns the API returns; storageKey stays on the server
+const ATTACHMENT_FIELDS = {
+  id: true,
+  taskId: true,
+  commentId: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  uploadedBy: true,
+  createdAt: true,
+} as const;
+
+export interface StoredAttachment extends Attachment {
+  storageKey: string;
+}
+
+// Broadcast a task's attachments after one was added or removed. They aren't
+// an edit of the task, so its version stays as it is.
+async function recordAttachmentsEvent(
+  tx: Prisma.TransactionClient,
+  task: TaskRecord,
+  context: ActivityContext
+): Promise<void> {
+  const attachments = await tx.attachment.findMany({
+    where: { taskId: task.id },
+    select: ATTACHMENT_FIELDS,
+    orderBy: { createdAt: "asc" },
+  });
+  await recordTaskUpdateEvent(
+    tx,
+    parseTask(task),
+    { attachments },
+    null,
+    context
+  );
+}
+
+// Storage keys of the attachments a delete is about to cascade to
+async function findAttachmentKeys(
+  tx: Prisma.TransactionClient,
+  where: Prisma.AttachmentWhereInput
+): Promise<string[]> {
+  const attachments = await tx.attachment.findMany({
+    where,
+    select: { storageKey: true },
+  });
+  return attachments.map(({ storageKey }) => storageKey);
+}
+
+// Remove files whose attachments were deleted. Runs after the delete
+// committed; a file that can't be removed is only left behind, unreferenced.
+async function deleteAttachmentFiles(keys: string[]): Promise<void> {
+  const storage = getAttachmentStorage();
+  await Promise.all(
+    keys.map((key) =>
+      storage.delete(key).catch((error) => {
+        console.error(`Failed to delete attachment file ${key}:`, error);
+      })
+    )
+  );
+}
+
+export class AttachmentService {
+  /**
+   * Store an uploaded file and attach it to a task, or to one of its comments
+   * with `commentId`. The file is written first and removed again if the
+   * attachment can't be saved, so no attachment points at a missing file.
+   */
+  static async create(
+    taskId: string,
+    commentId: string | null,
+    { data, ...metadata }: AttachmentUpload,
+    context: ActivityContext
+  ): Promise<Attachment> {
+    if (!context.actorId) {
+      throw new Error("Uploader ID is required for attachments");
+    }
+
+    const id = generateId();
+    const storage = getAttachmentStorage();
+    await storage.put(id, data, metadata.mimeType);
+
+    try {
+      return await prisma.$transaction(async (tx) => {
+        // Locked so concurrent uploads broadcast the lists in order
+        const task = await findTaskForWrite(tx, taskId);
+        const attachment = await tx.attachment.create({
+          data: {
+            id,
+            taskId,
+            commentId,
+            ...metadata,
+            storageKey: id,
+            uploadedBy: context.actorId!,
+            createdAt: new Date(),
+          },
+          select: ATTACHMENT_FIELDS,
+        });
+        await recordAttachmentsEvent(tx, task, context);
+        return attachment;
+      });
+    } catch (error) {
+      await deleteAttachmentFiles([id]);
+      throw error;
+    }
+  }
+
+  static async findById(id: string): Promise<StoredAttachment | null> {
+    return await prisma.attachment.findUnique({ where: { id } });
+  }
+
+  // A task's attachments, including its comments', oldest first
+  static async findByTaskId(taskId: string): Promise<Attachment[]> {
+    return await prisma.attachment.findMany({
+      where: { taskId },
+      select: ATTACHMENT_FIELDS,
+      orderBy: { createdAt: "asc" },
+    });
+  }
+
+  // The stored file, or null if it is missing from the storage
+  static async readFile(attachment: StoredAttachment): Promise<Buffer | null> {
+    return await getAttachmentStorage().get(attachment.storageKey);
+  }
+
+  static async delete(id: string, context: ActivityContext): Promise<void> {
+    const attachment = await prisma.$transaction(async (tx) => {
+      const attachment = await tx.attachment.findUnique({ where: { id } });
+      if (!attachment) throw new Error("Attachment not found");
+
+      const task = await findTaskForWrite(tx, attachment.taskId);
+      await tx.attachment.delete({ where: { id } });
+      await recordAttachmentsEvent(tx, task, context);
+      return attachment;
+    });
+    await deleteAttachmentFiles([attachment.storageKey]);
+  }
+}
+
+// Activity log queries, newest first
+export class ActivityService {
+  static async findByTask(
+    taskId: string,
+    query: ActivityQuery
+  ): Promise<{ activities: Activity[]; nextCursor: string | null }> {
+    return ActivityService.page({ taskId }, query);
+  }
+
+  static async findByProject(
+    projectId: string,
+    query: ActivityQuery
+  ): Promise<{ activities: Activity[]; nextCursor: string | null }> {
+    return ActivityService.page({ projectId }, query);
+  }
+
+  // Keyset pagination on (createdAt, id)
+  private static async page(
+    where: Prisma.ActivityWhereInput,
+    query: ActivityQuery
+  ): Promise<{ activities: Activity[]; nextCursor: string | null }> {
+    const conditions: Prisma.ActivityWhereInput[] = [
+      where,
+      { supersededBy: { is: null } },
+    ];
+    if (query.cursor) {
+      const cursor = parseActivityCursor(query.cursor);
+      if (!cursor) throw new Error("Invalid cursor");
+
+      const value = new Date(cursor.value);
+      conditions.push({
+        OR: [
+          { createdAt: { lt: value } },
+          { createdAt: value, id: { lt: cursor.id } },
+        ],
+      });
+    }
+
+    const activities = await prisma.activity.findMany({
+      where: { AND: conditions },
       include: {
-        task: true,
-        author: true,
+        actor: {
+          select: {
+            id: true,
+            email: true,
+            firstName: true,
+            lastName: true,
+            imageUrl: true,
+          },
+        },
       },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: query.limit + 1,
     });
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return comment as any;
+
+    const page = activities.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      activities: page as any,
+      nextCursor:
+        activities.length > query.limit && last
+          ? encodeCursor({ value: last.createdAt.toISOString(), id: last.id })
+          : null,
+    };
   }
+}
 
-  static async delete(id: string): Promise<void> {
-    await prisma.comment.delete({
-      where: { id },
+// Full-text search operations
+const SNIPPET_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" ... "`;
+const TITLE_OPTIONS = `StartSel=${SEARCH_HIGHLIGHT_START}, StopSel=${SEARCH_HIGHLIGHT_END}, HighlightAll=true`;
+
+interface SearchRow {
+  taskId: string;
+  projectId: string;
+  projectName: string;
+  title: string;
+  status: TaskStatus;
+  rank: number;
+  titleSnippet: string | null;
+  descriptionSnippet: string | null;
+  matchedTags: string[] | null;
+  commentId: string | null;
+  commentSnippet: string | null;
+}
+
+export class SearchService {
+  /**
+   * Rank tasks in the user's projects against a web-style query (quoted
+   * phrases, `or`, `-term`). Uses the trigger-maintained "searchVector"
+   * columns; see setup.sql. A task matching through several comments is
+   * returned once, with its best-ranked comment.
+   */
+  static async search(
+    userId: string,
+    query: SearchQuery
+  ): Promise<SearchResult[]> {
+    const projectFilter = query.projectId
+      ? Prisma.sql`AND p.id = ${query.projectId}`
+      : Prisma.empty;
+
+    const rows = await prisma.$queryRaw<SearchRow[]>`
+      WITH search AS (
+        SELECT websearch_to_tsquery('english', ${query.q}) AS query
+      ),
+      accessible AS (
+        SELECT p.id, p.name FROM projects p
+        WHERE (
+          p."ownerId" = ${userId}
+          OR EXISTS (
+            SELECT 1 FROM project_members m
+            WHERE m."projectId" = p.id AND m."userId" = ${userId}
+          )
+        ) ${projectFilter}
+      ),
+      task_matches AS (
+        SELECT t.id, ts_rank(t."searchVector", s.query) AS rank
+        FROM tasks t
+        JOIN accessible a ON a.id = t."projectId"
+        CROSS JOIN search s
+        WHERE t."searchVector" @@ s.query
+      ),
+      comment_matches AS (
+        SELECT DISTINCT ON (c."taskId")
+          c."taskId", c.id, c.content, ts_rank(c."searchVector", s.query) AS rank
+        FROM comments c
+        JOIN tasks t ON t.id = c."taskId"
+        JOIN accessible a ON a.id = t."projectId"
+        CROSS JOIN search s
+        WHERE c."searchVector" @@ s.query
+        ORDER BY c."taskId", rank DESC
+      )
+      SELECT
+        t.id AS "taskId",
+        t."projectId",
+        a.name AS "projectName",
+        t.title,
+        t.status::text AS status,
+        (COALESCE(tm.rank, 0) + COALESCE(cm.rank, 0) * 0.5)::float8 AS rank,
+        CASE WHEN to_tsvector('english', t.title) @@ s.query
+          THEN ts_headline('english', t.title, s.query, ${TITLE_OPTIONS})
+        END AS "titleSnippet",
+        CASE WHEN to_tsvector('english', COALESCE(t.configuration->>'description', '')) @@ s.query
+          THEN ts_headline('english', t.configuration->>'description', s.query, ${SNIPPET_OPTIONS})
+        END AS "descriptionSnippet",
+        ARRAY(
+          SELECT tag FROM jsonb_array_elements_text(
+            CASE WHEN jsonb_typeof(t.configuration->'tags') = 'array'
+              THEN t.configuration->'tags' ELSE '[]'::jsonb END
+          ) AS tag
+          WHERE to_tsvector('english', tag) @@ s.query
+        ) AS "matchedTags",
+        cm.id AS "commentId",
+        CASE WHEN cm.id IS NOT NULL
+          THEN ts_headline('english', cm.content, s.query, ${SNIPPET_OPTIONS})
+        END AS "commentSnippet"
+      FROM tasks t
+      JOIN accessible a ON a.id = t."projectId"
+      CROSS JOIN search s
+      LEFT JOIN task_matches tm ON tm.id = t.id
+      LEFT JOIN comment_matches cm ON cm."taskId" = t.id
+      WHERE tm.id IS NOT NULL OR cm.id IS NOT NULL
+      ORDER BY rank DESC, t."updatedAt" DESC
+      LIMIT ${query.limit}
+    `;
+
+    return rows.map((row) => {
+      const highlights: SearchHighlight[] = [];
+      if (row.titleSnippet) {
+        highlights.push({ field: "title", snippet: row.titleSnippet });
+      }
+      if (row.descriptionSnippet) {
+        highlights.push({
+          field: "description",
+          snippet: row.descriptionSnippet,
+        });
+      }
+      if (row.matchedTags?.length) {
+        highlights.push({
+          field: "tags",
+          snippet: row.matchedTags
+            .map(
+              (tag) => `${SEARCH_HIGHLIGHT_START}${tag}${SEARCH_HIGHLIGHT_END}`
+            )
+            .join(", "),
+        });
+      }
+      if (row.commentId && row.commentSnippet) {
+        highlights.push({
+          field: "comment",
+          snippet: row.commentSnippet,
+          commentId: row.commentId,
+        });
+      }
+
+      return {
+        taskId: row.taskId,
+        projectId: row.projectId,
+        projectName: row.projectName,
+        title: row.title,
+        status: row.status,
+        rank: row.rank,
+        highlights,
+      };
     });
   }
 }
@@ -316,13 +2790,17 @@ export class CommentService {
 export class TransactionService {
   static async createProjectWithTasks(
     projectData: CreateProjectInput,
-    tasksData: CreateTaskInput[]
+    tasksData: CreateTaskInput[],
+    context: ActivityContext
   ): Promise<{ project: ParsedProject; tasks: ParsedTask[] }> {
     return await prisma.$transaction(async (tx) => {
       // Create project
       const project = await tx.project.create({
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        data: stringifyProjectData(projectData) as any,
+        data: {
+          ...stringifyProjectData(projectData),
+          metadata: projectData.metadata as Prisma.InputJsonObject | undefined,
+          workflow: projectData.workflow as Prisma.InputJsonObject | undefined,
+        },
       });
 
       // Create tasks
@@ -330,10 +2808,10 @@ export class TransactionService {
         tasksData.map((taskData) =>
           tx.task.create({
             data: {
-              ...stringifyTaskData(taskData),
+              ...stringifyTaskData(withRemainingWork(taskData)),
+              configuration: taskData.configuration as Prisma.InputJsonObject,
               projectId: project.id,
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            } as any,
+            },
             include: {
               project: true,
               comments: true,
@@ -342,6 +2820,29 @@ export class TransactionService {
         )
       );
 
+      await recordActivity(
+        tx,
+        { projectId: project.id, entityType: "PROJECT", action: "CREATED" },
+        diffActivityFields(
+          null,
+          getProjectActivityFields(parseProject(project))
+        ),
+        context
+      );
+      await recordProjectCreateEvent(tx, parseProject(project), context);
+      for (const task of tasks) {
+        await recordTaskActivity(tx, "CREATED", null, task, context);
+        await recordEvent(
+          tx,
+          {
+            projectId: project.id,
+            type: "TASK_CREATE",
+            payload: parseTask(task),
+          },
+          context
+        );
+      }
+
       return {
         project: parseProject(project),
         tasks: tasks.map(parseTask),
@@ -349,26 +2850,96 @@ export class TransactionService {
     });
   }
 
+  /**
+   * Update a task and replace its dependencies. A new status must be allowed
+   * by the project's workflow; without one, autoBlock re-derives whether the
+   * task is blocked. As in TaskService.update, a move into or out of a done
+   * status cascades to its dependents (returned in `cascade`).
+   */
   static async updateTaskWithDependencies(
     taskId: string,
     taskData: UpdateTaskInput,
-    newDependencies: string[]
-  ): Promise<ParsedTask> {
+    newDependencies: string[],
+    context: ActivityContext
+  ): Promise<TaskWriteResult> {
     return await prisma.$transaction(async (tx) => {
+      const previous = await findTaskForWrite(tx, taskId);
+      checkTaskSchedule(previous, taskData);
+      const settings = await findProjectWorkflow(tx, previous.projectId);
+      if (taskData.status) {
+        checkStatusTransition(
+          settings.workflow,
+          previous.status,
+          taskData.status
+        );
+      }
+      const dependencies = await validateDependencies(
+        tx,
+        previous,
+        newDependencies
+      );
+      const status = taskData.status
+        ? null
+        : await findDependencyDrivenStatus(
+            tx,
+            previous.status,
+            dependencies,
+            settings
+          );
+
+      const description = await prepareDescriptionWrite(
+        tx,
+        previous,
+        taskData,
+        context.actorId
+      );
+
       const task = await tx.task.update({
         where: { id: taskId },
         data: {
-          ...stringifyTaskData(taskData),
-          dependencies: newDependencies,
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        } as any,
+          // stringifyTaskData makes up a new ID unless it is given one
+          ...stringifyTaskData({ ...taskData, id: taskId }),
+          configuration: taskData.configuration as
+            | Prisma.InputJsonObject
+            | undefined,
+          ...description.data,
+          dependencies,
+          ...(status && { status }),
+          version: { increment: 1 },
+        },
         include: {
           project: true,
           comments: true,
         },
       });
+      await recordTaskActivity(tx, "UPDATED", previous, task, context);
+      const parsed = parseTask(task);
+      await recordTaskUpdateEvent(
+        tx,
+        parsed,
+        {
+          ...taskData,
+          ...(taskData.configuration && {
+            configuration: parsed.configuration,
+          }),
+          dependencies,
+          status: parsed.status,
+          version: parsed.version,
+        },
+        description.operation,
+        context
+      );
 
-      return parseTask(task);
+      return {
+        task: parsed,
+        cascade: await cascadeStatusChange(
+          tx,
+          previous,
+          task.status,
+          settings,
+          context.operationId
+        ),
+      };
     });
   }
 }
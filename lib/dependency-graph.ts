@@ -0,0 +1,177 @@
+import {
+  DependencyGraph,
+  DependencyGraphNode,
+  ParsedTask,
+  Workflow,
+} from "./types";
+import { DEFAULT_WORKFLOW, isDoneStatus, isNotStartedStatus } from "./workflow";
+
+export type DependencyGraphTask = Pick<
+  ParsedTask,
+  | "id"
+  | "title"
+  | "status"
+  | "dependencies"
+  | "configuration"
+  | "estimate"
+  | "remaining"
+>;
+
+/**
+ * Weight of a task on the critical path: the hours of work it has remaining,
+ * or its estimate when that isn't tracked, if positive; otherwise one unit.
+ * Finished work weighs nothing, so the critical path describes the work that
+ * is left.
+ */
+export function getTaskWeight(
+  task: DependencyGraphTask,
+  workflow: Workflow = DEFAULT_WORKFLOW
+): number {
+  if (isDoneStatus(workflow, task.status)) return 0;
+
+  const hours = task.remaining ?? task.estimate;
+  return typeof hours === "number" && hours > 0 ? hours : 1;
+}
+
+/**
+ * Build the dependency DAG of a project's tasks. Dependencies on tasks outside
+ * the list are ignored. Tasks caught in a cycle (left over from before cycles
+ * were rejected on write) are reported in `cyclic` and get no schedule.
+ */
+export function buildDependencyGraph(
+  tasks: DependencyGraphTask[],
+  workflow: Workflow = DEFAULT_WORKFLOW
+): DependencyGraph {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const dependencies = new Map(
+    tasks.map((task) => [
+      task.id,
+      Array.from(new Set(task.dependencies)).filter(
+        (id) => id !== task.id && byId.has(id)
+      ),
+    ])
+  );
+  const dependents = new Map<string, string[]>(
+    tasks.map((task) => [task.id, []])
+  );
+  dependencies.forEach((deps, id) => {
+    deps.forEach((dep) => dependents.get(dep)!.push(id));
+  });
+
+  // Kahn's algorithm; tasks that never reach zero remaining dependencies
+  // are part of (or downstream of) a cycle
+  const remaining = new Map(
+    tasks.map((task) => [task.id, dependencies.get(task.id)!.length])
+  );
+  const order: string[] = [];
+  const queue = tasks
+    .filter((task) => remaining.get(task.id) === 0)
+    .map((task) => task.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    dependents.get(id)!.forEach((dependent) => {
+      const count = remaining.get(dependent)! - 1;
+      remaining.set(dependent, count);
+      if (count === 0) queue.push(dependent);
+    });
+  }
+  const ordered = new Set(order);
+  const cyclic = tasks
+    .filter((task) => !ordered.has(task.id))
+    .map((task) => task.id);
+
+  // Forward pass: depth and earliest start/finish
+  const depth = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  const criticalPredecessor = new Map<string, string>();
+  order.forEach((id) => {
+    let start = 0;
+    let level = 0;
+    dependencies.get(id)!.forEach((dep) => {
+      level = Math.max(level, depth.get(dep)! + 1);
+      // Dependencies with no work left don't constrain the start
+      if (earliestFinish.get(dep)! > start) {
+        start = earliestFinish.get(dep)!;
+        criticalPredecessor.set(id, dep);
+      }
+    });
+    depth.set(id, level);
+    earliestFinish.set(id, start + getTaskWeight(byId.get(id)!, workflow));
+  });
+
+  const duration = Math.max(0, ...earliestFinish.values());
+
+  // Backward pass: latest finish without delaying the project
+  const latestFinish = new Map<string, number>();
+  [...order].reverse().forEach((id) => {
+    const finish = dependents
+      .get(id)!
+      .filter((dependent) => ordered.has(dependent))
+      .reduce(
+        (min, dependent) =>
+          Math.min(
+            min,
+            latestFinish.get(dependent)! -
+              getTaskWeight(byId.get(dependent)!, workflow)
+          ),
+        duration
+      );
+    latestFinish.set(id, finish);
+  });
+
+  // Walk back from the task that finishes last along the predecessors that
+  // determined each start. With no work left there is no critical path.
+  const criticalPath: string[] = [];
+  let current = order.reduce<string | undefined>(
+    (last, id) =>
+      earliestFinish.get(id)! > (last ? earliestFinish.get(last)! : 0)
+        ? id
+        : last,
+    undefined
+  );
+  while (current !== undefined) {
+    criticalPath.unshift(current);
+    current = criticalPredecessor.get(current);
+  }
+
+  const nodes: DependencyGraphNode[] = tasks.map((task) => {
+    const deps = dependencies.get(task.id)!;
+    const blocked = deps.some(
+      (dep) => !isDoneStatus(workflow, byId.get(dep)!.status)
+    );
+    const scheduled = ordered.has(task.id);
+    const weight = getTaskWeight(task, workflow);
+
+    return {
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      dependencies: deps,
+      dependents: dependents.get(task.id)!,
+      depth: scheduled ? depth.get(task.id)! : null,
+      weight,
+      earliestStart: scheduled ? earliestFinish.get(task.id)! - weight : null,
+      earliestFinish: scheduled ? earliestFinish.get(task.id)! : null,
+      slack: scheduled
+        ? latestFinish.get(task.id)! - earliestFinish.get(task.id)!
+        : null,
+      blocked,
+      ready: !blocked && isNotStartedStatus(workflow, task.status),
+    };
+  });
+
+  return {
+    nodes,
+    edges: order
+      .concat(cyclic)
+      .flatMap((id) =>
+        dependencies.get(id)!.map((dep) => ({ from: dep, to: id }))
+      ),
+    order,
+    criticalPath,
+    duration,
+    ready: nodes.filter((node) => node.ready).map((node) => node.id),
+    cyclic,
+  };
+}
@@ -0,0 +1,36 @@
+import { ServerMessage } from "./types";
+
+export type DescriptionMessage = Extract<
+  ServerMessage,
+  { type: "DESCRIPTION_OP" | "DESCRIPTION_CARET" }
+>;
+
+type DescriptionListener = (message: DescriptionMessage) => void;
+
+// Description editors by task ID. Operations and carets are ordered per
+// editor rather than shared state, so they go to listeners instead of the
+// store.
+const listeners = new Map<string, Set<DescriptionListener>>();
+
+// Receive DESCRIPTION_OP and DESCRIPTION_CARET messages for a task; returns
+// the unsubscribe function
+export function subscribeToDescription(
+  taskId: string,
+  listener: DescriptionListener
+): () => void {
+  if (!listeners.has(taskId)) listeners.set(taskId, new Set());
+  listeners.get(taskId)!.add(listener);
+
+  return () => {
+    const taskListeners = listeners.get(taskId);
+    taskListeners?.delete(listener);
+    if (taskListeners?.size === 0) listeners.delete(taskId);
+  };
+}
+
+export function publishDescriptionMessage(
+  taskId: string,
+  message: DescriptionMessage
+): void {
+  listeners.get(taskId)?.forEach((listener) => listener(message));
+}
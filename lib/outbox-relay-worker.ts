@@ -0,0 +1,25 @@
+import { OutboxRelay } from "./outbox-relay";
+
+// Start the outbox relay
+const relay = new OutboxRelay();
+
+relay
+  .start((error) => {
+    console.error("Outbox relay lost its database connection:", error);
+    process.exit(1);
+  })
+  .then(() => console.log("Outbox relay started"))
+  .catch((error) => {
+    console.error("Failed to start outbox relay:", error);
+    process.exit(1);
+  });
+
+// Graceful shutdown
+async function shutdown() {
+  console.log("Shutting down outbox relay...");
+  await relay.stop();
+  process.exit(0);
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
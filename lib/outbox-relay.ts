@@ -0,0 +1,182 @@
+import { Client } from "pg";
+import { prisma, OUTBOX_CHANNEL } from "./db";
+import { BroadcastError, websocketClient } from "./websocket-client";
+import { WebSocketErrorCode } from "./ws-protocol";
+
+// Events delivered per query while catching up
+const BATCH_SIZE = 100;
+// Notifications are lost while the connection is down, and failed deliveries
+// have to be retried, so the outbox is also checked on this interval
+const POLL_INTERVAL_MS = 5000;
+// Delivered events are kept this long for inspection, then deleted
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+// Upper bound on the wait between retries while deliveries keep failing
+const MAX_RETRY_DELAY_MS = 60 * 1000;
+// Session lock held by the delivering relay (pg_advisory_lock key)
+const RELAY_LOCK_KEY = 4_206_913;
+// Rejections a resend can't fix; such an event is dead-lettered instead of
+// holding up every event after it
+const UNDELIVERABLE_CODES: WebSocketErrorCode[] = [
+  "INVALID_MESSAGE",
+  "UNSUPPORTED_MESSAGE",
+  "MESSAGE_TOO_LARGE",
+];
+
+function isUndeliverable(error: unknown): boolean {
+  return (
+    error instanceof BroadcastError &&
+    UNDELIVERABLE_CODES.some((code) => code === error.code)
+  );
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof BroadcastError && error.code) {
+    return `${error.code}: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Delivers committed outbox events to the WebSocket server in the order they
+ * were recorded, marking each delivered once the server accepted it. After a
+ * failed delivery the relay waits before retrying, doubling the wait on each
+ * further failure. An event the server rejects as undeliverable is marked
+ * failed and left undelivered (a dead letter) for an operator to inspect.
+ *
+ * Only the relay holding the advisory lock delivers, which keeps every room's
+ * events in order; further relays wait for the lock as standbys. An event the
+ * relay sent but could not mark (a crash in between) is sent again, and the
+ * server drops it by its eventId, so each reaches clients exactly once.
+ */
+export class OutboxRelay {
+  private listener: Client;
+  private timer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+  private pending = false;
+  private failures = 0;
+  private retryAt = 0;
+
+  constructor(connectionString = process.env.DATABASE_URL) {
+    this.listener = new Client({ connectionString });
+  }
+
+  /**
+   * Connect, wait to become the delivering relay, then deliver everything
+   * pending and keep listening. onError is called when the connection fails;
+   * the relay has stopped by then.
+   */
+  async start(onError: (error: Error) => void): Promise<void> {
+    this.listener.on("error", (error) => {
+      this.stop().finally(() => onError(error));
+    });
+    await this.listener.connect();
+    await this.listener.query("SELECT pg_advisory_lock($1)", [RELAY_LOCK_KEY]);
+
+    this.listener.on("notification", () => this.schedule());
+    await this.listener.query(`LISTEN ${OUTBOX_CHANNEL}`);
+    this.timer = setInterval(() => this.schedule(), POLL_INTERVAL_MS);
+
+    // Catch up on what committed while no relay was listening
+    this.schedule();
+  }
+
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.pending = false;
+    await this.draining;
+    // Ending the session releases the advisory lock to a standby
+    await this.listener.end().catch(() => {});
+  }
+
+  // Drain now, or right after the drain in progress; notifications arriving
+  // during one are merged into a single follow-up
+  private schedule(): void {
+    // Backing off after a failure; a later poll retries
+    if (Date.now() < this.retryAt) return;
+    if (this.draining) {
+      this.pending = true;
+      return;
+    }
+
+    this.draining = this.drain()
+      .then(() => {
+        this.failures = 0;
+        this.retryAt = 0;
+      })
+      .catch((error) => {
+        // Undelivered events stay pending for the next retry
+        this.failures++;
+        const delay = Math.min(
+          POLL_INTERVAL_MS * 2 ** (this.failures - 1),
+          MAX_RETRY_DELAY_MS
+        );
+        this.retryAt = Date.now() + delay;
+        console.error(
+          `Outbox delivery failed, retrying in ${delay / 1000}s:`,
+          error
+        );
+      })
+      .finally(() => {
+        this.draining = null;
+        if (this.pending && this.timer) {
+          this.pending = false;
+          this.schedule();
+        }
+      });
+  }
+
+  private async drain(): Promise<void> {
+    for (;;) {
+      const events = await prisma.outboxEvent.findMany({
+        where: { deliveredAt: null, failedAt: null },
+        orderBy: { sequence: "asc" },
+        take: BATCH_SIZE,
+      });
+
+      // Stops at the first failure, so later events never overtake it
+      for (const event of events) {
+        try {
+          await websocketClient.broadcast({
+            type: event.type,
+            payload: event.payload,
+            projectId: event.projectId,
+            operationId: event.operationId,
+            timestamp: event.createdAt.getTime(),
+            userId: event.userId,
+            eventId: event.id,
+          });
+        } catch (error) {
+          const undeliverable = isUndeliverable(error);
+          await prisma.outboxEvent.update({
+            where: { id: event.id },
+            data: {
+              attempts: { increment: 1 },
+              lastError: describeError(error),
+              failedAt: undeliverable ? new Date() : undefined,
+            },
+          });
+          if (!undeliverable) throw error;
+          console.error(
+            `Outbox event ${event.id} (${event.type}) dead-lettered:`,
+            error
+          );
+          continue;
+        }
+        await prisma.outboxEvent.update({
+          where: { id: event.id },
+          data: { attempts: { increment: 1 }, deliveredAt: new Date() },
+        });
+      }
+
+      if (events.length < BATCH_SIZE) break;
+    }
+
+    // Dead letters are kept until an operator deals with them
+    await prisma.outboxEvent.deleteMany({
+      where: { deliveredAt: { lt: new Date(Date.now() - RETENTION_MS) } },
+    });
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Fractional indexing for the manual order of cards in a board column. A rank
+ * is a base-36 fraction written without its leading "0.", so ranks sort
+ * lexicographically and there is always room for another rank between two
+ * neighbours: moving a card only rewrites that card's rank, never the column.
+ *
+ * Ranks never end in "0" (it would make "a" and "a0" equal), and the empty
+ * string is reserved for tasks that were never ranked.
+ */
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+function midpoint(before: string, after: string | null): string {
+  if (after !== null) {
+    // Keep the common prefix and split the rest
+    let n = 0;
+    while ((before[n] ?? DIGITS[0]) === after[n]) n++;
+    if (n > 0) {
+      return after.slice(0, n) + midpoint(before.slice(n), after.slice(n));
+    }
+  }
+
+  const low = before ? DIGITS.indexOf(before[0]) : 0;
+  const high = after !== null ? DIGITS.indexOf(after[0]) : DIGITS.length;
+  if (high - low > 1) {
+    return DIGITS[Math.round((low + high) / 2)];
+  }
+  // The first digits are consecutive, so the rank needs another digit
+  if (after !== null && after.length > 1) {
+    return after[0];
+  }
+  return DIGITS[low] + midpoint(before.slice(1), null);
+}
+
+function isValidRank(rank: string): boolean {
+  return /^[0-9a-z]*[1-9a-z]$/.test(rank);
+}
+
+/**
+ * A rank that sorts between `before` and `after`; null stands for the start
+ * or the end of the column.
+ */
+export function rankBetween(
+  before: string | null,
+  after: string | null
+): string {
+  if (
+    (before !== null && !isValidRank(before)) ||
+    (after !== null && !isValidRank(after))
+  ) {
+    throw new Error(`Invalid rank: ${before} or ${after}`);
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Rank ${before} doesn't sort before ${after}`);
+  }
+  return midpoint(before ?? "", after);
+}
+
+/**
+ * `count` ascending ranks between `before` and `after`, picked by bisection
+ * so they stay short however many are needed
+ */
+export function ranksBetween(
+  before: string | null,
+  after: string | null,
+  count: number
+): string[] {
+  if (count <= 0) return [];
+  const middle = rankBetween(before, after);
+  const half = Math.floor((count - 1) / 2);
+  return [
+    ...ranksBetween(before, middle, half),
+    middle,
+    ...ranksBetween(middle, after, count - 1 - half),
+  ];
+}
+
+interface RankedTask {
+  id: string;
+  rank?: string;
+  createdAt: Date | string;
+}
+
+/**
+ * Board column order: by rank, with tasks that were never ranked first,
+ * newest first, as the board showed them before it had ranks
+ */
+export function compareTaskRank(a: RankedTask, b: RankedTask): number {
+  const rankA = a.rank ?? "";
+  const rankB = b.rank ?? "";
+  if (rankA !== rankB) return rankA < rankB ? -1 : 1;
+
+  const createdA = new Date(a.createdAt).getTime();
+  const createdB = new Date(b.createdAt).getTime();
+  if (createdA !== createdB) return createdB - createdA;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Where a task dropped into `column` (the column's other tasks, in any order)
+ * right after `afterTaskId`, or at the top for null, goes. Tasks there that
+ * were never ranked have no neighbours to rank against, so they get ranks
+ * first, above the ranked ones and in the order they were shown; those are
+ * returned in `ranked`. Null if `afterTaskId` isn't in the column.
+ */
+export function placeInColumn(
+  column: RankedTask[],
+  afterTaskId: string | null
+): { rank: string; ranked: Array<{ id: string; rank: string }> } | null {
+  const sorted = [...column].sort(compareTaskRank);
+  const unranked = sorted.filter((task) => !task.rank);
+  const ranks = ranksBetween(
+    null,
+    sorted.find((task) => task.rank)?.rank ?? null,
+    unranked.length
+  );
+  const ranked = unranked.map((task, i) => ({ id: task.id, rank: ranks[i] }));
+  const rankOf = (task: RankedTask) =>
+    task.rank || ranks[unranked.indexOf(task)];
+
+  const index =
+    afterTaskId === null
+      ? -1
+      : sorted.findIndex((task) => task.id === afterTaskId);
+  if (afterTaskId !== null && index === -1) return null;
+
+  const before = index >= 0 ? rankOf(sorted[index]) : null;
+  const after = index + 1 < sorted.length ? rankOf(sorted[index + 1]) : null;
+  return { rank: rankBetween(before, after), ranked };
+}
@@ -0,0 +1,137 @@
+import { ServerMessage } from "./types";
+
+// Where a client is in a project room's message sequence
+export interface RoomPosition {
+  seq: number;
+  epoch: string;
+}
+
+export interface RoomSequencerHandlers {
+  // Apply a message to the app
+  dispatch: (message: ServerMessage) => void;
+  // Send a RESUME from the position; false when it could not be sent
+  resume: (projectId: string, position: RoomPosition) => boolean;
+  // The server no longer has the missed messages; refetch the room's state
+  resync: (projectId: string) => void;
+}
+
+/**
+ * Applies a project room's numbered messages in order. Messages that arrive
+ * ahead of a gap are buffered while the server is asked to replay the missed
+ * ones, and positions are kept across reconnects so the next join can resume
+ * from them.
+ */
+export class RoomSequencer {
+  // Last sequence number applied per project room and the server epoch it
+  // belongs to
+  private positions = new Map<string, RoomPosition>();
+  // Sequenced messages received ahead of a gap, by project room and
+  // sequence number
+  private pending = new Map<string, Map<number, ServerMessage>>();
+  // Project rooms with a RESUME in flight
+  private resuming = new Set<string>();
+
+  constructor(private handlers: RoomSequencerHandlers) {}
+
+  getPosition(projectId: string): RoomPosition | undefined {
+    return this.positions.get(projectId);
+  }
+
+  // Start over in a room that was left on purpose
+  forget(projectId: string): void {
+    this.positions.delete(projectId);
+    this.pending.delete(projectId);
+    this.resuming.delete(projectId);
+  }
+
+  // RESUMEs in flight died with the old connection
+  reconnected(): void {
+    this.resuming.clear();
+  }
+
+  receive(message: ServerMessage): void {
+    if (!("seq" in message) || message.seq === undefined) {
+      this.handlers.dispatch(message);
+      return;
+    }
+    const { projectId } = message;
+    const position = this.positions.get(projectId);
+
+    switch (message.type) {
+      case "PROJECT_JOINED":
+        if (position) {
+          this.requestResume(projectId);
+        } else {
+          this.positions.set(projectId, {
+            seq: message.seq,
+            epoch: message.epoch,
+          });
+          this.drain(projectId);
+        }
+        return;
+      case "RESUMED":
+        this.resuming.delete(projectId);
+        if (position) position.epoch = message.epoch;
+        this.drain(projectId);
+        return;
+      case "RESYNC_REQUIRED":
+        this.resuming.delete(projectId);
+        this.positions.set(projectId, {
+          seq: message.seq,
+          epoch: message.epoch,
+        });
+        this.drain(projectId);
+        this.handlers.resync(projectId);
+        return;
+    }
+
+    if (!position) {
+      if (message.type !== "ACK") this.handlers.dispatch(message);
+      return;
+    }
+    if (message.seq <= position.seq) return; // Already applied
+
+    this.pendingIn(projectId).set(message.seq, message);
+    if (this.resuming.has(projectId)) return;
+    if (message.seq > position.seq + 1) {
+      this.requestResume(projectId);
+      return;
+    }
+    this.drain(projectId);
+  }
+
+  private requestResume(projectId: string): void {
+    const position = this.positions.get(projectId);
+    if (position && this.handlers.resume(projectId, position)) {
+      this.resuming.add(projectId);
+    }
+  }
+
+  private pendingIn(projectId: string): Map<number, ServerMessage> {
+    let pending = this.pending.get(projectId);
+    if (!pending) {
+      pending = new Map();
+      this.pending.set(projectId, pending);
+    }
+    return pending;
+  }
+
+  // Apply buffered messages that continue the sequence
+  private drain(projectId: string): void {
+    const position = this.positions.get(projectId);
+    const pending = this.pending.get(projectId);
+    if (!position || !pending) return;
+    pending.forEach((_, seq) => {
+      if (seq <= position.seq) pending.delete(seq);
+    });
+    let next = pending.get(position.seq + 1);
+    while (next) {
+      pending.delete(position.seq + 1);
+      position.seq++;
+      // ACKs only tell the sender the sequence number of its own message
+      if (next.type !== "ACK") this.handlers.dispatch(next);
+      next = pending.get(position.seq + 1);
+    }
+    if (pending.size === 0) this.pending.delete(projectId);
+  }
+}
@@ -4,17 +4,21 @@ import {
   ParsedProject,
   ParsedTask,
   Comment,
-  WebSocketMessage,
+  ServerMessage,
   TaskUpdate,
   CommentUpdate,
+  CommentReactionUpdate,
+  TaskListQueryInput,
 } from "./types";
-import { generateOperationId } from "./utils";
+import { generateOperationId, toQueryString } from "./utils";
 
 interface AppState {
   // Data
   projects: ParsedProject[];
   currentProject: ParsedProject | null;
   tasks: ParsedTask[];
+  tasksQuery: TaskListQueryInput; // Filters and sort of the loaded task list
+  tasksNextCursor: string | null; // Cursor for the next page of tasks
   comments: Record<string, Comment[]>; // taskId -> comments
   activeUsers: Array<{
     userId: string;
@@ -27,7 +31,7 @@ interface AppState {
 
   // WebSocket
   wsConnected: boolean;
-  wsMessages: WebSocketMessage[];
+  wsMessages: ServerMessage[];
 
   // Optimistic updates
   pendingOperations: Map<string, unknown>;
@@ -36,17 +40,19 @@ interface AppState {
   setProjects: (projects: ParsedProject[]) => void;
   setCurrentProject: (project: ParsedProject | null) => void;
   setTasks: (tasks: ParsedTask[]) => void;
+  setTasksNextCursor: (cursor: string | null) => void;
   setComments: (taskId: string, comments: Comment[]) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
 
   // Fetch functions
   fetchProjects: () => Promise<void>;
-  fetchTasks: (projectId: string) => Promise<void>;
+  fetchTasks: (projectId: string, query?: TaskListQueryInput) => Promise<void>;
+  fetchMoreTasks: (projectId: string) => Promise<void>;
 
   // WebSocket actions
   setWsConnected: (connected: boolean) => void;
-  addWsMessage: (message: WebSocketMessage) => void;
+  addWsMessage: (message: ServerMessage) => void;
 
   // Optimistic CRUD operations
   createProjectOptimistic: (
@@ -61,7 +67,7 @@ interface AppState {
   createTaskOptimistic: (
     task: Omit<ParsedTask, "id" | "createdAt" | "updatedAt">
   ) => string;
-  updateTaskOptimistic: (id: string, updates: Partial<ParsedTask>) => void;
+  updateTaskOptimistic: (id: string, updates: Partial<ParsedTask>) => string;
   deleteTaskOptimistic: (id: string) => void;
 
   createCommentOptimistic: (
@@ -70,8 +76,9 @@ interface AppState {
   updateCommentOptimistic: (id: string, updates: Partial<Comment>) => void;
   deleteCommentOptimistic: (id: string) => void;
 
-  // Rollback operations
-  rollbackOperation: (operationId: string) => void;
+  // Rollback operations; an update rejected as a conflict can pass the
+  // server's current task to show instead of the original
+  rollbackOperation: (operationId: string, serverTask?: ParsedTask) => void;
 
   // Real-time updates
   handleTaskUpdate: (update: TaskUpdate) => void;
@@ -80,6 +87,7 @@ interface AppState {
   handleCommentUpdate: (update: CommentUpdate) => void;
   handleCommentCreate: (comment: Comment) => void;
   handleCommentDelete: (taskId: string, commentId: string) => void;
+  handleCommentReaction: (update: CommentReactionUpdate) => void;
   handleUserPresence: (presence: {
     projectId: string;
     activeUsers: Array<{
@@ -94,11 +102,13 @@ interface AppState {
 
 export const useAppStore = create<AppState>()(
   devtools(
-    (set) => ({
+    (set, get) => ({
       // Initial state
       projects: [],
       currentProject: null,
       tasks: [],
+      tasksQuery: {},
+      tasksNextCursor: null,
       comments: {},
       activeUsers: [], // Array of active users in current project
       loading: false,
@@ -111,6 +121,7 @@ export const useAppStore = create<AppState>()(
       setProjects: (projects) => set({ projects }),
       setCurrentProject: (project) => set({ currentProject: project }),
       setTasks: (tasks) => set({ tasks }),
+      setTasksNextCursor: (cursor) => set({ tasksNextCursor: cursor }),
       setComments: (taskId, comments) =>
         set((state) => ({
           comments: { ...state.comments, [taskId]: comments },
@@ -137,13 +148,19 @@ export const useAppStore = create<AppState>()(
         }
       },
 
-      fetchTasks: async (projectId: string) => {
-        set({ loading: true, error: null });
+      fetchTasks: async (projectId: string, query = {}) => {
+        set({ loading: true, error: null, tasksQuery: query });
         try {
-          const response = await fetch(`/api/projects/${projectId}/tasks`);
+          const response = await fetch(
+            `/api/projects/${projectId}/tasks${toQueryString(query)}`
+          );
           const data = await response.json();
           if (data.success) {
-            set({ tasks: data.data, loading: false });
+            set({
+              tasks: data.data,
+              tasksNextCursor: data.nextCursor ?? null,
+              loading: false,
+            });
           } else {
             set({
               error: data.error || "Failed to fetch tasks",
@@ -155,6 +172,41 @@ export const useAppStore = create<AppState>()(
         }
       },
 
+      // Append the next page of tasks, skipping any already received over
+      // the WebSocket while paging
+      fetchMoreTasks: async (projectId: string) => {
+        const { tasksNextCursor: cursor, tasksQuery } = get();
+        if (!cursor) return;
+
+        try {
+          const response = await fetch(
+            `/api/projects/${projectId}/tasks${toQueryString({
+              ...tasksQuery,
+              cursor,
+            })}`
+          );
+          const data = await response.json();
+          if (data.success) {
+            set((state) => {
+              const knownIds = new Set(state.tasks.map((task) => task.id));
+              return {
+                tasks: [
+                  ...state.tasks,
+                  ...(data.data as ParsedTask[]).filter(
+                    (task) => !knownIds.has(task.id)
+                  ),
+                ],
+                tasksNextCursor: data.nextCursor ?? null,
+              };
+            });
+          } else {
+            set({ error: data.error || "Failed to fetch tasks" });
+          }
+        } catch {
+          set({ error: "Failed to fetch tasks" });
+        }
+      },
+
       // WebSocket actions
       setWsConnected: (connected) => set({ wsConnected: connected }),
       addWsMessage: (message) =>
@@ -301,6 +353,8 @@ export const useAppStore = create<AppState>()(
             ),
           };
         });
+
+        return operationId;
       },
 
       deleteTaskOptimistic: (id) => {
@@ -427,7 +481,7 @@ export const useAppStore = create<AppState>()(
       },
 
       // Rollback operations
-      rollbackOperation: (operationId) => {
+      rollbackOperation: (operationId, serverTask) => {
         set((state) => {
           const operation = state.pendingOperations.get(operationId);
           if (!operation) return state;
@@ -494,8 +548,9 @@ export const useAppStore = create<AppState>()(
                 return { ...state, pendingOperations: newPendingOperations };
 
               const newTasks = [...state.tasks];
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              newTasks[taskIndex] = (operation as any).originalData;
+              newTasks[taskIndex] =
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                serverTask ?? (operation as any).originalData;
 
               return {
                 tasks: newTasks,
@@ -622,8 +677,19 @@ export const useAppStore = create<AppState>()(
       },
 
       handleTaskDelete: (taskId) => {
+        // The server also strips the task from its dependents and broadcasts
+        // those updates; doing it here keeps the board consistent meanwhile
         set((state) => ({
-          tasks: state.tasks.filter((t) => t.id !== taskId),
+          tasks: state.tasks
+            .filter((t) => t.id !== taskId)
+            .map((t) =>
+              t.dependencies.includes(taskId)
+                ? {
+                    ...t,
+                    dependencies: t.dependencies.filter((id) => id !== taskId),
+                  }
+                : t
+            ),
           comments: Object.fromEntries(
             Object.entries(state.comments).filter(([tid]) => tid !== taskId)
           ),
@@ -667,6 +733,11 @@ export const useAppStore = create<AppState>()(
               ...state.comments,
               [comment.taskId]: [comment, ...existingComments],
             },
+            tasks: state.tasks.map((task) =>
+              task.id === comment.taskId && task.commentCount !== undefined
+                ? { ...task, commentCount: task.commentCount + 1 }
+                : task
+            ),
           };
         });
       },
@@ -683,6 +754,28 @@ export const useAppStore = create<AppState>()(
               ...state.comments,
               [taskId]: comments.filter((comment) => comment.id !== commentId),
             },
+            tasks: state.tasks.map((task) =>
+              task.id === taskId && task.commentCount
+                ? { ...task, commentCount: task.commentCount - 1 }
+                : task
+            ),
+          };
+        });
+      },
+
+      handleCommentReaction: (update) => {
+        set((state) => {
+          const comments = state.comments[update.taskId];
+          if (!comments) return state;
+          return {
+            comments: {
+              ...state.comments,
+              [update.taskId]: comments.map((comment) =>
+                comment.id === update.commentId
+                  ? { ...comment, reactions: update.reactions }
+                  : comment
+              ),
+            },
           };
         });
       },
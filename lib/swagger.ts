@@ -108,11 +108,34 @@ const options: swaggerJsdoc.Options = {
               description: "Additional project metadata",
               example: { color: "#ff6b6b", category: "design" },
             },
+            autoBlock: {
+              type: "boolean",
+              description:
+                "Whether the server moves tasks into the workflow's blocked status and back as their dependencies are reopened or finished",
+              example: false,
+            },
+            workflow: {
+              $ref: "#/components/schemas/Workflow",
+              nullable: true,
+              description: "The project's workflow; null means the default",
+            },
             ownerId: {
               type: "string",
               description: "ID of the project owner",
               example: "user_123456789",
             },
+            role: {
+              type: "string",
+              enum: ["OWNER", "ADMIN", "MEMBER", "VIEWER"],
+              description: "Role of the requesting user in this project",
+              example: "MEMBER",
+            },
+            taskCount: {
+              type: "integer",
+              description:
+                "Number of tasks in the project, returned by the project list endpoint",
+              example: 12,
+            },
             createdAt: {
               type: "string",
               format: "date-time",
@@ -126,6 +149,69 @@ const options: swaggerJsdoc.Options = {
           },
           required: ["id", "name", "ownerId", "createdAt", "updatedAt"],
         },
+        ProjectMember: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Membership ID",
+              example: "1640995200000-abc123def",
+            },
+            projectId: {
+              type: "string",
+              description: "ID of the project",
+              example: "project_123456789",
+            },
+            userId: {
+              type: "string",
+              description: "ID of the member",
+              example: "user_987654321",
+            },
+            role: {
+              type: "string",
+              enum: ["ADMIN", "MEMBER", "VIEWER"],
+              description:
+                "Member role. OWNER is implied by the project's ownerId",
+              example: "MEMBER",
+            },
+            user: {
+              $ref: "#/components/schemas/User",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+              description: "Membership creation timestamp",
+            },
+            updatedAt: {
+              type: "string",
+              format: "date-time",
+              description: "Membership last update timestamp",
+            },
+          },
+          required: ["id", "projectId", "userId", "role"],
+        },
+        AddProjectMemberRequest: {
+          type: "object",
+          properties: {
+            userId: {
+              type: "string",
+              description: "ID of the user to add (or use email)",
+              example: "user_987654321",
+            },
+            email: {
+              type: "string",
+              format: "email",
+              description: "Email of the user to add (or use userId)",
+              example: "jane.doe@example.com",
+            },
+            role: {
+              type: "string",
+              enum: ["ADMIN", "MEMBER", "VIEWER"],
+              description: "Role to grant",
+              example: "MEMBER",
+            },
+          },
+        },
         Task: {
           type: "object",
           properties: {
@@ -146,8 +232,8 @@ const options: swaggerJsdoc.Options = {
             },
             status: {
               type: "string",
-              enum: ["TODO", "IN_PROGRESS", "IN_REVIEW", "DONE", "BLOCKED"],
-              description: "Current task status",
+              description:
+                "Current task status, a key of the project's workflow",
               example: "IN_PROGRESS",
             },
             assignedTo: {
@@ -168,6 +254,8 @@ const options: swaggerJsdoc.Options = {
                 },
                 description: {
                   type: "string",
+                  description:
+                    "Collaboratively edited; an update whose configuration omits it keeps the current description",
                   example: "Detailed task description",
                 },
                 tags: {
@@ -180,7 +268,7 @@ const options: swaggerJsdoc.Options = {
                 customFields: {
                   type: "object",
                   description: "Custom fields specific to the task",
-                  example: { estimatedHours: 8, sprint: "Sprint 1" },
+                  example: { sprint: "Sprint 1" },
                 },
               },
             },
@@ -192,6 +280,61 @@ const options: swaggerJsdoc.Options = {
               description: "Array of task IDs that this task depends on",
               example: ["task_111111111", "task_222222222"],
             },
+            startDate: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Start date (ISO date or date-time)",
+              example: "2025-03-03T09:00:00.000Z",
+            },
+            dueDate: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description:
+                "Due date (ISO date or date-time); not before the start date",
+              example: "2025-03-14T23:59:59.999Z",
+            },
+            estimate: {
+              type: "number",
+              minimum: 0,
+              nullable: true,
+              description: "Hours of work the task was expected to take",
+              example: 8,
+            },
+            remaining: {
+              type: "number",
+              minimum: 0,
+              nullable: true,
+              description: "Hours of work still left",
+              example: 5.5,
+            },
+            checklist: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/ChecklistItem",
+              },
+              description:
+                "Checklist items in display order; edited through /api/tasks/{id}/checklist",
+            },
+            rank: {
+              type: "string",
+              description:
+                "Position in its status column; columns sort by rank, with unranked (empty) tasks first, newest first. Changed through /api/tasks/{id}/move",
+              example: "i",
+            },
+            version: {
+              type: "integer",
+              description:
+                "Incremented on every write; send it back in If-Match to detect concurrent edits",
+              example: 3,
+            },
+            descriptionRevision: {
+              type: "integer",
+              description:
+                "Number of operations applied to the description; see /api/tasks/{id}/description",
+              example: 12,
+            },
             createdAt: {
               type: "string",
               format: "date-time",
@@ -202,6 +345,12 @@ const options: swaggerJsdoc.Options = {
               format: "date-time",
               description: "Task last update timestamp",
             },
+            commentCount: {
+              type: "integer",
+              description:
+                "Number of comments on the task, returned by the task list endpoint",
+              example: 3,
+            },
           },
           required: [
             "id",
@@ -215,6 +364,89 @@ const options: swaggerJsdoc.Options = {
             "updatedAt",
           ],
         },
+        ChecklistItem: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Checklist item ID",
+              example: "item_123456789",
+            },
+            content: {
+              type: "string",
+              example: "Write the migration",
+            },
+            done: {
+              type: "boolean",
+              example: false,
+            },
+          },
+          required: ["id", "content", "done"],
+        },
+        Attachment: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description:
+                "Attachment ID; the file is downloaded from /api/attachments/{id}",
+              example: "1700000000000-abc123def",
+            },
+            taskId: {
+              type: "string",
+              example: "task_123456789",
+            },
+            commentId: {
+              type: "string",
+              nullable: true,
+              description: "Set when the file is attached to a comment",
+            },
+            fileName: {
+              type: "string",
+              example: "screenshot.png",
+            },
+            mimeType: {
+              type: "string",
+              enum: [
+                "image/png",
+                "image/jpeg",
+                "image/gif",
+                "image/webp",
+                "application/pdf",
+                "application/json",
+                "application/zip",
+                "text/plain",
+                "text/csv",
+                "text/markdown",
+              ],
+              example: "image/png",
+            },
+            size: {
+              type: "integer",
+              description: "Size in bytes, at most 10 MB",
+              example: 48213,
+            },
+            uploadedBy: {
+              type: "string",
+              nullable: true,
+              description:
+                "ID of the user who uploaded the file; null once their account is deleted",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: [
+            "id",
+            "taskId",
+            "fileName",
+            "mimeType",
+            "size",
+            "uploadedBy",
+            "createdAt",
+          ],
+        },
         Comment: {
           type: "object",
           properties: {
@@ -228,6 +460,12 @@ const options: swaggerJsdoc.Options = {
               description: "ID of the task this comment belongs to",
               example: "task_123456789",
             },
+            parentId: {
+              type: "string",
+              nullable: true,
+              description:
+                "Top-level comment this one replies to; replies aren't nested further",
+            },
             content: {
               type: "string",
               description: "Comment content",
@@ -243,12 +481,293 @@ const options: swaggerJsdoc.Options = {
               format: "date-time",
               description: "Comment creation timestamp",
             },
+            reactions: {
+              type: "array",
+              description: "Emoji reactions, oldest first",
+              items: {
+                $ref: "#/components/schemas/CommentReaction",
+              },
+            },
             author: {
               $ref: "#/components/schemas/User",
             },
           },
           required: ["id", "taskId", "content", "authorId", "timestamp"],
         },
+        CommentReaction: {
+          type: "object",
+          properties: {
+            emoji: {
+              type: "string",
+              enum: ["👍", "👎", "😄", "🎉", "😕", "❤️", "🚀", "👀"],
+              example: "👍",
+            },
+            userId: {
+              type: "string",
+              description: "ID of the user who reacted",
+              example: "user_123456789",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: ["emoji", "userId", "createdAt"],
+        },
+        Activity: {
+          type: "object",
+          description:
+            "An append-only activity log entry for a change to a project, task or comment",
+          properties: {
+            id: {
+              type: "string",
+              description: "Activity ID",
+            },
+            projectId: {
+              type: "string",
+              example: "project_123456789",
+            },
+            taskId: {
+              type: "string",
+              nullable: true,
+              example: "task_123456789",
+            },
+            commentId: {
+              type: "string",
+              nullable: true,
+            },
+            entityType: {
+              type: "string",
+              enum: ["PROJECT", "TASK", "COMMENT"],
+            },
+            action: {
+              type: "string",
+              enum: ["CREATED", "UPDATED", "DELETED"],
+            },
+            actorId: {
+              type: "string",
+              nullable: true,
+              description:
+                "User who made the change; null for changes the server made on its own, such as auto-block cascades",
+            },
+            actor: {
+              $ref: "#/components/schemas/User",
+            },
+            changes: {
+              type: "object",
+              description:
+                "Changed fields mapped to their previous and new values; null stands in for a missing side",
+              additionalProperties: {
+                type: "object",
+                properties: {
+                  before: {},
+                  after: {},
+                },
+              },
+              example: {
+                status: { before: "TODO", after: "IN_PROGRESS" },
+              },
+            },
+            operationId: {
+              type: "string",
+              description:
+                "Operation the change belongs to; shared by a write and the changes it caused",
+              example: "op_123456789",
+            },
+            supersedesId: {
+              type: "string",
+              nullable: true,
+              description:
+                "Earlier entry this one sums up together with its own change, as for the edits of one description editing session; superseded entries are left out of the log",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: [
+            "id",
+            "projectId",
+            "entityType",
+            "action",
+            "changes",
+            "operationId",
+            "createdAt",
+          ],
+        },
+        DescriptionOperation: {
+          type: "object",
+          description:
+            "One change to a task description, turning revision - 1 into `revision`",
+          properties: {
+            taskId: {
+              type: "string",
+              example: "task_123456789",
+            },
+            revision: {
+              type: "integer",
+              example: 13,
+            },
+            operation: {
+              type: "array",
+              description:
+                "Walks the whole text: a positive number retains that many characters, a negative number deletes that many and a string inserts it",
+              items: {
+                oneOf: [{ type: "integer" }, { type: "string" }],
+              },
+              example: [6, "brave ", 5],
+            },
+            clientId: {
+              type: "string",
+              nullable: true,
+              description:
+                "Editor session that sent the operation; null for task updates",
+            },
+            userId: {
+              type: "string",
+              nullable: true,
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+          required: ["taskId", "revision", "operation", "createdAt"],
+        },
+        DependencyGraph: {
+          type: "object",
+          properties: {
+            nodes: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  title: { type: "string" },
+                  status: { type: "string" },
+                  dependencies: {
+                    type: "array",
+                    items: { type: "string" },
+                    description: "Dependencies within the project",
+                  },
+                  dependents: {
+                    type: "array",
+                    items: { type: "string" },
+                  },
+                  depth: {
+                    type: "integer",
+                    nullable: true,
+                    description: "Longest chain of dependencies below the task",
+                  },
+                  weight: {
+                    type: "number",
+                    description: "Remaining estimate; 0 for DONE tasks",
+                  },
+                  earliestStart: { type: "number", nullable: true },
+                  earliestFinish: { type: "number", nullable: true },
+                  slack: {
+                    type: "number",
+                    nullable: true,
+                    description:
+                      "How far the task can slip without delaying the project",
+                  },
+                  blocked: {
+                    type: "boolean",
+                    description: "Some dependency is not DONE",
+                  },
+                  ready: {
+                    type: "boolean",
+                    description: "Not started and every dependency is DONE",
+                  },
+                },
+              },
+            },
+            edges: {
+              type: "array",
+              description: "From a dependency to the task that depends on it",
+              items: {
+                type: "object",
+                properties: {
+                  from: { type: "string" },
+                  to: { type: "string" },
+                },
+              },
+            },
+            order: {
+              type: "array",
+              items: { type: "string" },
+              description: "Topological order; dependencies come first",
+            },
+            criticalPath: {
+              type: "array",
+              items: { type: "string" },
+            },
+            duration: {
+              type: "number",
+              description: "Total weight of the critical path",
+            },
+            ready: {
+              type: "array",
+              items: { type: "string" },
+            },
+            cyclic: {
+              type: "array",
+              items: { type: "string" },
+              description: "Tasks that can't be ordered because of a cycle",
+            },
+          },
+        },
+        SearchResult: {
+          type: "object",
+          properties: {
+            taskId: {
+              type: "string",
+              example: "task_123456789",
+            },
+            projectId: {
+              type: "string",
+              example: "project_123456789",
+            },
+            projectName: {
+              type: "string",
+              example: "Website Redesign",
+            },
+            title: {
+              type: "string",
+              example: "Design login page",
+            },
+            status: {
+              type: "string",
+            },
+            rank: {
+              type: "number",
+              description: "Relevance score; higher is better",
+              example: 0.42,
+            },
+            highlights: {
+              type: "array",
+              description:
+                "Matching snippets, with matches wrapped in <mark></mark>. Snippets are not HTML-escaped and must be rendered as text.",
+              items: {
+                type: "object",
+                properties: {
+                  field: {
+                    type: "string",
+                    enum: ["title", "description", "tags", "comment"],
+                  },
+                  snippet: {
+                    type: "string",
+                    example: "Create the <mark>login</mark> form",
+                  },
+                  commentId: {
+                    type: "string",
+                    description: "Set for comment matches",
+                  },
+                },
+              },
+            },
+          },
+        },
         ApiResponse: {
           type: "object",
           properties: {
@@ -270,6 +789,11 @@ const options: swaggerJsdoc.Options = {
               description: "Unique operation ID for tracking",
               example: "op_123456789",
             },
+            conflict: {
+              type: "boolean",
+              description:
+                "Set on 409 responses to stale writes; data then holds the current server state",
+            },
           },
           required: ["success"],
         },
@@ -291,9 +815,55 @@ const options: swaggerJsdoc.Options = {
               description: "Additional project metadata",
               example: { color: "#ff6b6b", category: "design" },
             },
+            workflow: {
+              $ref: "#/components/schemas/Workflow",
+            },
           },
           required: ["name"],
         },
+        Workflow: {
+          type: "object",
+          description:
+            "Ordered board statuses and the moves allowed between them. A status without an entry in `transitions` may move to any status.",
+          properties: {
+            statuses: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  key: {
+                    type: "string",
+                    pattern: "^[A-Z][A-Z0-9_]{0,31}$",
+                    example: "QA",
+                  },
+                  label: { type: "string", example: "QA" },
+                  color: { type: "string", example: "#f59e0b" },
+                  category: {
+                    type: "string",
+                    enum: ["NOT_STARTED", "ACTIVE", "DONE"],
+                  },
+                },
+                required: ["key", "label", "color", "category"],
+              },
+            },
+            transitions: {
+              type: "object",
+              additionalProperties: {
+                type: "array",
+                items: { type: "string" },
+              },
+              example: { TODO: ["IN_PROGRESS"], IN_PROGRESS: ["QA", "TODO"] },
+            },
+            blockedStatus: {
+              type: "string",
+              nullable: true,
+              description:
+                "Status that autoBlock moves blocked tasks into; without one autoBlock does nothing",
+              example: "BLOCKED",
+            },
+          },
+          required: ["statuses"],
+        },
         UpdateProjectRequest: {
           type: "object",
           properties: {
@@ -312,6 +882,18 @@ const options: swaggerJsdoc.Options = {
               description: "Additional project metadata",
               example: { color: "#4ecdc4", category: "design" },
             },
+            autoBlock: {
+              type: "boolean",
+              description:
+                "Derive BLOCKED from dependency state on the server (ADMIN only)",
+              example: true,
+            },
+            workflow: {
+              $ref: "#/components/schemas/Workflow",
+              nullable: true,
+              description:
+                "Replace the workflow; null restores the default. Statuses that tasks are in cannot be removed.",
+            },
           },
         },
         CreateTaskRequest: {
@@ -329,8 +911,8 @@ const options: swaggerJsdoc.Options = {
             },
             status: {
               type: "string",
-              enum: ["TODO", "IN_PROGRESS", "IN_REVIEW", "DONE", "BLOCKED"],
-              description: "Task status",
+              description:
+                "Status key from the project's workflow; defaults to its first not-started status",
               example: "TODO",
             },
             assignedTo: {
@@ -362,7 +944,7 @@ const options: swaggerJsdoc.Options = {
                 },
                 customFields: {
                   type: "object",
-                  example: { estimatedHours: 8 },
+                  example: { sprint: "Sprint 1" },
                 },
               },
             },
@@ -374,6 +956,35 @@ const options: swaggerJsdoc.Options = {
               description: "Array of task IDs that this task depends on",
               example: ["task_111111111"],
             },
+            startDate: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Start date (ISO date or date-time)",
+              example: "2025-03-03T09:00:00.000Z",
+            },
+            dueDate: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description:
+                "Due date (ISO date or date-time); not before the start date",
+              example: "2025-03-14T23:59:59.999Z",
+            },
+            estimate: {
+              type: "number",
+              minimum: 0,
+              nullable: true,
+              description: "Hours of work the task was expected to take",
+              example: 8,
+            },
+            remaining: {
+              type: "number",
+              minimum: 0,
+              nullable: true,
+              description: "Hours of work still left; defaults to the estimate",
+              example: 5.5,
+            },
           },
           required: ["projectId", "title"],
         },
@@ -387,8 +998,8 @@ const options: swaggerJsdoc.Options = {
             },
             status: {
               type: "string",
-              enum: ["TODO", "IN_PROGRESS", "IN_REVIEW", "DONE", "BLOCKED"],
-              description: "Task status",
+              description:
+                "Status key from the project's workflow; the move must be allowed by its transitions",
               example: "IN_PROGRESS",
             },
             assignedTo: {
@@ -420,7 +1031,7 @@ const options: swaggerJsdoc.Options = {
                 },
                 customFields: {
                   type: "object",
-                  example: { estimatedHours: 12, sprint: "Sprint 1" },
+                  example: { sprint: "Sprint 2" },
                 },
               },
             },
@@ -432,6 +1043,35 @@ const options: swaggerJsdoc.Options = {
               description: "Array of task IDs that this task depends on",
               example: ["task_111111111", "task_222222222"],
             },
+            startDate: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description: "Start date (ISO date or date-time)",
+              example: "2025-03-03T09:00:00.000Z",
+            },
+            dueDate: {
+              type: "string",
+              format: "date-time",
+              nullable: true,
+              description:
+                "Due date (ISO date or date-time); not before the start date",
+              example: "2025-03-14T23:59:59.999Z",
+            },
+            estimate: {
+              type: "number",
+              minimum: 0,
+              nullable: true,
+              description: "Hours of work the task was expected to take",
+              example: 8,
+            },
+            remaining: {
+              type: "number",
+              minimum: 0,
+              nullable: true,
+              description: "Hours of work still left",
+              example: 5.5,
+            },
           },
         },
         CreateCommentRequest: {
@@ -447,6 +1087,12 @@ const options: swaggerJsdoc.Options = {
               description: "Comment content",
               example: "This looks great! I have a few suggestions...",
             },
+            parentId: {
+              type: "string",
+              nullable: true,
+              description:
+                "Top-level comment on the same task this comment replies to",
+            },
           },
           required: ["taskId", "content"],
         },
@@ -473,6 +1119,7 @@ const options: swaggerJsdoc.Options = {
                 "COMMENT_UPDATE",
                 "COMMENT_CREATE",
                 "COMMENT_DELETE",
+                "COMMENT_REACTION",
                 "PROJECT_UPDATE",
                 "JOIN_PROJECT",
                 "LEAVE_PROJECT",
@@ -526,6 +1173,20 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        ForbiddenError: {
+          description: "The user's project role does not allow this operation",
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/ApiResponse",
+              },
+              example: {
+                success: false,
+                error: "This action requires the ADMIN role or higher",
+              },
+            },
+          },
+        },
         NotFoundError: {
           description: "The specified resource was not found",
           content: {
@@ -592,6 +1253,14 @@ const options: swaggerJsdoc.Options = {
         name: "Comments",
         description: "Task comment endpoints",
       },
+      {
+        name: "Attachments",
+        description: "Task and comment file attachment endpoints",
+      },
+      {
+        name: "Search",
+        description: "Full-text search endpoints",
+      },
       {
         name: "WebSocket",
         description: "Real-time WebSocket communication",
@@ -0,0 +1,194 @@
+import { ParsedTask } from "./types";
+
+// Fields a merge can conflict on; custom fields conflict key by key
+export type TaskMergeField =
+  | "title"
+  | "status"
+  | "startDate"
+  | "dueDate"
+  | "estimate"
+  | "remaining"
+  | "priority"
+  | "description"
+  | `customFields.${string}`;
+
+// A field the user and someone else both changed, to different values
+export interface TaskMergeConflict {
+  field: TaskMergeField;
+  local: unknown;
+  remote: unknown;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function getConfiguration(task: ParsedTask): Record<string, unknown> {
+  return (task.configuration ?? {}) as Record<string, unknown>;
+}
+
+function getCustomFields(task: ParsedTask): Record<string, unknown> {
+  return (getConfiguration(task).customFields ?? {}) as Record<string, unknown>;
+}
+
+/**
+ * Set-like three-way merge of an ID or tag list: items either side added are
+ * kept and items either side removed are dropped, so lists never conflict.
+ * Local order comes first.
+ */
+export function mergeList(
+  base: string[],
+  local: string[],
+  remote: string[]
+): string[] {
+  const removed = new Set(
+    base.filter((item) => !local.includes(item) || !remote.includes(item))
+  );
+  return Array.from(new Set([...local, ...remote])).filter(
+    (item) => !removed.has(item)
+  );
+}
+
+/**
+ * Three-way merge of a task being edited locally with a newer server version.
+ * Each field takes whichever side changed it from `base`; a field both sides
+ * changed differently keeps the local value and is reported as a conflict.
+ * Everything outside the editable fields (version, timestamps) comes from
+ * `remote`, so the result can be saved against the server's version.
+ */
+export function mergeTaskEdits(
+  base: ParsedTask,
+  local: ParsedTask,
+  remote: ParsedTask
+): { task: ParsedTask; conflicts: TaskMergeConflict[] } {
+  const conflicts: TaskMergeConflict[] = [];
+  const merge = (
+    field: TaskMergeField,
+    baseValue: unknown,
+    localValue: unknown,
+    remoteValue: unknown
+  ): unknown => {
+    if (isEqual(localValue, remoteValue) || isEqual(remoteValue, baseValue)) {
+      return localValue;
+    }
+    if (isEqual(localValue, baseValue)) return remoteValue;
+    conflicts.push({ field, local: localValue, remote: remoteValue });
+    return localValue;
+  };
+
+  const baseConfiguration = getConfiguration(base);
+  const localConfiguration = getConfiguration(local);
+  const remoteConfiguration = getConfiguration(remote);
+
+  const baseCustomFields = getCustomFields(base);
+  const localCustomFields = getCustomFields(local);
+  const remoteCustomFields = getCustomFields(remote);
+  const customFields: Record<string, unknown> = {};
+  new Set([
+    ...Object.keys(baseCustomFields),
+    ...Object.keys(localCustomFields),
+    ...Object.keys(remoteCustomFields),
+  ]).forEach((key) => {
+    const value = merge(
+      `customFields.${key}`,
+      baseCustomFields[key],
+      localCustomFields[key],
+      remoteCustomFields[key]
+    );
+    if (value !== undefined && value !== null) customFields[key] = value;
+  });
+
+  const task: ParsedTask = {
+    ...remote,
+    title: merge("title", base.title, local.title, remote.title) as string,
+    status: merge("status", base.status, local.status, remote.status) as string,
+    startDate: merge(
+      "startDate",
+      base.startDate,
+      local.startDate,
+      remote.startDate
+    ) as ParsedTask["startDate"],
+    dueDate: merge(
+      "dueDate",
+      base.dueDate,
+      local.dueDate,
+      remote.dueDate
+    ) as ParsedTask["dueDate"],
+    estimate: merge(
+      "estimate",
+      base.estimate,
+      local.estimate,
+      remote.estimate
+    ) as ParsedTask["estimate"],
+    remaining: merge(
+      "remaining",
+      base.remaining,
+      local.remaining,
+      remote.remaining
+    ) as ParsedTask["remaining"],
+    assignedTo: mergeList(base.assignedTo, local.assignedTo, remote.assignedTo),
+    dependencies: mergeList(
+      base.dependencies,
+      local.dependencies,
+      remote.dependencies
+    ),
+    configuration: {
+      ...remoteConfiguration,
+      priority: merge(
+        "priority",
+        baseConfiguration.priority,
+        localConfiguration.priority,
+        remoteConfiguration.priority
+      ),
+      description: merge(
+        "description",
+        baseConfiguration.description,
+        localConfiguration.description,
+        remoteConfiguration.description
+      ),
+      tags: mergeList(
+        (baseConfiguration.tags ?? []) as string[],
+        (localConfiguration.tags ?? []) as string[],
+        (remoteConfiguration.tags ?? []) as string[]
+      ),
+      customFields,
+    },
+  };
+
+  return { task, conflicts };
+}
+
+// Set one mergeable field, e.g. to the value picked for a conflict. A null
+// or undefined custom field is removed.
+export function setTaskMergeField(
+  task: ParsedTask,
+  field: TaskMergeField,
+  value: unknown
+): ParsedTask {
+  if (field === "title" || field === "status") {
+    return { ...task, [field]: value as string };
+  }
+  if (
+    field === "startDate" ||
+    field === "dueDate" ||
+    field === "estimate" ||
+    field === "remaining"
+  ) {
+    return { ...task, [field]: value ?? null };
+  }
+
+  const configuration = { ...getConfiguration(task) };
+  if (field.startsWith("customFields.")) {
+    const key = field.slice("customFields.".length);
+    const customFields = { ...getCustomFields(task) };
+    if (value === undefined || value === null) {
+      delete customFields[key];
+    } else {
+      customFields[key] = value;
+    }
+    configuration.customFields = customFields;
+  } else {
+    configuration[field] = value;
+  }
+  return { ...task, configuration };
+}
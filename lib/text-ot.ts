@@ -0,0 +1,338 @@
+/**
+ * Operational transformation for plain text, used to edit task descriptions
+ * collaboratively. An operation walks the whole document: a positive number
+ * retains that many characters, a negative number deletes that many and a
+ * string inserts it. Operations are plain JSON, so they can be sent over the
+ * WebSocket and stored as-is.
+ */
+export type TextOperation = Array<number | string>;
+
+function isRetain(component: number | string | undefined): component is number {
+  return typeof component === "number" && component > 0;
+}
+
+function isDelete(component: number | string | undefined): component is number {
+  return typeof component === "number" && component < 0;
+}
+
+function isInsert(component: number | string | undefined): component is string {
+  return typeof component === "string";
+}
+
+// Builds an operation in canonical form: adjacent components of the same kind
+// are merged and an insert always comes before a delete at the same position
+class OperationBuilder {
+  readonly operation: TextOperation = [];
+
+  retain(count: number): this {
+    if (count <= 0) return this;
+    const last = this.operation.length - 1;
+    if (isRetain(this.operation[last])) {
+      (this.operation[last] as number) += count;
+    } else {
+      this.operation.push(count);
+    }
+    return this;
+  }
+
+  insert(text: string): this {
+    if (text === "") return this;
+    const ops = this.operation;
+    const last = ops.length - 1;
+    if (isInsert(ops[last])) {
+      ops[last] = (ops[last] as string) + text;
+    } else if (isDelete(ops[last])) {
+      if (isInsert(ops[last - 1])) {
+        ops[last - 1] = (ops[last - 1] as string) + text;
+      } else {
+        ops.splice(last, 0, text);
+      }
+    } else {
+      ops.push(text);
+    }
+    return this;
+  }
+
+  delete(count: number): this {
+    if (count <= 0) return this;
+    const last = this.operation.length - 1;
+    if (isDelete(this.operation[last])) {
+      (this.operation[last] as number) -= count;
+    } else {
+      this.operation.push(-count);
+    }
+    return this;
+  }
+}
+
+// Length of the document an operation applies to
+export function getBaseLength(operation: TextOperation): number {
+  return operation.reduce<number>(
+    (length, component) =>
+      isInsert(component) ? length : length + Math.abs(component),
+    0
+  );
+}
+
+// Length of the document an operation produces
+export function getTargetLength(operation: TextOperation): number {
+  return operation.reduce<number>((length, component) => {
+    if (isInsert(component)) return length + component.length;
+    return isRetain(component) ? length + component : length;
+  }, 0);
+}
+
+export function isNoopOperation(operation: TextOperation): boolean {
+  return operation.every(isRetain);
+}
+
+export function applyTextOperation(
+  text: string,
+  operation: TextOperation
+): string {
+  if (getBaseLength(operation) !== text.length) {
+    throw new Error("Operation does not match the document length");
+  }
+
+  let index = 0;
+  let result = "";
+  for (const component of operation) {
+    if (isInsert(component)) {
+      result += component;
+    } else if (isRetain(component)) {
+      result += text.slice(index, index + component);
+      index += component;
+    } else {
+      index -= component;
+    }
+  }
+  return result;
+}
+
+/**
+ * Combine two consecutive operations into one with the same effect as
+ * applying `first` and then `second`.
+ */
+export function composeTextOperations(
+  first: TextOperation,
+  second: TextOperation
+): TextOperation {
+  if (getTargetLength(first) !== getBaseLength(second)) {
+    throw new Error("Operations cannot be composed: lengths do not match");
+  }
+
+  const result = new OperationBuilder();
+  let i1 = 0;
+  let i2 = 0;
+  let op1 = first[i1++];
+  let op2 = second[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isDelete(op1)) {
+      result.delete(-op1);
+      op1 = first[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      result.insert(op2);
+      op2 = second[i2++];
+      continue;
+    }
+    if (op1 === undefined || op2 === undefined) {
+      throw new Error("Operations cannot be composed: lengths do not match");
+    }
+
+    if (isRetain(op1) && isRetain(op2)) {
+      const count = Math.min(op1, op2);
+      result.retain(count);
+      op1 = op1 === count ? first[i1++] : op1 - count;
+      op2 = op2 === count ? second[i2++] : op2 - count;
+    } else if (isInsert(op1) && isDelete(op2)) {
+      // Text inserted by the first operation and deleted by the second
+      const count = Math.min(op1.length, -op2);
+      op1 = op1.length === count ? first[i1++] : op1.slice(count);
+      op2 = -op2 === count ? second[i2++] : op2 + count;
+    } else if (isInsert(op1) && isRetain(op2)) {
+      const count = Math.min(op1.length, op2);
+      result.insert(op1.slice(0, count));
+      op1 = op1.length === count ? first[i1++] : op1.slice(count);
+      op2 = op2 === count ? second[i2++] : op2 - count;
+    } else if (isRetain(op1) && isDelete(op2)) {
+      const count = Math.min(op1, -op2);
+      result.delete(count);
+      op1 = op1 === count ? first[i1++] : op1 - count;
+      op2 = -op2 === count ? second[i2++] : op2 + count;
+    }
+  }
+
+  return result.operation;
+}
+
+/**
+ * Transform two concurrent operations on the same document into `[a', b']`
+ * such that applying `a` then `b'` gives the same text as `b` then `a'`.
+ * When both insert at the same position, `a`'s text goes first.
+ */
+export function transformTextOperations(
+  a: TextOperation,
+  b: TextOperation
+): [TextOperation, TextOperation] {
+  if (getBaseLength(a) !== getBaseLength(b)) {
+    throw new Error("Operations cannot be transformed: lengths do not match");
+  }
+
+  const aPrime = new OperationBuilder();
+  const bPrime = new OperationBuilder();
+  let i1 = 0;
+  let i2 = 0;
+  let op1 = a[i1++];
+  let op2 = b[i2++];
+
+  while (op1 !== undefined || op2 !== undefined) {
+    if (isInsert(op1)) {
+      aPrime.insert(op1);
+      bPrime.retain(op1.length);
+      op1 = a[i1++];
+      continue;
+    }
+    if (isInsert(op2)) {
+      aPrime.retain(op2.length);
+      bPrime.insert(op2);
+      op2 = b[i2++];
+      continue;
+    }
+    if (op1 === undefined || op2 === undefined) {
+      throw new Error("Operations cannot be transformed: lengths do not match");
+    }
+
+    const count = Math.min(Math.abs(op1), Math.abs(op2));
+    if (isRetain(op1) && isRetain(op2)) {
+      aPrime.retain(count);
+      bPrime.retain(count);
+    } else if (isDelete(op1) && isRetain(op2)) {
+      aPrime.delete(count);
+    } else if (isRetain(op1) && isDelete(op2)) {
+      bPrime.delete(count);
+    }
+    // Text both operations delete is simply gone
+
+    op1 = Math.abs(op1) === count ? a[i1++] : op1 - Math.sign(op1) * count;
+    op2 = Math.abs(op2) === count ? b[i2++] : op2 - Math.sign(op2) * count;
+  }
+
+  return [aPrime.operation, bPrime.operation];
+}
+
+// Move a caret or selection bound so it stays on the same text after
+// `operation`; text inserted at the caret pushes it right
+export function transformCaret(
+  index: number,
+  operation: TextOperation
+): number {
+  let remaining = index;
+  let result = index;
+  for (const component of operation) {
+    if (isRetain(component)) {
+      remaining -= component;
+    } else if (isInsert(component)) {
+      result += component.length;
+    } else {
+      result -= Math.min(remaining, -component);
+      remaining += component;
+    }
+    if (remaining < 0) break;
+  }
+  return result;
+}
+
+/**
+ * The operation turning `before` into `after`, as a single replacement
+ * between their common prefix and suffix. Enough for textarea edits, where
+ * each change is one contiguous range.
+ */
+export function diffText(before: string, after: string): TextOperation {
+  let prefix = 0;
+  const maxPrefix = Math.min(before.length, after.length);
+  while (prefix < maxPrefix && before[prefix] === after[prefix]) prefix++;
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return new OperationBuilder()
+    .retain(prefix)
+    .insert(after.slice(prefix, after.length - suffix))
+    .delete(before.length - prefix - suffix)
+    .retain(suffix).operation;
+}
+
+/**
+ * Client side of a collaborative text document, after ot.js: at most one
+ * operation is in flight to the server, and local edits made meanwhile are
+ * composed into a buffer that is sent once the server acknowledges it.
+ * `revision` is the last server revision this client has seen.
+ */
+export class TextOperationClient {
+  outstanding: TextOperation | null = null;
+  buffer: TextOperation | null = null;
+
+  constructor(public revision: number, public text: string) {}
+
+  get hasPendingOperations(): boolean {
+    return this.outstanding !== null;
+  }
+
+  // Apply a local edit; returns the operation to send now, if any
+  applyLocal(operation: TextOperation): TextOperation | null {
+    this.text = applyTextOperation(this.text, operation);
+    if (this.buffer) {
+      this.buffer = composeTextOperations(this.buffer, operation);
+    } else if (this.outstanding) {
+      this.buffer = operation;
+    } else {
+      this.outstanding = operation;
+      return operation;
+    }
+    return null;
+  }
+
+  // Apply another client's operation, which produced `revision + 1` on the
+  // server; returns it as transformed onto the local text
+  applyRemote(operation: TextOperation): TextOperation {
+    let remote = operation;
+    if (this.outstanding) {
+      [this.outstanding, remote] = transformTextOperations(
+        this.outstanding,
+        remote
+      );
+    }
+    if (this.buffer) {
+      [this.buffer, remote] = transformTextOperations(this.buffer, remote);
+    }
+    this.revision++;
+    this.text = applyTextOperation(this.text, remote);
+    return remote;
+  }
+
+  // The server applied the outstanding operation; returns the buffered
+  // operation to send next, if any
+  acknowledge(): TextOperation | null {
+    this.revision++;
+    this.outstanding = this.buffer;
+    this.buffer = null;
+    return this.outstanding;
+  }
+
+  // Map a caret at the current server revision onto the local text
+  transformServerCaret(index: number): number {
+    let result = index;
+    if (this.outstanding) result = transformCaret(result, this.outstanding);
+    if (this.buffer) result = transformCaret(result, this.buffer);
+    return result;
+  }
+}
@@ -1,12 +1,29 @@
 import { z } from "zod";
+import { TextOperation } from "./text-ot";
 
-// Task Status Enum
-export type TaskStatus =
-  | "TODO"
-  | "IN_PROGRESS"
-  | "IN_REVIEW"
-  | "DONE"
-  | "BLOCKED";
+// Task status: the key of a status in the project's workflow
+export type TaskStatus = string;
+
+// Workflow types. Statuses are listed in board order; `transitions` maps a
+// status key to the keys a task may move to from it, and statuses without an
+// entry may move anywhere.
+export type StatusCategory = "NOT_STARTED" | "ACTIVE" | "DONE";
+
+export interface WorkflowStatus {
+  key: string;
+  label: string;
+  color: string; // Hex color, e.g. "#2563eb"
+  category: StatusCategory;
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  transitions: Record<string, string[]>;
+  blockedStatus?: string | null; // Where autoBlock moves blocked tasks
+}
+
+// Project Role Enum, ordered from most to least privileged
+export type ProjectRole = "OWNER" | "ADMIN" | "MEMBER" | "VIEWER";
 
 // Configuration types
 export interface TaskConfiguration {
@@ -27,6 +44,7 @@ export interface User {
   createdAt: Date | string;
   updatedAt: Date | string;
   projects?: Project[];
+  memberships?: ProjectMember[];
   assignedTasks?: Task[];
   comments?: Comment[];
 }
@@ -36,11 +54,27 @@ export interface Project {
   name: string;
   description?: string | null;
   metadata?: Record<string, unknown> | null; // JSON object
+  autoBlock?: boolean; // Derive BLOCKED from dependency state on the server
+  workflow?: Workflow | null; // null uses DEFAULT_WORKFLOW
   ownerId: string;
   createdAt: Date | string;
   updatedAt: Date | string;
   owner?: User;
+  members?: ProjectMember[];
   tasks?: Task[];
+  taskCount?: number; // Set by the project list endpoint instead of tasks
+  role?: ProjectRole; // Role of the requesting user, resolved by the API
+}
+
+export interface ProjectMember {
+  id: string;
+  projectId: string;
+  userId: string;
+  role: ProjectRole;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  project?: Project;
+  user?: User;
 }
 
 export interface Task {
@@ -51,48 +85,183 @@ export interface Task {
   assignedTo: string[]; // Array of user IDs
   configuration: TaskConfiguration | Record<string, unknown> | null; // JSON object
   dependencies: string[]; // Array of task IDs
+  startDate?: Date | string | null;
+  dueDate?: Date | string | null;
+  estimate?: number | null; // Hours of work the task was expected to take
+  remaining?: number | null; // Hours of work still left
+  checklist?: ChecklistItem[]; // In display order
+  rank?: string; // Position in its board column; see lib/rank.ts
+  attachments?: Attachment[]; // With its comments' attachments, oldest first
+  version?: number; // Incremented on every write; sent back in If-Match
+  descriptionRevision?: number; // Operations applied to the description
   createdAt: Date | string;
   updatedAt: Date | string;
   project?: Project;
   assignees?: User[];
   comments?: Comment[];
+  commentCount?: number; // Set by the task list endpoint instead of comments
+}
+
+// An item of a task's checklist, stored with the task
+export interface ChecklistItem {
+  id: string;
+  content: string;
+  done: boolean;
+}
+
+// A file attached to a task, or to one of its comments when commentId is set.
+// The file is downloaded from /api/attachments/{id}.
+export interface Attachment {
+  id: string;
+  taskId: string;
+  commentId?: string | null;
+  fileName: string;
+  mimeType: string;
+  size: number; // Bytes
+  uploadedBy: string | null; // User ID; null once their account is deleted
+  createdAt: Date | string;
 }
 
 export interface Comment {
   id: string;
   taskId: string;
+  parentId?: string | null; // Set on replies to a top-level comment
   content: string;
   authorId: string;
   timestamp: Date | string;
+  reactions?: CommentReaction[]; // Oldest first
   task?: Task;
   author?: User;
 }
 
+export interface CommentReaction {
+  emoji: string; // One of REACTION_EMOJIS
+  userId: string;
+  createdAt: Date | string;
+}
+
+// Activity log types. `changes` holds the fields a write changed, with null
+// standing in for values that didn't exist (before a create, after a delete).
+export type ActivityEntity = "PROJECT" | "TASK" | "COMMENT";
+export type ActivityAction = "CREATED" | "UPDATED" | "DELETED";
+export type ActivityChanges = Record<
+  string,
+  { before: unknown; after: unknown }
+>;
+
+export interface Activity {
+  id: string;
+  projectId: string;
+  taskId?: string | null;
+  commentId?: string | null;
+  entityType: ActivityEntity;
+  action: ActivityAction;
+  actorId?: string | null; // null for changes the server made on its own
+  actor?: Pick<User, "id" | "email" | "firstName" | "lastName" | "imageUrl">;
+  changes: ActivityChanges;
+  operationId: string;
+  supersedesId?: string | null; // The entry this one sums up with its change
+  createdAt: Date | string;
+}
+
+// Collaborative description types. Each operation in a task's log turns
+// revision - 1 of the description into `revision`; clientId identifies the
+// editor session that sent it and is null for plain PUT updates.
+export interface DescriptionOperation {
+  taskId: string;
+  revision: number;
+  operation: TextOperation;
+  clientId: string | null;
+  userId: string | null;
+  createdAt: Date | string;
+}
+
+// DESCRIPTION_OP payload: the logged operation and the task fields it changed
+export interface DescriptionOperationBroadcast extends DescriptionOperation {
+  projectId: string;
+  configuration: Task["configuration"];
+  version?: number;
+  operationId: string;
+}
+
+export interface DescriptionDocument {
+  text: string;
+  revision: number;
+  operations?: DescriptionOperation[]; // Set when requested with `since`
+}
+
+// Where another editor's caret is, at a given revision of the description
+export interface DescriptionCaret {
+  taskId: string;
+  clientId: string;
+  revision: number;
+  index: number | null; // null once the editor is closed
+  selectionEnd?: number;
+  userId?: string;
+  initials?: string;
+}
+
 // With PostgreSQL, we don't need parsed types since JSON fields are handled natively
 export type ParsedTask = Task;
 export type ParsedProject = Project;
 
-// WebSocket message types
-export interface WebSocketMessage {
-  type:
-    | "TASK_UPDATE"
-    | "TASK_CREATE"
-    | "TASK_DELETE"
-    | "COMMENT_UPDATE"
-    | "COMMENT_CREATE"
-    | "COMMENT_DELETE"
-    | "PROJECT_UPDATE"
-    | "JOIN_PROJECT"
-    | "LEAVE_PROJECT"
-    | "SET_USER"
-    | "USER_PRESENCE"
-    | "CONNECTION_ESTABLISHED"
-    | "ERROR";
-  payload?: unknown;
-  projectId?: string;
-  operationId: string;
-  timestamp: number;
-  userId?: string;
+// WebSocket message types, inferred from the protocol schemas
+export type { ClientMessage, ServerMessage } from "./ws-protocol";
+
+// Short-lived token for authenticating WebSocket connections
+export interface WebSocketToken {
+  token: string;
+  expiresAt: number;
+}
+
+// Dependency graph types. Edges point from a dependency to the task that
+// depends on it. Scheduling fields are in hours (a task's remaining work or
+// estimate when set, otherwise 1 per task; tasks in a done status weigh 0) and
+// are null for tasks caught in a dependency cycle.
+export interface DependencyGraphNode {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  dependencies: string[]; // Only dependencies within the project
+  dependents: string[];
+  depth: number | null; // Longest chain of dependencies below the task
+  weight: number;
+  earliestStart: number | null;
+  earliestFinish: number | null;
+  slack: number | null; // How far the task can slip without delaying the project
+  blocked: boolean; // Some dependency is not in a done status
+  ready: boolean; // Not started (or blocked) and every dependency is done
+}
+
+export interface DependencyGraph {
+  nodes: DependencyGraphNode[];
+  edges: { from: string; to: string }[];
+  order: string[]; // Topological order; dependencies come first
+  criticalPath: string[];
+  duration: number; // Total weight of the critical path
+  ready: string[];
+  cyclic: string[]; // Tasks that can't be ordered because of a cycle
+}
+
+// Full-text search types. Snippets are plain text with matches wrapped in
+// SEARCH_HIGHLIGHT_START/END; render them as text, never as HTML.
+export const SEARCH_HIGHLIGHT_START = "<mark>";
+export const SEARCH_HIGHLIGHT_END = "</mark>";
+
+export interface SearchHighlight {
+  field: "title" | "description" | "tags" | "comment";
+  snippet: string;
+  commentId?: string; // Set for comment matches
+}
+
+export interface SearchResult {
+  taskId: string;
+  projectId: string;
+  projectName: string;
+  title: string;
+  status: TaskStatus;
+  rank: number;
+  highlights: SearchHighlight[];
 }
 
 // Real-time update types
@@ -101,6 +270,7 @@ export interface TaskUpdate {
   projectId: string;
   changes: Partial<ParsedTask>;
   operationId: string;
+  causedBy?: string; // operationId of the write that triggered this change
   timestamp: number;
 }
 
@@ -112,19 +282,86 @@ export interface CommentUpdate {
   timestamp: number;
 }
 
+// COMMENT_REACTION payload: a comment's reactions after one was added or
+// removed
+export interface CommentReactionUpdate {
+  commentId: string;
+  taskId: string;
+  reactions: CommentReaction[];
+  operationId: string;
+  timestamp: number;
+}
+
 // API Response types
 export interface ApiResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
   operationId?: string;
+  nextCursor?: string | null; // Set on paginated lists; null on the last page
+  conflict?: boolean; // Set on 409s, whose data is the current server state
 }
 
 // Validation schemas
+export const WorkflowSchema = z
+  .object({
+    statuses: z
+      .array(
+        z.object({
+          key: z
+            .string()
+            .regex(
+              /^[A-Z][A-Z0-9_]{0,31}$/,
+              "Status keys must be upper case letters, digits and underscores"
+            ),
+          label: z.string().trim().min(1).max(50),
+          color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a hex color"),
+          category: z.enum(["NOT_STARTED", "ACTIVE", "DONE"]),
+        })
+      )
+      .min(1, "A workflow needs at least one status")
+      .max(20),
+    transitions: z.record(z.array(z.string())).default({}),
+    blockedStatus: z.string().nullable().optional(),
+  })
+  .superRefine((workflow, ctx) => {
+    const keys = workflow.statuses.map((status) => status.key);
+    const known = new Set(keys);
+    const issue = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+    keys.forEach((key, index) => {
+      if (keys.indexOf(key) !== index) {
+        issue(["statuses", index, "key"], `Duplicate status "${key}"`);
+      }
+    });
+    Object.entries(workflow.transitions).forEach(([from, targets]) => {
+      if (!known.has(from)) {
+        issue(["transitions", from], `Unknown status "${from}"`);
+      }
+      targets
+        .filter((to) => !known.has(to))
+        .forEach((to) => {
+          issue(["transitions", from], `Unknown status "${to}"`);
+        });
+    });
+    if (workflow.blockedStatus) {
+      const blocked = workflow.statuses.find(
+        (status) => status.key === workflow.blockedStatus
+      );
+      if (!blocked) {
+        issue(["blockedStatus"], `Unknown status "${workflow.blockedStatus}"`);
+      } else if (blocked.category === "DONE") {
+        issue(["blockedStatus"], "The blocked status cannot be a done status");
+      }
+    }
+  });
+
 export const CreateProjectSchema = z.object({
   name: z.string().min(1, "Project name is required"),
   description: z.string().optional(),
   metadata: z.record(z.any()).optional(),
+  workflow: WorkflowSchema.optional(),
   ownerId: z.string().min(1, "Owner ID is required"),
 });
 
@@ -132,46 +369,106 @@ export const UpdateProjectSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
   metadata: z.record(z.any()).optional(),
+  autoBlock: z.boolean().optional(),
+  workflow: WorkflowSchema.nullable().optional(), // null restores the default
 });
 
-export const CreateTaskSchema = z.object({
-  projectId: z.string(),
-  title: z.string().min(1, "Task title is required"),
-  status: z
-    .enum(["TODO", "IN_PROGRESS", "IN_REVIEW", "DONE", "BLOCKED"])
-    .default("TODO"),
-  assignedTo: z.array(z.string()).default([]),
-  configuration: z
-    .object({
-      priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).default("MEDIUM"),
-      description: z.string().optional(),
-      tags: z.array(z.string()).default([]),
-      customFields: z.record(z.unknown()).default({}),
-    })
-    .default({}),
-  dependencies: z.array(z.string()).default([]),
-});
-
-export const UpdateTaskSchema = z.object({
-  title: z.string().min(1).optional(),
-  status: z
-    .enum(["TODO", "IN_PROGRESS", "IN_REVIEW", "DONE", "BLOCKED"])
-    .optional(),
-  assignedTo: z.array(z.string()).optional(),
-  configuration: z
-    .object({
-      priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).optional(),
-      description: z.string().optional(),
-      tags: z.array(z.string()).optional(),
-      customFields: z.record(z.unknown()).optional(),
-    })
-    .optional(),
-  dependencies: z.array(z.string()).optional(),
+export const AddProjectMemberSchema = z
+  .object({
+    userId: z.string().min(1).optional(),
+    email: z.string().email().optional(),
+    role: z.enum(["ADMIN", "MEMBER", "VIEWER"]).default("MEMBER"),
+  })
+  .refine((data) => data.userId || data.email, {
+    message: "Either userId or email is required",
+  });
+
+export const UpdateProjectMemberSchema = z.object({
+  role: z.enum(["ADMIN", "MEMBER", "VIEWER"]),
 });
 
+// Task dates are ISO 8601 dates ("2025-03-01") or date-times; null clears one
+const taskDate = z
+  .union([z.string().date(), z.string().datetime({ offset: true })])
+  .transform((value) => new Date(value));
+
+// Upper end of a date range; a plain date includes the whole day (UTC)
+const taskDateRangeEnd = z.union([
+  z
+    .string()
+    .date()
+    .transform((value) => new Date(`${value}T23:59:59.999Z`)),
+  taskDate,
+]);
+
+// Estimates are in hours
+const taskHours = z.number().nonnegative().max(100_000);
+
+// A task may not be due before it starts
+function checkTaskDates(
+  task: { startDate?: Date | null; dueDate?: Date | null },
+  ctx: z.RefinementCtx
+): void {
+  if (task.startDate && task.dueDate && task.dueDate < task.startDate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["dueDate"],
+      message: "Due date cannot be before the start date",
+    });
+  }
+}
+
+export const CreateTaskSchema = z
+  .object({
+    projectId: z.string(),
+    title: z.string().min(1, "Task title is required"),
+    status: z.string().min(1).optional(), // Defaults to the workflow's first status
+    assignedTo: z.array(z.string()).default([]),
+    configuration: z
+      .object({
+        priority: z
+          .enum(["LOW", "MEDIUM", "HIGH", "URGENT"])
+          .default("MEDIUM"),
+        description: z.string().optional(),
+        tags: z.array(z.string()).default([]),
+        customFields: z.record(z.unknown()).default({}),
+      })
+      .default({}),
+    dependencies: z.array(z.string()).default([]),
+    startDate: taskDate.nullable().optional(),
+    dueDate: taskDate.nullable().optional(),
+    estimate: taskHours.nullable().optional(),
+    remaining: taskHours.nullable().optional(), // Defaults to the estimate
+  })
+  .superRefine(checkTaskDates);
+
+// Dates are checked against the stored ones by TaskService.update, since an
+// update may only change one of them
+export const UpdateTaskSchema = z
+  .object({
+    title: z.string().min(1).optional(),
+    status: z.string().min(1).optional(),
+    assignedTo: z.array(z.string()).optional(),
+    configuration: z
+      .object({
+        priority: z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"]).optional(),
+        description: z.string().optional(),
+        tags: z.array(z.string()).optional(),
+        customFields: z.record(z.unknown()).optional(),
+      })
+      .optional(),
+    dependencies: z.array(z.string()).optional(),
+    startDate: taskDate.nullable().optional(),
+    dueDate: taskDate.nullable().optional(),
+    estimate: taskHours.nullable().optional(),
+    remaining: taskHours.nullable().optional(),
+  })
+  .superRefine(checkTaskDates);
+
 export const CreateCommentSchema = z.object({
   id: z.string().optional(), // Optional since it can be generated by API route or service
   taskId: z.string(),
+  parentId: z.string().nullish(), // The top-level comment this replies to
   content: z.string().min(1, "Comment content is required"),
   authorId: z.string().optional(), // Optional since API route sets it
 });
@@ -180,10 +477,193 @@ export const UpdateCommentSchema = z.object({
   content: z.string().min(1, "Comment content is required"),
 });
 
+// The emoji comments can be reacted with
+export const REACTION_EMOJIS = [
+  "👍",
+  "👎",
+  "😄",
+  "🎉",
+  "😕",
+  "❤️",
+  "🚀",
+  "👀",
+] as const;
+
+export const CommentReactionSchema = z.object({
+  emoji: z.enum(REACTION_EMOJIS, {
+    errorMap: () => ({ message: "Unsupported reaction" }),
+  }),
+});
+
+// Checklists are capped so a task broadcast stays well under the WebSocket
+// message limit
+export const MAX_CHECKLIST_ITEMS = 100;
+
+const checklistContent = z.string().trim().min(1).max(500);
+
+export const CreateChecklistItemSchema = z.object({
+  content: checklistContent,
+});
+
+export const UpdateChecklistItemSchema = z
+  .object({
+    content: checklistContent.optional(),
+    done: z.boolean().optional(),
+  })
+  .refine(
+    (item) => item.content !== undefined || item.done !== undefined,
+    "Nothing to update"
+  );
+
+export const ReorderChecklistSchema = z.object({
+  itemIds: z.array(z.string().min(1)), // Every item of the checklist, in order
+});
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Types that can be uploaded. Images are shown as thumbnails; SVG is left
+// out because it can carry scripts.
+export const ATTACHMENT_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "application/json",
+  "application/zip",
+  "text/plain",
+  "text/csv",
+  "text/markdown",
+] as const;
+
+// An uploaded file's metadata, checked before it is stored
+export const UploadAttachmentSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  mimeType: z.enum(ATTACHMENT_MIME_TYPES, {
+    errorMap: () => ({
+      message: `Files must be one of: ${ATTACHMENT_MIME_TYPES.join(", ")}`,
+    }),
+  }),
+  size: z
+    .number()
+    .int()
+    .positive("File is empty")
+    .max(MAX_ATTACHMENT_BYTES, "Files are limited to 10 MB"),
+});
+
+export const MoveTaskSchema = z.object({
+  status: z.string().min(1).optional(), // Defaults to the current status
+  afterTaskId: z.string().min(1).nullable(), // Null moves it to the top
+});
+
+// Comma-separated query parameter whose items match the given schema
+const commaSeparated = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .string()
+    .transform((value) =>
+      value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+    .pipe(z.array(item));
+
+export const TASK_SORT_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "title",
+  "startDate",
+  "dueDate",
+] as const;
+
+export const TaskListQuerySchema = z.object({
+  status: commaSeparated(z.string()).optional(), // Workflow status keys
+  priority: commaSeparated(
+    z.enum(["LOW", "MEDIUM", "HIGH", "URGENT"])
+  ).optional(),
+  assignee: z.string().min(1).optional(), // User ID
+  tag: z.string().min(1).optional(),
+  dependencies: z.enum(["ready", "blocked"]).optional(),
+  q: z.string().trim().min(1).optional(), // Matches title or description
+  // Date ranges, inclusive; tasks without the date never match
+  startFrom: taskDate.optional(),
+  startTo: taskDateRangeEnd.optional(),
+  dueFrom: taskDate.optional(),
+  dueTo: taskDateRangeEnd.optional(),
+  sort: z.enum(TASK_SORT_FIELDS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().min(1).optional(), // Opaque; taken from nextCursor
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  include: z.enum(["comments"]).optional(),
+});
+
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(200),
+  projectId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const ActivityQuerySchema = z.object({
+  cursor: z.string().min(1).optional(), // Opaque; taken from nextCursor
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const DescriptionOperationSchema = z.object({
+  revision: z.number().int().min(0), // The revision the operation is based on
+  operation: z
+    .array(
+      z.union([
+        z
+          .number()
+          .int()
+          .refine((count) => count !== 0, "Empty component"),
+        z.string().min(1),
+      ])
+    )
+    .min(1),
+  clientId: z.string().min(1),
+});
+
+export const DescriptionQuerySchema = z.object({
+  since: z.coerce.number().int().min(0).optional(), // Include later operations
+});
+
+export const WebSocketTokenRequestSchema = z.object({
+  projectId: z.string().optional(), // Request a project grant for JOIN_PROJECT
+});
+
 // Type exports for validation
 export type CreateProjectInput = z.infer<typeof CreateProjectSchema>;
 export type UpdateProjectInput = z.infer<typeof UpdateProjectSchema>;
+export type AddProjectMemberInput = z.infer<typeof AddProjectMemberSchema>;
+export type UpdateProjectMemberInput = z.infer<
+  typeof UpdateProjectMemberSchema
+>;
 export type CreateTaskInput = z.infer<typeof CreateTaskSchema>;
 export type UpdateTaskInput = z.infer<typeof UpdateTaskSchema>;
 export type CreateCommentInput = z.infer<typeof CreateCommentSchema>;
 export type UpdateCommentInput = z.infer<typeof UpdateCommentSchema>;
+export type CommentReactionInput = z.infer<typeof CommentReactionSchema>;
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
+export type CreateChecklistItemInput = z.infer<
+  typeof CreateChecklistItemSchema
+>;
+export type UpdateChecklistItemInput = z.infer<
+  typeof UpdateChecklistItemSchema
+>;
+export type ReorderChecklistInput = z.infer<typeof ReorderChecklistSchema>;
+export type MoveTaskInput = z.infer<typeof MoveTaskSchema>;
+export type UploadAttachmentInput = z.infer<typeof UploadAttachmentSchema>;
+export type TaskListQuery = z.infer<typeof TaskListQuerySchema>;
+export type TaskListQueryInput = z.input<typeof TaskListQuerySchema>;
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
+export type SearchQueryInput = z.input<typeof SearchQuerySchema>;
+export type ActivityQuery = z.infer<typeof ActivityQuerySchema>;
+export type ActivityQueryInput = z.input<typeof ActivityQuerySchema>;
+export type DescriptionOperationInput = z.infer<
+  typeof DescriptionOperationSchema
+>;
+export type DescriptionQuery = z.infer<typeof DescriptionQuerySchema>;
+export type WebSocketTokenRequestInput = z.infer<
+  typeof WebSocketTokenRequestSchema
+>;
@@ -1,18 +1,22 @@
 import { useCallback, useEffect, useRef } from "react";
 import { useAppStore } from "./store";
-import { WebSocketMessage } from "./types";
+import { apiClient } from "./api-client";
+import { ClientMessage, ServerMessage } from "./types";
+import { parseServerMessage } from "./ws-protocol";
+import { publishDescriptionMessage } from "./description-events";
+import { RoomSequencer } from "./room-sequencer";
 
 interface UseWebSocketOptions {
   url?: string;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
   userId?: string;
-  userInfo?: {
-    name?: string;
-    firstName?: string;
-    lastName?: string;
-    email?: string;
-  };
+}
+
+// Append the signed connection token; the server rejects the upgrade without it
+function withToken(url: string, token: string): string {
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}token=${encodeURIComponent(token)}`;
 }
 
 export function useWebSocket(options: UseWebSocketOptions = {}) {
@@ -21,16 +25,16 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     reconnectInterval = 3000,
     maxReconnectAttempts = 5,
     userId = "test-user",
-    userInfo,
   } = options;
 
   const wsRef = useRef<WebSocket | null>(null);
   const isConnectingRef = useRef(false);
   const reconnectAttemptsRef = useRef(0);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const userSetRef = useRef(false);
   const currentProjectRef = useRef<string | null>(null);
   const hasJoinedProjectRef = useRef(false);
+  // Orders room messages; kept across reconnects so missed ones can be replayed
+  const sequencerRef = useRef<RoomSequencer | null>(null);
 
   // Get Zustand store functions
   const {
@@ -43,6 +47,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     handleCommentUpdate,
     handleCommentCreate,
     handleCommentDelete,
+    handleCommentReaction,
     handleUserPresence,
   } = useAppStore();
 
@@ -50,7 +55,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
   const isClient = typeof window !== "undefined";
 
   const sendMessage = useCallback(
-    (message: WebSocketMessage) => {
+    (message: ClientMessage) => {
       console.log("sendMessage called:", {
         message,
         readyState: wsRef.current?.readyState,
@@ -72,46 +77,6 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     [wsConnected]
   );
 
-  const setUser = useCallback(
-    (userId: string, userInfo?: UseWebSocketOptions["userInfo"]) => {
-      // Only send SET_USER once per session
-      if (userSetRef.current) {
-        console.log("🔧 setUser called but already set, skipping:", {
-          userId,
-          userInfo,
-          hasUserInfo: !!userInfo,
-          timestamp: new Date().toISOString(),
-        });
-        return;
-      }
-
-      console.log("🔧 setUser called with:", {
-        userId,
-        userInfo,
-        hasUserInfo: !!userInfo,
-        userInfoKeys: userInfo ? Object.keys(userInfo) : [],
-        userInfoContent: userInfo
-          ? {
-              name: userInfo.name,
-              firstName: userInfo.firstName,
-              lastName: userInfo.lastName,
-              email: userInfo.email,
-            }
-          : null,
-        timestamp: new Date().toISOString(),
-      });
-
-      userSetRef.current = true;
-      sendMessage({
-        type: "SET_USER",
-        payload: { userId, userInfo },
-        operationId: `set-user-${Date.now()}`,
-        timestamp: Date.now(),
-      });
-    },
-    [sendMessage]
-  );
-
   const joinProject = useCallback(
     (projectId: string) => {
       console.log("🔧 joinProject called:", {
@@ -133,6 +98,7 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
           operationId: `leave-project-${Date.now()}`,
           timestamp: Date.now(),
         });
+        sequencerRef.current?.forget(currentProjectRef.current);
         hasJoinedProjectRef.current = false;
       }
 
@@ -145,16 +111,26 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
         currentProjectRef.current = projectId;
         hasJoinedProjectRef.current = true;
 
-        sendMessage({
-          type: "JOIN_PROJECT",
-          projectId,
-          userId,
-          operationId: `join-project-${Date.now()}`,
-          timestamp: Date.now(),
+        // The server only admits us to the room with a grant for this project
+        apiClient.getWebSocketToken(projectId).then((response) => {
+          if (!response.success || !response.data) {
+            console.error("Failed to get project grant:", response.error);
+            hasJoinedProjectRef.current = false;
+            return;
+          }
+          if (currentProjectRef.current !== projectId) return;
+
+          sendMessage({
+            type: "JOIN_PROJECT",
+            projectId,
+            token: response.data.token,
+            operationId: `join-project-${Date.now()}`,
+            timestamp: Date.now(),
+          });
         });
       }
     },
-    [sendMessage, userId, wsConnected]
+    [sendMessage, wsConnected]
   );
 
   const leaveProject = useCallback(
@@ -173,6 +149,12 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
         timestamp: Date.now(),
       });
 
+      // Leaving because the connection dropped keeps the sequence position,
+      // so the next join can resume from it
+      if (wsRef.current?.readyState === WebSocket.OPEN) {
+        sequencerRef.current?.forget(projectId);
+      }
+
       if (currentProjectRef.current === projectId) {
         currentProjectRef.current = null;
         hasJoinedProjectRef.current = false;
@@ -194,40 +176,108 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     isConnectingRef.current = false;
   }, [setWsConnected]);
 
-  // Call setUser when userId changes after WebSocket is connected
-  // Only send SET_USER once per session to avoid spam
-  useEffect(() => {
-    if (wsConnected && userId && !userSetRef.current) {
-      console.log("🔄 userId/userInfo changed, calling setUser:", {
-        wsConnected,
-        userId,
-        userInfo,
-        hasUserInfo: !!userInfo,
-        userInfoContent: userInfo
-          ? {
-              name: userInfo.name,
-              firstName: userInfo.firstName,
-              lastName: userInfo.lastName,
-              email: userInfo.email,
-            }
-          : null,
-        timestamp: new Date().toISOString(),
-      });
-
-      // Add a small delay to ensure WebSocket is fully ready
-      setTimeout(() => {
-        setUser(userId, userInfo);
-      }, 200);
-    }
-  }, [userId, userInfo, wsConnected, setUser]);
-
   // Connect on mount with a small delay to ensure page is ready
   useEffect(() => {
     if (!isClient) return; // Don't connect during SSR
 
+    // Apply a validated message to the store
+    const dispatch = (message: ServerMessage) => {
+      // Skip messages from the current user to prevent processing our own updates
+      if ("userId" in message && message.userId === userId) {
+        console.log("Ignoring message from self:", {
+          type: message.type,
+          userId: message.userId,
+          currentUserId: userId,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Use the current values from the store
+      addWsMessage(message);
+
+      switch (message.type) {
+        case "ERROR":
+          console.error("WebSocket server error:", {
+            code: message.code,
+            error: message.error,
+          });
+          break;
+        case "TASK_UPDATE":
+          handleTaskUpdate(message.payload);
+          break;
+        case "TASK_CREATE":
+          handleTaskCreate(message.payload);
+          break;
+        case "TASK_DELETE":
+          handleTaskDelete(message.payload.taskId);
+          break;
+        case "COMMENT_UPDATE":
+          handleCommentUpdate(message.payload);
+          break;
+        case "COMMENT_CREATE":
+          handleCommentCreate(message.payload);
+          break;
+        case "COMMENT_DELETE":
+          handleCommentDelete(message.payload.taskId, message.payload.id);
+          break;
+        case "COMMENT_REACTION":
+          handleCommentReaction(message.payload);
+          break;
+        case "USER_PRESENCE":
+          handleUserPresence(message.payload);
+          break;
+        case "DESCRIPTION_OP": {
+          const { payload } = message;
+          handleTaskUpdate({
+            id: payload.taskId,
+            projectId: payload.projectId,
+            changes: {
+              configuration: payload.configuration,
+              descriptionRevision: payload.revision,
+              version: payload.version,
+            },
+            operationId: payload.operationId,
+            timestamp: message.timestamp,
+          });
+          publishDescriptionMessage(payload.taskId, message);
+          break;
+        }
+        case "DESCRIPTION_CARET":
+          publishDescriptionMessage(message.payload.taskId, message);
+          break;
+      }
+    };
+
+    // Messages in a project room are numbered; apply them in order, and ask
+    // the server to replay any that were missed
+    const sequencer = new RoomSequencer({
+      dispatch,
+      resume: (projectId, position) => {
+        if (wsRef.current?.readyState !== WebSocket.OPEN) return false;
+        wsRef.current.send(
+          JSON.stringify({
+            type: "RESUME",
+            projectId,
+            lastSequence: position.seq,
+            epoch: position.epoch,
+            operationId: `resume-${Date.now()}`,
+            timestamp: Date.now(),
+          } satisfies ClientMessage)
+        );
+        return true;
+      },
+      resync: (projectId) => {
+        console.log("Missed messages are no longer available, refetching");
+        const { fetchTasks, tasksQuery } = useAppStore.getState();
+        fetchTasks(projectId, tasksQuery);
+      },
+    });
+    sequencerRef.current = sequencer;
+
     // Use refs to avoid dependency issues
     const connectWithDelay = () => {
-      setTimeout(() => {
+      setTimeout(async () => {
         console.log("Attempting WebSocket connection after delay...");
         // Call connect directly without depending on the function reference
         if (
@@ -240,25 +290,34 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
             timestamp: new Date().toISOString(),
           });
 
+          // Identity comes from a fresh token on every (re)connect
+          const tokenResponse = await apiClient.getWebSocketToken();
+          if (!tokenResponse.success || !tokenResponse.data) {
+            console.error(
+              "Failed to get WebSocket token:",
+              tokenResponse.error
+            );
+            isConnectingRef.current = false;
+            if (reconnectAttemptsRef.current < maxReconnectAttempts) {
+              reconnectAttemptsRef.current++;
+              setTimeout(() => {
+                connectWithDelay();
+              }, reconnectInterval);
+            }
+            return;
+          }
+
           try {
-            wsRef.current = new WebSocket(url);
+            wsRef.current = new WebSocket(
+              withToken(url, tokenResponse.data.token)
+            );
 
             wsRef.current.onopen = () => {
               console.log("WebSocket connected successfully");
               setWsConnected(true);
               isConnectingRef.current = false;
               reconnectAttemptsRef.current = 0;
-
-              // Set user ID if provided
-              if (userId) {
-                setTimeout(() => {
-                  console.log(
-                    "Setting user ID on WebSocket connection:",
-                    userId
-                  );
-                  setUser(userId, userInfo);
-                }, 100);
-              }
+              sequencerRef.current?.reconnected();
             };
 
             wsRef.current.onclose = (event) => {
@@ -291,52 +350,15 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
             };
 
             wsRef.current.onmessage = (event) => {
-              try {
-                const message = JSON.parse(event.data);
-
-                // Skip messages from the current user to prevent processing our own updates
-                if (message.userId === userId) {
-                  console.log("Ignoring message from self:", {
-                    type: message.type,
-                    userId: message.userId,
-                    currentUserId: userId,
-                    timestamp: new Date().toISOString(),
-                  });
-                  return;
-                }
-
-                // Use the current values from the store
-                addWsMessage(message);
-
-                switch (message.type) {
-                  case "TASK_UPDATE":
-                    handleTaskUpdate(message.payload);
-                    break;
-                  case "TASK_CREATE":
-                    handleTaskCreate(message.payload);
-                    break;
-                  case "TASK_DELETE":
-                    handleTaskDelete(message.payload.taskId);
-                    break;
-                  case "COMMENT_UPDATE":
-                    handleCommentUpdate(message.payload);
-                    break;
-                  case "COMMENT_CREATE":
-                    handleCommentCreate(message.payload);
-                    break;
-                  case "COMMENT_DELETE":
-                    handleCommentDelete(
-                      message.payload.taskId,
-                      message.payload.commentId
-                    );
-                    break;
-                  case "USER_PRESENCE":
-                    handleUserPresence(message.payload);
-                    break;
-                }
-              } catch (error) {
-                console.error("Error parsing WebSocket message:", error);
+              const parsed = parseServerMessage(event.data);
+              if (!parsed.success) {
+                console.error("Dropping invalid WebSocket message:", {
+                  code: parsed.code,
+                  error: parsed.error,
+                });
+                return;
               }
+              sequencer.receive(parsed.message);
             };
           } catch (error) {
             console.error("Error creating WebSocket connection:", error);
@@ -1,6 +1,19 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
-import { ParsedTask, ParsedProject } from "./types";
+import {
+  ActivityChanges,
+  Comment,
+  CommentReaction,
+  ParsedTask,
+  ParsedProject,
+  ProjectRole,
+  TaskStatus,
+  UpdateTaskInput,
+  Workflow,
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+} from "./types";
+import { DEFAULT_WORKFLOW, getInitialStatus, isDoneStatus } from "./workflow";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -25,42 +38,28 @@ export function parseProject(project: unknown): ParsedProject {
 }
 
 // Type conversion functions for Prisma operations
-export function stringifyTaskData(
-  data: Partial<ParsedTask>
-): Record<string, unknown> {
-  const { ...taskData } = data;
-
+export function stringifyTaskData<T extends Partial<ParsedTask>>(
+  data: T
+): T & Pick<ParsedTask, "id" | "createdAt" | "updatedAt"> {
   // Ensure required fields are present
-  if (!taskData.id) {
-    taskData.id = generateId();
-  }
-  if (!taskData.createdAt) {
-    taskData.createdAt = new Date();
-  }
-  if (!taskData.updatedAt) {
-    taskData.updatedAt = new Date();
-  }
-
-  return taskData;
+  return {
+    ...data,
+    id: data.id || generateId(),
+    createdAt: data.createdAt || new Date(),
+    updatedAt: data.updatedAt || new Date(),
+  };
 }
 
-export function stringifyProjectData(
-  data: Partial<ParsedProject>
-): Record<string, unknown> {
-  const { ...projectData } = data;
-
+export function stringifyProjectData<T extends Partial<ParsedProject>>(
+  data: T
+): T & Pick<ParsedProject, "id" | "createdAt" | "updatedAt"> {
   // Ensure required fields are present
-  if (!projectData.id) {
-    projectData.id = generateId();
-  }
-  if (!projectData.createdAt) {
-    projectData.createdAt = new Date();
-  }
-  if (!projectData.updatedAt) {
-    projectData.updatedAt = new Date();
-  }
-
-  return projectData;
+  return {
+    ...data,
+    id: data.id || generateId(),
+    createdAt: data.createdAt || new Date(),
+    updatedAt: data.updatedAt || new Date(),
+  };
 }
 
 // Generate unique operation IDs for tracking updates
@@ -73,6 +72,67 @@ export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Encode a pagination cursor as URL-safe base64 JSON; clients treat it as opaque
+export function encodeCursor(value: Record<string, unknown>): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join(
+    ""
+  );
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Decode a cursor produced by encodeCursor; null when it is malformed
+export function decodeCursor<T extends Record<string, unknown>>(
+  cursor: string
+): T | null {
+  try {
+    const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const value = JSON.parse(new TextDecoder().decode(bytes));
+    return value && typeof value === "object" && !Array.isArray(value)
+      ? (value as T)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Serialize query parameters, dropping unset ones; returns "" or "?..."
+export function toQueryString(
+  query: Record<string, string | number | boolean | undefined>
+): string {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+// Split a search snippet into plain and highlighted segments for rendering
+export function splitHighlights(
+  snippet: string
+): { text: string; highlighted: boolean }[] {
+  const segments: { text: string; highlighted: boolean }[] = [];
+  snippet.split(SEARCH_HIGHLIGHT_START).forEach((part, index) => {
+    // Every part after the first starts with a highlighted match
+    const end = index === 0 ? -1 : part.indexOf(SEARCH_HIGHLIGHT_END);
+    if (end === -1) {
+      if (part) segments.push({ text: part, highlighted: false });
+      return;
+    }
+    if (end > 0) {
+      segments.push({ text: part.slice(0, end), highlighted: true });
+    }
+    const rest = part.slice(end + SEARCH_HIGHLIGHT_END.length);
+    if (rest) segments.push({ text: rest, highlighted: false });
+  });
+  return segments;
+}
+
 // Deep merge utility for updating objects
 export function deepMerge<T extends Record<string, unknown>>(
   target: T,
@@ -100,6 +160,90 @@ export function deepMerge<T extends Record<string, unknown>>(
   return result;
 }
 
+// Entity tag of a task version, as sent in ETag and expected in If-Match
+export function formatTaskETag(version: number): string {
+  return `"${version}"`;
+}
+
+// Task version named by an If-Match header: undefined when the header is
+// absent or "*", null when it isn't an ETag from formatTaskETag
+export function parseIfMatch(header: string | null): number | null | undefined {
+  const value = header?.trim();
+  if (!value || value === "*") return undefined;
+  const match = /^"(\d+)"$/.exec(value);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Rebase an update that was rejected because the task changed meanwhile.
+ * Only the fields the user changed from `base` (the task as they loaded it)
+ * are kept, so the other writer's changes survive; configuration keys are
+ * rebased one by one onto the server's configuration.
+ */
+export function mergeTaskChanges(
+  base: ParsedTask,
+  local: UpdateTaskInput,
+  server: ParsedTask
+): UpdateTaskInput {
+  const changed = (before: unknown, after: unknown) =>
+    after !== undefined && JSON.stringify(before) !== JSON.stringify(after);
+
+  const merged: Record<string, unknown> = {};
+  (["title", "status", "assignedTo", "dependencies"] as const).forEach(
+    (field) => {
+      if (changed(base[field], local[field])) merged[field] = local[field];
+    }
+  );
+
+  const baseConfiguration = (base.configuration ?? {}) as Record<
+    string,
+    unknown
+  >;
+  const configuration = { ...(server.configuration ?? {}) } as Record<
+    string,
+    unknown
+  >;
+  let configurationChanged = false;
+  Object.entries(local.configuration ?? {}).forEach(([key, value]) => {
+    if (changed(baseConfiguration[key], value)) {
+      configuration[key] = value;
+      configurationChanged = true;
+    }
+  });
+  if (configurationChanged) merged.configuration = configuration;
+
+  return merged as UpdateTaskInput;
+}
+
+// Project role hierarchy: a role grants everything the roles below it grant
+const PROJECT_ROLE_RANK: Record<ProjectRole, number> = {
+  VIEWER: 1,
+  MEMBER: 2,
+  ADMIN: 3,
+  OWNER: 4,
+};
+
+// Check whether a role meets the minimum role required for an action
+export function hasProjectRole(
+  role: ProjectRole | null | undefined,
+  minimumRole: ProjectRole
+): boolean {
+  if (!role) return false;
+  return PROJECT_ROLE_RANK[role] >= PROJECT_ROLE_RANK[minimumRole];
+}
+
+// Resolve a user's role in a project from its owner and membership rows
+export function resolveProjectRole(
+  project: {
+    ownerId: string;
+    members?: { userId: string; role: ProjectRole }[];
+  },
+  userId: string
+): ProjectRole | null {
+  if (project.ownerId === userId) return "OWNER";
+  return project.members?.find((m) => m.userId === userId)?.role ?? null;
+}
+
 // Calculate task dependencies status
 export function getTaskDependencyStatus(
   task: ParsedTask,
@@ -119,6 +263,214 @@ export function getTaskDependencyStatus(
   return "partial";
 }
 
+/**
+ * Find the cycle that giving `taskId` these dependencies would close. Returns
+ * the path from taskId back to itself (e.g. [a, b, c, a]) or null when the
+ * graph stays acyclic. Existing cycles elsewhere in the graph are ignored.
+ */
+export function findDependencyCycle(
+  taskId: string,
+  dependencies: string[],
+  tasks: Pick<ParsedTask, "id" | "dependencies">[]
+): string[] | null {
+  const edges = new Map(tasks.map((t) => [t.id, t.dependencies]));
+  edges.set(taskId, dependencies);
+
+  const visited = new Set<string>();
+  const path: string[] = [];
+  const visit = (id: string): boolean => {
+    if (id === taskId && path.length > 0) return true;
+    if (visited.has(id)) return false;
+    visited.add(id);
+    path.push(id);
+    for (const next of edges.get(id) ?? []) {
+      if (visit(next)) return true;
+    }
+    path.pop();
+    return false;
+  };
+
+  return visit(taskId) ? [...path, taskId] : null;
+}
+
+/**
+ * Status a task should have given its dependencies' statuses when a project
+ * automates blocking: open tasks with an unfinished dependency move to the
+ * workflow's blocked status and blocked tasks with none go back to its initial
+ * status. Returns null when the status already fits, when the task is done or
+ * when the workflow has no blocked status.
+ */
+export function getDependencyDrivenStatus(
+  status: TaskStatus,
+  dependencyStatuses: TaskStatus[],
+  workflow: Workflow = DEFAULT_WORKFLOW
+): TaskStatus | null {
+  const blockedStatus = workflow.blockedStatus;
+  if (!blockedStatus || isDoneStatus(workflow, status)) return null;
+
+  const blocked = dependencyStatuses.some((s) => !isDoneStatus(workflow, s));
+  if (blocked && status !== blockedStatus) return blockedStatus;
+  if (!blocked && status === blockedStatus) return getInitialStatus(workflow);
+  return null;
+}
+
+// How long before its due date an open task counts as due soon
+export const DUE_SOON_MS = 2 * 24 * 60 * 60 * 1000;
+
+export type DueState = "overdue" | "due-soon";
+
+// Whether an open task is past or close to its due date; null for tasks
+// without one and for done tasks, which can't be late any more
+export function getDueState(
+  task: Pick<ParsedTask, "status" | "dueDate">,
+  workflow: Workflow = DEFAULT_WORKFLOW,
+  now: Date = new Date()
+): DueState | null {
+  if (!task.dueDate || isDoneStatus(workflow, task.status)) return null;
+
+  const remaining = new Date(task.dueDate).getTime() - now.getTime();
+  if (remaining < 0) return "overdue";
+  if (remaining <= DUE_SOON_MS) return "due-soon";
+  return null;
+}
+
+// Checklist roll-up shown on task cards, e.g. 3 of 5 items done; null for
+// tasks without a checklist
+export function getChecklistProgress(
+  task: Pick<ParsedTask, "checklist">
+): { done: number; total: number } | null {
+  const checklist = task.checklist ?? [];
+  if (checklist.length === 0) return null;
+  return {
+    done: checklist.filter((item) => item.done).length,
+    total: checklist.length,
+  };
+}
+
+// Top-level comments in their given order, each with its replies oldest
+// first. Replies whose parent isn't loaded are shown as top-level comments.
+export function groupCommentThreads(
+  comments: Comment[]
+): Array<{ comment: Comment; replies: Comment[] }> {
+  const ids = new Set(comments.map((comment) => comment.id));
+  const replies = new Map<string, Comment[]>();
+  comments.forEach((comment) => {
+    if (!comment.parentId || !ids.has(comment.parentId)) return;
+    replies.set(comment.parentId, [
+      ...(replies.get(comment.parentId) ?? []),
+      comment,
+    ]);
+  });
+  return comments
+    .filter((comment) => !comment.parentId || !ids.has(comment.parentId))
+    .map((comment) => ({
+      comment,
+      replies: (replies.get(comment.id) ?? []).sort(
+        (a, b) =>
+          new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      ),
+    }));
+}
+
+// Reactions counted per emoji, in the order each emoji was first used, and
+// whether `userId` is among those who reacted with it
+export function summarizeReactions(
+  reactions: CommentReaction[],
+  userId: string | undefined
+): Array<{ emoji: string; count: number; reacted: boolean }> {
+  const summary = new Map<string, { count: number; reacted: boolean }>();
+  reactions.forEach((reaction) => {
+    const entry = summary.get(reaction.emoji) ?? { count: 0, reacted: false };
+    summary.set(reaction.emoji, {
+      count: entry.count + 1,
+      reacted: entry.reacted || reaction.userId === userId,
+    });
+  });
+  return Array.from(summary, ([emoji, entry]) => ({ emoji, ...entry }));
+}
+
+// Fields of a task as its activity log records them; configuration is
+// flattened so a priority change doesn't show up as a whole new object
+export function getTaskActivityFields(
+  task: Pick<
+    ParsedTask,
+    | "title"
+    | "status"
+    | "assignedTo"
+    | "dependencies"
+    | "configuration"
+    | "startDate"
+    | "dueDate"
+    | "estimate"
+    | "remaining"
+    | "checklist"
+  >
+): Record<string, unknown> {
+  const configuration = (task.configuration ?? {}) as Record<string, unknown>;
+  const toISO = (date: Date | string | null | undefined) =>
+    date ? new Date(date).toISOString() : null;
+  return {
+    title: task.title,
+    status: task.status,
+    assignedTo: task.assignedTo,
+    dependencies: task.dependencies,
+    startDate: toISO(task.startDate),
+    dueDate: toISO(task.dueDate),
+    estimate: task.estimate,
+    remaining: task.remaining,
+    checklist: task.checklist,
+    priority: configuration.priority,
+    description: configuration.description,
+    tags: configuration.tags,
+    customFields: configuration.customFields,
+  };
+}
+
+export function getProjectActivityFields(
+  project: Pick<
+    ParsedProject,
+    "name" | "description" | "metadata" | "autoBlock" | "workflow"
+  >
+): Record<string, unknown> {
+  return {
+    name: project.name,
+    description: project.description,
+    metadata: project.metadata,
+    autoBlock: project.autoBlock,
+    workflow: project.workflow,
+  };
+}
+
+export function getCommentActivityFields(
+  comment: Pick<Comment, "content">
+): Record<string, unknown> {
+  return { content: comment.content };
+}
+
+/**
+ * Field-level diff between two snapshots from the get*ActivityFields helpers.
+ * Pass null for the missing side of a create or delete. Values are compared
+ * by their JSON form; undefined is recorded as null.
+ */
+export function diffActivityFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): ActivityChanges {
+  const changes: ActivityChanges = {};
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  fields.forEach((field) => {
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  });
+  return changes;
+}
+
 // Format timestamps for display
 export function formatTimestamp(date: Date | string): string {
   const now = new Date();
@@ -142,6 +494,14 @@ export function formatTimestamp(date: Date | string): string {
   return "Just now";
 }
 
+// Format a byte count for display, e.g. "340 KB"
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const kilobytes = bytes / 1024;
+  if (kilobytes < 1024) return `${Math.round(kilobytes)} KB`;
+  return `${(kilobytes / 1024).toFixed(1)} MB`;
+}
+
 // Priority color mapping
 export function getPriorityColor(priority: string): string {
   switch (priority) {
@@ -1,15 +1,33 @@
 /**
  * WebSocket Client Service
- * Handles sending messages to the external WebSocket server via HTTP API
+ * Handles sending messages to the external WebSocket server via HTTP API.
+ * Only the outbox relay (lib/outbox-relay.ts) sends them: services record
+ * room events in the outbox, and the relay delivers them once committed.
  */
 
-interface WebSocketMessage {
+import { getBroadcastSecret, signBroadcastRequest } from "./ws-auth";
+
+export interface WebSocketBroadcast {
   type: string;
   payload: unknown;
-  operationId?: string;
-  timestamp?: number;
-  userId?: string;
-  projectId?: string;
+  projectId: string;
+  operationId: string;
+  timestamp: number;
+  userId?: string | null;
+  // The outbox event's ID; the server drops an event it has already
+  // broadcast, so the relay can safely resend one it is unsure about
+  eventId: string;
+}
+
+// Thrown when the WebSocket server did not accept a broadcast
+export class BroadcastError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = "BroadcastError";
+  }
 }
 
 class WebSocketClientService {
@@ -27,177 +45,38 @@ class WebSocketClientService {
   }
 
   /**
-   * Send a message to the WebSocket server
-   * The server will broadcast it to all connected clients in the project
+   * Send a message to the WebSocket server, which broadcasts it to all
+   * connected clients in the project. Throws a BroadcastError unless the
+   * server accepted it.
    */
-  private async sendMessage(message: WebSocketMessage): Promise<void> {
-    const url = `${this.serverUrl}/broadcast`;
-    console.log("Sending WebSocket message:", {
-      url,
-      message,
-      serverUrl: this.serverUrl,
-    });
-
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(message),
-      });
-
-      console.log("WebSocket message response:", {
-        status: response.status,
-        statusText: response.statusText,
-        ok: response.ok,
-      });
-
-      if (!response.ok) {
-        console.error("Failed to send WebSocket message:", response.statusText);
-      } else {
-        console.log("WebSocket message sent successfully");
-      }
-    } catch (error) {
-      console.error("Error sending WebSocket message:", error);
+  async broadcast(message: WebSocketBroadcast): Promise<void> {
+    // The server rejects unsigned broadcasts, so don't bother sending one
+    const secret = getBroadcastSecret();
+    if (!secret) {
+      throw new BroadcastError("WS_BROADCAST_SECRET is not set");
     }
-  }
-
-  /**
-   * Broadcast task creation to all clients in the project
-   */
-  async broadcastTaskCreate(
-    projectId: string,
-    task: unknown,
-    userId?: string
-  ): Promise<void> {
-    await this.sendMessage({
-      type: "TASK_CREATE",
-      payload: task,
-      projectId,
-      userId,
-      operationId: `task-create-${Date.now()}`,
-      timestamp: Date.now(),
-    });
-  }
-
-  /**
-   * Broadcast task update to all clients in the project
-   */
-  async broadcastTaskUpdate(
-    projectId: string,
-    update: unknown,
-    userId?: string
-  ): Promise<void> {
-    await this.sendMessage({
-      type: "TASK_UPDATE",
-      payload: update,
-      projectId,
-      userId,
-      operationId: `task-update-${Date.now()}`,
-      timestamp: Date.now(),
-    });
-  }
-
-  /**
-   * Broadcast task deletion to all clients in the project
-   */
-  async broadcastTaskDelete(
-    projectId: string,
-    taskId: string,
-    userId?: string
-  ): Promise<void> {
-    await this.sendMessage({
-      type: "TASK_DELETE",
-      payload: { taskId },
-      projectId,
-      userId,
-      operationId: `task-delete-${Date.now()}`,
-      timestamp: Date.now(),
-    });
-  }
-
-  /**
-   * Broadcast comment creation to all clients in the project
-   */
-  async broadcastCommentCreate(
-    projectId: string,
-    comment: unknown,
-    userId?: string
-  ): Promise<void> {
-    await this.sendMessage({
-      type: "COMMENT_CREATE",
-      payload: comment,
-      projectId,
-      userId,
-      operationId: `comment-create-${Date.now()}`,
-      timestamp: Date.now(),
-    });
-  }
 
-  /**
-   * Broadcast comment update to all clients in the project
-   */
-  async broadcastCommentUpdate(
-    projectId: string,
-    update: unknown,
-    userId?: string
-  ): Promise<void> {
-    await this.sendMessage({
-      type: "COMMENT_UPDATE",
-      payload: update,
-      projectId,
-      userId,
-      operationId: `comment-update-${Date.now()}`,
-      timestamp: Date.now(),
+    const body = JSON.stringify(message);
+    const response = await fetch(`${this.serverUrl}/broadcast`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...signBroadcastRequest(body, secret),
+      },
+      body,
+    }).catch((error) => {
+      throw new BroadcastError(
+        `WebSocket server unreachable: ${(error as Error).message}`
+      );
     });
-  }
 
-  /**
-   * Broadcast comment deletion to all clients in the project
-   */
-  async broadcastCommentDelete(
-    projectId: string,
-    commentId: string,
-    userId?: string
-  ): Promise<void> {
-    await this.sendMessage({
-      type: "COMMENT_DELETE",
-      payload: { id: commentId },
-      projectId,
-      userId,
-      operationId: `comment-delete-${Date.now()}`,
-      timestamp: Date.now(),
-    });
-  }
-
-  /**
-   * Broadcast project update to all clients in the project
-   */
-  async broadcastProjectUpdate(
-    projectId: string,
-    update: unknown
-  ): Promise<void> {
-    await this.sendMessage({
-      type: "PROJECT_UPDATE",
-      payload: update,
-      projectId,
-      operationId: `project-update-${Date.now()}`,
-      timestamp: Date.now(),
-    });
-  }
-
-  /**
-   * Broadcast project deletion to all clients
-   */
-  async broadcastProjectDelete(projectId: string): Promise<void> {
-    await this.sendMessage({
-      type: "PROJECT_DELETE",
-      payload: { projectId },
-      projectId,
-      operationId: `project-delete-${Date.now()}`,
-      timestamp: Date.now(),
-    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new BroadcastError(
+        error?.error || response.statusText,
+        error?.code
+      );
+    }
   }
 }
 
@@ -1,12 +1,17 @@
+import { IncomingMessage } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import {
-  WebSocketMessage,
-  TaskUpdate,
-  CommentUpdate,
-  ParsedTask,
-  Comment,
-} from "./types";
+import { ClientMessage, ServerMessage } from "./types";
 import { generateOperationId } from "./utils";
+import {
+  BroadcastRequest,
+  parseClientMessage,
+  WebSocketErrorCode,
+} from "./ws-protocol";
+import {
+  getWebSocketAuthSecret,
+  verifyWebSocketToken,
+  WebSocketTokenClaims,
+} from "./ws-auth";
 
 interface ClientConnection {
   ws: WebSocket;
@@ -19,29 +24,63 @@ class WebSocketManager {
   private wss: WebSocketServer;
   private clients: Map<string, ClientConnection> = new Map();
   private projectRooms: Map<string, Set<string>> = new Map();
+  // Nothing is sequenced here, so the epoch only identifies this run
+  private epoch = Date.now().toString(36);
+
+  private secret: string;
 
   constructor(port: number = 3001) {
-    this.wss = new WebSocketServer({ port });
+    const secret = getWebSocketAuthSecret();
+    if (!secret) {
+      throw new Error(
+        "WS_AUTH_SECRET is required to start the WebSocket server"
+      );
+    }
+    this.secret = secret;
+    this.wss = new WebSocketServer({
+      port,
+      verifyClient: ({ req }, done) => {
+        if (this.authenticate(req)) {
+          done(true);
+        } else {
+          done(false, 401, "Unauthorized");
+        }
+      },
+    });
     this.setupWebSocketServer();
   }
 
+  // Verify the connection token passed in the `token` query parameter
+  private authenticate(request: IncomingMessage): WebSocketTokenClaims | null {
+    const url = new URL(request.url || "", "http://localhost");
+    const token = url.searchParams.get("token");
+    return token ? verifyWebSocketToken(token, this.secret) : null;
+  }
+
   private setupWebSocketServer() {
-    this.wss.on("connection", (ws: WebSocket) => {
+    this.wss.on("connection", (ws: WebSocket, request: IncomingMessage) => {
+      // verifyClient has already rejected upgrades without a valid token
+      const claims = this.authenticate(request);
+      if (!claims) {
+        ws.close(1008, "Unauthorized");
+        return;
+      }
+
       const clientId = generateOperationId();
       const client: ClientConnection = {
         ws,
-        userId: "anonymous", // In a real app, extract from auth token
+        userId: claims.sub,
         lastPing: Date.now(),
       };
 
       this.clients.set(clientId, client);
 
       ws.on("message", (data) => {
-        try {
-          const message: WebSocketMessage = JSON.parse(data.toString());
-          this.handleMessage(clientId, message);
-        } catch {
-          this.sendError(clientId, "Invalid message format");
+        const parsed = parseClientMessage(data.toString());
+        if (parsed.success) {
+          this.handleMessage(clientId, parsed.message);
+        } else {
+          this.sendError(clientId, parsed.code, parsed.error);
         }
       });
 
@@ -63,8 +102,10 @@ class WebSocketManager {
 
       // Send welcome message
       this.sendMessage(clientId, {
-        type: "PROJECT_UPDATE",
-        payload: { message: "Connected to real-time updates" },
+        type: "CONNECTION_ESTABLISHED",
+        clientId,
+        userId: client.userId,
+        epoch: this.epoch,
         operationId: generateOperationId(),
         timestamp: Date.now(),
       });
@@ -76,26 +117,66 @@ class WebSocketManager {
     }, 30000);
   }
 
-  private handleMessage(clientId: string, message: WebSocketMessage) {
+  private handleMessage(clientId: string, message: ClientMessage) {
     const client = this.clients.get(clientId);
     if (!client) return;
 
     switch (message.type) {
-      case "JOIN_PROJECT":
-        const joinPayload = message.payload as { projectId: string };
-        this.joinProject(clientId, joinPayload.projectId);
+      case "JOIN_PROJECT": {
+        const grant = verifyWebSocketToken(message.token, this.secret);
+        // Project grants are issued per user and project by /api/ws/token
+        if (
+          !grant ||
+          grant.sub !== client.userId ||
+          grant.projectId !== message.projectId
+        ) {
+          this.sendError(
+            clientId,
+            "PROJECT_FORBIDDEN",
+            "Not allowed to join project"
+          );
+          break;
+        }
+        this.joinProject(clientId, message.projectId);
         break;
+      }
       case "LEAVE_PROJECT":
-        const leavePayload = message.payload as { projectId: string };
-        this.leaveProject(clientId, leavePayload.projectId);
+        this.leaveProject(clientId, message.projectId);
         break;
       case "SET_USER":
-        const userPayload = message.payload as { userId: string };
-        client.userId = userPayload.userId;
+        // Identity comes from the connection token and can't be overridden
+        break;
+      case "DESCRIPTION_CARET":
+        if (client.projectId !== message.projectId) {
+          this.sendError(
+            clientId,
+            "NOT_IN_PROJECT",
+            `Join project ${message.projectId} before sending carets`
+          );
+          break;
+        }
+        // Carets are shown under the sender's name, so stamp the real one
+        this.broadcastToProject(
+          message.projectId,
+          {
+            ...message,
+            userId: client.userId,
+            timestamp: message.timestamp ?? Date.now(),
+          },
+          client.userId
+        );
+        break;
+      case "RESUME":
+        // No replay buffer here, so a resuming client always refetches
+        this.sendMessage(clientId, {
+          type: "RESYNC_REQUIRED",
+          projectId: message.projectId,
+          seq: 0,
+          epoch: this.epoch,
+          operationId: generateOperationId(),
+          timestamp: Date.now(),
+        });
         break;
-      default:
-        // Forward message to other clients in the same project
-        this.broadcastToProject(client.projectId, message, client.userId);
     }
   }
 
@@ -116,8 +197,10 @@ class WebSocketManager {
     this.projectRooms.get(projectId)!.add(clientId);
 
     this.sendMessage(clientId, {
-      type: "PROJECT_UPDATE",
-      payload: { message: `Joined project ${projectId}` },
+      type: "PROJECT_JOINED",
+      projectId,
+      seq: 0,
+      epoch: this.epoch,
       operationId: generateOperationId(),
       timestamp: Date.now(),
     });
@@ -160,29 +243,32 @@ class WebSocketManager {
     }
   }
 
-  private sendMessage(clientId: string, message: WebSocketMessage) {
+  private sendMessage(clientId: string, message: ServerMessage) {
     const client = this.clients.get(clientId);
     if (client && client.ws.readyState === WebSocket.OPEN) {
       client.ws.send(JSON.stringify(message));
     }
   }
 
-  private sendError(clientId: string, error: string) {
+  private sendError(
+    clientId: string,
+    code: WebSocketErrorCode,
+    error: string
+  ) {
     this.sendMessage(clientId, {
       type: "ERROR",
-      payload: { error },
+      code,
+      error,
       operationId: generateOperationId(),
       timestamp: Date.now(),
     });
   }
 
   private broadcastToProject(
-    projectId: string | undefined,
-    message: WebSocketMessage,
+    projectId: string,
+    message: ServerMessage,
     excludeUserId?: string
   ) {
-    if (!projectId) return;
-
     const room = this.projectRooms.get(projectId);
     if (!room) return;
 
@@ -194,70 +280,14 @@ class WebSocketManager {
     }
   }
 
-  // Public methods for broadcasting updates
-  public broadcastTaskUpdate(
-    projectId: string,
-    update: TaskUpdate,
-    userId?: string
-  ) {
-    const message: WebSocketMessage = {
-      type: "TASK_UPDATE",
-      payload: update,
-      operationId: update.operationId,
-      timestamp: update.timestamp,
-      userId,
-    };
-    this.broadcastToProject(projectId, message, userId);
-  }
-
-  public broadcastTaskCreate(projectId: string, task: ParsedTask) {
-    const message: WebSocketMessage = {
-      type: "TASK_CREATE",
-      payload: task,
-      operationId: generateOperationId(),
-      timestamp: Date.now(),
-    };
-    this.broadcastToProject(projectId, message);
-  }
-
-  public broadcastTaskDelete(projectId: string, taskId: string) {
-    const message: WebSocketMessage = {
-      type: "TASK_DELETE",
-      payload: { taskId },
-      operationId: generateOperationId(),
-      timestamp: Date.now(),
-    };
-    this.broadcastToProject(projectId, message);
-  }
-
-  public broadcastCommentUpdate(projectId: string, update: CommentUpdate) {
-    const message: WebSocketMessage = {
-      type: "COMMENT_UPDATE",
-      payload: update,
-      operationId: update.operationId,
-      timestamp: update.timestamp,
-    };
-    this.broadcastToProject(projectId, message);
-  }
-
-  public broadcastCommentCreate(projectId: string, comment: Comment) {
-    const message: WebSocketMessage = {
-      type: "COMMENT_CREATE",
-      payload: comment,
-      operationId: generateOperationId(),
-      timestamp: Date.now(),
-    };
-    this.broadcastToProject(projectId, message);
-  }
-
-  public broadcastCommentDelete(projectId: string, commentId: string) {
-    const message: WebSocketMessage = {
-      type: "COMMENT_DELETE",
-      payload: { id: commentId },
-      operationId: generateOperationId(),
-      timestamp: Date.now(),
-    };
-    this.broadcastToProject(projectId, message);
+  // Send a room event to a project, like the standalone server's /broadcast.
+  // The sender's own clients already applied the change, so they're skipped.
+  public broadcast(request: BroadcastRequest) {
+    this.broadcastToProject(
+      request.projectId,
+      request,
+      request.userId ?? undefined
+    );
   }
 
   public getConnectedClients(projectId?: string): number {
@@ -0,0 +1,92 @@
+import { Project, TaskStatus, Workflow, WorkflowStatus } from "./types";
+
+// The workflow of projects that haven't defined their own
+export const DEFAULT_WORKFLOW: Workflow = {
+  statuses: [
+    { key: "TODO", label: "To Do", color: "#6b7280", category: "NOT_STARTED" },
+    {
+      key: "IN_PROGRESS",
+      label: "In Progress",
+      color: "#2563eb",
+      category: "ACTIVE",
+    },
+    {
+      key: "IN_REVIEW",
+      label: "In Review",
+      color: "#9333ea",
+      category: "ACTIVE",
+    },
+    { key: "DONE", label: "Done", color: "#16a34a", category: "DONE" },
+    { key: "BLOCKED", label: "Blocked", color: "#dc2626", category: "ACTIVE" },
+  ],
+  transitions: {},
+  blockedStatus: "BLOCKED",
+};
+
+export function getProjectWorkflow(
+  project?: Pick<Project, "workflow"> | null
+): Workflow {
+  return project?.workflow ?? DEFAULT_WORKFLOW;
+}
+
+export function findWorkflowStatus(
+  workflow: Workflow,
+  key: TaskStatus
+): WorkflowStatus | undefined {
+  return workflow.statuses.find((status) => status.key === key);
+}
+
+export function getStatusLabel(workflow: Workflow, key: TaskStatus): string {
+  return findWorkflowStatus(workflow, key)?.label ?? key;
+}
+
+// Unknown statuses count as unfinished
+export function isDoneStatus(workflow: Workflow, key: TaskStatus): boolean {
+  return findWorkflowStatus(workflow, key)?.category === "DONE";
+}
+
+// Whether the status means work on the task hasn't begun; the blocked status
+// counts, since a blocked task waits to be started
+export function isNotStartedStatus(
+  workflow: Workflow,
+  key: TaskStatus
+): boolean {
+  return (
+    key === workflow.blockedStatus ||
+    findWorkflowStatus(workflow, key)?.category === "NOT_STARTED"
+  );
+}
+
+// Status of new and unblocked tasks: the first not-started status other than
+// the blocked one, falling back to the first status
+export function getInitialStatus(workflow: Workflow): TaskStatus {
+  const candidates = workflow.statuses.filter(
+    (status) => status.key !== workflow.blockedStatus
+  );
+  return (
+    candidates.find((status) => status.category === "NOT_STARTED") ??
+    candidates[0] ??
+    workflow.statuses[0]
+  ).key;
+}
+
+export function canTransition(
+  workflow: Workflow,
+  from: TaskStatus,
+  to: TaskStatus
+): boolean {
+  if (from === to) return true;
+  if (!findWorkflowStatus(workflow, to)) return false;
+
+  const allowed = workflow.transitions[from];
+  return allowed === undefined || allowed.includes(to);
+}
+
+// Inline badge colors for a status; custom colors can't be Tailwind classes
+export function getStatusStyle(
+  workflow: Workflow,
+  key: TaskStatus
+): { color: string; backgroundColor: string } {
+  const color = findWorkflowStatus(workflow, key)?.color ?? "#6b7280";
+  return { color, backgroundColor: `${color}1a` };
+}
@@ -0,0 +1,114 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { ProjectRole } from "./types";
+
+// Tokens only need to outlive the WebSocket upgrade or the JOIN_PROJECT
+// round-trip, so keep them short
+export const WS_TOKEN_TTL_SECONDS = 60;
+
+export interface WebSocketTokenClaims {
+  sub: string; // Internal user ID
+  name?: string;
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  projectId?: string; // Set on project grants used by JOIN_PROJECT
+  role?: ProjectRole;
+  iat: number;
+  exp: number;
+}
+
+export type WebSocketTokenInput = Omit<WebSocketTokenClaims, "iat" | "exp">;
+
+export function getWebSocketAuthSecret(): string | null {
+  return process.env.WS_AUTH_SECRET || null;
+}
+
+function base64UrlEncode(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+/**
+ * Sign a compact HS256 JWT that the WebSocket server can verify with the
+ * shared WS_AUTH_SECRET. The format is a plain JWT so either side can be
+ * swapped for a library implementation later.
+ */
+export function signWebSocketToken(
+  claims: WebSocketTokenInput,
+  secret: string,
+  ttlSeconds: number = WS_TOKEN_TTL_SECONDS
+): { token: string; expiresAt: number } {
+  const iat = Math.floor(Date.now() / 1000);
+  const exp = iat + ttlSeconds;
+
+  const header = base64UrlEncode(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64UrlEncode(JSON.stringify({ ...claims, iat, exp }));
+  const signature = sign(`${header}.${payload}`, secret);
+
+  return { token: `${header}.${payload}.${signature}`, expiresAt: exp * 1000 };
+}
+
+// Returns the claims for a valid, unexpired token and null otherwise
+export function verifyWebSocketToken(
+  token: string,
+  secret: string
+): WebSocketTokenClaims | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, "base64url").toString());
+    if (alg !== "HS256") return null;
+
+    const claims = JSON.parse(
+      Buffer.from(payload, "base64url").toString()
+    ) as WebSocketTokenClaims;
+    if (!claims.sub || typeof claims.exp !== "number") return null;
+    if (claims.exp * 1000 <= Date.now()) return null;
+
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+// Headers carried by signed server-to-server /broadcast requests
+export const BROADCAST_TIMESTAMP_HEADER = "x-broadcast-timestamp";
+export const BROADCAST_NONCE_HEADER = "x-broadcast-nonce";
+export const BROADCAST_SIGNATURE_HEADER = "x-broadcast-signature";
+
+export function getBroadcastSecret(): string | null {
+  return process.env.WS_BROADCAST_SECRET || null;
+}
+
+/**
+ * Sign a /broadcast request body. The signature covers the timestamp, a
+ * single-use nonce and the exact body bytes, so the WebSocket server can
+ * reject forged, stale and replayed requests.
+ */
+export function signBroadcastRequest(
+  body: string,
+  secret: string,
+  timestamp: number = Date.now()
+): Record<string, string> {
+  const nonce = randomBytes(16).toString("hex");
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest("hex");
+
+  return {
+    [BROADCAST_TIMESTAMP_HEADER]: String(timestamp),
+    [BROADCAST_NONCE_HEADER]: nonce,
+    [BROADCAST_SIGNATURE_HEADER]: `sha256=${signature}`,
+  };
+}
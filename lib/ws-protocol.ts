@@ -0,0 +1,17 @@
+import { z } from "zod";
+import {
+  BroadcastRequestSchema,
+  ClientMessageSchema,
+  ErrorCodeSchema,
+  ServerMessageSchema,
+} from "@/websocket-server/src/protocol.js";
+
+// The WebSocket message schemas live with the standalone server, which is
+// deployed on its own; the app uses the same file so both ends agree
+export * from "@/websocket-server/src/protocol.js";
+
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+export type BroadcastRequest = z.infer<typeof BroadcastRequestSchema>;
+export type RoomEventType = BroadcastRequest["type"];
+export type WebSocketErrorCode = z.infer<typeof ErrorCodeSchema>;
@@ -5,6 +5,8 @@ const isProtectedRoute = createRouteMatcher([
   "/api/projects(.*)",
   "/api/tasks(.*)",
   "/api/comments(.*)",
+  "/api/ws(.*)",
+  "/api/search(.*)",
 ]);
 
 export default clerkMiddleware((auth, req) => {
@@ -44,6 +44,58 @@ CREATE TRIGGER update_projects_updated_at BEFORE UPDATE ON projects
 CREATE TRIGGER update_tasks_updated_at BEFORE UPDATE ON tasks
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- Full-text search: keep tasks."searchVector" and comments."searchVector" in
+-- sync with their content. The columns and their GIN indexes are created by
+-- `prisma db push`; Prisma can't express the triggers that fill them.
+CREATE OR REPLACE FUNCTION update_task_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW."searchVector" =
+        setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(NEW.configuration->>'description', '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(NEW.configuration->'tags', '[]'::jsonb)), 'B');
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION update_comment_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW."searchVector" = to_tsvector('english', COALESCE(NEW.content, ''));
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_tasks_search_vector ON tasks;
+CREATE TRIGGER update_tasks_search_vector BEFORE INSERT OR UPDATE OF title, configuration ON tasks
+    FOR EACH ROW EXECUTE FUNCTION update_task_search_vector();
+
+DROP TRIGGER IF EXISTS update_comments_search_vector ON comments;
+CREATE TRIGGER update_comments_search_vector BEFORE INSERT OR UPDATE OF content ON comments
+    FOR EACH ROW EXECUTE FUNCTION update_comment_search_vector();
+
+-- Backfill rows that existed before the triggers
+UPDATE tasks SET title = title WHERE "searchVector" IS NULL;
+UPDATE comments SET content = content WHERE "searchVector" IS NULL;
+
+-- The activity log is append-only. The one update allowed is clearing
+-- "actorId" when the acting user is deleted (ON DELETE SET NULL); deleting a
+-- project still removes its log through the foreign key.
+CREATE OR REPLACE FUNCTION prevent_activity_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW."actorId" IS NULL
+        AND to_jsonb(NEW) - 'actorId' = to_jsonb(OLD) - 'actorId' THEN
+        RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'activities are append-only';
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS prevent_activities_update ON activities;
+CREATE TRIGGER prevent_activities_update BEFORE UPDATE ON activities
+    FOR EACH ROW EXECUTE FUNCTION prevent_activity_update();
+
 -- Create a function to handle user creation from Clerk webhook
 CREATE OR REPLACE FUNCTION create_user_from_clerk(
     p_clerk_id TEXT,
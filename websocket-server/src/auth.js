@@ -0,0 +1,119 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Verify an HS256 token issued by the Next.js app's /api/ws/token route.
+// Returns { claims } on success or { error } with a machine-readable code.
+export function verifyToken(token, secret) {
+  if (!token) {
+    return { error: "TOKEN_MISSING" };
+  }
+
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return { error: "TOKEN_INVALID" };
+  }
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(
+    createHmac("sha256", secret)
+      .update(`${header}.${payload}`)
+      .digest("base64url")
+  );
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { error: "TOKEN_INVALID" };
+  }
+
+  let claims;
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, "base64url").toString());
+    if (alg !== "HS256") {
+      return { error: "TOKEN_INVALID" };
+    }
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return { error: "TOKEN_INVALID" };
+  }
+
+  if (!claims.sub || typeof claims.exp !== "number") {
+    return { error: "TOKEN_INVALID" };
+  }
+  if (claims.exp * 1000 <= Date.now()) {
+    return { error: "TOKEN_EXPIRED" };
+  }
+
+  return { claims };
+}
+
+// Extract the token from the `token` query parameter of the upgrade request
+export function getTokenFromRequest(request) {
+  const url = new URL(request.url, "http://localhost");
+  return url.searchParams.get("token");
+}
+
+// Reject /broadcast requests whose timestamp is further than this from now
+export const BROADCAST_MAX_SKEW_MS = 5 * 60 * 1000;
+
+// Remembers nonces for the accepted timestamp window so a captured request
+// can't be replayed while its timestamp is still fresh
+export function createReplayGuard(windowMs = BROADCAST_MAX_SKEW_MS) {
+  const seen = new Map(); // nonce -> expiry
+
+  return {
+    // Returns false if the nonce was already used inside the window
+    check(nonce) {
+      const now = Date.now();
+      seen.forEach((expiresAt, key) => {
+        if (expiresAt <= now) seen.delete(key);
+      });
+
+      if (seen.has(nonce)) return false;
+      // Timestamps may be up to windowMs in the future, so keep nonces long
+      // enough to cover both sides of the skew
+      seen.set(nonce, now + windowMs * 2);
+      return true;
+    },
+    get size() {
+      return seen.size;
+    },
+  };
+}
+
+// Verify the HMAC headers of a /broadcast request against its raw body.
+// Returns null when valid, otherwise a machine-readable error code.
+export function verifyBroadcastSignature(
+  headers,
+  rawBody,
+  secret,
+  replayGuard,
+  maxSkewMs = BROADCAST_MAX_SKEW_MS
+) {
+  const timestamp = headers["x-broadcast-timestamp"];
+  const nonce = headers["x-broadcast-nonce"];
+  const signature = headers["x-broadcast-signature"];
+
+  if (!timestamp || !nonce || !signature) {
+    return "SIGNATURE_MISSING";
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > maxSkewMs) {
+    return "TIMESTAMP_STALE";
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac("sha256", secret)
+      .update(`${timestamp}.${nonce}.${rawBody}`)
+      .digest("hex")}`
+  );
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return "SIGNATURE_INVALID";
+  }
+
+  // Only remember nonces of authentic requests so forged ones can't fill the cache
+  if (!replayGuard.check(nonce)) {
+    return "REPLAY_DETECTED";
+  }
+
+  return null;
+}
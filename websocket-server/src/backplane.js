@@ -0,0 +1,309 @@
+import { randomBytes } from "crypto";
+
+// A backplane connects the instances of the WebSocket server. Everything a
+// project room should receive is published to it, and every instance delivers
+// what it receives to its own sockets. It also holds what the instances have
+// to agree on: the rooms' message sequence and replay buffer, and presence.
+//
+// Both implementations have the same shape:
+//
+//   name, instanceId, epoch
+//   connect(onEnvelope)              start receiving published envelopes
+//   publish(envelope)                deliver to every instance, this one too
+//   appendToLog(projectId, message)  number a message and keep it for replay
+//   getLogInfo(projectId)            { sequence, oldest, size }
+//   readLog(projectId, after)        kept messages with seq > after, in order
+//   setPresence(projectId, users)    this instance's users in a room
+//   getPresence(projectId)           users in a room across live instances
+//   claimEvent(eventId)              true the first time an outbox event is
+//                                    seen, false for a resend
+//   releaseEvent(eventId)            forget a claimed event that could not be
+//                                    delivered, so its resend goes through
+//   close()
+
+// Presence entries not refreshed for this long belong to a dead instance
+export const PRESENCE_TTL_MS = 90 * 1000;
+
+// Outbox event IDs are remembered this long; the relay resends an event
+// right after it failed to mark it delivered, well within this window
+export const EVENT_ID_TTL_MS = 60 * 60 * 1000;
+
+function generateId() {
+  return randomBytes(6).toString("hex");
+}
+
+// Drop stale entries and flatten the per-instance user lists
+function mergePresence(entries, now = Date.now()) {
+  return entries
+    .filter((entry) => now - entry.updatedAt < PRESENCE_TTL_MS)
+    .flatMap((entry) => entry.users);
+}
+
+// State shared by the in-memory backplanes of one process
+export function createMemoryHub() {
+  return {
+    handlers: new Set(),
+    logs: new Map(), // projectId -> { sequence, messages }
+    presence: new Map(), // projectId -> Map of instanceId -> { users, updatedAt }
+    events: new Map(), // outbox eventId -> time first seen
+    epoch: `${Date.now().toString(36)}-${generateId()}`,
+  };
+}
+
+const defaultHub = createMemoryHub();
+
+// Single-process backplane. Instances only share state when they share a hub,
+// so this is for running one instance, or several in one process in tests.
+export function createMemoryBackplane({
+  hub = defaultHub,
+  replayBufferSize = 500,
+} = {}) {
+  const instanceId = generateId();
+  let handler = null;
+
+  return {
+    name: "memory",
+    instanceId,
+    epoch: hub.epoch,
+
+    async connect(onEnvelope) {
+      handler = onEnvelope;
+      hub.handlers.add(onEnvelope);
+    },
+
+    async publish(envelope) {
+      // Each instance gets its own copy, as it would over the wire
+      const data = JSON.stringify(envelope);
+      hub.handlers.forEach((deliver) => deliver(JSON.parse(data)));
+    },
+
+    async appendToLog(projectId, message) {
+      if (!hub.logs.has(projectId)) {
+        hub.logs.set(projectId, { sequence: 0, messages: [] });
+      }
+      const log = hub.logs.get(projectId);
+      log.sequence++;
+
+      const sequenced = { ...message, projectId, seq: log.sequence };
+      log.messages.push(sequenced);
+      if (log.messages.length > replayBufferSize) {
+        log.messages.shift();
+      }
+      return sequenced;
+    },
+
+    async getLogInfo(projectId) {
+      const log = hub.logs.get(projectId);
+      if (!log || log.messages.length === 0) {
+        const sequence = log?.sequence || 0;
+        return { sequence, oldest: sequence + 1, size: 0 };
+      }
+      return {
+        sequence: log.sequence,
+        oldest: log.messages[0].seq,
+        size: log.messages.length,
+      };
+    },
+
+    async readLog(projectId, after) {
+      const log = hub.logs.get(projectId);
+      return log ? log.messages.filter((message) => message.seq > after) : [];
+    },
+
+    async setPresence(projectId, users) {
+      if (!hub.presence.has(projectId)) {
+        hub.presence.set(projectId, new Map());
+      }
+      const room = hub.presence.get(projectId);
+      if (users.length) {
+        room.set(instanceId, { users, updatedAt: Date.now() });
+      } else {
+        room.delete(instanceId);
+        if (room.size === 0) hub.presence.delete(projectId);
+      }
+    },
+
+    async getPresence(projectId) {
+      const room = hub.presence.get(projectId);
+      return room ? mergePresence(Array.from(room.values())) : [];
+    },
+
+    async claimEvent(eventId) {
+      const now = Date.now();
+      // Insertion order is age order, so expired IDs are at the front
+      for (const [id, seenAt] of hub.events) {
+        if (now - seenAt < EVENT_ID_TTL_MS) break;
+        hub.events.delete(id);
+      }
+      if (hub.events.has(eventId)) return false;
+      hub.events.set(eventId, now);
+      return true;
+    },
+
+    async releaseEvent(eventId) {
+      hub.events.delete(eventId);
+    },
+
+    async close() {
+      if (handler) hub.handlers.delete(handler);
+      hub.presence.forEach((room, projectId) => {
+        room.delete(instanceId);
+        if (room.size === 0) hub.presence.delete(projectId);
+      });
+    },
+  };
+}
+
+// Backplane for several instances sharing a Redis server. Envelopes go
+// through one pub/sub channel; room logs are sorted sets scored by sequence
+// number, so messages numbered concurrently on two instances still replay in
+// order.
+export async function createRedisBackplane({
+  url,
+  replayBufferSize = 500,
+  prefix = "ws",
+}) {
+  const { createClient } = await import("redis");
+  const instanceId = generateId();
+  const channel = `${prefix}:envelopes`;
+  const keys = {
+    epoch: `${prefix}:epoch`,
+    sequence: (projectId) => `${prefix}:room:${projectId}:seq`,
+    log: (projectId) => `${prefix}:room:${projectId}:log`,
+    presence: (projectId) => `${prefix}:room:${projectId}:presence`,
+    event: (eventId) => `${prefix}:event:${eventId}`,
+  };
+  // Rooms this instance has presence in, to clear on close
+  const presenceRooms = new Set();
+
+  const client = createClient({ url });
+  const subscriber = client.duplicate();
+  client.on("error", (error) => console.error("❌ Redis error:", error));
+  subscriber.on("error", (error) =>
+    console.error("❌ Redis subscriber error:", error)
+  );
+  await Promise.all([client.connect(), subscriber.connect()]);
+
+  // Sequence numbers live as long as the Redis data does, so the epoch does
+  // too: the first instance sets it and the others pick it up
+  await client.set(keys.epoch, `${Date.now().toString(36)}-${generateId()}`, {
+    NX: true,
+  });
+  const epoch = await client.get(keys.epoch);
+
+  return {
+    name: "redis",
+    instanceId,
+    epoch,
+
+    async connect(onEnvelope) {
+      await subscriber.subscribe(channel, (data) => {
+        try {
+          onEnvelope(JSON.parse(data));
+        } catch (error) {
+          console.error("❌ Invalid envelope from Redis:", error);
+        }
+      });
+    },
+
+    async publish(envelope) {
+      await client.publish(channel, JSON.stringify(envelope));
+    },
+
+    async appendToLog(projectId, message) {
+      const seq = await client.incr(keys.sequence(projectId));
+      const sequenced = { ...message, projectId, seq };
+      await client
+        .multi()
+        .zAdd(keys.log(projectId), {
+          score: seq,
+          value: JSON.stringify(sequenced),
+        })
+        .zRemRangeByRank(keys.log(projectId), 0, -(replayBufferSize + 1))
+        .exec();
+      return sequenced;
+    },
+
+    async getLogInfo(projectId) {
+      const [sequence, size, first] = await Promise.all([
+        client.get(keys.sequence(projectId)),
+        client.zCard(keys.log(projectId)),
+        client.zRangeWithScores(keys.log(projectId), 0, 0),
+      ]);
+      const current = Number(sequence) || 0;
+      return {
+        sequence: current,
+        oldest: first.length ? first[0].score : current + 1,
+        size,
+      };
+    },
+
+    async readLog(projectId, after) {
+      const messages = await client.zRangeByScore(
+        keys.log(projectId),
+        `(${after}`,
+        "+inf"
+      );
+      return messages.map((message) => JSON.parse(message));
+    },
+
+    async setPresence(projectId, users) {
+      if (users.length) {
+        presenceRooms.add(projectId);
+        await client.hSet(
+          keys.presence(projectId),
+          instanceId,
+          JSON.stringify({ users, updatedAt: Date.now() })
+        );
+      } else {
+        presenceRooms.delete(projectId);
+        await client.hDel(keys.presence(projectId), instanceId);
+      }
+    },
+
+    async getPresence(projectId) {
+      const entries = await client.hGetAll(keys.presence(projectId));
+      return mergePresence(
+        Object.values(entries).map((entry) => JSON.parse(entry))
+      );
+    },
+
+    async claimEvent(eventId) {
+      const claimed = await client.set(keys.event(eventId), "1", {
+        NX: true,
+        PX: EVENT_ID_TTL_MS,
+      });
+      return claimed === "OK";
+    },
+
+    async releaseEvent(eventId) {
+      await client.del(keys.event(eventId));
+    },
+
+    async close() {
+      await Promise.all(
+        Array.from(presenceRooms, (projectId) =>
+          client.hDel(keys.presence(projectId), instanceId)
+        )
+      );
+      await Promise.all([subscriber.quit(), client.quit()]);
+    },
+  };
+}
+
+// Pick the backplane from BACKPLANE ("memory" or "redis") and REDIS_URL
+export async function createBackplane(env = process.env) {
+  const replayBufferSize = parseInt(env.REPLAY_BUFFER_SIZE, 10) || 500;
+  const type = env.BACKPLANE || "memory";
+
+  if (type === "redis") {
+    if (!env.REDIS_URL) {
+      throw new Error("REDIS_URL is required when BACKPLANE=redis");
+    }
+    return createRedisBackplane({ url: env.REDIS_URL, replayBufferSize });
+  }
+  if (type !== "memory") {
+    throw new Error(`Unknown BACKPLANE: ${type}`);
+  }
+  return createMemoryBackplane({ replayBufferSize });
+}
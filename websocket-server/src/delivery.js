@@ -0,0 +1,24 @@
+// Deliver an outbox event to its room at most once per event ID. The relay
+// resends an event it could not mark delivered, so an ID that was already
+// delivered is dropped. The claim is released when `deliver` throws, so the
+// relay's retry of an event that never reached the room goes through.
+//
+// Returns false for a duplicate. Events without an ID are always delivered.
+export async function deliverOnce(backplane, eventId, deliver) {
+  if (eventId && !(await backplane.claimEvent(eventId))) return false;
+
+  try {
+    await deliver();
+  } catch (error) {
+    if (eventId) {
+      await backplane.releaseEvent(eventId).catch((releaseError) => {
+        console.error(
+          `Failed to release outbox event ${eventId}:`,
+          releaseError
+        );
+      });
+    }
+    throw error;
+  }
+  return true;
+}
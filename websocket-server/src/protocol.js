@@ -0,0 +1,430 @@
+import { z } from "zod";
+
+// The WebSocket message protocol, shared by this server and the Next.js app
+// (lib/ws-protocol.ts). Every message is discriminated by `type`; both ends
+// validate what they receive against these schemas and drop the rest.
+//
+//   ClientMessageSchema     client → server frames
+//   ServerMessageSchema     server → client frames
+//   BroadcastRequestSchema  /broadcast bodies sent by the outbox relay
+//
+// Room events (tasks, comments, projects, description edits) only enter a
+// room through /broadcast, after the API committed them; clients can't send
+// them.
+
+// Largest frame accepted from a client; carets and room control are small
+export const MAX_CLIENT_MESSAGE_BYTES = 16 * 1024;
+// Largest frame accepted from the server; room events carry whole tasks
+export const MAX_SERVER_MESSAGE_BYTES = 1024 * 1024;
+
+// Codes sent in ERROR messages
+export const ErrorCodeSchema = z.enum([
+  "INVALID_MESSAGE", // Not JSON, or doesn't match its type's schema
+  "MESSAGE_TOO_LARGE",
+  "UNSUPPORTED_MESSAGE", // Unknown type, or one clients may not send
+  "NOT_IN_PROJECT",
+  "PROJECT_FORBIDDEN",
+  "TOKEN_MISSING",
+  "TOKEN_INVALID",
+  "TOKEN_EXPIRED",
+]);
+
+const id = z.string().min(1).max(200);
+const timestamp = z.number().int().nonnegative();
+const sequence = z.number().int().nonnegative();
+
+// Prisma sends null for empty optional columns, the app's types undefined
+const optionalString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined);
+
+// Entities as the API serializes them. Unknown keys are dropped, so a payload
+// never carries more than its type declares.
+const UserSchema = z.object({
+  id,
+  clerkId: z.string(),
+  email: z.string(),
+  firstName: optionalString,
+  lastName: optionalString,
+  imageUrl: optionalString,
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const ChecklistItemSchema = z.object({
+  id,
+  content: z.string(),
+  done: z.boolean(),
+});
+
+const AttachmentSchema = z.object({
+  id,
+  taskId: id,
+  commentId: id.nullable().optional(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number().int(),
+  uploadedBy: id.nullable(),
+  createdAt: z.string(),
+});
+
+export const TaskSchema = z.object({
+  id,
+  projectId: id,
+  title: z.string(),
+  status: z.string(),
+  assignedTo: z.array(z.string()),
+  configuration: z.record(z.unknown()).nullable(),
+  dependencies: z.array(z.string()),
+  startDate: z.string().nullable().optional(),
+  dueDate: z.string().nullable().optional(),
+  estimate: z.number().nullable().optional(),
+  remaining: z.number().nullable().optional(),
+  checklist: z.array(ChecklistItemSchema).optional(),
+  rank: z.string().optional(),
+  attachments: z.array(AttachmentSchema).optional(),
+  version: z.number().int().optional(),
+  descriptionRevision: z.number().int().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const CommentReactionSchema = z.object({
+  emoji: z.string().max(16),
+  userId: id,
+  createdAt: z.string(),
+});
+
+export const CommentSchema = z.object({
+  id,
+  taskId: id,
+  parentId: id.nullable().optional(),
+  content: z.string(),
+  authorId: id,
+  timestamp: z.string(),
+  reactions: z.array(CommentReactionSchema).optional(),
+  author: UserSchema.optional(),
+});
+
+// Projects aren't applied from messages, so only their identity is checked
+const ProjectSchema = z
+  .object({ id, name: z.string(), ownerId: id })
+  .passthrough();
+
+export const DescriptionCaretSchema = z.object({
+  taskId: id,
+  clientId: id,
+  revision: sequence,
+  index: z.number().int().nonnegative().nullable(),
+  selectionEnd: z.number().int().nonnegative().optional(),
+  userId: z.string().optional(),
+  initials: z.string().max(4).optional(),
+});
+
+const DescriptionOperationBroadcastSchema = z.object({
+  taskId: id,
+  revision: sequence,
+  operation: z.array(z.union([z.number().int(), z.string()])),
+  clientId: z.string().nullable(),
+  userId: z.string().nullable(),
+  createdAt: z.string(),
+  projectId: id,
+  configuration: z.record(z.unknown()).nullable(),
+  version: z.number().int().optional(),
+  operationId: z.string(),
+});
+
+// Payloads of the events the API publishes to a project room
+const roomEventPayloads = {
+  TASK_CREATE: TaskSchema,
+  TASK_UPDATE: z.object({
+    id,
+    projectId: id,
+    changes: TaskSchema.partial(),
+    operationId: z.string(),
+    causedBy: z.string().optional(), // operationId of the triggering write
+    timestamp,
+  }),
+  TASK_DELETE: z.object({ taskId: id }),
+  COMMENT_CREATE: CommentSchema,
+  COMMENT_UPDATE: z.object({
+    id,
+    taskId: id,
+    changes: CommentSchema.pick({ content: true }).partial(),
+    operationId: z.string(),
+    timestamp,
+  }),
+  COMMENT_DELETE: z.object({ id, taskId: id }),
+  COMMENT_REACTION: z.object({
+    commentId: id,
+    taskId: id,
+    reactions: z.array(CommentReactionSchema),
+    operationId: z.string(),
+    timestamp,
+  }),
+  PROJECT_UPDATE: z.union([
+    z.object({
+      id,
+      projectId: id,
+      changes: z.record(z.unknown()),
+      operationId: z.string(),
+      timestamp,
+    }),
+    z.object({
+      type: z.literal("PROJECT_CREATE"),
+      payload: ProjectSchema,
+      operationId: z.string(),
+      timestamp,
+    }),
+  ]),
+  PROJECT_DELETE: z.object({ projectId: id }),
+  DESCRIPTION_OP: DescriptionOperationBroadcastSchema,
+};
+
+/**
+ * @template {string} T
+ * @template {z.ZodTypeAny} P
+ * @template {z.ZodRawShape} F
+ * @param {T} type
+ * @param {P} payload
+ * @param {F} fields
+ */
+function roomEvent(type, payload, fields) {
+  return z.object({ type: z.literal(type), payload, ...fields });
+}
+
+/**
+ * One object schema per room event, with the fields every event carries
+ *
+ * @template {z.ZodRawShape} F
+ * @param {F} fields
+ */
+function roomEventSchemas(fields) {
+  const payloads = roomEventPayloads;
+  return [
+    roomEvent("TASK_CREATE", payloads.TASK_CREATE, fields),
+    roomEvent("TASK_UPDATE", payloads.TASK_UPDATE, fields),
+    roomEvent("TASK_DELETE", payloads.TASK_DELETE, fields),
+    roomEvent("COMMENT_CREATE", payloads.COMMENT_CREATE, fields),
+    roomEvent("COMMENT_UPDATE", payloads.COMMENT_UPDATE, fields),
+    roomEvent("COMMENT_DELETE", payloads.COMMENT_DELETE, fields),
+    roomEvent("COMMENT_REACTION", payloads.COMMENT_REACTION, fields),
+    roomEvent("PROJECT_UPDATE", payloads.PROJECT_UPDATE, fields),
+    roomEvent("PROJECT_DELETE", payloads.PROJECT_DELETE, fields),
+    roomEvent("DESCRIPTION_OP", payloads.DESCRIPTION_OP, fields),
+  ];
+}
+
+const clientFields = {
+  operationId: z.string().max(200).optional(),
+  timestamp: timestamp.optional(),
+};
+
+export const ClientMessageSchema = z.discriminatedUnion("type", [
+  // Ignored; the user is identified by the connection token
+  z.object({ type: z.literal("SET_USER"), ...clientFields }).passthrough(),
+  z.object({
+    type: z.literal("JOIN_PROJECT"),
+    projectId: id,
+    token: z.string().max(4096), // Project grant from POST /api/ws/token
+    ...clientFields,
+  }),
+  z.object({
+    type: z.literal("LEAVE_PROJECT"),
+    projectId: id,
+    ...clientFields,
+  }),
+  z.object({
+    type: z.literal("RESUME"),
+    projectId: id,
+    lastSequence: sequence,
+    epoch: z.string().max(200),
+    ...clientFields,
+  }),
+  z.object({
+    type: z.literal("DESCRIPTION_CARET"),
+    projectId: id,
+    payload: DescriptionCaretSchema.omit({ userId: true }),
+    ...clientFields,
+  }),
+]);
+
+const serverFields = {
+  operationId: z.string().optional(),
+  timestamp,
+};
+
+export const ServerMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("CONNECTION_ESTABLISHED"),
+    clientId: z.string(),
+    userId: z.string(),
+    epoch: z.string(),
+    ...serverFields,
+  }),
+  z.object({
+    type: z.literal("PROJECT_JOINED"),
+    projectId: id,
+    seq: sequence,
+    epoch: z.string(),
+    ...serverFields,
+  }),
+  z.object({
+    type: z.literal("RESUMED"),
+    projectId: id,
+    seq: sequence,
+    epoch: z.string(),
+    payload: z.object({ replayed: z.number().int().nonnegative() }),
+    ...serverFields,
+  }),
+  z.object({
+    type: z.literal("RESYNC_REQUIRED"),
+    projectId: id,
+    seq: sequence,
+    epoch: z.string(),
+    ...serverFields,
+  }),
+  z.object({
+    type: z.literal("ACK"),
+    projectId: id,
+    seq: sequence,
+    ...serverFields,
+  }),
+  z.object({
+    type: z.literal("ERROR"),
+    code: ErrorCodeSchema,
+    error: z.string(),
+    ...serverFields,
+  }),
+  z.object({
+    type: z.literal("USER_PRESENCE"),
+    payload: z.object({
+      projectId: id,
+      activeUsers: z.array(
+        z.object({
+          userId: z.string(),
+          clientId: z.string(),
+          joinedAt: timestamp,
+          initials: z.string(),
+        })
+      ),
+      userCount: z.number().int().nonnegative(),
+    }),
+    ...serverFields,
+  }),
+  z.object({
+    type: z.literal("DESCRIPTION_CARET"),
+    projectId: id,
+    payload: DescriptionCaretSchema,
+    userId: z.string(),
+    ...serverFields,
+  }),
+  // Room events are numbered by the room they were broadcast to
+  ...roomEventSchemas({
+    projectId: id,
+    seq: sequence.optional(),
+    userId: z.string().nullish(),
+    ...serverFields,
+  }),
+]);
+
+const [firstBroadcast, ...otherBroadcasts] = roomEventSchemas({
+  projectId: id,
+  operationId: z.string(),
+  timestamp,
+  // Clients ignore events carrying their own user's ID
+  userId: z.string().nullish(),
+  eventId: z.string().optional(), // The outbox event's ID
+});
+
+export const BroadcastRequestSchema = z.discriminatedUnion("type", [
+  firstBroadcast,
+  ...otherBroadcasts,
+]);
+
+function byteLength(data) {
+  return typeof data === "string"
+    ? new TextEncoder().encode(data).length
+    : data.byteLength;
+}
+
+// A readable reason for the first schema violation
+function describeIssue(issue) {
+  const path = issue.path.join(".");
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * @template T
+ * @typedef {{ success: true, message: T }
+ *   | { success: false, code: z.infer<typeof ErrorCodeSchema>, error: string }
+ * } ParseResult
+ */
+
+/**
+ * Validate an already parsed message against a schema. Returns
+ * { success: true, message } or { success: false, code, error }, where code
+ * is an ErrorCodeSchema value.
+ *
+ * @template {z.ZodTypeAny} T
+ * @param {T} schema
+ * @param {unknown} value
+ * @returns {ParseResult<z.output<T>>}
+ */
+export function validateMessage(schema, value) {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { success: true, message: result.data };
+  }
+
+  const [issue] = result.error.issues;
+  return {
+    success: false,
+    code:
+      issue.code === "invalid_union_discriminator"
+        ? "UNSUPPORTED_MESSAGE"
+        : "INVALID_MESSAGE",
+    error:
+      issue.code === "invalid_union_discriminator"
+        ? `Unsupported message type: ${value?.type}`
+        : describeIssue(issue),
+  };
+}
+
+/**
+ * Check a raw frame's size, parse it and validate it, as validateMessage
+ *
+ * @template {z.ZodTypeAny} T
+ * @param {T} schema
+ * @param {string | Buffer} data
+ * @param {number} maxBytes
+ * @returns {ParseResult<z.output<T>>}
+ */
+function parseFrame(schema, data, maxBytes) {
+  if (byteLength(data) > maxBytes) {
+    return {
+      success: false,
+      code: "MESSAGE_TOO_LARGE",
+      error: `Messages are limited to ${maxBytes} bytes`,
+    };
+  }
+
+  let value;
+  try {
+    value = JSON.parse(typeof data === "string" ? data : data.toString());
+  } catch {
+    return { success: false, code: "INVALID_MESSAGE", error: "Invalid JSON" };
+  }
+  return validateMessage(schema, value);
+}
+
+/** @param {string | Buffer} data */
+export function parseClientMessage(data) {
+  return parseFrame(ClientMessageSchema, data, MAX_CLIENT_MESSAGE_BYTES);
+}
+
+/** @param {string | Buffer} data */
+export function parseServerMessage(data) {
+  return parseFrame(ServerMessageSchema, data, MAX_SERVER_MESSAGE_BYTES);
+}
@@ -0,0 +1,44 @@
+// Work out the answer to a client's RESUME from the room log in the
+// backplane. When the log still holds everything after `lastSequence`, the
+// client gets the missed messages followed by RESUMED; otherwise (another
+// epoch, a position the log never reached, or one trimmed from the buffer)
+// it gets RESYNC_REQUIRED and has to refetch.
+//
+// Returns { missed, reply, log }; missed is null when a resync is required.
+export async function resumeFromLog(backplane, projectId, lastSequence, epoch) {
+  const log = await backplane.getLogInfo(projectId);
+
+  if (
+    epoch !== backplane.epoch ||
+    !Number.isInteger(lastSequence) ||
+    lastSequence > log.sequence ||
+    lastSequence < log.oldest - 1
+  ) {
+    return {
+      missed: null,
+      log,
+      reply: {
+        type: "RESYNC_REQUIRED",
+        projectId,
+        seq: log.sequence,
+        epoch: backplane.epoch,
+        timestamp: Date.now(),
+      },
+    };
+  }
+
+  const missed = await backplane.readLog(projectId, lastSequence);
+  return {
+    missed,
+    log,
+    reply: {
+      type: "RESUMED",
+      projectId,
+      // Messages numbered since the log info was read are replayed too
+      seq: Math.max(log.sequence, ...missed.map((message) => message.seq)),
+      epoch: backplane.epoch,
+      payload: { replayed: missed.length },
+      timestamp: Date.now(),
+    },
+  };
+}
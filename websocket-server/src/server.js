@@ -3,6 +3,21 @@ import { WebSocketServer } from "ws";
 import { createServer } from "http";
 import cors from "cors";
 import dotenv from "dotenv";
+import {
+  verifyToken,
+  getTokenFromRequest,
+  createReplayGuard,
+  verifyBroadcastSignature,
+} from "./auth.js";
+import { createBackplane, PRESENCE_TTL_MS } from "./backplane.js";
+import { deliverOnce } from "./delivery.js";
+import { resumeFromLog } from "./resume.js";
+import {
+  BroadcastRequestSchema,
+  MAX_SERVER_MESSAGE_BYTES,
+  parseClientMessage,
+  validateMessage,
+} from "./protocol.js";
 
 // Load environment variables
 dotenv.config();
@@ -11,6 +26,20 @@ const app = express();
 const server = createServer(app);
 const PORT = process.env.PORT || 3001;
 
+// Shared with the Next.js app, which signs connection tokens and project grants
+const WS_AUTH_SECRET = process.env.WS_AUTH_SECRET;
+if (!WS_AUTH_SECRET) {
+  console.error("❌ WS_AUTH_SECRET is not set; refusing to start");
+  process.exit(1);
+}
+
+// Shared with the Next.js app, which signs every /broadcast request
+const WS_BROADCAST_SECRET = process.env.WS_BROADCAST_SECRET;
+if (!WS_BROADCAST_SECRET) {
+  console.error("❌ WS_BROADCAST_SECRET is not set; refusing to start");
+  process.exit(1);
+}
+
 // Middleware
 app.use(
   cors({
@@ -20,25 +49,92 @@ app.use(
     credentials: true,
   })
 );
-app.use(express.json());
+app.use(
+  express.json({
+    // A broadcast becomes one server message, so the same limit applies
+    limit: MAX_SERVER_MESSAGE_BYTES,
+    // Keep the exact bytes for /broadcast signature verification
+    verify: (req, res, buf) => {
+      req.rawBody = buf.toString("utf8");
+    },
+  })
+);
 
 // WebSocket server
 const wss = new WebSocketServer({
   server,
   path: "/ws",
+  // Authenticate during the upgrade so unauthenticated sockets never open
+  verifyClient: ({ req }, done) => {
+    const { claims, error } = verifyToken(
+      getTokenFromRequest(req),
+      WS_AUTH_SECRET
+    );
+    if (error) {
+      console.log(`🚫 Rejected WebSocket upgrade: ${error}`);
+      return done(false, 401, error);
+    }
+    req.auth = claims;
+    done(true);
+  },
 });
 
-// Store client connections and project rooms
+// Store client connections and project rooms. Both only cover this
+// instance's sockets; other instances are reached through the backplane.
 const clients = new Map(); // clientId -> { ws, userId, projectRooms }
 const projectRooms = new Map(); // projectId -> Set of clientIds
 
+// Every message broadcast to a project gets the room's next sequence number
+// and is kept in a bounded replay buffer, so a client that reconnects can
+// RESUME from the last one it saw. Both live in the backplane, shared by all
+// instances, and outlive empty rooms, since the clients that missed messages
+// are the ones that left. Sequence numbers are only meaningful within the
+// backplane's epoch.
+const backplane = await createBackplane();
+
+// Presence and carets are superseded by the next one, so they are neither
+// sequenced nor replayed
+const UNSEQUENCED_MESSAGE_TYPES = new Set([
+  "USER_PRESENCE",
+  "DESCRIPTION_CARET",
+]);
+
+// RESUME outcomes, reported in /stats
+const resumeStats = { resumed: 0, replayed: 0, resyncRequired: 0 };
+
 // Generate unique client ID
 function generateClientId() {
   return `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Send a typed error to a single client
+function sendError(ws, code, error) {
+  if (ws.readyState !== 1) return;
+  ws.send(
+    JSON.stringify({
+      type: "ERROR",
+      code,
+      error,
+      timestamp: Date.now(),
+    })
+  );
+}
+
+// Check a JOIN_PROJECT grant: it must be valid, issued to this client's user
+// and scoped to the requested project
+function verifyProjectGrant(client, projectId, token) {
+  const { claims, error } = verifyToken(token, WS_AUTH_SECRET);
+  if (error) {
+    return error;
+  }
+  if (claims.sub !== client.userId || claims.projectId !== projectId) {
+    return "PROJECT_FORBIDDEN";
+  }
+  return null;
+}
+
 // Join a project room
-function joinProject(clientId, projectId) {
+async function joinProject(clientId, projectId) {
   if (!clients.has(clientId)) {
     console.log(`❌ Cannot join project: client ${clientId} not found`);
     return;
@@ -53,6 +149,20 @@ function joinProject(clientId, projectId) {
   }
   projectRooms.get(projectId).add(clientId);
 
+  // Where the client's sequence starts; a reconnecting client RESUMEs instead
+  const { sequence } = await backplane.getLogInfo(projectId);
+  if (client.ws.readyState === 1) {
+    client.ws.send(
+      JSON.stringify({
+        type: "PROJECT_JOINED",
+        projectId,
+        seq: sequence,
+        epoch: backplane.epoch,
+        timestamp: Date.now(),
+      })
+    );
+  }
+
   console.log(
     `✅ Client ${clientId} (user: ${
       client.userId || "unknown"
@@ -65,11 +175,11 @@ function joinProject(clientId, projectId) {
   );
 
   // Broadcast user presence to all clients in the project
-  broadcastUserPresence(projectId);
+  await broadcastUserPresence(projectId);
 }
 
 // Leave a project room
-function leaveProject(clientId, projectId) {
+async function leaveProject(clientId, projectId) {
   if (!clients.has(clientId)) {
     console.log(`❌ Cannot leave project: client ${clientId} not found`);
     return;
@@ -95,7 +205,7 @@ function leaveProject(clientId, projectId) {
   );
 
   // Broadcast user presence to all remaining clients in the project
-  broadcastUserPresence(projectId);
+  await broadcastUserPresence(projectId);
 }
 
 // Generate initials from user info
@@ -152,13 +262,9 @@ function generateInitials(userInfo, userId) {
   return fallbackInitials;
 }
 
-// Broadcast user presence to all clients in a project
-function broadcastUserPresence(projectId) {
-  if (!projectRooms.has(projectId)) {
-    return;
-  }
-
-  const roomClients = projectRooms.get(projectId);
+// Users connected to this instance in a project room
+function getLocalUsers(projectId) {
+  const roomClients = projectRooms.get(projectId) || new Set();
   const activeUsers = [];
 
   roomClients.forEach((clientId) => {
@@ -184,6 +290,23 @@ function broadcastUserPresence(projectId) {
     }
   });
 
+  return activeUsers;
+}
+
+// Record this instance's users in a project room and have every instance
+// send the room's presence, across all instances, to its clients
+async function broadcastUserPresence(projectId) {
+  await backplane.setPresence(projectId, getLocalUsers(projectId));
+  await backplane.publish({ kind: "presence", projectId });
+}
+
+// Send the presence of a project room to the clients on this instance
+async function deliverUserPresence(projectId) {
+  if (!projectRooms.has(projectId)) {
+    return;
+  }
+
+  const activeUsers = await backplane.getPresence(projectId);
   const presenceMessage = {
     type: "USER_PRESENCE",
     payload: {
@@ -195,7 +318,7 @@ function broadcastUserPresence(projectId) {
     timestamp: Date.now(),
   };
 
-  console.log(`👥 Broadcasting user presence for project ${projectId}:`, {
+  console.log(`👥 Sending user presence for project ${projectId}:`, {
     activeUsers: activeUsers.map((u) => ({
       userId: u.userId,
       clientId: u.clientId,
@@ -204,11 +327,56 @@ function broadcastUserPresence(projectId) {
     userCount: activeUsers.length,
   });
 
-  broadcastToProject(projectId, presenceMessage);
+  deliverToProject(projectId, presenceMessage);
 }
 
-// Broadcast message to all clients in a project
-function broadcastToProject(projectId, message, excludeClientId = null) {
+// Replay what a client missed since `lastSequence`, or tell it to refetch
+// when the buffer no longer reaches back that far
+async function resumeProject(clientId, projectId, lastSequence, epoch) {
+  const client = clients.get(clientId);
+  const { missed, reply, log } = await resumeFromLog(
+    backplane,
+    projectId,
+    lastSequence,
+    epoch
+  );
+
+  if (!missed) {
+    resumeStats.resyncRequired++;
+    console.log(
+      `🔁 Client ${clientId} must resync project ${projectId} (had ${lastSequence}, buffer ${log.oldest}-${log.sequence})`
+    );
+    client.ws.send(JSON.stringify(reply));
+    return;
+  }
+
+  missed.forEach((message) => client.ws.send(JSON.stringify(message)));
+  resumeStats.resumed++;
+  resumeStats.replayed += missed.length;
+  console.log(
+    `🔁 Replayed ${missed.length} messages to client ${clientId} for project ${projectId}`
+  );
+
+  client.ws.send(JSON.stringify(reply));
+}
+
+// Broadcast message to all clients in a project, on every instance
+async function broadcastToProject(projectId, message, excludeClientId = null) {
+  // Sequence even when nobody is in the room, so clients can replay it later
+  if (!UNSEQUENCED_MESSAGE_TYPES.has(message.type)) {
+    message = await backplane.appendToLog(projectId, message);
+  }
+
+  await backplane.publish({
+    kind: "message",
+    projectId,
+    message,
+    excludeClientId,
+  });
+}
+
+// Send a message to the clients in a project room on this instance
+function deliverToProject(projectId, message, excludeClientId = null) {
   if (!projectRooms.has(projectId)) {
     console.log(`❌ No clients in project room ${projectId}`);
     return;
@@ -230,6 +398,18 @@ function broadcastToProject(projectId, message, excludeClientId = null) {
   roomClients.forEach((clientId) => {
     if (excludeClientId && clientId === excludeClientId) {
       console.log(`⏭️  Skipping excluded client ${clientId}`);
+      // The sender still needs the sequence number to see no gap
+      if (message.seq && clients.get(clientId)?.ws.readyState === 1) {
+        clients.get(clientId).ws.send(
+          JSON.stringify({
+            type: "ACK",
+            projectId,
+            seq: message.seq,
+            operationId: message.operationId,
+            timestamp: Date.now(),
+          })
+        );
+      }
       return;
     }
 
@@ -260,17 +440,18 @@ function broadcastToProject(projectId, message, excludeClientId = null) {
 // Handle WebSocket connections
 wss.on("connection", (ws, request) => {
   const clientId = generateClientId();
+  const { sub, name, firstName, lastName, email } = request.auth;
   const client = {
     ws,
-    userId: null,
-    userInfo: null,
+    userId: sub,
+    userInfo: { name, firstName, lastName, email },
     projectRooms: new Set(),
     lastPing: Date.now(),
   };
 
   clients.set(clientId, client);
 
-  console.log(`New WebSocket connection: ${clientId}`);
+  console.log(`New WebSocket connection: ${clientId} (user: ${sub})`);
   console.log(`Total clients: ${clients.size}`);
 
   // Send welcome message
@@ -278,34 +459,36 @@ wss.on("connection", (ws, request) => {
     JSON.stringify({
       type: "CONNECTION_ESTABLISHED",
       clientId,
+      userId: sub,
+      epoch: backplane.epoch,
       timestamp: Date.now(),
     })
   );
 
   // Handle incoming messages
   ws.on("message", (data) => {
-    try {
-      const message = JSON.parse(data.toString());
-      console.log(`📨 RECEIVED from client ${clientId}:`, {
-        type: message.type,
-        projectId: message.projectId,
-        userId: message.userId || client.userId,
-        payload: message.payload
-          ? JSON.stringify(message.payload).substring(0, 100) + "..."
-          : "none",
-        timestamp: new Date().toISOString(),
-      });
-      handleMessage(clientId, message);
-    } catch (error) {
-      console.error(`Error parsing message from ${clientId}:`, error);
-      ws.send(
-        JSON.stringify({
-          type: "ERROR",
-          error: "Invalid message format",
-          timestamp: Date.now(),
-        })
+    const parsed = parseClientMessage(data);
+    if (!parsed.success) {
+      console.log(
+        `🚫 Rejected message from client ${clientId}: ${parsed.code} (${parsed.error})`
       );
+      sendError(ws, parsed.code, parsed.error);
+      return;
     }
+
+    const { message } = parsed;
+    console.log(`📨 RECEIVED from client ${clientId}:`, {
+      type: message.type,
+      projectId: message.projectId,
+      userId: client.userId,
+      payload: message.payload
+        ? JSON.stringify(message.payload).substring(0, 100) + "..."
+        : "none",
+      timestamp: new Date().toISOString(),
+    });
+    handleMessage(clientId, message).catch((error) => {
+      console.error(`Error handling message from ${clientId}:`, error);
+    });
   });
 
   // Handle connection close
@@ -314,7 +497,9 @@ wss.on("connection", (ws, request) => {
 
     // Leave all project rooms
     client.projectRooms.forEach((projectId) => {
-      leaveProject(clientId, projectId);
+      leaveProject(clientId, projectId).catch((error) => {
+        console.error(`Error leaving project ${projectId}:`, error);
+      });
     });
 
     clients.delete(clientId);
@@ -340,167 +525,132 @@ wss.on("connection", (ws, request) => {
   });
 });
 
+// Client messages that act on a room the client must already be in. Room
+// events aren't among them: they only enter a room through /broadcast.
+const ROOM_MESSAGE_TYPES = new Set(["RESUME", "DESCRIPTION_CARET"]);
+
 // Handle different message types
-function handleMessage(clientId, message) {
+async function handleMessage(clientId, message) {
   const client = clients.get(clientId);
   if (!client) return;
 
   console.log(`🔄 PROCESSING message from ${clientId}:`, message.type);
 
+  // Clients may only send carets to, or resume, rooms they were admitted to
+  if (
+    ROOM_MESSAGE_TYPES.has(message.type) &&
+    !client.projectRooms.has(message.projectId)
+  ) {
+    sendError(
+      client.ws,
+      "NOT_IN_PROJECT",
+      `Join project ${message.projectId} before sending ${message.type}`
+    );
+    return;
+  }
+
   switch (message.type) {
     case "SET_USER":
-      client.userId = message.payload?.userId || message.userId;
-      client.userInfo = message.payload?.userInfo || null;
-      console.log(`🔧 SET_USER received from client ${clientId}:`, {
-        userId: client.userId,
-        userInfo: client.userInfo,
-        hasUserInfo: !!client.userInfo,
-        userInfoKeys: client.userInfo ? Object.keys(client.userInfo) : [],
-        userInfoContent: client.userInfo
-          ? {
-              name: client.userInfo.name,
-              firstName: client.userInfo.firstName,
-              lastName: client.userInfo.lastName,
-              email: client.userInfo.email,
-            }
-          : null,
-        timestamp: new Date().toISOString(),
-      });
-
-      // Broadcast user presence for all projects this client is in
-      client.projectRooms.forEach((projectId) => {
-        broadcastUserPresence(projectId);
-      });
-      break;
-
-    case "JOIN_PROJECT":
-      // Set user ID if provided in the message
-      if (message.userId) {
-        client.userId = message.userId;
-        console.log(`Client ${clientId} set user: ${message.userId}`);
-      }
-      joinProject(clientId, message.projectId);
+      // Identity comes from the connection token and can't be overridden
+      console.log(`⏭️  Ignoring SET_USER from client ${clientId}`);
       break;
 
-    case "LEAVE_PROJECT":
-      leaveProject(clientId, message.projectId);
-      break;
-
-    case "TASK_UPDATE":
-      if (message.projectId) {
-        broadcastToProject(
-          message.projectId,
-          {
-            type: "TASK_UPDATE",
-            payload: message.payload,
-            operationId: message.operationId,
-            timestamp: Date.now(),
-          },
-          clientId
-        ); // Exclude sender
-      }
-      break;
-
-    case "TASK_CREATE":
-      if (message.projectId) {
-        broadcastToProject(
-          message.projectId,
-          {
-            type: "TASK_CREATE",
-            payload: message.payload,
-            operationId: message.operationId,
-            timestamp: Date.now(),
-          },
-          clientId
+    case "JOIN_PROJECT": {
+      const grantError = verifyProjectGrant(
+        client,
+        message.projectId,
+        message.token
+      );
+      if (grantError) {
+        console.log(
+          `🚫 Client ${clientId} denied project ${message.projectId}: ${grantError}`
         );
-      }
-      break;
-
-    case "TASK_DELETE":
-      if (message.projectId) {
-        broadcastToProject(
-          message.projectId,
-          {
-            type: "TASK_DELETE",
-            payload: message.payload,
-            operationId: message.operationId,
-            timestamp: Date.now(),
-          },
-          clientId
-        );
-      }
-      break;
-
-    case "COMMENT_CREATE":
-      if (message.projectId) {
-        broadcastToProject(
-          message.projectId,
-          {
-            type: "COMMENT_CREATE",
-            payload: message.payload,
-            operationId: message.operationId,
-            timestamp: Date.now(),
-          },
-          clientId
+        sendError(
+          client.ws,
+          grantError,
+          `Not allowed to join project ${message.projectId}`
         );
+        break;
       }
+      await joinProject(clientId, message.projectId);
       break;
+    }
 
-    case "COMMENT_UPDATE":
-      if (message.projectId) {
-        broadcastToProject(
-          message.projectId,
-          {
-            type: "COMMENT_UPDATE",
-            payload: message.payload,
-            operationId: message.operationId,
-            timestamp: Date.now(),
-          },
-          clientId
-        );
-      }
+    case "LEAVE_PROJECT":
+      await leaveProject(clientId, message.projectId);
       break;
 
-    case "COMMENT_DELETE":
-      if (message.projectId) {
-        broadcastToProject(
-          message.projectId,
-          {
-            type: "COMMENT_DELETE",
-            payload: message.payload,
-            operationId: message.operationId,
-            timestamp: Date.now(),
-          },
-          clientId
-        );
-      }
+    case "RESUME":
+      await resumeProject(
+        clientId,
+        message.projectId,
+        message.lastSequence,
+        message.epoch
+      );
       break;
 
-    case "PROJECT_UPDATE":
-      if (message.projectId) {
-        broadcastToProject(
-          message.projectId,
-          {
-            type: "PROJECT_UPDATE",
-            payload: message.payload,
-            operationId: message.operationId,
-            timestamp: Date.now(),
-          },
-          clientId
-        );
-      }
+    case "DESCRIPTION_CARET":
+      // Carets are shown under the sender's name, so stamp the real one
+      await broadcastToProject(
+        message.projectId,
+        {
+          type: "DESCRIPTION_CARET",
+          projectId: message.projectId,
+          payload: message.payload,
+          userId: client.userId,
+          operationId: message.operationId,
+          timestamp: Date.now(),
+        },
+        clientId
+      );
       break;
+  }
+}
 
-    default:
-      console.log(`Unknown message type: ${message.type}`);
+// Rejected /broadcast requests by error code, reported in /stats
+const broadcastRejections = {
+  SIGNATURE_MISSING: 0,
+  SIGNATURE_INVALID: 0,
+  TIMESTAMP_STALE: 0,
+  REPLAY_DETECTED: 0,
+};
+const broadcastReplayGuard = createReplayGuard();
+
+// Outbox events the relay sent again and were dropped, reported in /stats
+let duplicateBroadcasts = 0;
+
+// Only the Next.js app holds the broadcast secret, so anything unsigned,
+// stale or replayed is rejected before it reaches a project room
+function requireBroadcastSignature(req, res, next) {
+  const code = verifyBroadcastSignature(
+    req.headers,
+    req.rawBody || "",
+    WS_BROADCAST_SECRET,
+    broadcastReplayGuard
+  );
+  if (!code) {
+    return next();
   }
+
+  broadcastRejections[code]++;
+  console.log(`🚫 Rejected broadcast from ${req.ip}: ${code}`);
+  res.status(401).json({
+    error: "Broadcast request rejected",
+    code,
+  });
 }
 
 // Broadcast endpoint for API routes to send messages
-app.post("/broadcast", (req, res) => {
+app.post("/broadcast", requireBroadcastSignature, async (req, res) => {
   try {
-    const { type, payload, projectId, operationId, timestamp, userId } =
-      req.body;
+    const parsed = validateMessage(BroadcastRequestSchema, req.body);
+    if (!parsed.success) {
+      console.log(`❌ Rejected broadcast: ${parsed.code} (${parsed.error})`);
+      return res.status(400).json({ error: parsed.error, code: parsed.code });
+    }
+
+    const { eventId, projectId, ...message } = parsed.message;
+    const { type, payload, operationId, userId } = message;
 
     console.log(`🌐 HTTP BROADCAST received:`, {
       type,
@@ -513,27 +663,20 @@ app.post("/broadcast", (req, res) => {
       timestamp: new Date().toISOString(),
     });
 
-    if (!type || !projectId) {
-      console.log(
-        `❌ Missing required fields: type=${type}, projectId=${projectId}`
-      );
-      return res
-        .status(400)
-        .json({ error: "Missing required fields: type, projectId" });
+    // Broadcast to all clients in the project, unless the relay resent an
+    // event that already reached the room
+    const delivered = await deliverOnce(backplane, eventId, () =>
+      broadcastToProject(projectId, {
+        ...message,
+        userId: userId || null,
+      })
+    );
+    if (!delivered) {
+      duplicateBroadcasts++;
+      console.log(`⏭️  Dropped duplicate outbox event ${eventId}`);
+      return res.json({ success: true, duplicate: true, projectId });
     }
 
-    // Create message object
-    const message = {
-      type,
-      payload,
-      operationId: operationId || `broadcast-${Date.now()}`,
-      timestamp: timestamp || Date.now(),
-      userId: userId || null, // Include userId in the message
-    };
-
-    // Broadcast to all clients in the project
-    broadcastToProject(projectId, message);
-
     res.json({
       success: true,
       message: "Broadcast sent",
@@ -546,6 +689,22 @@ app.post("/broadcast", (req, res) => {
   }
 });
 
+// Bodies express.json() can't read get the same typed errors as invalid ones
+app.use((error, req, res, next) => {
+  if (error.type === "entity.too.large") {
+    return res.status(413).json({
+      error: `Messages are limited to ${MAX_SERVER_MESSAGE_BYTES} bytes`,
+      code: "MESSAGE_TOO_LARGE",
+    });
+  }
+  if (error.type === "entity.parse.failed") {
+    return res
+      .status(400)
+      .json({ error: "Invalid JSON", code: "INVALID_MESSAGE" });
+  }
+  next(error);
+});
+
 // Health check endpoint
 app.get("/health", (req, res) => {
   res.json({
@@ -553,30 +712,88 @@ app.get("/health", (req, res) => {
     timestamp: Date.now(),
     clients: clients.size,
     projects: projectRooms.size,
+    backplane: backplane.name,
+    instanceId: backplane.instanceId,
     uptime: process.uptime(),
   });
 });
 
 // Get server stats
-app.get("/stats", (req, res) => {
+app.get("/stats", async (req, res) => {
   const stats = {
     totalClients: clients.size,
     totalProjects: projectRooms.size,
+    broadcastRejections: {
+      ...broadcastRejections,
+      total: Object.values(broadcastRejections).reduce((a, b) => a + b, 0),
+    },
+    duplicateBroadcasts,
+    backplane: backplane.name,
+    instanceId: backplane.instanceId,
+    epoch: backplane.epoch,
+    resumeStats,
     projectStats: {},
   };
 
-  projectRooms.forEach((clientIds, projectId) => {
-    stats.projectStats[projectId] = {
-      clientCount: clientIds.size,
-      clients: Array.from(clientIds),
-    };
-  });
-
-  res.json(stats);
+  try {
+    for (const [projectId, clientIds] of projectRooms) {
+      const { sequence, size } = await backplane.getLogInfo(projectId);
+      stats.projectStats[projectId] = {
+        clientCount: clientIds.size,
+        clients: Array.from(clientIds),
+        sequence,
+        buffered: size,
+      };
+    }
+    res.json(stats);
+  } catch (error) {
+    console.error("Error in stats endpoint:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
 });
 
+// Deliver what any instance published to the clients on this one
+function handleEnvelope(envelope) {
+  switch (envelope.kind) {
+    case "message":
+      deliverToProject(
+        envelope.projectId,
+        envelope.message,
+        envelope.excludeClientId
+      );
+      break;
+    case "presence":
+      deliverUserPresence(envelope.projectId).catch((error) => {
+        console.error(
+          `Error sending presence for ${envelope.projectId}:`,
+          error
+        );
+      });
+      break;
+    default:
+      console.log(`Unknown envelope kind: ${envelope.kind}`);
+  }
+}
+
+await backplane.connect(handleEnvelope);
+
+// Refresh this instance's presence entries well within their TTL, so only
+// the users of an instance that died without cleaning up expire
+setInterval(() => {
+  projectRooms.forEach((_, projectId) => {
+    backplane
+      .setPresence(projectId, getLocalUsers(projectId))
+      .catch((error) => {
+        console.error(`Error refreshing presence for ${projectId}:`, error);
+      });
+  });
+}, PRESENCE_TTL_MS / 3);
+
 // Start server
 server.listen(PORT, () => {
+  console.log(
+    `🛰️  Backplane: ${backplane.name} (instance ${backplane.instanceId})`
+  );
   console.log(`🚀 WebSocket server running on port ${PORT}`);
   console.log(`📊 Health check: http://localhost:${PORT}/health`);
   console.log(`📈 Stats: http://localhost:${PORT}/stats`);
@@ -597,11 +814,12 @@ process.on("SIGINT", () => {
   // Close WebSocket server
   wss.close(() => {
     console.log("✅ WebSocket server closed");
-    process.exit(0);
+    // Clears this instance's presence for the other instances
+    backplane.close().finally(() => process.exit(0));
   });
 });
 
 process.on("SIGTERM", () => {
   console.log("\n🛑 Received SIGTERM, shutting down gracefully...");
-  process.exit(0);
+  backplane.close().finally(() => process.exit(0));
 });